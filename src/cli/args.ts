@@ -0,0 +1,210 @@
+// Shared argv parsing for the gh-scout CLI.
+// Every subcommand declares its options once; parsing, validation and
+// --help output are all derived from that declaration.
+
+export type OptionValue = string | number | boolean;
+
+export interface OptionSpec {
+  name: string; // long flag without dashes, e.g. "min-hireability"
+  type: "boolean" | "string" | "number";
+  description: string;
+  default?: OptionValue;
+  choices?: string[];
+}
+
+export interface ParsedArgs {
+  positionals: string[];
+  options: Record<string, OptionValue | undefined>;
+}
+
+export interface CommandSpec {
+  name: string;
+  summary: string;
+  usage?: string; // positional part of the usage line, e.g. "<user...>"
+  options: OptionSpec[];
+  run: (args: ParsedArgs) => Promise<void>;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+// Options every command accepts. They are applied before a command module is
+// loaded, because most modules read MONGODB_* from the environment at import time.
+export const GLOBAL_OPTIONS: OptionSpec[] = [
+  {
+    name: "db",
+    type: "string",
+    description:
+      "Database name, a full mongodb:// URI, or file:<path> for the local JSON store",
+  },
+  {
+    name: "config",
+    type: "string",
+    description: "Path to an env file (takes precedence over ./.env)",
+  },
+  {
+    name: "profile",
+    type: "string",
+    description: "Company profile to rate against (overrides COMPANY_PROFILE)",
+  },
+  {
+    name: "cache",
+    type: "string",
+    description: "HTTP response cache mode (overrides HTTP_CACHE)",
+    choices: ["off", "cache", "record", "replay"],
+  },
+  { name: "help", type: "boolean", description: "Show help for this command" },
+];
+
+function coerce(spec: OptionSpec, raw: string): OptionValue {
+  if (spec.type === "number") {
+    const num = Number(raw);
+    if (raw.trim() === "" || isNaN(num)) {
+      throw new CliUsageError(`--${spec.name} expects a number, got "${raw}"`);
+    }
+    return num;
+  }
+  if (spec.choices && !spec.choices.includes(raw)) {
+    throw new CliUsageError(
+      `Invalid value for --${spec.name}: ${raw}. Use ${spec.choices
+        .map((c) => `"${c}"`)
+        .join(" or ")}.`
+    );
+  }
+  return raw;
+}
+
+/**
+ * Parses `--flag`, `--flag value` and `--flag=value` against the given specs.
+ * Unknown flags are rejected so typos don't silently fall back to defaults.
+ */
+export function parseArgs(argv: string[], specs: OptionSpec[]): ParsedArgs {
+  const byName = new Map(specs.map((s) => [s.name, s]));
+  const positionals: string[] = [];
+  const options: Record<string, OptionValue | undefined> = {};
+
+  for (const spec of specs) {
+    if (spec.default !== undefined) options[spec.name] = spec.default;
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h") {
+      options.help = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+    const spec = byName.get(name);
+    if (!spec) throw new CliUsageError(`Unknown option: --${name}`);
+
+    if (spec.type === "boolean") {
+      if (eq !== -1) {
+        throw new CliUsageError(`--${name} is a flag and takes no value`);
+      }
+      options[name] = true;
+      continue;
+    }
+
+    let raw: string | undefined;
+    if (eq !== -1) {
+      raw = arg.slice(eq + 1);
+    } else {
+      raw = argv[i + 1];
+      i++;
+    }
+    if (raw === undefined) {
+      throw new CliUsageError(`--${name} requires a value`);
+    }
+    options[name] = coerce(spec, raw);
+  }
+
+  return { positionals, options };
+}
+
+/**
+ * Splits global options out of argv so they can be applied before the command
+ * is loaded. Everything else is returned untouched for the command's own parser.
+ */
+export interface GlobalOptions {
+  db?: string;
+  config?: string;
+  profile?: string;
+  cache?: string;
+}
+
+export function extractGlobalOptions(argv: string[]): {
+  globals: GlobalOptions;
+  rest: string[];
+} {
+  const globals: GlobalOptions = {};
+  const rest: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const match = arg.match(/^--(db|config|profile|cache)(?:=(.*))?$/);
+    if (!match) {
+      rest.push(arg);
+      continue;
+    }
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) {
+      throw new CliUsageError(`--${match[1]} requires a value`);
+    }
+    const spec = GLOBAL_OPTIONS.find((o) => o.name === match[1]);
+    globals[match[1] as keyof GlobalOptions] = spec
+      ? String(coerce(spec, value))
+      : value;
+  }
+
+  return { globals, rest };
+}
+
+function formatOption(spec: OptionSpec): string {
+  const flag =
+    spec.type === "boolean"
+      ? `--${spec.name}`
+      : `--${spec.name} <${spec.choices ? spec.choices.join("|") : spec.type}>`;
+  const def =
+    spec.default !== undefined && spec.type !== "boolean"
+      ? ` (default: ${spec.default})`
+      : "";
+  return `  ${flag.padEnd(34)} ${spec.description}${def}`;
+}
+
+export function formatCommandHelp(bin: string, command: CommandSpec): string {
+  const lines = [
+    `Usage: ${bin} ${command.name}${command.usage ? ` ${command.usage}` : ""} [options]`,
+    "",
+    command.summary,
+  ];
+  if (command.options.length > 0) {
+    lines.push("", "Options:", ...command.options.map(formatOption));
+  }
+  lines.push("", "Global options:", ...GLOBAL_OPTIONS.map(formatOption));
+  return lines.join("\n");
+}
+
+export function formatGlobalHelp(bin: string, commands: CommandSpec[]): string {
+  const width = Math.max(...commands.map((c) => c.name.length)) + 2;
+  return [
+    `Usage: ${bin} <command> [options]`,
+    "",
+    "Commands:",
+    ...commands.map((c) => `  ${c.name.padEnd(width)} ${c.summary}`),
+    "",
+    "Global options:",
+    ...GLOBAL_OPTIONS.map(formatOption),
+    "",
+    `Run "${bin} <command> --help" for command-specific options.`,
+  ].join("\n");
+}
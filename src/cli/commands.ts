@@ -0,0 +1,700 @@
+import type { DraftChannel } from "../graph-scraper/outreach/drafts.js";
+import type { SheetFormat, SheetScope } from "../graph-scraper/output-gen/export-sheet.js";
+import type { FunnelGrouping } from "../graph-scraper/scripts/outreach.js";
+import type { ReviewFilters } from "../graph-scraper/scripts/review-batch.js";
+import type {
+  OutreachChannel,
+  OutreachStage,
+  RepoInteractionType,
+} from "../graph-scraper/types.js";
+import { CliUsageError, CommandSpec, OptionSpec, ParsedArgs } from "./args.js";
+
+// Command implementations are imported lazily inside run() so that global
+// options (--db, --config, --profile) are applied before any module reads the environment,
+// and so that --help never opens a DB connection or builds API clients.
+
+const scrape: CommandSpec = {
+  name: "scrape",
+  summary:
+    "Run the graph scraper, or scrape + rate a single user when a username is given",
+  usage: "[username]",
+  options: [
+    {
+      name: "fresh",
+      type: "boolean",
+      description:
+        "Single-user mode: re-fetch from GitHub instead of re-rating stored data",
+    },
+    {
+      name: "worker-id",
+      type: "string",
+      description:
+        "Graph mode: id this worker leases users under (default: SCRAPER_WORKER_ID or host-pid)",
+    },
+    {
+      name: "sample-followers",
+      type: "boolean",
+      description:
+        "Graph mode: also queue a pre-screened sample of high scorers' followers",
+    },
+    {
+      name: "repo-contributors",
+      type: "boolean",
+      description: "Graph mode: also queue co-contributors on high scorers' own repos",
+    },
+  ],
+  async run({ positionals, options }) {
+    const [username] = positionals;
+    if (username) {
+      for (const flag of ["sample-followers", "repo-contributors"]) {
+        if (options[flag]) throw new CliUsageError(`--${flag} only applies to graph mode`);
+      }
+      const { scrapeOne } = await import("../graph-scraper/scripts/scrape-one.js");
+      await scrapeOne(username, { fresh: !!options.fresh });
+      return;
+    }
+    if (options.fresh) {
+      throw new CliUsageError("--fresh only applies when scraping a single user");
+    }
+    const { runScraper } = await import("../graph-scraper/core/scraper.js");
+    await runScraper({
+      workerId: options["worker-id"] as string | undefined,
+      sampleFollowers: !!options["sample-followers"],
+      repoContributors: !!options["repo-contributors"],
+    });
+  },
+};
+
+// Candidate filters shared by review and review-ui
+const REVIEW_FILTER_OPTIONS: OptionSpec[] = [
+  { name: "nyc", type: "boolean", description: "Only NYC-based candidates (location = 3)" },
+  {
+    name: "no-linkedin",
+    type: "boolean",
+    description: "Include candidates without a LinkedIn URL",
+  },
+  {
+    name: "require-twitter",
+    type: "boolean",
+    description: "Only candidates with an X/Twitter account",
+  },
+  {
+    name: "min-hireability",
+    type: "number",
+    description: "Minimum hireability tier",
+    default: 1,
+  },
+  {
+    name: "min-startup-exp",
+    type: "number",
+    description: "Minimum startup_experience tier",
+    default: 1,
+  },
+  {
+    name: "min-ai-exp",
+    type: "number",
+    description: "Minimum ai_agent_experience tier",
+    default: 0,
+  },
+];
+
+function reviewFilters(options: ParsedArgs["options"]): ReviewFilters {
+  return {
+    nycOnly: !!options.nyc,
+    noLinkedin: !!options["no-linkedin"],
+    requireTwitter: !!options["require-twitter"],
+    minHireability: options["min-hireability"] as number,
+    minStartupExp: options["min-startup-exp"] as number,
+    minAiExp: options["min-ai-exp"] as number,
+  };
+}
+
+const review: CommandSpec = {
+  name: "review",
+  summary: "Open the top unreviewed profiles in the browser",
+  usage: "[count]",
+  options: REVIEW_FILTER_OPTIONS,
+  async run({ positionals, options }) {
+    const count = parseInt(positionals[0] || "10", 10);
+    if (isNaN(count)) throw new CliUsageError(`Invalid count: ${positionals[0]}`);
+    const { reviewBatch } = await import("../graph-scraper/scripts/review-batch.js");
+    await reviewBatch({ count, ...reviewFilters(options) });
+  },
+};
+
+const reviewUi: CommandSpec = {
+  name: "review-ui",
+  summary: "Serve a local web app for triaging unreviewed candidates",
+  options: [
+    ...REVIEW_FILTER_OPTIONS,
+    { name: "port", type: "number", description: "Port to listen on (localhost only)", default: 4321 },
+  ],
+  async run({ options }) {
+    const { startReviewServer } = await import("../graph-scraper/review-ui/review-server.js");
+    await startReviewServer({ port: options.port as number, filters: reviewFilters(options) });
+  },
+};
+
+const mark: CommandSpec = {
+  name: "mark",
+  summary: "Mark users as reviewed (outreach or discarded)",
+  usage: "<user...>",
+  options: [
+    {
+      name: "status",
+      type: "string",
+      description: "Review status to set",
+      choices: ["outreach", "discarded"],
+    },
+    { name: "note", type: "string", description: "Optional review note" },
+  ],
+  async run({ positionals, options }) {
+    if (positionals.length === 0) throw new CliUsageError("No users given");
+    if (!options.status) throw new CliUsageError("--status is required");
+    const { markReviewed } = await import("../graph-scraper/scripts/mark-reviewed.js");
+    await markReviewed(
+      positionals,
+      options.status as "outreach" | "discarded",
+      options.note as string | undefined
+    );
+  },
+};
+
+const outreach: CommandSpec = {
+  name: "outreach",
+  summary: "Advance candidates through the outreach pipeline",
+  usage: "<user...>",
+  options: [
+    {
+      name: "stage",
+      type: "string",
+      description: "Stage reached (sent again logs a follow-up on another channel)",
+      choices: ["sent", "replied", "interviewing", "offer", "hired", "declined"],
+    },
+    {
+      name: "channel",
+      type: "string",
+      description: "Channel the message went out on (required for sent)",
+      choices: ["linkedin", "x", "email", "other"],
+    },
+    {
+      name: "message",
+      type: "string",
+      description: "Message text that was sent (default: the stored draft for --channel)",
+    },
+    { name: "reason", type: "string", description: "Why it ended (required for declined)" },
+    { name: "date", type: "string", description: "When it happened, YYYY-MM-DD (default: now)" },
+    { name: "note", type: "string", description: "Optional note stored in the history" },
+  ],
+  async run({ positionals, options }) {
+    if (positionals.length === 0) throw new CliUsageError("No users given");
+    if (!options.stage) throw new CliUsageError("--stage is required");
+    const at = options.date ? new Date(options.date as string) : undefined;
+    if (at && isNaN(at.getTime())) {
+      throw new CliUsageError(`Invalid --date: ${options.date}`);
+    }
+    const { recordOutreach } = await import("../graph-scraper/scripts/outreach.js");
+    await recordOutreach(positionals, {
+      stage: options.stage as OutreachStage,
+      channel: options.channel as OutreachChannel | undefined,
+      message: options.message as string | undefined,
+      reason: options.reason as string | undefined,
+      note: options.note as string | undefined,
+      at,
+    });
+  },
+};
+
+const funnel: CommandSpec = {
+  name: "funnel",
+  summary: "Outreach funnel (sent -> replied -> interviewing -> offer -> hired) per group",
+  options: [
+    {
+      name: "by",
+      type: "string",
+      description: "Group candidates by",
+      choices: ["archetype", "depth", "discovery", "channel"],
+      default: "archetype",
+    },
+  ],
+  async run({ options }) {
+    const { outreachFunnel } = await import("../graph-scraper/scripts/outreach.js");
+    await outreachFunnel({ by: options.by as FunnelGrouping });
+  },
+};
+
+const lookup: CommandSpec = {
+  name: "lookup",
+  summary: "Print outreach-ready JSON for a candidate",
+  usage: "<github-username-or-linkedin-slug>",
+  options: [],
+  async run({ positionals }) {
+    if (!positionals[0]) throw new CliUsageError("No username given");
+    const { lookupCandidate } = await import(
+      "../graph-scraper/scripts/lookup-candidate.js"
+    );
+    await lookupCandidate(positionals[0]);
+  },
+};
+
+const draftOutreachCmd: CommandSpec = {
+  name: "draft-outreach",
+  summary: "Draft LinkedIn/X/email messages for a candidate within each channel's length limit",
+  usage: "<github-username-or-linkedin-slug>",
+  options: [
+    {
+      name: "channel",
+      type: "string",
+      description: "Only draft for this channel (default: every channel they're reachable on)",
+      choices: ["linkedin", "x", "email"],
+    },
+    { name: "no-save", type: "boolean", description: "Print drafts without storing them" },
+  ],
+  async run({ positionals, options }) {
+    if (!positionals[0]) throw new CliUsageError("No username given");
+    const { draftOutreach } = await import("../graph-scraper/scripts/draft-outreach.js");
+    await draftOutreach(positionals[0], {
+      channels: options.channel ? [options.channel as DraftChannel] : undefined,
+      save: !options["no-save"],
+    });
+  },
+};
+
+const rerate: CommandSpec = {
+  name: "rerate",
+  summary: "Re-rate processed users with the current criteria",
+  options: [
+    { name: "top", type: "number", description: "Only re-rate the top N users by rating" },
+    {
+      name: "force-refetch-linkedin",
+      type: "boolean",
+      description: "Re-fetch LinkedIn profiles, summaries and company insights",
+    },
+    {
+      name: "scores-only",
+      type: "boolean",
+      description: "Use stored data, only re-verify LinkedIn URLs",
+    },
+    {
+      name: "recompute-weights",
+      type: "boolean",
+      description: "Recompute totals from stored criteriaScores (no API calls)",
+    },
+  ],
+  async run({ options }) {
+    const { reRateUsers } = await import("../graph-scraper/scripts/re-rate-users.js");
+    await reRateUsers({
+      topN: (options.top as number | undefined) ?? null,
+      forceRefetchLinkedin: !!options["force-refetch-linkedin"],
+      scoresOnly: !!options["scores-only"],
+      recomputeWeights: !!options["recompute-weights"],
+    });
+  },
+};
+
+const staleRatings: CommandSpec = {
+  name: "stale-ratings",
+  summary: "List users rated under an older prompt, criteria weights or model",
+  options: [
+    {
+      name: "limit",
+      type: "number",
+      description: "Number of stale users to list",
+      default: 20,
+    },
+  ],
+  async run({ options }) {
+    const { listStaleRatings } = await import(
+      "../graph-scraper/scripts/stale-ratings.js"
+    );
+    await listStaleRatings({ limit: options.limit as number });
+  },
+};
+
+const filterRulesCmd: CommandSpec = {
+  name: "filter-rules",
+  summary: "Dry-run filter rules: count processed and ignored users whose status would flip",
+  options: [
+    {
+      name: "rules",
+      type: "string",
+      description: "JSON file with a filterRules array (default: the active profile's rules)",
+    },
+    {
+      name: "limit",
+      type: "number",
+      description: "Example users listed per rule or reason",
+      default: 5,
+    },
+  ],
+  async run({ options }) {
+    const { dryRunFilterRules } = await import(
+      "../graph-scraper/scripts/filter-rules.js"
+    );
+    await dryRunFilterRules({
+      rulesFile: options.rules as string | undefined,
+      limit: options.limit as number,
+    });
+  },
+};
+
+const evalCmd: CommandSpec = {
+  name: "eval",
+  summary: "Rate the gold-set users from frozen snapshots and report agreement with the labels",
+  options: [
+    {
+      name: "gold",
+      type: "string",
+      description: "Gold set file (default: src/config/gold-sets/<profile>.json)",
+    },
+    {
+      name: "refresh-snapshots",
+      type: "boolean",
+      description: "Re-take every snapshot from the DB instead of reusing frozen ones",
+    },
+    {
+      name: "baseline",
+      type: "string",
+      description: "Eval run file to diff against (default: the latest run)",
+    },
+  ],
+  async run({ options }) {
+    const { runEval } = await import("../graph-scraper/scripts/run-eval.js");
+    await runEval({
+      goldSetPath: options.gold as string | undefined,
+      refreshSnapshots: !!options["refresh-snapshots"],
+      baseline: options.baseline as string | undefined,
+    });
+  },
+};
+
+const fitWeightsCmd: CommandSpec = {
+  name: "fit-weights",
+  summary: "Fit criterion weights to outreach/discarded review decisions",
+  options: [
+    {
+      name: "holdout",
+      type: "number",
+      description: "Fraction of labels held out to measure AUC",
+      default: 0.25,
+    },
+    { name: "l2", type: "number", description: "L2 regularization strength", default: 0.01 },
+    { name: "seed", type: "number", description: "Seed for the train/test split", default: 1 },
+    {
+      name: "emit-profile",
+      type: "string",
+      description: "Write the fitted weights as a new JSON profile with this id",
+    },
+  ],
+  async run({ options }) {
+    const holdout = options.holdout as number;
+    if (!(holdout > 0 && holdout < 1)) {
+      throw new CliUsageError("--holdout must be between 0 and 1");
+    }
+    const { fitWeights } = await import("../graph-scraper/scripts/fit-weights.js");
+    await fitWeights({
+      holdout,
+      l2: options.l2 as number,
+      seed: options.seed as number,
+      emitProfile: options["emit-profile"] as string | undefined,
+    });
+  },
+};
+
+const stats: CommandSpec = {
+  name: "stats",
+  summary: "Print graph statistics (status, depth and rating distributions)",
+  options: [],
+  async run() {
+    const { calculateGraphStats } = await import("../graph-scraper/core/stats.js");
+    await calculateGraphStats();
+  },
+};
+
+const chain: CommandSpec = {
+  name: "chain",
+  summary: "Print the referral chain from a seed to a user",
+  usage: "<user>",
+  options: [],
+  async run({ positionals }) {
+    if (!positionals[0]) throw new CliUsageError("No user given");
+    const { printReferralChain } = await import("../graph-scraper/scripts/seed-report.js");
+    await printReferralChain(positionals[0]);
+  },
+};
+
+const seedYield: CommandSpec = {
+  name: "seed-yield",
+  summary: "Report how many candidates each seed ultimately produced",
+  options: [
+    {
+      name: "min-rating",
+      type: "number",
+      description: "Rating that counts as a candidate",
+      default: 40,
+    },
+    {
+      name: "backfill",
+      type: "boolean",
+      description: "First recompute seed paths from parentRatings (users found before paths were recorded)",
+    },
+  ],
+  async run({ options }) {
+    const { seedYieldReport } = await import("../graph-scraper/scripts/seed-report.js");
+    await seedYieldReport({
+      minRating: options["min-rating"] as number,
+      backfill: !!options.backfill,
+    });
+  },
+};
+
+const repoInteractors: CommandSpec = {
+  name: "repo-interactors",
+  summary: "Queue a repository's stargazers, watchers, forkers and contributors for the scraper",
+  usage: "[owner/repo ...]",
+  options: [
+    {
+      name: "types",
+      type: "string",
+      description: "Comma-separated interaction types (default: all)",
+    },
+    {
+      name: "max-per-type",
+      type: "number",
+      description: "Stop after this many users per repo and interaction type",
+      default: 20000,
+    },
+  ],
+  async run({ positionals, options }) {
+    const { REPO_INTERACTION_TYPES } = await import(
+      "../graph-scraper/core/scraper-helpers/discover-repo-interactors.js"
+    );
+    const types = options.types
+      ? (options.types as string).split(",").map((t) => t.trim())
+      : REPO_INTERACTION_TYPES;
+    const unknown = types.filter((t) => !(REPO_INTERACTION_TYPES as string[]).includes(t));
+    if (unknown.length > 0) {
+      throw new CliUsageError(
+        `Unknown interaction type: ${unknown.join(", ")}. Use ${REPO_INTERACTION_TYPES.join(", ")}`
+      );
+    }
+    const { queueRepoInteractors } = await import(
+      "../graph-scraper/scripts/queue-repo-interactors.js"
+    );
+    await queueRepoInteractors({
+      repos: positionals,
+      types: types as RepoInteractionType[],
+      maxPerType: options["max-per-type"] as number,
+    });
+  },
+};
+
+const orgMembers: CommandSpec = {
+  name: "org-members",
+  summary: "Queue target organizations' public members and top repo contributors for the scraper",
+  usage: "[org ...]",
+  options: [
+    {
+      name: "depth",
+      type: "string",
+      description: "Queue depth: 0 treats them as seeds (no filters), 1 as a seed's connections",
+      choices: ["0", "1"],
+      default: "1",
+    },
+    { name: "priority", type: "number", description: "Queue priority of public members", default: 60 },
+    {
+      name: "contributor-priority",
+      type: "number",
+      description: "Queue priority of top contributors",
+      default: 50,
+    },
+    {
+      name: "max-repos",
+      type: "number",
+      description: "Most starred repos to take contributors from (0 = members only)",
+      default: 10,
+    },
+    {
+      name: "contributors-per-repo",
+      type: "number",
+      description: "Top contributors by commits per repo",
+      default: 10,
+    },
+  ],
+  async run({ positionals, options }) {
+    const { queueOrgMembers } = await import("../graph-scraper/scripts/queue-org-members.js");
+    await queueOrgMembers({
+      orgs: positionals,
+      depth: Number(options.depth) as 0 | 1,
+      priority: options.priority as number,
+      contributorPriority: options["contributor-priority"] as number,
+      maxRepos: options["max-repos"] as number,
+      contributorsPerRepo: options["contributors-per-repo"] as number,
+    });
+  },
+};
+
+const graphScoring: CommandSpec = {
+  name: "graph-scoring",
+  summary: "Recompute and store graph centrality metrics, then print the top users",
+  options: [{ name: "top", type: "number", description: "Users to print per metric", default: 10 }],
+  async run({ options }) {
+    const { calculateGraphScores } = await import("../graph-scraper/core/graph-scoring.js");
+    await calculateGraphScores({ top: options.top as number });
+  },
+};
+
+const profiles: CommandSpec = {
+  name: "profiles",
+  summary: "List and validate the company profiles in the profiles directory",
+  options: [],
+  async run() {
+    const {
+      ACTIVE_PROFILE_ID,
+      DEFAULT_PROFILE_ID,
+      listProfileIds,
+      loadProfile,
+      PROFILES_DIR,
+    } = await import("../config/load-profile.js");
+
+    console.log(`Profiles in ${PROFILES_DIR}:\n`);
+    for (const id of listProfileIds()) {
+      const markers = [
+        id === DEFAULT_PROFILE_ID ? "default" : null,
+        id === ACTIVE_PROFILE_ID ? "active" : null,
+      ].filter(Boolean);
+      try {
+        const profile = await loadProfile(id);
+        console.log(
+          `  ${id.padEnd(20)} ${profile.name} - ${profile.criteria.length} criteria, ${profile.seedProfiles.length} seeds${markers.length ? ` (${markers.join(", ")})` : ""}`
+        );
+      } catch (err: any) {
+        console.log(`  ${id.padEnd(20)} INVALID\n${err.message}`);
+        process.exitCode = 1;
+      }
+    }
+  },
+};
+
+const exportCmd: CommandSpec = {
+  name: "export",
+  summary: "Write the review queue to output/review-queue.txt",
+  options: [
+    { name: "nyc", type: "boolean", description: "Only NYC-based candidates" },
+    {
+      name: "limit",
+      type: "number",
+      description: "Number of profiles to export",
+      default: 200,
+    },
+  ],
+  async run({ options }) {
+    const { exportBestRatedToTxt } = await import(
+      "../graph-scraper/output-gen/best_rated_to_txt.js"
+    );
+    await exportBestRatedToTxt({
+      nycOnly: !!options.nyc,
+      limit: options.limit as number,
+    });
+  },
+};
+
+const exportSheetCmd: CommandSpec = {
+  name: "export-sheet",
+  summary: "Write candidates to CSV/XLSX for Google Sheets or Excel",
+  usage: "[file.csv|file.xlsx]",
+  options: [
+    {
+      name: "layout",
+      type: "string",
+      description: "Column layout: candidates, outreach-sheet, or a JSON layout file",
+      default: "candidates",
+    },
+    {
+      name: "scope",
+      type: "string",
+      description: "Which candidates to include",
+      choices: ["reviewed", "outreach", "rated"],
+      default: "reviewed",
+    },
+    {
+      name: "format",
+      type: "string",
+      description: "File format (default: from the file extension, else csv)",
+      choices: ["csv", "xlsx"],
+    },
+    { name: "limit", type: "number", description: "Only the top N by rating" },
+  ],
+  async run({ positionals, options }) {
+    const { exportSheet } = await import("../graph-scraper/output-gen/export-sheet.js");
+    await exportSheet({
+      out: positionals[0],
+      layout: options.layout as string,
+      scope: options.scope as SheetScope,
+      format: options.format as SheetFormat | undefined,
+      limit: options.limit as number | undefined,
+    });
+  },
+};
+
+const importSheetCmd: CommandSpec = {
+  name: "import-sheet",
+  summary: "Sync review status, notes and outreach stages from a CSV/XLSX sheet",
+  usage: "<file.csv|file.xlsx>",
+  options: [
+    {
+      name: "layout",
+      type: "string",
+      description: "Column layout the sheet uses: candidates, outreach-sheet, or a JSON layout file",
+      default: "candidates",
+    },
+    { name: "dry-run", type: "boolean", description: "Show changes without writing them" },
+  ],
+  async run({ positionals, options }) {
+    if (!positionals[0]) throw new CliUsageError("No file given");
+    const { importSheet } = await import("../graph-scraper/scripts/import-sheet.js");
+    await importSheet(positionals[0], {
+      layout: options.layout as string,
+      dryRun: !!options["dry-run"],
+    });
+  },
+};
+
+const explore: CommandSpec = {
+  name: "explore",
+  summary: "Serve the interactive graph explorer over the users/edges collections",
+  options: [
+    { name: "port", type: "number", description: "Port to listen on (localhost only)", default: 4322 },
+  ],
+  async run({ options }) {
+    const { startGraphExplorer } = await import("../graph-visualizer/graph-explorer-server.js");
+    await startGraphExplorer({ port: options.port as number });
+  },
+};
+
+export const commands: CommandSpec[] = [
+  scrape,
+  review,
+  reviewUi,
+  mark,
+  outreach,
+  funnel,
+  lookup,
+  draftOutreachCmd,
+  rerate,
+  staleRatings,
+  filterRulesCmd,
+  evalCmd,
+  fitWeightsCmd,
+  stats,
+  chain,
+  seedYield,
+  repoInteractors,
+  orgMembers,
+  graphScoring,
+  explore,
+  exportCmd,
+  exportSheetCmd,
+  importSheetCmd,
+  profiles,
+];
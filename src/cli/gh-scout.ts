@@ -0,0 +1,83 @@
+#!/usr/bin/env -S npx tsx
+import dotenv from "dotenv";
+import {
+  CliUsageError,
+  extractGlobalOptions,
+  formatCommandHelp,
+  formatGlobalHelp,
+  GLOBAL_OPTIONS,
+  GlobalOptions,
+  parseArgs,
+} from "./args.js";
+import { commands } from "./commands.js";
+
+const BIN = "gh-scout";
+
+function applyGlobalOptions(globals: GlobalOptions) {
+  if (globals.config) {
+    const result = dotenv.config({ path: globals.config });
+    if (result.error) {
+      throw new CliUsageError(`Could not load config file: ${globals.config}`);
+    }
+  }
+  if (globals.db) {
+    if (globals.db.startsWith("file:")) {
+      process.env.GRAPH_STORE = "file";
+      process.env.GRAPH_STORE_PATH = globals.db.slice("file:".length);
+    } else if (/^mongodb(\+srv)?:\/\//.test(globals.db)) {
+      const url = new URL(globals.db);
+      const pathDb = url.pathname.replace(/^\//, "");
+      if (pathDb) process.env.MONGODB_DB = pathDb;
+      process.env.MONGODB_URI = globals.db;
+    } else {
+      process.env.MONGODB_DB = globals.db;
+    }
+  }
+  if (globals.profile) {
+    process.env.COMPANY_PROFILE = globals.profile;
+  }
+  if (globals.cache) {
+    process.env.HTTP_CACHE = globals.cache;
+  }
+}
+
+async function main() {
+  const { globals, rest } = extractGlobalOptions(process.argv.slice(2));
+  const [commandName, ...commandArgs] = rest;
+
+  if (!commandName || commandName === "--help" || commandName === "-h") {
+    console.log(formatGlobalHelp(BIN, commands));
+    return;
+  }
+
+  const command = commands.find((c) => c.name === commandName);
+  if (!command) {
+    throw new CliUsageError(`Unknown command: ${commandName}`);
+  }
+
+  try {
+    const args = parseArgs(commandArgs, [...command.options, ...GLOBAL_OPTIONS]);
+    if (args.options.help) {
+      console.log(formatCommandHelp(BIN, command));
+      return;
+    }
+    applyGlobalOptions(globals);
+    await command.run(args);
+  } catch (err) {
+    if (err instanceof CliUsageError) {
+      console.error(`${err.message}\n\n${formatCommandHelp(BIN, command)}`);
+      process.exitCode = 1;
+      return;
+    }
+    throw err;
+  }
+}
+
+main().catch((err) => {
+  if (err instanceof CliUsageError) {
+    console.error(`${err.message}\n\n${formatGlobalHelp(BIN, commands)}`);
+  } else {
+    console.error(err);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,203 @@
+// Loads company/role profiles from a directory of profile files.
+// A profile is one role definition (criteria, prompt, seeds, team) that users
+// can be rated against. Profiles can be written as TypeScript/JS modules with a
+// default export, or as plain JSON.
+
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { z } from "zod";
+import { IgnoredReason } from "../graph-scraper/types.js";
+
+dotenv.config();
+
+// Ratings for the default profile are also kept in the legacy top-level fields
+// (rating, criteriaScores, ...), which the crawl and older documents use.
+export const DEFAULT_PROFILE_ID = process.env.DEFAULT_COMPANY_PROFILE || "rogo";
+export const ACTIVE_PROFILE_ID = process.env.COMPANY_PROFILE || DEFAULT_PROFILE_ID;
+
+export const PROFILES_DIR =
+  process.env.COMPANY_PROFILES_DIR ||
+  path.join(path.dirname(fileURLToPath(import.meta.url)), "profiles");
+
+// YAML is deliberately left out: it would need a parser dependency, and JSON
+// covers plain-data profiles. A YAML file gets a clear error instead.
+const PROFILE_EXTENSIONS = [".ts", ".js", ".json"];
+const UNSUPPORTED_EXTENSIONS = [".yaml", ".yml"];
+
+const CriterionSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, "use snake_case criterion keys"),
+  label: z.string(),
+  tiers: z.record(z.coerce.number().int().min(0).max(3), z.string()),
+  weight: z.number().nonnegative().optional(), // Default 1; 0 keeps the criterion informational only.
+});
+
+const OutreachChannelSchema = z.object({
+  // Hard limit checked on every draft (characters, not bytes)
+  maxChars: z.number().int().positive().optional(),
+  // Instructions for this channel, appended to the shared guidelines
+  template: z.string().optional(),
+});
+
+const OutreachConfigSchema = z.object({
+  senderName: z.string(),
+  // Company facts a message may use (funding, product, location)
+  pitch: z.string(),
+  guidelines: z.array(z.string()).default([]),
+  // Messages whose tone drafts should match; sent messages from the DB are added
+  styleExamples: z.array(z.string()).default([]),
+  channels: z
+    .object({
+      linkedin: OutreachChannelSchema,
+      x: OutreachChannelSchema,
+      email: OutreachChannelSchema,
+    })
+    .partial()
+    .default({}),
+});
+
+// Values the filter rules can test, computed from the profile and the last
+// 12 months of contributions (see filters.ts)
+export const FILTER_FIELDS = [
+  "followers",
+  "following",
+  "publicRepos",
+  "accountAgeYears",
+  "profileFields", // bio, company, blog, location, email, X handle filled in
+  "location.bannedCountry",
+  "contributions.total", // calendar + restricted
+  "contributions.activeMonths",
+  "contributions.weekdayShare",
+] as const;
+
+const FilterConditionSchema = z.object({
+  field: z.enum(FILTER_FIELDS),
+  op: z.enum(["<", "<=", ">", ">=", "==", "!="]),
+  value: z.union([z.number(), z.boolean()]),
+});
+
+// A user matching `field op value` (and every `when` condition) is ignored
+// with `reason`. Rules are checked in order; the first match wins.
+export const FilterRuleSchema = FilterConditionSchema.extend({
+  reason: z.nativeEnum(IgnoredReason),
+  when: z.array(FilterConditionSchema).default([]),
+});
+
+// What the scraper filtered on before rules were configurable
+export const DEFAULT_FILTER_RULES: z.input<typeof FilterRuleSchema>[] = [
+  { field: "location.bannedCountry", op: "==", value: true, reason: IgnoredReason.BANNED_COUNTRY },
+  { field: "profileFields", op: "<", value: 1, reason: IgnoredReason.INSUFFICIENT_PROFILE_FIELDS },
+  { field: "contributions.total", op: "<", value: 500, reason: IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS },
+  { field: "contributions.activeMonths", op: "<", value: 8, reason: IgnoredReason.NOT_ACTIVE_ENOUGH_MONTHS },
+  { field: "contributions.weekdayShare", op: ">", value: 0.85, reason: IgnoredReason.WEEKDAY_CODER },
+];
+
+export const CompanyProfileSchema = z
+  .object({
+    // Used as the key under `ratings.<id>` on user documents
+    id: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9-]*$/, "use lowercase letters, digits and dashes"),
+    name: z.string().min(1),
+    description: z.string(),
+    githubOrg: z.string(),
+    engineerArchetypes: z.array(z.string()).min(1),
+    criteria: z.array(CriterionSchema).min(1),
+    teamMembers: z.array(z.string().url()),
+    seedProfiles: z.array(z.string().url()),
+    // Repositories whose interactors `gh-scout repo-interactors` queues
+    seedRepos: z.array(z.string().url()).default([]),
+    // Organizations whose members `gh-scout org-members` queues (logins or GitHub URLs)
+    targetOrgs: z.array(z.string()).default([]),
+    ratingPrompt: z.string().includes("{CRITERIA}", {
+      message: "ratingPrompt must contain the {CRITERIA} placeholder",
+    }),
+    // Filters applied before the expensive LinkedIn/LLM steps (seeds skip them).
+    // Try changes with `gh-scout filter-rules` first.
+    filterRules: z.array(FilterRuleSchema).default(DEFAULT_FILTER_RULES),
+    // Optional human-readable label stored with each rating next to the prompt hash
+    ratingPromptVersion: z.string().optional(),
+    // Settings for `gh-scout draft-outreach`
+    outreach: OutreachConfigSchema.optional(),
+  })
+  .superRefine((profile, ctx) => {
+    const keys = profile.criteria.map((c) => c.key);
+    const duplicate = keys.find((k, i) => keys.indexOf(k) !== i);
+    if (duplicate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["criteria"],
+        message: `Duplicate criterion key: ${duplicate}`,
+      });
+    }
+  });
+
+export type CompanyProfileInput = z.input<typeof CompanyProfileSchema>;
+export type CompanyProfile = z.output<typeof CompanyProfileSchema>;
+export type CriterionDefinition = CompanyProfile["criteria"][number];
+export type OutreachConfig = NonNullable<CompanyProfile["outreach"]>;
+export type FilterField = (typeof FILTER_FIELDS)[number];
+export type FilterCondition = z.output<typeof FilterConditionSchema>;
+export type FilterRule = z.output<typeof FilterRuleSchema>;
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileError";
+  }
+}
+
+/** Profile ids available in the profiles directory (file names without extension). */
+export function listProfileIds(dir = PROFILES_DIR): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const ids = fs
+    .readdirSync(dir)
+    .filter(
+      (f) => PROFILE_EXTENSIONS.includes(path.extname(f)) && !f.endsWith(".d.ts")
+    )
+    .map((f) => path.basename(f, path.extname(f)));
+  return [...new Set(ids)].sort();
+}
+
+export async function loadProfile(
+  id: string,
+  dir = PROFILES_DIR
+): Promise<CompanyProfile> {
+  const file = PROFILE_EXTENSIONS.map((ext) => path.join(dir, id + ext)).find(
+    (f) => fs.existsSync(f)
+  );
+  if (!file) {
+    const unsupported = UNSUPPORTED_EXTENSIONS.map((ext) => path.join(dir, id + ext)).find(
+      (f) => fs.existsSync(f)
+    );
+    if (unsupported) {
+      throw new ProfileError(
+        `YAML profiles aren't supported (${unsupported}). Convert it to ${id}.json or ${id}.ts`
+      );
+    }
+    const available = listProfileIds(dir);
+    throw new ProfileError(
+      `Unknown profile "${id}" in ${dir}. Available: ${available.join(", ") || "none"}`
+    );
+  }
+
+  const raw =
+    path.extname(file) === ".json"
+      ? JSON.parse(fs.readFileSync(file, "utf-8"))
+      : (await import(pathToFileURL(file).href)).default;
+
+  const result = CompanyProfileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new ProfileError(`Invalid profile ${file}:\n${issues}`);
+  }
+  if (result.data.id !== id) {
+    throw new ProfileError(
+      `Profile ${file} declares id "${result.data.id}" - it must match the file name`
+    );
+  }
+  return result.data;
+}
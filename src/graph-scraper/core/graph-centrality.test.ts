@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  eigenvectorCentrality,
+  pageRank,
+  ratedNeighbourDensity,
+  weightedInflow,
+} from "./graph-centrality.js";
+
+const edge = (from: string, to: string) => ({ from, to });
+const sum = (scores: Map<string, number>) => [...scores.values()].reduce((a, b) => a + b, 0);
+
+// a, b and c follow hub; hub follows a
+const STAR = [edge("a", "hub"), edge("b", "hub"), edge("c", "hub"), edge("hub", "a")];
+const STAR_IDS = ["hub", "a", "b", "c"];
+const CYCLE = [edge("a", "b"), edge("b", "c"), edge("c", "a")];
+
+describe("weightedInflow", () => {
+  it("sums the ratings of rated followers", () => {
+    const ratings = new Map([["a", 40], ["b", 10]]);
+    const inflow = weightedInflow(STAR, ratings);
+    expect(inflow.get("hub")).toEqual({ score: 50, count: 2 }); // c is unrated
+    expect(inflow.get("a")).toBeUndefined(); // followed by unrated hub
+  });
+});
+
+describe("pageRank", () => {
+  it("ranks the followed user first and sums to 1", () => {
+    const ranks = pageRank(STAR_IDS, STAR, { tolerance: 1e-9 });
+    expect(sum(ranks)).toBeCloseTo(1, 9);
+    expect(ranks.get("hub")).toBeGreaterThan(ranks.get("a")!);
+    expect(ranks.get("a")).toBeGreaterThan(ranks.get("b")!);
+    expect(ranks.get("b")).toBeCloseTo(ranks.get("c")!, 9);
+  });
+
+  it("splits rank evenly on a cycle", () => {
+    const ranks = pageRank(["a", "b", "c"], CYCLE, { tolerance: 1e-9 });
+    for (const rank of ranks.values()) expect(rank).toBeCloseTo(1 / 3, 6);
+  });
+
+  it("spreads the rank of users who follow no one", () => {
+    // b follows no one; without redistribution the scores would leak below 1
+    const ranks = pageRank(["a", "b"], [edge("a", "b")], { tolerance: 1e-9 });
+    expect(sum(ranks)).toBeCloseTo(1, 9);
+    expect(ranks.get("b")).toBeGreaterThan(ranks.get("a")!);
+  });
+
+  it("converges to the same ranks from a warm start", () => {
+    const cold = pageRank(STAR_IDS, STAR, { tolerance: 1e-12, iterations: 1000 });
+    const initial = new Map([["hub", 0.1], ["a", 0.6], ["b", 0.2], ["c", 0.1]]);
+    const warm = pageRank(STAR_IDS, STAR, { tolerance: 1e-12, iterations: 1000, initial });
+    for (const id of STAR_IDS) expect(warm.get(id)).toBeCloseTo(cold.get(id)!, 8);
+  });
+
+  it("ignores edges to unknown users", () => {
+    const ranks = pageRank(["a", "b", "c"], [...CYCLE, edge("a", "ghost")], { tolerance: 1e-9 });
+    expect([...ranks.keys()]).toEqual(["a", "b", "c"]);
+    for (const rank of ranks.values()) expect(rank).toBeCloseTo(1 / 3, 6);
+  });
+});
+
+describe("eigenvectorCentrality", () => {
+  it("scores the most followed user highest, L2-normalized", () => {
+    const scores = eigenvectorCentrality(STAR_IDS, STAR, { tolerance: 1e-9 });
+    const norm = Math.sqrt([...scores.values()].reduce((a, s) => a + s * s, 0));
+    expect(norm).toBeCloseTo(1, 9);
+    expect(scores.get("hub")).toBeGreaterThan(scores.get("a")!);
+    expect(scores.get("a")).toBeGreaterThan(scores.get("b")!);
+  });
+
+  it("is uniform on a cycle", () => {
+    const scores = eigenvectorCentrality(["a", "b", "c"], CYCLE, { tolerance: 1e-9 });
+    for (const score of scores.values()) expect(score).toBeCloseTo(1 / Math.sqrt(3), 6);
+  });
+
+  it("is zero without edges", () => {
+    expect(eigenvectorCentrality(["a", "b"], [])).toEqual(new Map([["a", 0], ["b", 0]]));
+  });
+
+  it("is empty without users", () => {
+    expect(eigenvectorCentrality([], STAR).size).toBe(0);
+    expect(pageRank([], STAR).size).toBe(0);
+  });
+});
+
+describe("ratedNeighbourDensity", () => {
+  it.each([
+    { name: "followers at or above the bar", id: "hub", want: 2 / 3 }, // a and b, not c at 49
+    { name: "a mutual follow once", id: "a", want: 1 }, // hub both ways
+  ])("counts $name", ({ id, want }) => {
+    const ratings = new Map([["hub", 70], ["a", 60], ["b", 50], ["c", 49]]);
+    expect(ratedNeighbourDensity(STAR, ratings, 50).get(id)).toBeCloseTo(want, 9);
+  });
+
+  it("ignores self-follows and leaves users without neighbours out", () => {
+    const density = ratedNeighbourDensity([edge("a", "a")], new Map([["a", 90]]), 50);
+    expect(density.has("a")).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { GraphEdge } from "./store/graph-store.js";
+
+// Graph scores over the follow edges (from follows to). Shared by the
+// persisted metrics (graph-metrics.ts) and the graph explorer.
+
+/**
+ * Sum of the ratings of everyone following each user, and how many rated
+ * followers contributed.
+ */
+export function weightedInflow(
+  edges: GraphEdge[],
+  ratings: Map<string, number>
+): Map<string, { score: number; count: number }> {
+  const inflow = new Map<string, { score: number; count: number }>();
+  for (const edge of edges) {
+    const followerRating = ratings.get(edge.from);
+    if (followerRating === undefined) continue;
+    const current = inflow.get(edge.to) ?? { score: 0, count: 0 };
+    inflow.set(edge.to, {
+      score: current.score + followerRating,
+      count: current.count + 1,
+    });
+  }
+  return inflow;
+}
+
+export interface PowerIterationOptions {
+  iterations?: number; // upper bound
+  tolerance?: number; // stop once the L1 change between iterations drops below this
+  initial?: Map<string, number>; // warm start, e.g. previously stored scores
+}
+
+// Dense index over the given ids, with incoming/outgoing adjacency lists
+function indexGraph(ids: string[], edges: GraphEdge[]) {
+  const uniqueIds = [...new Set(ids)];
+  const indexOf = new Map(uniqueIds.map((id, i) => [id, i]));
+  const incoming: number[][] = Array.from({ length: uniqueIds.length }, () => []);
+  const outDegree = new Array<number>(uniqueIds.length).fill(0);
+  for (const edge of edges) {
+    const from = indexOf.get(edge.from);
+    const to = indexOf.get(edge.to);
+    if (from === undefined || to === undefined) continue;
+    incoming[to].push(from);
+    outDegree[from]++;
+  }
+  return { uniqueIds, incoming, outDegree };
+}
+
+function startVector(ids: string[], initial: Map<string, number> | undefined) {
+  const fallback = 1 / ids.length;
+  if (!initial) return new Array<number>(ids.length).fill(fallback);
+  const scores = ids.map((id) => initial.get(id) ?? fallback);
+  // An all-zero start never moves; fall back to uniform
+  return scores.some((s) => s > 0) ? scores : scores.map(() => fallback);
+}
+
+const l1Distance = (a: number[], b: number[]) =>
+  a.reduce((sum, x, i) => sum + Math.abs(x - b[i]), 0);
+
+/**
+ * Eigenvector centrality by power iteration on incoming edges, L2-normalized.
+ * Edges to or from ids not in `ids` are ignored.
+ */
+export function eigenvectorCentrality(
+  ids: string[],
+  edges: GraphEdge[],
+  { iterations = 100, tolerance = 0, initial }: PowerIterationOptions = {}
+): Map<string, number> {
+  const { uniqueIds, incoming } = indexGraph(ids, edges);
+  const n = uniqueIds.length;
+  if (n === 0) return new Map();
+
+  // No edges among these users: every score is zero
+  if (!incoming.some((from) => from.length > 0)) {
+    return new Map(uniqueIds.map((id) => [id, 0]));
+  }
+
+  let scores = startVector(uniqueIds, initial);
+  for (let iter = 0; iter < iterations; iter++) {
+    // Iterating x + Ax (same eigenvector as A) converges on cyclic graphs too
+    const next = [...scores];
+    for (let i = 0; i < n; i++) {
+      for (const j of incoming[i]) next[i] += scores[j];
+    }
+    const norm = Math.sqrt(next.reduce((sum, s) => sum + s * s, 0));
+    const normalized = next.map((s) => s / norm);
+    const change = l1Distance(normalized, scores);
+    scores = normalized;
+    if (change < tolerance) break;
+  }
+
+  return new Map(uniqueIds.map((id, i) => [id, scores[i]]));
+}
+
+/**
+ * PageRank over the follow edges (following someone passes rank to them).
+ * Users who follow no one spread their rank evenly. Scores sum to 1.
+ */
+export function pageRank(
+  ids: string[],
+  edges: GraphEdge[],
+  { iterations = 100, tolerance = 0, initial, damping = 0.85 }: PowerIterationOptions & { damping?: number } = {}
+): Map<string, number> {
+  const { uniqueIds, incoming, outDegree } = indexGraph(ids, edges);
+  const n = uniqueIds.length;
+  if (n === 0) return new Map();
+
+  let scores = startVector(uniqueIds, initial);
+  const total = scores.reduce((sum, s) => sum + s, 0);
+  scores = scores.map((s) => s / total);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    let dangling = 0;
+    for (let i = 0; i < n; i++) if (outDegree[i] === 0) dangling += scores[i];
+    const base = (1 - damping) / n + (damping * dangling) / n;
+    const next = new Array<number>(n).fill(base);
+    for (let i = 0; i < n; i++) {
+      for (const j of incoming[i]) next[i] += (damping * scores[j]) / outDegree[j];
+    }
+    const change = l1Distance(next, scores);
+    scores = next;
+    if (change < tolerance) break;
+  }
+
+  return new Map(uniqueIds.map((id, i) => [id, scores[i]]));
+}
+
+/**
+ * Share of each user's neighbours (followers and followees) rated at least
+ * `minRating`. Users without neighbours get 0.
+ */
+export function ratedNeighbourDensity(
+  edges: GraphEdge[],
+  ratings: Map<string, number>,
+  minRating: number
+): Map<string, number> {
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (a === b) return;
+    let set = neighbours.get(a);
+    if (!set) neighbours.set(a, (set = new Set()));
+    set.add(b);
+  };
+  for (const edge of edges) {
+    link(edge.from, edge.to);
+    link(edge.to, edge.from);
+  }
+
+  const density = new Map<string, number>();
+  for (const [id, set] of neighbours) {
+    let rated = 0;
+    for (const other of set) if ((ratings.get(other) ?? -Infinity) >= minRating) rated++;
+    density.set(id, rated / set.size);
+  }
+  return density;
+}
@@ -0,0 +1,74 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { toProfileRatingUpdate } from "../../config/company.js";
+import { updateGraphMetrics } from "./graph-metrics.js";
+import { FileGraphStore } from "./store/file-graph-store.js";
+
+// a and b follow hub; c follows a
+const EDGES = [
+  { from: "a", to: "hub" },
+  { from: "b", to: "hub" },
+  { from: "c", to: "a" },
+];
+
+describe("updateGraphMetrics", () => {
+  let tmpDir: string;
+  let store: FileGraphStore;
+
+  const rate = (username: string, rating: number) =>
+    store.updateUser(username, toProfileRatingUpdate({ rating }));
+  const metrics = async (username: string) => (await store.getUser(username))!.graphMetrics!;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gh-scout-test-"));
+    store = new FileGraphStore(path.join(tmpDir, "graph.json"));
+    await store.init();
+    await store.insertUsersIfMissing(
+      ["hub", "a", "b", "c"].map((_id) => ({ _id, status: "processed" as const, depth: 1 }))
+    );
+    await store.addEdges(EDGES);
+    await rate("a", 60);
+    await rate("b", 40);
+    await updateGraphMetrics(store, { force: true });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("stores metrics for every user", async () => {
+    expect(await metrics("hub")).toMatchObject({ inflow: 100, inflowCount: 2, ratedNeighbourDensity: 0.5 });
+    expect((await metrics("hub")).centrality).toBe(100);
+    expect(await metrics("c")).toMatchObject({ inflow: 0, inflowCount: 0, ratedNeighbourDensity: 1 });
+  });
+
+  it("skips a run when nothing changed", async () => {
+    expect(await updateGraphMetrics(store)).toMatchObject({ skipped: true, updated: 0 });
+  });
+
+  it("refreshes the neighbours of rerated users", async () => {
+    const before = await metrics("hub");
+    await rate("b", 70);
+
+    const summary = await updateGraphMetrics(store);
+    expect(summary).toMatchObject({ skipped: false, users: 1, updated: 1 }); // hub only
+    const after = await metrics("hub");
+    expect(after).toMatchObject({ inflow: 130, inflowCount: 2, ratedNeighbourDensity: 1 });
+    expect(after.pageRank).toBe(before.pageRank);
+    expect(after.eigenvector).toBe(before.eigenvector);
+  });
+
+  it("recomputes everything after new edges", async () => {
+    const before = await metrics("a");
+    await store.addEdges([{ from: "b", to: "a" }]);
+
+    const summary = await updateGraphMetrics(store);
+    expect(summary).toMatchObject({ skipped: false, users: 4, edges: 4 });
+    const after = await metrics("a");
+    expect(after).toMatchObject({ inflow: 40, inflowCount: 1 });
+    expect(after.pageRank).toBeGreaterThan(before.pageRank);
+  });
+});
@@ -0,0 +1,210 @@
+import { companyConfig, getProfileRating, ratingField } from "../../config/company.js";
+import { GraphMetrics } from "../types.js";
+import {
+  eigenvectorCentrality,
+  pageRank,
+  ratedNeighbourDensity,
+  weightedInflow,
+} from "./graph-centrality.js";
+import { GraphEdge, GraphStore } from "./store/graph-store.js";
+
+export const DENSITY_MIN_RATING = 50; // same bar as the queue's MIN_BEST_PARENT_RATING
+
+const TOLERANCE = 1e-6; // L1 convergence for the power iterations
+const MAX_ITERATIONS = 100;
+const RELATIVE_CHANGE = 1e-3; // smaller changes to eigenvector/pageRank aren't written
+const NEGLIGIBLE = 1e-9; // nor changes between near-zero scores
+const CENTRALITY_CHANGE = 0.05;
+const DENSITY_CHANGE = 1e-3;
+
+export interface GraphMetricsSummary {
+  users: number; // users whose metrics were recomputed
+  edges: number;
+  updated: number;
+  skipped: boolean; // nothing changed since the last run in this process
+  ms: number;
+}
+
+// What the last run in this process computed from. Users and edges are only
+// ever added, so unchanged counts mean an unchanged graph.
+interface MetricsInputs {
+  profile: string;
+  userCount: number;
+  edgeCount: number;
+  ratings: Map<string, number>;
+}
+let lastInputs: MetricsInputs | null = null;
+
+const relativelyChanged = (a: number, b: number) =>
+  Math.abs(a - b) > Math.max(RELATIVE_CHANGE * Math.max(Math.abs(a), Math.abs(b)), NEGLIGIBLE);
+
+function changed(previous: GraphMetrics | undefined, next: Omit<GraphMetrics, "updatedAt">) {
+  if (!previous || previous.profile !== next.profile) return true;
+  return (
+    previous.inflow !== next.inflow ||
+    previous.inflowCount !== next.inflowCount ||
+    relativelyChanged(previous.eigenvector, next.eigenvector) ||
+    relativelyChanged(previous.pageRank, next.pageRank) ||
+    Math.abs(previous.centrality - next.centrality) > CENTRALITY_CHANGE ||
+    Math.abs(previous.ratedNeighbourDensity - next.ratedNeighbourDensity) > DENSITY_CHANGE
+  );
+}
+
+async function loadRatings(store: GraphStore): Promise<Map<string, number>> {
+  const rated = await store.findUsers(
+    { [ratingField("rating")]: { $exists: true } },
+    { projection: { _id: 1, [ratingField("rating")]: 1 } }
+  );
+  const ratings = new Map<string, number>();
+  for (const user of rated) {
+    const rating = getProfileRating(user).rating;
+    if (typeof rating === "number") ratings.set(user._id, rating);
+  }
+  return ratings;
+}
+
+function changedRatings(previous: Map<string, number>, current: Map<string, number>): string[] {
+  const ids = new Set([...previous.keys(), ...current.keys()]);
+  return [...ids].filter((id) => previous.get(id) !== current.get(id));
+}
+
+async function edgesAround(store: GraphStore, ids: string[]): Promise<GraphEdge[]> {
+  const [outgoing, incoming] = await Promise.all([
+    store.findEdges({ from: ids }),
+    store.findEdges({ to: ids }),
+  ]);
+  return [...outgoing, ...incoming];
+}
+
+// Every metric for every user; the power iterations start from the stored scores
+async function refreshAll(store: GraphStore, ratings: Map<string, number>) {
+  const users = await store.findUsers({}, { projection: { _id: 1, graphMetrics: 1 } });
+  const edges = await store.findEdges({});
+
+  const ids = users.map((u) => u._id);
+  const previousEigenvector = new Map<string, number>();
+  const previousPageRank = new Map<string, number>();
+  for (const user of users) {
+    if (user.graphMetrics) {
+      previousEigenvector.set(user._id, user.graphMetrics.eigenvector);
+      previousPageRank.set(user._id, user.graphMetrics.pageRank);
+    }
+  }
+
+  const inflow = weightedInflow(edges, ratings);
+  const density = ratedNeighbourDensity(edges, ratings, DENSITY_MIN_RATING);
+  const iteration = { iterations: MAX_ITERATIONS, tolerance: TOLERANCE };
+  const eigenvector = eigenvectorCentrality(ids, edges, { ...iteration, initial: previousEigenvector });
+  const ranks = pageRank(ids, edges, { ...iteration, initial: previousPageRank });
+  let maxRank = 0;
+  for (const rank of ranks.values()) maxRank = Math.max(maxRank, rank);
+
+  const updatedAt = new Date();
+  const updates: Array<{ _id: string; fields: Record<string, any> }> = [];
+  for (const user of users) {
+    const rank = ranks.get(user._id) ?? 0;
+    const next = {
+      profile: companyConfig.id,
+      inflow: inflow.get(user._id)?.score ?? 0,
+      inflowCount: inflow.get(user._id)?.count ?? 0,
+      eigenvector: eigenvector.get(user._id) ?? 0,
+      pageRank: rank,
+      centrality: maxRank > 0 ? (100 * rank) / maxRank : 0,
+      ratedNeighbourDensity: density.get(user._id) ?? 0,
+    };
+    if (changed(user.graphMetrics, next)) {
+      updates.push({ _id: user._id, fields: { graphMetrics: { ...next, updatedAt } } });
+    }
+  }
+  const updated = updates.length > 0 ? await store.updateUsersById(updates) : 0;
+  return { users: users.length, updated };
+}
+
+// Ratings only feed inflow and density, and only those of the rerated users'
+// neighbours: recompute just those, over the edges around them
+async function refreshNeighbours(
+  store: GraphStore,
+  rerated: string[],
+  ratings: Map<string, number>
+) {
+  const reratedIds = new Set(rerated);
+  const neighbours = new Set<string>();
+  for (const edge of await edgesAround(store, rerated)) {
+    if (reratedIds.has(edge.from)) neighbours.add(edge.to);
+    if (reratedIds.has(edge.to)) neighbours.add(edge.from);
+  }
+  if (neighbours.size === 0) return { users: 0, updated: 0 };
+
+  const ids = [...neighbours];
+  const edges = await edgesAround(store, ids);
+  const inflow = weightedInflow(edges, ratings);
+  const density = ratedNeighbourDensity(edges, ratings, DENSITY_MIN_RATING);
+  const users = await store.findUsers(
+    { _id: { $in: ids } },
+    { projection: { _id: 1, graphMetrics: 1 } }
+  );
+
+  const updatedAt = new Date();
+  const updates: Array<{ _id: string; fields: Record<string, any> }> = [];
+  for (const user of users) {
+    if (!user.graphMetrics) continue; // picked up by the next full refresh
+    const next = {
+      ...user.graphMetrics,
+      inflow: inflow.get(user._id)?.score ?? 0,
+      inflowCount: inflow.get(user._id)?.count ?? 0,
+      ratedNeighbourDensity: density.get(user._id) ?? 0,
+    };
+    if (changed(user.graphMetrics, next)) {
+      updates.push({ _id: user._id, fields: { graphMetrics: { ...next, updatedAt } } });
+    }
+  }
+  const updated = updates.length > 0 ? await store.updateUsersById(updates) : 0;
+  return { users: users.length, updated };
+}
+
+/**
+ * Recomputes inflow, eigenvector centrality, PageRank and rated-neighbour
+ * density and stores them as `graphMetrics`, writing only users whose metrics
+ * moved. Incremental between runs in the same process:
+ * - nothing changed: the run is skipped
+ * - only ratings changed (e.g. a rerate): inflow and density are recomputed
+ *   for the rerated users' neighbours; PageRank and eigenvector don't depend
+ *   on ratings
+ * - new users or edges: everything is recomputed, the power iterations
+ *   starting from the stored scores (a few new edges converge in a handful
+ *   of iterations)
+ * `force` always recomputes everything.
+ */
+export async function updateGraphMetrics(
+  store: GraphStore,
+  { force = false }: { force?: boolean } = {}
+): Promise<GraphMetricsSummary> {
+  const started = Date.now();
+  const [userCount, edgeCount, ratings] = await Promise.all([
+    store.countUsers(),
+    store.countEdges(),
+    loadRatings(store),
+  ]);
+  const inputs: MetricsInputs = { profile: companyConfig.id, userCount, edgeCount, ratings };
+  const previous = lastInputs;
+  const sameGraph =
+    !force &&
+    previous !== null &&
+    previous.profile === inputs.profile &&
+    previous.userCount === userCount &&
+    previous.edgeCount === edgeCount;
+
+  let summary: { users: number; updated: number };
+  if (sameGraph) {
+    const rerated = changedRatings(previous.ratings, ratings);
+    if (rerated.length === 0) {
+      return { users: 0, edges: edgeCount, updated: 0, skipped: true, ms: Date.now() - started };
+    }
+    summary = await refreshNeighbours(store, rerated, ratings);
+  } else {
+    summary = await refreshAll(store, ratings);
+  }
+
+  lastInputs = inputs;
+  return { ...summary, edges: edgeCount, skipped: false, ms: Date.now() - started };
+}
@@ -1,23 +1,26 @@
-import { Octokit } from "@octokit/core";
 import { config } from "dotenv";
+import { createHash } from "crypto";
 import fs from "fs";
 import { MongoClient } from "mongodb";
 import path from "path";
 import { zodResponseFormat } from "openai/helpers/zod";
 import { z } from "zod";
-import { companyConfig, computeTotalScore } from "../../config/company.js";
+import {
+  companyConfig,
+  computeCriteriaHash,
+  computeTotalScore,
+  ratingField,
+  toProfileRatingUpdate,
+} from "../../config/company.js";
 import { UserData } from "../../types.js";
 import { fetchRecentRepositories } from "../../utils/profile-data-fetchers.js";
-import { DbGraphUser } from "../types.js";
-import openai from "./openai.js";
+import { DbGraphUser, RatingProvenance } from "../types.js";
+import { getLlm, getLlmConfig } from "./llm/llm-registry.js";
+import { getProvider } from "./providers/providers.js";
 import { FOUNDER_TITLE_KEYWORDS } from "./scraper-helpers/linkedin-research.js";
 
 config();
 
-const octokit = new Octokit({
-  auth: process.env.GITHUB_ACCESS_TOKEN,
-});
-
 const getUserName = (user: UserData) =>
   `${user.name || user.login} ${user.xName ? `(${user.xName})` : ""}`;
 
@@ -57,6 +60,37 @@ function formatRelativeTime(
   }
 }
 
+const TREND_LABELS = {
+  ramping: "ramping up",
+  steady: "steady",
+  fading: "fading",
+  new: "new or returning",
+} as const;
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// One line of multi-year activity, e.g. "2022: 310, 2023: 890, 2024: 1,450 (ramping up, ...)"
+function formatContributionTimeline(user: UserData): string | null {
+  const timeline = user.contributionTimeline;
+  if (!timeline || timeline.years.length === 0) return null;
+  const years = timeline.years
+    .map((y) => `${y.year}: ${y.total.toLocaleString("en-US")}`)
+    .join(", ");
+  const details = [
+    `${TREND_LABELS[timeline.trend]}${
+      timeline.trendRatio != null ? ` (${timeline.trendRatio}x the two years before)` : ""
+    }`,
+    `longest streak ${timeline.longestStreak} days`,
+    timeline.nightShare != null
+      ? `${percent(timeline.nightShare)} of recent activity at night (${timeline.timezone})`
+      : null,
+    timeline.weekendShare != null
+      ? `${percent(timeline.weekendShare)} on weekends (${timeline.timezone})`
+      : null,
+  ].filter(Boolean);
+  return `${years} (${details.join(", ")})`;
+}
+
 export const EngineerArchetypes = companyConfig.engineerArchetypes;
 
 // Function to format the dynamic part of the prompt for a user
@@ -113,7 +147,9 @@ const formatEngineerInQuestion = (
   ].filter(Boolean);
 
   // Group technical information together
+  const timelineText = formatContributionTimeline(user);
   const technicalSections = [
+    timelineText ? `Contributions by Year: ${timelineText}` : null,
     reposText ? `Recent Repos:\n${reposText}` : null,
     user.linkedinExperienceSummary
       ? `Linkedin Summary:\n${user.linkedinExperienceSummary}`
@@ -211,18 +247,65 @@ function buildRatingSchema() {
 }
 
 const RatingResponseSchema = buildRatingSchema();
+const RatingResponseFormat = zodResponseFormat(
+  RatingResponseSchema,
+  "engineer_rating"
+);
+
+// Bump when formatEngineerInQuestion adds, drops or rewords a line, so the
+// prompt hash tells ratings made with the old and new input apart.
+// 2: "Contributions by Year" timeline
+// 3: weekend share in local time
+const ENGINEER_TEMPLATE_VERSION = 3;
+
+// Everything the LLM is told except the engineer's data: the filled-in prompt,
+// the structured output schema (criterion labels end up in its descriptions)
+// and the version of the engineer template
+const RATING_PROMPT_HASH = createHash("sha256")
+  .update(RatingPrompt)
+  .update(JSON.stringify(RatingResponseFormat.json_schema))
+  .update(`engineer-template-v${ENGINEER_TEMPLATE_VERSION}`)
+  .digest("hex")
+  .slice(0, 12);
+
+/** Provenance that a rating made right now would get (without token usage). */
+export function currentRatingVersion(): Omit<RatingProvenance, "usage"> {
+  const { provider, model } = getLlmConfig("rating");
+  return {
+    promptHash: RATING_PROMPT_HASH,
+    promptVersion: companyConfig.ratingPromptVersion,
+    criteriaHash: computeCriteriaHash(),
+    provider,
+    model,
+  };
+}
+
+/** Current role info from LinkedIn, for the stagnation bonus. */
+export function getFounderContext(user: Pick<UserData, "linkedinExperience">) {
+  const currentExp = user.linkedinExperience?.experiences?.find(
+    (e) => e.is_current
+  );
+  return {
+    founderStartYear: currentExp?.start_year || null,
+    isFounder: currentExp
+      ? FOUNDER_TITLE_KEYWORDS.some((kw) => currentExp.title.toLowerCase().includes(kw))
+      : false,
+  };
+}
 
 interface WebResearchResult {
   promptText: string;
   researchResult: string | null;
 }
 
+export interface WebResearchInfo {
+  openAI: WebResearchResult;
+  gemini: WebResearchResult | null;
+}
+
 export async function rateUserV3(
   user: UserData,
-  webResearchInfo: {
-    openAI: WebResearchResult;
-    gemini: WebResearchResult | null;
-  }
+  webResearchInfo: WebResearchInfo
 ): Promise<{
   reasoning: string | undefined;
   score: number;
@@ -234,6 +317,7 @@ export async function rateUserV3(
   webResearchInfoGemini?: string;
   webResearchPromptText: string;
   ratedAt: Date;
+  provenance: RatingProvenance;
 }> {
   // Generate the dynamic part of the prompt
   const engineerInQuestionContent = formatEngineerInQuestion(
@@ -260,15 +344,29 @@ export async function rateUserV3(
     } at ${new Date().toISOString()} ===\n${"=".repeat(80)}\n${ratingPromptContent}\n`
   );
 
-  console.log(`[${user.login}] Sending rating prompt to OpenAI...`);
-  const ratingResult = await openai.beta.chat.completions.parse({
-    model: "gpt-4.1",
-    messages: [{ role: "user", content: ratingPromptContent }],
-    response_format: zodResponseFormat(RatingResponseSchema, "engineer_rating"),
-  });
-  console.log(`[${user.login}] Received rating from OpenAI.`);
+  const llm = getLlm("rating");
+  console.log(`[${user.login}] Sending rating prompt to ${llm.provider} (${llm.model})...`);
+  const ratingResult = await llm.completeStructured(
+    ratingPromptContent,
+    RatingResponseSchema,
+    RatingResponseFormat.json_schema.name
+  );
+  console.log(`[${user.login}] Received rating from ${llm.provider}.`);
+
+  const usage = ratingResult.usage;
+  const provenance: RatingProvenance = {
+    ...currentRatingVersion(),
+    usage: usage
+      ? {
+          promptTokens: usage.inputTokens,
+          completionTokens: usage.outputTokens,
+          totalTokens: usage.inputTokens + usage.outputTokens,
+          costUsd: usage.costUsd,
+        }
+      : null,
+  };
 
-  const parsed = ratingResult.choices[0]?.message?.parsed;
+  const parsed = ratingResult.value;
   if (!parsed) {
     console.error(`[${user.login}] Failed to parse structured response`);
     return {
@@ -281,6 +379,7 @@ export async function rateUserV3(
       webResearchInfoGemini: webResearchInfo.gemini?.researchResult || undefined,
       webResearchPromptText: webResearchInfo.openAI.promptText,
       ratedAt: new Date(),
+      provenance,
     };
   }
 
@@ -304,14 +403,7 @@ export async function rateUserV3(
     criteriaReasonings[key] = val.reasoning;
   }
 
-  // Find current role info for stagnation bonus
-  const currentExp = user.linkedinExperience?.experiences?.find(
-    (e) => e.is_current
-  );
-  const founderStartYear = currentExp?.start_year || null;
-  const isFounder = currentExp
-    ? FOUNDER_TITLE_KEYWORDS.some((kw) => currentExp.title.toLowerCase().includes(kw))
-    : false;
+  const { founderStartYear, isFounder } = getFounderContext(user);
 
   // Compute score as weighted sum of tier values + profile bonus + stagnation bonus
   const score = computeTotalScore(
@@ -353,6 +445,7 @@ export async function rateUserV3(
     webResearchInfoGemini: webResearchInfo.gemini?.researchResult || undefined,
     webResearchPromptText: webResearchInfo.openAI.promptText,
     ratedAt: new Date(),
+    provenance,
   };
 }
 
@@ -375,8 +468,8 @@ async function rateAllProcessedUsers() {
     };
 
     if (ONLY_RATE_NEW_USERS) {
-      query.rating = { $exists: false };
-      query.ratedAt = { $exists: false };
+      query[ratingField("rating")] = { $exists: false };
+      query[ratingField("ratedAt")] = { $exists: false };
     }
 
     const processedUsers = await usersCol.find(query).toArray();
@@ -401,7 +494,7 @@ async function rateAllProcessedUsers() {
               );
               recentRepositories = await fetchRecentRepositories(
                 user._id,
-                octokit
+                getProvider("github").octokit
               );
               console.log(`[${user._id}] Fetched recent repositories.`);
               if (recentRepositories) {
@@ -438,7 +531,7 @@ async function rateAllProcessedUsers() {
             await usersCol.updateOne(
               { _id: user._id },
               {
-                $set: {
+                $set: toProfileRatingUpdate({
                   rating: ratingData.score,
                   ratingReasoning: ratingData.reasoning,
                   criteriaScores: ratingData.criteriaScores,
@@ -449,7 +542,8 @@ async function rateAllProcessedUsers() {
                   engineerArchetype: ratingData.engineerArchetype,
                   inferredLocation: ratingData.inferredLocation,
                   ratedAt: new Date(),
-                },
+                  ratingProvenance: ratingData.provenance,
+                }),
               }
             );
             console.log(`[${user._id}] Updated user rating in DB.`);
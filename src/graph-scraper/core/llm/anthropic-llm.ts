@@ -0,0 +1,119 @@
+import dotenv from "dotenv";
+import { z } from "zod";
+import { createCachedFetch } from "../../../utils/http-cache.js";
+import {
+  LlmCallOptions,
+  LlmProvider,
+  LlmRequestError,
+  LlmResult,
+  parseStructured,
+  toJsonSchema,
+} from "./llm-provider.js";
+import { toUsage } from "./pricing.js";
+
+dotenv.config();
+
+const anthropicFetch = createCachedFetch("anthropic");
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Also server tool blocks (web search calls and results), which we skip
+interface ContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: unknown;
+}
+
+interface MessagesResponse {
+  model: string;
+  content: ContentBlock[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Anthropic Messages API. Structured output is a forced tool call whose input
+ * schema is the response schema; research uses the server-side web search tool.
+ */
+export class AnthropicLlm implements LlmProvider {
+  readonly name = "anthropic" as const;
+
+  private async messages(
+    prompt: string,
+    { model, maxTokens }: LlmCallOptions,
+    extra: Record<string, unknown> = {}
+  ): Promise<{ response: MessagesResponse; result: Omit<LlmResult<string>, "value"> }> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) throw new Error("ANTHROPIC_API_KEY is not set");
+
+    const res = await anthropicFetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: [{ role: "user", content: prompt }],
+        ...extra,
+      }),
+    });
+    if (!res.ok) throw new LlmRequestError(this.name, res.status, await res.text());
+
+    const response = (await res.json()) as MessagesResponse;
+    return {
+      response,
+      result: {
+        model: response.model || model,
+        usage: response.usage
+          ? toUsage(model, response.usage.input_tokens, response.usage.output_tokens)
+          : null,
+      },
+    };
+  }
+
+  private text(response: MessagesResponse) {
+    return response.content
+      .filter((b) => b.type === "text")
+      .map((b) => b.text ?? "")
+      .join("")
+      .trim();
+  }
+
+  async complete(prompt: string, options: LlmCallOptions): Promise<LlmResult<string>> {
+    const { response, result } = await this.messages(prompt, options);
+    return { ...result, value: this.text(response) };
+  }
+
+  async completeStructured<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    schemaName: string,
+    options: LlmCallOptions
+  ): Promise<LlmResult<z.infer<T> | null>> {
+    const { response, result } = await this.messages(prompt, options, {
+      tools: [
+        {
+          name: schemaName,
+          description: "Record the structured response",
+          input_schema: toJsonSchema(schema, schemaName),
+        },
+      ],
+      tool_choice: { type: "tool", name: schemaName },
+    });
+    const call = response.content.find(
+      (b) => b.type === "tool_use" && b.name === schemaName
+    );
+    return { ...result, value: call ? parseStructured(schema, call.input) : null };
+  }
+
+  async research(prompt: string, options: LlmCallOptions): Promise<LlmResult<string>> {
+    const { response, result } = await this.messages(prompt, options, {
+      tools: [{ type: "web_search_20250305", name: "web_search", max_uses: 5 }],
+    });
+    return { ...result, value: this.text(response) };
+  }
+}
@@ -0,0 +1,106 @@
+import dotenv from "dotenv";
+import { z } from "zod";
+import { createCachedFetch } from "../../../utils/http-cache.js";
+import {
+  LlmCallOptions,
+  LlmProvider,
+  LlmRequestError,
+  LlmResult,
+  parseStructured,
+  toJsonSchema,
+} from "./llm-provider.js";
+import { toUsage } from "./pricing.js";
+
+dotenv.config();
+
+const geminiFetch = createCachedFetch("gemini");
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }>; role?: string };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+}
+
+/** Gemini generateContent API; research is grounded with the google_search tool. */
+export class GeminiLlm implements LlmProvider {
+  readonly name = "gemini" as const;
+
+  private async generate(
+    model: string,
+    body: Record<string, unknown>
+  ): Promise<LlmResult<string>> {
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!apiKey) throw new Error("GOOGLE_API_KEY is not set");
+
+    const response = await geminiFetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }
+    );
+    if (!response.ok) {
+      throw new LlmRequestError(this.name, response.status, await response.text());
+    }
+
+    const completion = (await response.json()) as GeminiResponse;
+    const text = (completion.candidates?.[0]?.content?.parts ?? [])
+      .map((part) => part.text ?? "")
+      .join("\n")
+      .trim();
+    const usage = completion.usageMetadata;
+    return {
+      value: text,
+      model,
+      usage: usage
+        ? toUsage(model, usage.promptTokenCount ?? 0, usage.candidatesTokenCount ?? 0)
+        : null,
+    };
+  }
+
+  complete(prompt: string, { model, maxTokens }: LlmCallOptions) {
+    return this.generate(model, {
+      contents: [{ parts: [{ text: prompt }] }],
+      ...(maxTokens ? { generationConfig: { maxOutputTokens: maxTokens } } : {}),
+    });
+  }
+
+  async completeStructured<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    schemaName: string,
+    { model, maxTokens }: LlmCallOptions
+  ): Promise<LlmResult<z.infer<T> | null>> {
+    // Gemini's responseSchema only takes an OpenAPI subset, so the schema goes
+    // into the prompt and the output is validated here
+    const schemaText = JSON.stringify(toJsonSchema(schema, schemaName));
+    const result = await this.generate(model, {
+      contents: [
+        {
+          parts: [
+            {
+              text: `${prompt}\n\nRespond with a single JSON object matching this JSON Schema:\n${schemaText}`,
+            },
+          ],
+        },
+      ],
+      generationConfig: {
+        responseMimeType: "application/json",
+        ...(maxTokens ? { maxOutputTokens: maxTokens } : {}),
+      },
+    });
+    return { ...result, value: parseStructured(schema, result.value) };
+  }
+
+  research(prompt: string, { model }: LlmCallOptions) {
+    return this.generate(model, {
+      contents: [{ parts: [{ text: prompt }] }],
+      tools: [{ google_search: {} }],
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { zodResponseFormat } from "openai/helpers/zod";
+import { z } from "zod";
+
+// Common interface over the LLM APIs we rate and research with. Which
+// provider/model handles which task is configured in llm-registry.ts.
+
+export type LlmProviderName = "openai" | "gemini" | "anthropic" | "local";
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null; // null when the model isn't in the price table
+}
+
+export interface LlmCallOptions {
+  model: string;
+  maxTokens?: number;
+}
+
+export interface LlmResult<T> {
+  value: T;
+  model: string;
+  usage: LlmUsage | null;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Plain text completion of a single user prompt. */
+  complete(prompt: string, options: LlmCallOptions): Promise<LlmResult<string>>;
+  /**
+   * JSON output validated against `schema`. The value is null when the model
+   * refused or returned something that doesn't match.
+   */
+  completeStructured<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    schemaName: string,
+    options: LlmCallOptions
+  ): Promise<LlmResult<z.infer<T> | null>>;
+  /** Completion grounded in a web search. Throws LlmCapabilityError if unsupported. */
+  research(prompt: string, options: LlmCallOptions): Promise<LlmResult<string>>;
+}
+
+export class LlmRequestError extends Error {
+  constructor(provider: LlmProviderName, status: number, body: string) {
+    super(`${provider} request failed (HTTP ${status}): ${body.slice(0, 500)}`);
+    this.name = "LlmRequestError";
+  }
+}
+
+export class LlmCapabilityError extends Error {
+  constructor(provider: LlmProviderName, capability: string) {
+    super(`${provider} provider does not support ${capability}`);
+    this.name = "LlmCapabilityError";
+  }
+}
+
+/** JSON Schema for a zod schema, in the strict form OpenAI structured outputs use. */
+export function toJsonSchema(schema: z.ZodTypeAny, name: string) {
+  return zodResponseFormat(schema, name).json_schema.schema as Record<string, unknown>;
+}
+
+/** Validates model output (a JSON string or an already parsed object) against the schema. */
+export function parseStructured<T extends z.ZodTypeAny>(
+  schema: T,
+  raw: unknown
+): z.infer<T> | null {
+  let value = raw;
+  if (typeof raw === "string") {
+    // Some models wrap JSON in a markdown fence despite being asked not to
+    const json = raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, "");
+    try {
+      value = JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+  const result = schema.safeParse(value);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,195 @@
+import dotenv from "dotenv";
+import { z } from "zod";
+import { AnthropicLlm } from "./anthropic-llm.js";
+import { GeminiLlm } from "./gemini-llm.js";
+import {
+  LlmCallOptions,
+  LlmProvider,
+  LlmProviderName,
+  LlmResult,
+} from "./llm-provider.js";
+import { createLocalLlm, createOpenAILlm } from "./openai-llm.js";
+
+dotenv.config();
+
+// Which provider and model handles each LLM task. Override per task with
+// LLM_<TASK>=provider[:model] (e.g. LLM_RATING=anthropic:claude-sonnet-4-20250514,
+// LLM_RESEARCH_FALLBACK=gemini), or point every task at one provider with
+// LLM_DEFAULT (e.g. LLM_DEFAULT=local when API credits run out).
+
+export type LlmTask =
+  | "rating" // structured criteria scoring in llm-rating.ts
+  | "research" // web research on the candidate
+  | "research-fallback" // web research when the first attempt finds nothing
+  | "query" // LinkedIn search query generation
+  | "verification" // GitHub <-> LinkedIn identity check
+  | "outreach"; // outreach message drafts
+
+export const LLM_TASKS: LlmTask[] = [
+  "rating",
+  "research",
+  "research-fallback",
+  "query",
+  "verification",
+  "outreach",
+];
+
+export const LLM_PROVIDERS: LlmProviderName[] = ["openai", "gemini", "anthropic", "local"];
+
+export interface LlmTaskConfig {
+  provider: LlmProviderName;
+  model: string;
+}
+
+const TASK_DEFAULTS: Record<LlmTask, LlmTaskConfig> = {
+  rating: { provider: "openai", model: "gpt-4.1" },
+  research: { provider: "openai", model: "gpt-4o" },
+  "research-fallback": { provider: "gemini", model: "gemini-2.0-flash" },
+  query: { provider: "openai", model: "gpt-4o-mini" },
+  verification: { provider: "openai", model: "gpt-4o-mini" },
+  outreach: { provider: "openai", model: "gpt-4.1" },
+};
+
+// Used when a task is configured with a provider but no model
+function defaultModel(provider: LlmProviderName): string {
+  switch (provider) {
+    case "openai":
+      return "gpt-4.1";
+    case "gemini":
+      return "gemini-2.0-flash";
+    case "anthropic":
+      return "claude-sonnet-4-20250514";
+    case "local":
+      return process.env.LOCAL_LLM_MODEL || "llama3.1";
+  }
+}
+
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmConfigError";
+  }
+}
+
+function parseSpec(spec: string, variable: string): LlmTaskConfig {
+  const [provider, ...model] = spec.trim().split(":");
+  if (!LLM_PROVIDERS.includes(provider as LlmProviderName)) {
+    throw new LlmConfigError(
+      `Invalid ${variable} "${spec}". Use provider[:model] with provider one of: ${LLM_PROVIDERS.join(", ")}`
+    );
+  }
+  return {
+    provider: provider as LlmProviderName,
+    // Model names may contain colons (e.g. Ollama tags like "qwen2.5:14b")
+    model: model.join(":") || defaultModel(provider as LlmProviderName),
+  };
+}
+
+/** Provider and model configured for a task. */
+export function getLlmConfig(task: LlmTask): LlmTaskConfig {
+  const variable = `LLM_${task.toUpperCase().replace(/-/g, "_")}`;
+  const spec = process.env[variable] || process.env.LLM_DEFAULT;
+  if (!spec) return TASK_DEFAULTS[task];
+  return parseSpec(spec, process.env[variable] ? variable : "LLM_DEFAULT");
+}
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+function createProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "openai":
+      return createOpenAILlm();
+    case "gemini":
+      return new GeminiLlm();
+    case "anthropic":
+      return new AnthropicLlm();
+    case "local":
+      return createLocalLlm();
+  }
+}
+
+function providerFor(name: LlmProviderName) {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// --- Usage accounting (per task/provider/model, for the scraper stats) ---
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpriced: number; // calls whose model has no price
+}
+
+const usageTotals = new Map<string, UsageTotals>();
+
+function record(task: LlmTask, result: LlmResult<unknown>, provider: LlmProviderName) {
+  const key = `${task} ${provider}:${result.model}`;
+  const totals = usageTotals.get(key) ?? {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    unpriced: 0,
+  };
+  totals.calls++;
+  totals.inputTokens += result.usage?.inputTokens ?? 0;
+  totals.outputTokens += result.usage?.outputTokens ?? 0;
+  if (result.usage?.costUsd != null) totals.costUsd += result.usage.costUsd;
+  else totals.unpriced++;
+  usageTotals.set(key, totals);
+}
+
+/** One line per task/model used so far in this process. */
+export function describeLlmUsage(): string[] {
+  const lines = [...usageTotals].map(
+    ([key, t]) =>
+      `${key.padEnd(40)} ${String(t.calls).padStart(5)} calls  ${(t.inputTokens + t.outputTokens).toLocaleString().padStart(11)} tokens  $${t.costUsd.toFixed(2)}${t.unpriced ? ` (+${t.unpriced} unpriced)` : ""}`
+  );
+  const total = [...usageTotals.values()].reduce((sum, t) => sum + t.costUsd, 0);
+  if (lines.length > 1) lines.push(`${"total".padEnd(40)} $${total.toFixed(2)}`);
+  return lines;
+}
+
+export interface TaskLlm {
+  readonly task: LlmTask;
+  readonly provider: LlmProviderName;
+  readonly model: string;
+  complete(prompt: string, options?: Omit<LlmCallOptions, "model">): Promise<LlmResult<string>>;
+  completeStructured<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    schemaName: string,
+    options?: Omit<LlmCallOptions, "model">
+  ): Promise<LlmResult<z.infer<T> | null>>;
+  research(prompt: string, options?: Omit<LlmCallOptions, "model">): Promise<LlmResult<string>>;
+}
+
+/**
+ * The provider configured for `task`, with the model filled in and usage
+ * recorded. Config is read on every call so tests and CLI flags can change it.
+ */
+export function getLlm(task: LlmTask): TaskLlm {
+  const { provider: name, model } = getLlmConfig(task);
+  const provider = providerFor(name);
+  const track = async <T>(call: Promise<LlmResult<T>>) => {
+    const result = await call;
+    record(task, result, name);
+    return result;
+  };
+  return {
+    task,
+    provider: name,
+    model,
+    complete: (prompt, options) => track(provider.complete(prompt, { ...options, model })),
+    completeStructured: (prompt, schema, schemaName, options) =>
+      track(provider.completeStructured(prompt, schema, schemaName, { ...options, model })),
+    research: (prompt, options) => track(provider.research(prompt, { ...options, model })),
+  };
+}
@@ -0,0 +1,103 @@
+import dotenv from "dotenv";
+import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { z } from "zod";
+import { getProvider } from "../providers/providers.js";
+import {
+  LlmCallOptions,
+  LlmCapabilityError,
+  LlmProvider,
+  LlmProviderName,
+  LlmResult,
+} from "./llm-provider.js";
+import { toUsage } from "./pricing.js";
+
+dotenv.config();
+
+/**
+ * Chat completions API: OpenAI itself (client from the "openai" provider, so
+ * tests can swap it) or any OpenAI-compatible server such as Ollama, vLLM or
+ * llama.cpp ("local"). Only OpenAI has web search.
+ */
+export class OpenAICompatibleLlm implements LlmProvider {
+  constructor(
+    readonly name: LlmProviderName,
+    private client: () => OpenAI,
+    private options: { webSearch: boolean; free: boolean }
+  ) {}
+
+  private usage(model: string, usage?: { prompt_tokens: number; completion_tokens: number }) {
+    return usage
+      ? toUsage(model, usage.prompt_tokens, usage.completion_tokens, this.options.free)
+      : null;
+  }
+
+  async complete(prompt: string, { model, maxTokens }: LlmCallOptions): Promise<LlmResult<string>> {
+    const response = await this.client().chat.completions.create({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      ...(maxTokens ? { max_tokens: maxTokens } : {}),
+    });
+    return {
+      value: response.choices[0]?.message?.content?.trim() || "",
+      model: response.model || model,
+      usage: this.usage(model, response.usage),
+    };
+  }
+
+  async completeStructured<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    schemaName: string,
+    { model, maxTokens }: LlmCallOptions
+  ): Promise<LlmResult<z.infer<T> | null>> {
+    const response = await this.client().beta.chat.completions.parse({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      response_format: zodResponseFormat(schema, schemaName),
+      ...(maxTokens ? { max_tokens: maxTokens } : {}),
+    });
+    return {
+      value: response.choices[0]?.message?.parsed ?? null,
+      model: response.model || model,
+      usage: this.usage(model, response.usage),
+    };
+  }
+
+  async research(prompt: string, { model }: LlmCallOptions): Promise<LlmResult<string>> {
+    if (!this.options.webSearch) throw new LlmCapabilityError(this.name, "web search");
+    const response = await this.client().responses.create({
+      model,
+      tools: [{ type: "web_search_preview", search_context_size: "medium" }],
+      input: prompt,
+    });
+    return {
+      value: response.output_text?.trim() || "",
+      model: response.model || model,
+      usage: response.usage
+        ? toUsage(model, response.usage.input_tokens, response.usage.output_tokens)
+        : null,
+    };
+  }
+}
+
+export function createOpenAILlm() {
+  return new OpenAICompatibleLlm("openai", () => getProvider("openai"), {
+    webSearch: true,
+    free: false,
+  });
+}
+
+// LOCAL_LLM_BASE_URL defaults to Ollama's OpenAI-compatible endpoint
+export function createLocalLlm() {
+  let client: OpenAI | null = null;
+  return new OpenAICompatibleLlm(
+    "local",
+    () =>
+      (client ??= new OpenAI({
+        baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+      })),
+    { webSearch: false, free: true }
+  );
+}
@@ -0,0 +1,41 @@
+import { LlmUsage } from "./llm-provider.js";
+
+// USD per million tokens [input, output]. Matched by longest model-name prefix,
+// so dated snapshots ("gpt-4.1-2025-04-14") use their family's price.
+// Update when list prices change; models missing here report no cost.
+const PRICES: Record<string, [number, number]> = {
+  "gpt-4.1": [2, 8],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "gpt-4o": [2.5, 10],
+  "gpt-4o-mini": [0.15, 0.6],
+  "gemini-2.0-flash": [0.1, 0.4],
+  "gemini-2.5-flash": [0.3, 2.5],
+  "gemini-2.5-pro": [1.25, 10],
+  "claude-3-5-haiku": [0.8, 4],
+  "claude-sonnet-4": [3, 15],
+  "claude-opus-4": [15, 75],
+};
+
+export function priceFor(model: string): [number, number] | null {
+  const key = Object.keys(PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? PRICES[key] : null;
+}
+
+export function toUsage(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  free = false
+): LlmUsage {
+  const price = free ? [0, 0] : priceFor(model);
+  return {
+    inputTokens,
+    outputTokens,
+    costUsd: price
+      ? (inputTokens * price[0] + outputTokens * price[1]) / 1_000_000
+      : null,
+  };
+}
@@ -0,0 +1,242 @@
+import { createCachedFetch } from "../../../utils/http-cache.js";
+import type { WebSearchResult } from "./providers.js";
+
+// Default "search" provider: Brave Search API, calls serialized with a delay
+// and retried on 429/5xx.
+
+const braveFetch = createCachedFetch("brave");
+
+interface BraveSearchResponse {
+  query: {
+    original: string;
+  };
+  web?: {
+    results: WebSearchResult[];
+  };
+}
+
+// Global promise chain to serialize Brave API calls
+let braveApiCallQueue = Promise.resolve();
+
+// Helper function to schedule tasks on the braveApiCallQueue with a delay
+async function scheduleBraveApiCall<T>(task: () => Promise<T>): Promise<T> {
+  // Wait for the current end of the queue, then execute the task
+  const taskPromise = braveApiCallQueue.then(task);
+
+  // The next operation on the queue must wait for this task to settle (succeed or fail),
+  // and then wait for the specified delay.
+  braveApiCallQueue = taskPromise
+    .catch(() => {
+      // Prevent an error in one task from breaking the entire queue chain.
+      // The error will still be propagated to the caller of scheduleBraveApiCall.
+    })
+    .then(() => new Promise((resolve) => setTimeout(resolve, 1100))); // Keep 1.1s delay for now
+
+  return taskPromise;
+}
+
+async function withBraveRateLimitRetry(
+  fetchFn: () => Promise<Response>, // The function that performs the fetch
+  maxRetries: number = 3 // Reduced maxRetries as serialization should help
+): Promise<Response> {
+  let retryCount = 0;
+  let lastError: Error | null = null;
+  let firstRateLimitErrorBody: string | null = null; // Variable to store the first 429 error body
+
+  while (retryCount <= maxRetries) {
+    // <= to allow initial attempt + maxRetries
+    let response: Response;
+    try {
+      response = await fetchFn();
+
+      if (response.ok) {
+        return response;
+      }
+
+      // Not OK, handle retryable errors
+      if (
+        response.status === 429 ||
+        (response.status >= 500 && response.status < 600)
+      ) {
+        lastError = new Error(
+          `Brave API request failed with status ${response.status}`
+        );
+        const isRateLimit = response.status === 429;
+        let waitTimeMs: number;
+
+        // Capture the body of the first 429 error
+        if (isRateLimit && !firstRateLimitErrorBody) {
+          try {
+            firstRateLimitErrorBody = await response.text(); // Store the body
+          } catch (bodyError) {
+            firstRateLimitErrorBody =
+              "(Failed to read error body for first 429)";
+          }
+        } else if (isRateLimit) {
+          // For subsequent 429s, still consume the body but don't overwrite the first captured body
+          try {
+            await response.text();
+          } catch (_) {
+            /* ignore */
+          }
+        } else {
+          // For non-429 errors that are retryable (e.g. 5xx), consume body if not already done for 429 check
+          try {
+            await response.text();
+          } catch (_) {
+            /* ignore */
+          }
+        }
+
+        const resetTimestampHeader = response.headers.get("X-RateLimit-Reset");
+        if (isRateLimit && resetTimestampHeader) {
+          const resetTimeEpochSeconds = parseInt(resetTimestampHeader, 10);
+          if (!isNaN(resetTimeEpochSeconds)) {
+            const resetTimeMs = resetTimeEpochSeconds * 1000;
+            const currentTimeMs = Date.now();
+            const calculatedDiffWait = Math.max(
+              1000,
+              resetTimeMs - currentTimeMs
+            );
+            waitTimeMs = calculatedDiffWait + 500;
+            console.log(
+              `Brave API: Rate limit. Using X-RateLimit-Reset. Calculated base diff wait: ${
+                Math.max(0, resetTimeMs - currentTimeMs) / 1000
+              }s. Enforced diff wait: ${
+                calculatedDiffWait / 1000
+              }s. Total wait: ${waitTimeMs / 1000}s.`
+            );
+          } else {
+            waitTimeMs =
+              Math.pow(2, retryCount) * 1500 + (retryCount === 0 ? 2000 : 1000);
+            console.log(
+              `Brave API: Rate limit. X-RateLimit-Reset parse error. Fallback wait ${(
+                waitTimeMs / 1000
+              ).toFixed(1)}s.`
+            );
+          }
+        } else {
+          const baseFirstRetryWait = isRateLimit && retryCount === 0 ? 2000 : 0;
+          waitTimeMs =
+            Math.pow(2, retryCount) * 1500 +
+            (isRateLimit ? 1000 : 0) +
+            baseFirstRetryWait;
+          console.log(
+            `Brave API: Status ${
+              response.status
+            } (no X-RateLimit-Reset or server error). Fallback wait ${(
+              waitTimeMs / 1000
+            ).toFixed(1)}s.`
+          );
+        }
+
+        waitTimeMs = Math.min(waitTimeMs, 30000);
+
+        console.log(
+          `Brave API: Status ${response.status}. Attempt ${retryCount + 1}/${
+            maxRetries + 1
+          }. Retrying in ${waitTimeMs / 1000}s...`
+        );
+        await new Promise((resolve) => setTimeout(resolve, waitTimeMs));
+        retryCount++;
+        continue;
+      } else {
+        // Non-retryable error status (e.g., 400, 401, 404)
+        console.warn(
+          `Brave API: Non-retryable status ${response.status}. Returning response to caller.`
+        );
+        return response; // Return the problematic response to the caller
+      }
+    } catch (error: any) {
+      // Network error or other error during fetchFn()
+      lastError = error;
+      console.warn(
+        `Brave API: Network error or fetchFn issue: ${error.message}. Attempt ${
+          retryCount + 1
+        }/${maxRetries + 1}.`
+      );
+      const waitTimeMs = Math.min(Math.pow(2, retryCount) * 1000 + 1000, 30000); // Base 1s + exponential
+      await new Promise((resolve) => setTimeout(resolve, waitTimeMs));
+      retryCount++;
+      continue;
+    }
+  }
+
+  // All retries exhausted
+  const errorMessage = `Brave API: All ${
+    maxRetries + 1
+  } retries failed. Last error: ${
+    lastError ? lastError.message : "Unknown error after retries."
+  }${
+    firstRateLimitErrorBody
+      ? ` First 429 error body: ${firstRateLimitErrorBody}`
+      : ""
+  }`;
+  console.error(errorMessage);
+  if (lastError) {
+    // Augment the original error with the detailed message if possible
+    lastError.message = errorMessage;
+    throw lastError;
+  }
+  throw new Error(errorMessage); // Fallback error
+}
+
+export async function braveSearch(
+  query: string,
+  count: number
+): Promise<WebSearchResult[] | null> {
+  const performFetchTask = async () => {
+    try {
+      if (!process.env.BRAVE_API_KEY) {
+        console.error(
+          "Error: BRAVE_API_KEY is not set. Please set this environment variable."
+        );
+        return null;
+      }
+
+      const headers: HeadersInit = {
+        Accept: "application/json",
+        "Accept-Encoding": "gzip",
+        "X-Subscription-Token": process.env.BRAVE_API_KEY,
+      };
+
+      const fetchLambda = () =>
+        braveFetch(
+          `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(
+            query
+          )}&count=${count}&safesearch=moderate`,
+          {
+            method: "GET",
+            headers,
+          }
+        );
+
+      const response = await withBraveRateLimitRetry(fetchLambda);
+
+      if (!response.ok) {
+        let errorBody = "";
+        try {
+          errorBody = await response.text();
+        } catch (e) {
+          errorBody = "(Failed to read error body)";
+        }
+        console.error(
+          `Brave API Error (final status ${response.status} after retry logic) for "${query}":`,
+          errorBody
+        );
+        return null;
+      }
+
+      const data = (await response.json()) as BraveSearchResponse;
+      return data.web?.results ?? [];
+    } catch (error: any) {
+      console.error(
+        `Brave search failed for "${query}" after all retries:`,
+        error.message
+      );
+      return null;
+    }
+  };
+
+  return scheduleBraveApiCall(performFetchTask);
+}
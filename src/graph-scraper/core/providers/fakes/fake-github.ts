@@ -0,0 +1,407 @@
+import { Octokit } from "@octokit/core";
+import { CalendarWeek } from "../../../types.js";
+import { GitHubProvider } from "../providers.js";
+
+// In-memory GitHub: answers the REST routes and GraphQL queries the scraper
+// uses from a synthetic follow graph, through a real Octokit instance.
+
+export interface FakeRepo {
+  name: string;
+  description?: string | null;
+  language?: string | null;
+  stars?: number;
+  forks?: number;
+  pushedDaysAgo?: number;
+  fork?: boolean;
+  topics?: string[];
+  /** Logins listed by /contributors, /pulls and /issues/comments, in API order */
+  contributors?: string[];
+  prAuthors?: string[];
+  commenters?: string[];
+}
+
+export interface FakeGitHubUser {
+  login: string;
+  name?: string | null;
+  bio?: string | null;
+  company?: string | null;
+  blog?: string | null;
+  location?: string | null;
+  email?: string | null;
+  twitterUsername?: string | null;
+  linkedinUrl?: string | null;
+  createdAt?: string;
+  /** Logins this user follows */
+  following?: string[];
+  /** Contributions in the last year (see buildContributionCalendar) */
+  contributions?: number;
+  activeMonths?: number;
+  weekendShare?: number;
+  restrictedContributions?: number;
+  /** Totals of earlier years by year; the current year reports `contributions` */
+  pastContributions?: Record<number, number>;
+  repos?: FakeRepo[];
+  readme?: string | null;
+  /** File name of the profile README, README.md by default */
+  readmeName?: string;
+  /** Email exposed through public push events */
+  commitEmail?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A year of contribution weeks ending today: `total` contributions spread over
+ * the most recent `activeMonths` months, `weekendShare` of them on weekends.
+ */
+export function buildContributionCalendar(
+  total: number,
+  { activeMonths = 12, weekendShare = 0.3 } = {}
+): CalendarWeek[] {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const days = Array.from(
+    { length: 52 * 7 },
+    (_, i) => new Date(today.getTime() - (52 * 7 - 1 - i) * DAY_MS)
+  );
+  const cutoff = new Date(today);
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - activeMonths);
+  const active = days.filter((d) => d > cutoff);
+  const weekend = active.filter((d) => d.getUTCDay() === 0 || d.getUTCDay() === 6);
+  const weekday = active.filter((d) => d.getUTCDay() !== 0 && d.getUTCDay() !== 6);
+
+  const counts = new Map<number, number>();
+  const spread = (dates: Date[], amount: number) => {
+    if (dates.length === 0) return;
+    const base = Math.floor(amount / dates.length);
+    let rest = amount - base * dates.length;
+    for (const d of dates) {
+      counts.set(d.getTime(), base + (rest-- > 0 ? 1 : 0));
+    }
+  };
+  const weekendTotal = Math.round(total * weekendShare);
+  spread(weekend, weekendTotal);
+  spread(weekday, total - weekendTotal);
+
+  const weeks: CalendarWeek[] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push({
+      contributionDays: days.slice(i, i + 7).map((d) => ({
+        date: d.toISOString().slice(0, 10),
+        contributionCount: counts.get(d.getTime()) ?? 0,
+      })),
+    });
+  }
+  return weeks;
+}
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+export class FakeGitHub implements GitHubProvider {
+  readonly users = new Map<string, FakeGitHubUser>();
+  /** "METHOD /path" of every API request, for assertions */
+  readonly requests: string[] = [];
+  readonly octokit: Octokit;
+
+  constructor(users: FakeGitHubUser[] = []) {
+    for (const user of users) this.addUser(user);
+    this.octokit = new Octokit({
+      request: { fetch: (url: string, init: RequestInit) => this.handle(url, init) },
+    });
+  }
+
+  addUser(user: FakeGitHubUser) {
+    this.users.set(user.login.toLowerCase(), user);
+  }
+
+  private get(login: string) {
+    return this.users.get(login.toLowerCase());
+  }
+
+  private followersOf(login: string) {
+    return [...this.users.values()]
+      .filter((u) => u.following?.some((f) => f.toLowerCase() === login.toLowerCase()))
+      .map((u) => u.login);
+  }
+
+  async fetchProfileReadme(username: string): Promise<string | null> {
+    return this.get(username)?.readme ?? null;
+  }
+
+  private restUser(user: FakeGitHubUser) {
+    return {
+      login: user.login,
+      type: "User",
+      html_url: `https://github.com/${user.login}`,
+      created_at: user.createdAt ?? "2015-01-01T00:00:00Z",
+      followers: this.followersOf(user.login).length,
+      following: user.following?.length ?? 0,
+      name: user.name ?? null,
+      bio: user.bio ?? null,
+      company: user.company ?? null,
+      blog: user.blog ?? "",
+      location: user.location ?? null,
+      email: user.email ?? null,
+      twitter_username: user.twitterUsername ?? null,
+      public_repos: user.repos?.length ?? 0,
+    };
+  }
+
+  private restRepo(user: FakeGitHubUser, repo: FakeRepo, index: number) {
+    const pushed = new Date(Date.now() - (repo.pushedDaysAgo ?? 30) * DAY_MS).toISOString();
+    return {
+      id: index + 1,
+      name: repo.name,
+      full_name: `${user.login}/${repo.name}`,
+      description: repo.description ?? null,
+      language: repo.language ?? null,
+      created_at: "2020-01-01T00:00:00Z",
+      updated_at: pushed,
+      pushed_at: pushed,
+      stargazers_count: repo.stars ?? 0,
+      forks_count: repo.forks ?? 0,
+      topics: repo.topics ?? [],
+      fork: repo.fork ?? false,
+    };
+  }
+
+  private contributionsCollection(user: FakeGitHubUser) {
+    const total = user.contributions ?? 0;
+    const weeks = buildContributionCalendar(total, {
+      activeMonths: user.activeMonths,
+      weekendShare: user.weekendShare,
+    });
+    return {
+      contributionCalendar: { totalContributions: total, weeks },
+      totalCommitContributions: total,
+      totalIssueContributions: 0,
+      totalPullRequestContributions: 0,
+      restrictedContributionsCount: user.restrictedContributions ?? 0,
+      contributionYears: Object.keys(this.yearTotals(user))
+        .map(Number)
+        .sort((a, b) => b - a),
+    };
+  }
+
+  private yearTotals(user: FakeGitHubUser): Record<number, number> {
+    return { ...user.pastContributions, [new Date().getUTCFullYear()]: user.contributions ?? 0 };
+  }
+
+  // Per-year totals (fetchYearlyContributions): one y<year> alias per year
+  private graphqlYears(query: string, variables: { login: string }) {
+    const user = this.get(variables.login);
+    if (!user) return { data: { user: null } };
+    const totals = this.yearTotals(user);
+    const years = [...query.matchAll(/y(\d{4}): contributionsCollection/g)].map((m) => m[1]);
+    const collections = years.map((year) => [
+      `y${year}`,
+      {
+        contributionCalendar: { totalContributions: totals[Number(year)] ?? 0 },
+        restrictedContributionsCount: 0,
+      },
+    ]);
+    return { data: { user: Object.fromEntries(collections) } };
+  }
+
+  private graphqlUser(user: FakeGitHubUser) {
+    const repos = (user.repos ?? []).map((r, i) => {
+      const rest = this.restRepo(user, r, i);
+      return {
+        databaseId: rest.id,
+        name: rest.name,
+        nameWithOwner: rest.full_name,
+        description: rest.description,
+        primaryLanguage: rest.language ? { name: rest.language } : null,
+        createdAt: rest.created_at,
+        updatedAt: rest.updated_at,
+        pushedAt: rest.pushed_at,
+        stargazerCount: rest.stargazers_count,
+        forkCount: rest.forks_count,
+        isFork: rest.fork,
+        repositoryTopics: { nodes: rest.topics.map((name) => ({ topic: { name } })) },
+      };
+    });
+    const rest = this.restUser(user);
+    return {
+      login: user.login,
+      url: rest.html_url,
+      createdAt: rest.created_at,
+      name: rest.name,
+      bio: rest.bio,
+      company: rest.company,
+      websiteUrl: rest.blog || null,
+      location: rest.location,
+      email: rest.email ?? "",
+      twitterUsername: rest.twitter_username,
+      followers: { totalCount: rest.followers },
+      following: { totalCount: rest.following },
+      socialAccounts: {
+        nodes: user.linkedinUrl ? [{ provider: "LINKEDIN", url: user.linkedinUrl }] : [],
+      },
+      contributionsCollection: this.contributionsCollection(user),
+      publicRepos: { totalCount: repos.length },
+      pinnedItems: { nodes: [] },
+      repositories: { nodes: repos },
+      // The GraphQL fetch only looks up HEAD:README.md
+      profileRepo: user.readme
+        ? { readme: (user.readmeName ?? "README.md") === "README.md" ? { text: user.readme } : null }
+        : null,
+    };
+  }
+
+  // Follower profiles page (fetchFollowerProfilesPaged); the cursor is an offset
+  private graphqlFollowers(variables: { followersOf: string; first: number; after: string | null }) {
+    const user = this.get(variables.followersOf);
+    if (!user) return { data: { user: null } };
+    const followers = this.followersOf(user.login);
+    const start = Number(variables.after ?? 0);
+    const end = start + variables.first;
+    const nodes = followers.slice(start, end).map((login) => {
+      const follower = this.graphqlUser(this.get(login)!);
+      return {
+        login: follower.login,
+        createdAt: follower.createdAt,
+        name: follower.name,
+        bio: follower.bio,
+        company: follower.company,
+        location: follower.location,
+        websiteUrl: follower.websiteUrl,
+        twitterUsername: follower.twitterUsername,
+        followers: follower.followers,
+        following: follower.following,
+      };
+    });
+    return {
+      data: {
+        user: {
+          followers: {
+            pageInfo: { hasNextPage: end < followers.length, endCursor: String(end) },
+            nodes,
+          },
+        },
+      },
+    };
+  }
+
+  private graphql(variables: Record<string, string>) {
+    const data: Record<string, unknown> = {};
+    const errors: Array<{ type: string; path: string[]; message: string }> = [];
+    for (const [name, login] of Object.entries(variables)) {
+      const match = name.match(/^login(\d*)$/);
+      if (!match) continue;
+      // Single-user queries alias nothing ("user"), batched ones use u0..uN
+      const alias = match[1] === "" ? "user" : `u${match[1]}`;
+      const user = this.get(login);
+      data[alias] = user ? this.graphqlUser(user) : null;
+      if (!user) {
+        errors.push({
+          type: "NOT_FOUND",
+          path: [alias],
+          message: `Could not resolve to a User with the login of '${login}'.`,
+        });
+      }
+    }
+    return errors.length > 0 ? { data, errors } : { data };
+  }
+
+  private paged<T>(items: T[], params: URLSearchParams) {
+    const perPage = Number(params.get("per_page") ?? 30);
+    const page = Number(params.get("page") ?? 1);
+    return items.slice((page - 1) * perPage, page * perPage);
+  }
+
+  private handleRepo([, owner, name, route]: RegExpMatchArray, params: URLSearchParams) {
+    const user = this.get(decodeURIComponent(owner));
+    // The profile repo, named after its owner, holds only the README
+    if (route === "readme" && user?.readme && name.toLowerCase() === user.login.toLowerCase()) {
+      return json(200, { encoding: "base64", content: Buffer.from(user.readme).toString("base64") });
+    }
+    const repo = user?.repos?.find((r) => r.name === name);
+    if (!repo) return json(404, { message: "Not Found" });
+    const account = (login: string) => ({ login, type: "User" });
+    switch (route) {
+      case "contributors":
+        return json(200, this.paged((repo.contributors ?? []).map(account), params));
+      case "pulls":
+        return json(
+          200,
+          this.paged((repo.prAuthors ?? []).map((login) => ({ user: account(login) })), params)
+        );
+      case "issues/comments":
+        return json(
+          200,
+          this.paged((repo.commenters ?? []).map((login) => ({ user: account(login) })), params)
+        );
+      default:
+        return json(404, { message: "Not Found" });
+    }
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const { pathname, searchParams } = new URL(url);
+    const method = (init.method ?? "GET").toUpperCase();
+    this.requests.push(`${method} ${pathname}`);
+
+    if (method === "POST" && pathname === "/graphql") {
+      const body = JSON.parse(String(init.body));
+      if (body.variables?.followersOf !== undefined) {
+        return json(200, this.graphqlFollowers(body.variables));
+      }
+      if (/y\d{4}: contributionsCollection/.test(body.query)) {
+        return json(200, this.graphqlYears(body.query, body.variables));
+      }
+      return json(200, this.graphql(body.variables ?? {}));
+    }
+
+    const repoMatch = pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/(.+)$/);
+    if (repoMatch) return this.handleRepo(repoMatch, searchParams);
+
+    const match = pathname.match(/^\/users\/([^/]+)(?:\/(.+))?$/);
+    const user = match ? this.get(decodeURIComponent(match[1])) : undefined;
+    if (!match || !user) return json(404, { message: "Not Found" });
+
+    switch (match[2]) {
+      case undefined:
+        return json(200, this.restUser(user));
+      case "social_accounts":
+        return json(
+          200,
+          user.linkedinUrl ? [{ provider: "linkedin", url: user.linkedinUrl }] : []
+        );
+      case "following":
+      case "followers": {
+        const logins =
+          match[2] === "following" ? user.following ?? [] : this.followersOf(user.login);
+        const entries = logins.map((login) => ({ login, type: "User" }));
+        return json(200, this.paged(entries, searchParams));
+      }
+      case "repos":
+        return json(
+          200,
+          this.paged(
+            (user.repos ?? []).map((r, i) => this.restRepo(user, r, i)),
+            searchParams
+          )
+        );
+      case "events/public": {
+        const events = user.commitEmail
+          ? [
+              {
+                type: "PushEvent",
+                created_at: new Date().toISOString(),
+                payload: { commits: [{ author: { email: user.commitEmail } }] },
+              },
+            ]
+          : [];
+        return json(200, this.paged(events, searchParams));
+      }
+      default:
+        return json(404, { message: "Not Found" });
+    }
+  }
+}
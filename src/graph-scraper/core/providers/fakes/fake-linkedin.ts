@@ -0,0 +1,67 @@
+import { LinkedInProfile } from "../../scraper-helpers/linkedin-research.js";
+import { LinkedInProvider } from "../providers.js";
+
+export interface FakeCompany {
+  companyId: string;
+  companyName: string;
+  employeeCount?: number | null;
+  headcountGrowth6m?: number | null;
+  headcountGrowth1y?: number | null;
+  foundedYear?: number | null;
+}
+
+/** Builds a LinkedInProfile with empty defaults for the fields a test doesn't care about. */
+export function linkedInProfile(
+  fields: Partial<LinkedInProfile> & { full_name: string }
+): LinkedInProfile {
+  return {
+    headline: "",
+    about: null,
+    city: "",
+    country: "",
+    location: "",
+    company: "",
+    company_industry: "",
+    experiences: [],
+    educations: [],
+    ...fields,
+  };
+}
+
+// RapidAPI LinkedIn lookups served from maps keyed by profile / company URL.
+export class FakeLinkedIn implements LinkedInProvider {
+  readonly profileRequests: string[] = [];
+  private companiesById = new Map<string, FakeCompany>();
+
+  constructor(
+    private profiles: Record<string, LinkedInProfile> = {},
+    private companies: Record<string, FakeCompany> = {}
+  ) {
+    for (const company of Object.values(companies)) {
+      this.companiesById.set(company.companyId, company);
+    }
+  }
+
+  async fetchProfile(linkedinUrl: string): Promise<LinkedInProfile | null> {
+    this.profileRequests.push(linkedinUrl);
+    return this.profiles[linkedinUrl.replace(/\/$/, "")] ?? null;
+  }
+
+  async fetchCompanyByUrl(companyLinkedinUrl: string) {
+    const company = this.companies[companyLinkedinUrl];
+    return company
+      ? { companyId: company.companyId, companyName: company.companyName }
+      : null;
+  }
+
+  async fetchCompanyInsights(companyId: string) {
+    const company = this.companiesById.get(companyId);
+    if (!company) return null;
+    return {
+      employeeCount: company.employeeCount ?? null,
+      headcountGrowth6m: company.headcountGrowth6m ?? null,
+      headcountGrowth1y: company.headcountGrowth1y ?? null,
+      foundedYear: company.foundedYear ?? null,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import OpenAI from "openai";
+import { companyConfig } from "../../../../config/company.js";
+
+export interface FakeOpenAIHandlers {
+  /** Tier scores (0-3) per criterion key for a rating prompt; missing keys score 0 */
+  rate?: (prompt: string) => Record<string, number>;
+  /** Reply to any other chat prompt (search query generation, LinkedIn verification) */
+  chat?: (prompt: string) => string;
+  /**
+   * output_text of a Responses API call (web research). null means "nothing
+   * found", which makes the scraper fall back to Gemini (not faked).
+   */
+  respond?: (input: string) => string | null;
+}
+
+// Defaults: nothing to search for, every LinkedIn match confirmed, a fixed
+// web research blurb
+const DEFAULT_RESEARCH = "Software engineer. No further public information.";
+
+function defaultChat(prompt: string) {
+  if (prompt.includes("QUERY:")) return "REASONING: fake\nQUERY: SKIP";
+  return "YES";
+}
+
+function json(body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * A real OpenAI client whose HTTP layer answers chat completions (including the
+ * structured engineer_rating call) and Responses API requests from handlers.
+ */
+export class FakeOpenAI {
+  readonly client: OpenAI;
+  /** Every prompt sent, in order */
+  readonly prompts: string[] = [];
+
+  constructor(private handlers: FakeOpenAIHandlers = {}) {
+    this.client = new OpenAI({
+      apiKey: "fake",
+      maxRetries: 0,
+      fetch: ((url: string, init: RequestInit) => this.handle(url, init)) as any,
+    });
+  }
+
+  private ratingReply(prompt: string) {
+    const scores = this.handlers.rate?.(prompt) ?? {};
+    const assessments = Object.fromEntries(
+      companyConfig.criteria.map((c) => [
+        c.key,
+        { reasoning: `fake assessment of ${c.label}`, score: scores[c.key] ?? 0 },
+      ])
+    );
+    return JSON.stringify({
+      engineer_archetype: [companyConfig.engineerArchetypes[0]],
+      location: "Unknown",
+      criteria_assessments: assessments,
+    });
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const { pathname } = new URL(url);
+    const body = JSON.parse(String(init.body ?? "{}"));
+
+    if (pathname.endsWith("/chat/completions")) {
+      const prompt = body.messages.map((m: any) => m.content).join("\n");
+      this.prompts.push(prompt);
+      const isRating = body.response_format?.json_schema?.name === "engineer_rating";
+      const content = isRating
+        ? this.ratingReply(prompt)
+        : (this.handlers.chat ?? defaultChat)(prompt);
+      // Rough 4-characters-per-token estimate, enough for usage bookkeeping
+      const promptTokens = Math.ceil(prompt.length / 4);
+      const completionTokens = Math.ceil(content.length / 4);
+      return json({
+        id: "chatcmpl-fake",
+        object: "chat.completion",
+        created: 0,
+        model: body.model,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content, refusal: null },
+            finish_reason: "stop",
+          },
+        ],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      });
+    }
+
+    if (pathname.endsWith("/responses")) {
+      const input = typeof body.input === "string" ? body.input : JSON.stringify(body.input);
+      this.prompts.push(input);
+      const text = this.handlers.respond
+        ? this.handlers.respond(input) ?? "null"
+        : DEFAULT_RESEARCH;
+      return json({
+        id: "resp-fake",
+        object: "response",
+        model: body.model,
+        output: [
+          {
+            type: "message",
+            role: "assistant",
+            content: [{ type: "output_text", text, annotations: [] }],
+          },
+        ],
+        output_text: text,
+      });
+    }
+
+    return new Response(JSON.stringify({ error: { message: "Not Found" } }), {
+      status: 404,
+      headers: { "content-type": "application/json" },
+    });
+  }
+}
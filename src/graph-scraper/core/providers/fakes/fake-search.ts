@@ -0,0 +1,18 @@
+import { SearchProvider, WebSearchResult } from "../providers.js";
+
+// Web search that answers from a fixed query -> results table. Unknown
+// queries return no results; every query is recorded for assertions.
+export class FakeSearch implements SearchProvider {
+  readonly queries: string[] = [];
+
+  constructor(
+    private results: Record<string, WebSearchResult[]> = {},
+    private fallback: (query: string) => WebSearchResult[] | null = () => []
+  ) {}
+
+  async search(query: string, count: number): Promise<WebSearchResult[] | null> {
+    this.queries.push(query);
+    const results = this.results[query] ?? this.fallback(query);
+    return results ? results.slice(0, count) : null;
+  }
+}
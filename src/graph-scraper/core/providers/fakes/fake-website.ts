@@ -0,0 +1,23 @@
+import { WebsiteProvider } from "../providers.js";
+
+type XProfile = { bio: string | null; name: string | null; location: string | null };
+
+// Personal websites and X profiles served from maps.
+export class FakeWebsite implements WebsiteProvider {
+  readonly requests: string[] = [];
+
+  constructor(
+    private pages: Record<string, string> = {},
+    private xProfiles: Record<string, XProfile> = {}
+  ) {}
+
+  async fetchContent(url: string): Promise<string | null> {
+    this.requests.push(url);
+    return this.pages[url] ?? null;
+  }
+
+  async fetchXProfile(username: string): Promise<XProfile | null> {
+    this.requests.push(`x:${username}`);
+    return this.xProfiles[username] ?? null;
+  }
+}
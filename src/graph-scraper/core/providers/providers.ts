@@ -0,0 +1,110 @@
+import { Octokit } from "@octokit/core";
+import OpenAI from "openai";
+import { getGitHubPool } from "../../../utils/github-token-pool.js";
+import {
+  fetchProfileReadme,
+  fetchWebsiteContent,
+  fetchXProfileMetadata,
+} from "../../../utils/profile-data-fetchers.js";
+import { createOpenAIClient } from "../openai.js";
+import {
+  fetchCompanyByLinkedInUrl,
+  fetchCompanyInsightsById,
+  fetchLinkedInExperienceViaRapidAPI,
+  LinkedInProfile,
+} from "../scraper-helpers/linkedin-research.js";
+import { braveSearch } from "./brave-search.js";
+
+// External services the scraper talks to. The defaults call the real APIs;
+// tests swap in the in-memory fakes from ./fakes with setProviders().
+
+export interface GitHubProvider {
+  /** REST + GraphQL client */
+  octokit: Octokit;
+  /** README of the user's <login>/<login> profile repo */
+  fetchProfileReadme(username: string): Promise<string | null>;
+}
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  description?: string;
+}
+
+export interface SearchProvider {
+  /** Web search results, or null if the search itself failed */
+  search(query: string, count: number): Promise<WebSearchResult[] | null>;
+}
+
+export interface LinkedInProvider {
+  fetchProfile(linkedinUrl: string): Promise<LinkedInProfile | null>;
+  fetchCompanyByUrl(
+    companyLinkedinUrl: string
+  ): Promise<{ companyId: string; companyName: string } | null>;
+  fetchCompanyInsights(companyId: string): Promise<{
+    employeeCount: number | null;
+    headcountGrowth6m: number | null;
+    headcountGrowth1y: number | null;
+    foundedYear: number | null;
+  } | null>;
+}
+
+export interface WebsiteProvider {
+  /** Rendered HTML of a personal website */
+  fetchContent(url: string): Promise<string | null>;
+  fetchXProfile(username: string): Promise<{
+    bio: string | null;
+    name: string | null;
+    location: string | null;
+  } | null>;
+}
+
+export interface Providers {
+  github: GitHubProvider;
+  search: SearchProvider;
+  linkedin: LinkedInProvider;
+  website: WebsiteProvider;
+  openai: OpenAI;
+}
+
+let overrides: Partial<Providers> = {};
+const defaults: Partial<Providers> = {};
+
+// Defaults are built on first use so that importing the scraper doesn't
+// require API keys (and never does when every provider is overridden)
+function createDefault<K extends keyof Providers>(key: K): Providers[K] {
+  const factories: { [P in keyof Providers]: () => Providers[P] } = {
+    github: () => ({
+      octokit: getGitHubPool().octokit,
+      fetchProfileReadme,
+    }),
+    search: () => ({ search: braveSearch }),
+    linkedin: () => ({
+      fetchProfile: fetchLinkedInExperienceViaRapidAPI,
+      fetchCompanyByUrl: fetchCompanyByLinkedInUrl,
+      fetchCompanyInsights: fetchCompanyInsightsById,
+    }),
+    website: () => ({
+      fetchContent: fetchWebsiteContent,
+      fetchXProfile: fetchXProfileMetadata,
+    }),
+    openai: () => createOpenAIClient(),
+  };
+  return factories[key]();
+}
+
+export function getProvider<K extends keyof Providers>(key: K): Providers[K] {
+  const override = overrides[key];
+  if (override) return override as Providers[K];
+  if (!defaults[key]) defaults[key] = createDefault(key);
+  return defaults[key] as Providers[K];
+}
+
+/** Replaces some providers; returns a function that restores the previous ones. */
+export function setProviders(replacements: Partial<Providers>): () => void {
+  const previous = overrides;
+  overrides = { ...overrides, ...replacements };
+  return () => {
+    overrides = previous;
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  contributionStreaks,
+  contributionTrend,
+  nightShare,
+  weekendShare,
+} from "./contribution-patterns.js";
+
+// 2026-01-10 is a Saturday; 03:00 UTC is still Friday evening in California
+const FRIDAY_NIGHT_IN_LA = "2026-01-10T03:00:00Z";
+const MONDAY_NOON_UTC = "2026-01-12T12:00:00Z";
+
+const events = (count: number, timestamp: string) => Array<string>(count).fill(timestamp);
+
+// Baseline years for NOW are 2023 and 2024
+const NOW = new Date("2026-03-01T00:00:00Z");
+
+// One calendar week per 7 counts, dated consecutively from 2026-01-04
+const calendar = (counts: number[]) => {
+  const days = counts.map((contributionCount, i) => ({
+    contributionCount,
+    date: new Date(Date.UTC(2026, 0, 4 + i)).toISOString().slice(0, 10),
+  }));
+  const weeks = [];
+  for (let i = 0; i < days.length; i += 7) weeks.push({ contributionDays: days.slice(i, i + 7) });
+  return weeks;
+};
+
+describe("weekendShare", () => {
+  it.each([
+    { timezone: "America/Los_Angeles", want: 0 },
+    { timezone: "UTC", want: 0.5 },
+    { timezone: "Asia/Tokyo", want: 0.5 },
+  ])("counts weekends on the local clock in $timezone", ({ timezone, want }) => {
+    const timestamps = [...events(10, FRIDAY_NIGHT_IN_LA), ...events(10, MONDAY_NOON_UTC)];
+    expect(weekendShare(timestamps, timezone)).toBe(want);
+  });
+
+  it.each([
+    { name: "no time zone", timestamps: events(20, FRIDAY_NIGHT_IN_LA), timezone: null },
+    { name: "an unknown time zone", timestamps: events(20, FRIDAY_NIGHT_IN_LA), timezone: "Mars/Base" },
+    { name: "too few events", timestamps: events(19, FRIDAY_NIGHT_IN_LA), timezone: "UTC" },
+  ])("is null with $name", ({ timestamps, timezone }) => {
+    expect(weekendShare(timestamps, timezone)).toBeNull();
+  });
+});
+
+describe("nightShare", () => {
+  it.each([
+    { timezone: "America/Los_Angeles", want: 0.5 }, // 19:00 and 04:00
+    { timezone: "UTC", want: 0.5 }, // 03:00 and 12:00
+    { timezone: "Asia/Tokyo", want: 0 }, // 12:00 and 21:00
+  ])("counts 22:00-06:00 on the local clock in $timezone", ({ timezone, want }) => {
+    const timestamps = [...events(10, FRIDAY_NIGHT_IN_LA), ...events(10, MONDAY_NOON_UTC)];
+    expect(nightShare(timestamps, timezone)).toBe(want);
+  });
+});
+
+describe("contributionTrend", () => {
+  it.each([
+    {
+      name: "ramping against both years",
+      years: [{ year: 2023, total: 100 }, { year: 2024, total: 300 }],
+      firstYear: 2015,
+      want: { trend: "ramping", ratio: 2.5 },
+    },
+    {
+      name: "steady",
+      years: [{ year: 2023, total: 400 }, { year: 2024, total: 600 }],
+      firstYear: 2015,
+      want: { trend: "steady", ratio: 1 },
+    },
+    {
+      name: "fading",
+      years: [{ year: 2023, total: 1200 }, { year: 2024, total: 1000 }],
+      firstYear: 2015,
+      want: { trend: "fading", ratio: 0.45 },
+    },
+    {
+      name: "a missing year with no contributions as 0",
+      years: [{ year: 2024, total: 1000 }],
+      firstYear: 2015,
+      want: { trend: "steady", ratio: 1 },
+    },
+    {
+      name: "only the years the account existed",
+      years: [{ year: 2024, total: 1000 }],
+      firstYear: 2024,
+      want: { trend: "fading", ratio: 0.5 },
+    },
+    {
+      name: "the first year with contributions without a creation date",
+      years: [{ year: 2024, total: 1000 }],
+      firstYear: null,
+      want: { trend: "fading", ratio: 0.5 },
+    },
+    {
+      name: "years outside the baseline",
+      years: [{ year: 2022, total: 5000 }, { year: 2025, total: 5000 }],
+      firstYear: 2015,
+      want: { trend: "new", ratio: null },
+    },
+    {
+      name: "an account newer than the baseline",
+      years: [{ year: 2025, total: 300 }],
+      firstYear: 2025,
+      want: { trend: "new", ratio: null },
+    },
+    { name: "no years", years: [], firstYear: null, want: { trend: "new", ratio: null } },
+  ])("reads $name", ({ years, firstYear, want }) => {
+    expect(contributionTrend(500, years, firstYear, NOW)).toEqual(want);
+  });
+});
+
+describe("contributionStreaks", () => {
+  it.each([
+    { name: "no calendar", weeks: calendar([]), want: { longest: 0, current: 0 } },
+    { name: "no contributions", weeks: calendar([0, 0, 0]), want: { longest: 0, current: 0 } },
+    { name: "a run ending today", weeks: calendar([1, 1, 0, 2, 3]), want: { longest: 2, current: 2 } },
+    { name: "today still empty", weeks: calendar([1, 1, 1, 0, 1, 0]), want: { longest: 3, current: 1 } },
+    { name: "a broken run", weeks: calendar([1, 1, 1, 0, 0]), want: { longest: 3, current: 0 } },
+    {
+      name: "a run across weeks",
+      weeks: calendar([0, 0, 0, 0, 0, 1, 1, 1, 1, 0, 0]),
+      want: { longest: 4, current: 0 },
+    },
+  ])("counts $name", ({ weeks, want }) => {
+    expect(contributionStreaks(weeks)).toEqual(want);
+  });
+
+  it("orders days by date", () => {
+    const weeks = calendar([1, 1, 1, 0, 1, 1]).reverse();
+    expect(contributionStreaks(weeks)).toEqual({ longest: 3, current: 2 });
+  });
+});
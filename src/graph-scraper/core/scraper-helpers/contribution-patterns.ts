@@ -1,3 +1,9 @@
+import {
+  ContributionData,
+  ContributionTimeline,
+  ContributionTrend,
+} from "../../types.js";
+
 interface CalendarWeek {
   contributionDays: {
     contributionCount: number;
@@ -5,11 +11,8 @@ interface CalendarWeek {
   }[];
 }
 
-export function isActiveInEnoughMonths(
-  calendarWeeks: CalendarWeek[],
-  minMonths: number = 8
-): boolean {
-  if (!calendarWeeks) return false;
+export function countActiveMonths(calendarWeeks: CalendarWeek[]): number {
+  if (!calendarWeeks) return 0;
 
   const activeMonths = new Set<string>();
 
@@ -22,14 +25,20 @@ export function isActiveInEnoughMonths(
     });
   });
 
-  return activeMonths.size >= minMonths;
+  return activeMonths.size;
 }
 
-export function isWeekdayCoder(
+export function isActiveInEnoughMonths(
   calendarWeeks: CalendarWeek[],
-  weekdayThreshold: number = 0.85
+  minMonths: number = 8
 ): boolean {
   if (!calendarWeeks) return false;
+  return countActiveMonths(calendarWeeks) >= minMonths;
+}
+
+/** Share of contributions made Monday to Friday, or null without any. */
+export function weekdayShare(calendarWeeks: CalendarWeek[]): number | null {
+  if (!calendarWeeks) return null;
 
   let weekdayContributions = 0;
   let weekendContributions = 0;
@@ -51,9 +60,153 @@ export function isWeekdayCoder(
 
   const totalContributions = weekdayContributions + weekendContributions;
   if (totalContributions === 0) {
-    return false;
+    return null;
   }
+  return weekdayContributions / totalContributions;
+}
+
+export function isWeekdayCoder(
+  calendarWeeks: CalendarWeek[],
+  weekdayThreshold: number = 0.85
+): boolean {
+  const share = weekdayShare(calendarWeeks);
+  return share !== null && share > weekdayThreshold;
+}
+
+// Timeline metrics (see ContributionTimeline). The calendar covers the last
+// 12 months; older activity comes from per-year totals and timing (nights,
+// weekends) from public events in the user's time zone.
+
+const RAMPING_RATIO = 1.5;
+const FADING_RATIO = 0.5;
+const MIN_EVENTS_FOR_TIMING = 20;
+
+const calendarDays = (calendarWeeks: CalendarWeek[]) =>
+  (calendarWeeks ?? [])
+    .flatMap((week) => week.contributionDays)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/** Longest run of days with contributions, and the run ending today (or yesterday, if today is still empty). */
+export function contributionStreaks(calendarWeeks: CalendarWeek[]): {
+  longest: number;
+  current: number;
+} {
+  const days = calendarDays(calendarWeeks);
+  let longest = 0;
+  let run = 0;
+  for (const day of days) {
+    run = day.contributionCount > 0 ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  const last = days.length - 1;
+  const end = last >= 0 && days[last].contributionCount === 0 ? last - 1 : last;
+  for (let i = end; i >= 0 && days[i].contributionCount > 0; i--) current++;
+  return { longest, current };
+}
+
+/**
+ * Share of `timestamps` for which `matches` holds on the local clock of
+ * `timezone`. Null without a (valid) timezone or with too few events to say
+ * anything.
+ */
+function localTimeShare(
+  timestamps: string[],
+  timezone: string | null,
+  options: Intl.DateTimeFormatOptions,
+  matches: (local: string) => boolean
+): number | null {
+  if (!timezone || timestamps.length < MIN_EVENTS_FOR_TIMING) return null;
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat("en-US", { timeZone: timezone, ...options });
+  } catch {
+    return null; // unknown IANA zone
+  }
+  const hits = timestamps.filter((t) => matches(format.format(new Date(t)))).length;
+  return hits / timestamps.length;
+}
+
+/** Share of `timestamps` between 22:00 and 06:00 in `timezone`. */
+export function nightShare(timestamps: string[], timezone: string | null): number | null {
+  return localTimeShare(timestamps, timezone, { hour: "numeric", hourCycle: "h23" }, (hour) => {
+    const h = Number(hour);
+    return h >= 22 || h < 6;
+  });
+}
+
+/**
+ * Share of `timestamps` on Saturday or Sunday in `timezone`. Unlike the
+ * calendar (UTC dates), late Friday work in California stays on Friday.
+ */
+export function weekendShare(timestamps: string[], timezone: string | null): number | null {
+  return localTimeShare(
+    timestamps,
+    timezone,
+    { weekday: "short" },
+    (day) => day === "Sat" || day === "Sun"
+  );
+}
+
+/**
+ * Last 12 months against the mean of the two full years before them. Years
+ * missing from `years` had no contributions and count as 0, unless the
+ * account (created in `firstYear`) did not exist yet. Users with no
+ * contributions in those years are "new".
+ */
+export function contributionTrend(
+  recentTotal: number,
+  years: Array<{ year: number; total: number }>,
+  firstYear: number | null,
+  now: Date = new Date()
+): { trend: ContributionTrend; ratio: number | null } {
+  // The 12-month window reaches back into last year, so compare from the year before
+  const lastFullYear = now.getUTCFullYear() - 2;
+  // Without a creation date, the first year with contributions is the best guess
+  const start = firstYear ?? Math.min(...years.map((y) => y.year));
+  const baselineYears = [lastFullYear - 1, lastFullYear].filter((year) => year >= start);
+  const baselineTotal = years
+    .filter((y) => baselineYears.includes(y.year))
+    .reduce((sum, y) => sum + y.total, 0);
+  const baseline = baselineYears.length ? baselineTotal / baselineYears.length : 0;
+  if (baseline === 0) return { trend: "new", ratio: null };
+
+  const ratio = recentTotal / baseline;
+  const trend =
+    ratio >= RAMPING_RATIO ? "ramping" : ratio <= FADING_RATIO ? "fading" : "steady";
+  return { trend, ratio: Math.round(ratio * 100) / 100 };
+}
 
-  const weekdayRatio = weekdayContributions / totalContributions;
-  return weekdayRatio > weekdayThreshold;
+export function buildContributionTimeline({
+  contributions,
+  years,
+  eventTimestamps,
+  timezone,
+  createdAt,
+}: {
+  contributions: ContributionData;
+  years: Array<{ year: number; total: number }>;
+  eventTimestamps: string[];
+  timezone: string | null;
+  createdAt: string | null; // account creation, bounds the trend baseline
+}): ContributionTimeline {
+  const firstYear = createdAt ? new Date(createdAt).getUTCFullYear() : NaN;
+  const { trend, ratio } = contributionTrend(
+    contributions.totalSum,
+    years,
+    Number.isNaN(firstYear) ? null : firstYear
+  );
+  const streaks = contributionStreaks(contributions.calendar_weeks);
+  return {
+    years,
+    trend,
+    trendRatio: ratio,
+    longestStreak: streaks.longest,
+    currentStreak: streaks.current,
+    weekendShare: weekendShare(eventTimestamps, timezone),
+    nightShare: nightShare(eventTimestamps, timezone),
+    timezone,
+    computedAt: new Date(),
+  };
 }
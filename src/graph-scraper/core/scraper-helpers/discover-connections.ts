@@ -1,12 +1,32 @@
 import { Octokit } from "@octokit/core";
-import { Collection } from "mongodb";
-import { DbGraphUser } from "../../types.js";
+import { DiscoverySource, RepoInteractionType, SeedPath } from "../../types.js";
+import { GraphStore } from "../store/graph-store.js";
 
-// Priority multipliers for edge direction.
+// Priority multipliers per way a user was reached from its parent.
 // "followers" = this user follows the parent = they chose to follow a high-scorer (strong community signal).
 // "following" = parent follows this user = weaker signal (people follow famous/random accounts).
-const FOLLOWING_MULTIPLIER = 0.8;
-const FOLLOWER_MULTIPLIER = 1.3;
+// "repo-contributor" = this user commits, opens PRs or comments on the parent's repos = they
+// actually work together, the strongest signal.
+export type ParentDirection = Exclude<DiscoverySource, "repo" | "org">;
+
+const DIRECTION_MULTIPLIERS: Record<ParentDirection, number> = {
+  following: 0.8,
+  followers: 1.3,
+  "repo-contributor": 1.5,
+};
+
+// Repo interactors have no rated parent; they're treated like depth-1
+// connections of a seed rated SEED_REPO_RATING, scaled by how much effort the
+// interaction takes (a merged contribution says far more than a star).
+const SEED_REPO_RATING = 60; // same floor seeds pass on (see scrapeConnections)
+const REPO_INTERACTION_MULTIPLIERS: Record<RepoInteractionType, number> = {
+  contributor: 1.2,
+  "pr-author": 1.0,
+  forker: 0.8,
+  commenter: 0.6,
+  watcher: 0.7,
+  stargazer: 0.5,
+};
 
 // Weights for lineage-blended rating
 const PARENT_WEIGHT = 0.7;
@@ -14,12 +34,11 @@ const GRANDPARENT_WEIGHT = 0.3;
 
 export function computePriority(
   parentRating: number,
-  edgeDirection: "following" | "followers",
+  edgeDirection: ParentDirection,
   childDepth: number,
   grandparentRating?: number
 ): number {
-  const multiplier =
-    edgeDirection === "following" ? FOLLOWING_MULTIPLIER : FOLLOWER_MULTIPLIER;
+  const multiplier = DIRECTION_MULTIPLIERS[edgeDirection];
   // Blend parent and grandparent ratings for lineage-aware priority
   const effectiveRating = grandparentRating
     ? parentRating * PARENT_WEIGHT + grandparentRating * GRANDPARENT_WEIGHT
@@ -30,6 +49,10 @@ export function computePriority(
   );
 }
 
+export function computeRepoPriority(interaction: RepoInteractionType): number {
+  return Math.round(SEED_REPO_RATING * REPO_INTERACTION_MULTIPLIERS[interaction] * 100) / 100;
+}
+
 /**
  * Discovers new users via a parent's following/followers list.
  * Inserts edges and upserts discovered users with computed priority.
@@ -44,9 +67,9 @@ export async function discoverConnectionsPageByPage(
     octokit: Octokit
   ) => AsyncGenerator<string[], void, undefined>,
   octokit: Octokit,
-  usersCol: Collection<DbGraphUser>,
-  edgesCol: Collection<any>,
-  grandparentRating?: number
+  store: GraphStore,
+  grandparentRating?: number,
+  seedPath?: SeedPath | null // path the discovered users get through this parent
 ) {
   const childDepth = depth + 1;
   const childPriority = computePriority(
@@ -66,46 +89,26 @@ export async function discoverConnectionsPageByPage(
           ? pageItems.map((item) => ({ from: item, to: parentUsername }))
           : pageItems.map((item) => ({ from: parentUsername, to: item }));
 
-      await edgesCol
-        .insertMany(edgeDocs, { ordered: false })
-        .catch(() => {}); // Ignore duplicate edge errors
+      await store.addEdges(edgeDocs);
 
-      // Upsert discovered users in chunks
-      const CHUNK_SIZE = 100;
-      for (let i = 0; i < pageItems.length; i += CHUNK_SIZE) {
-        const chunk = pageItems.slice(i, i + CHUNK_SIZE);
-        await usersCol
-          .bulkWrite(
-            chunk.map((newUsername: string) => ({
-              updateOne: {
-                filter: { _id: newUsername },
-                update: {
-                  $setOnInsert: {
-                    _id: newUsername,
-                    status: "pending" as const,
-                    depth: childDepth,
-                    discoveredVia: connectionType,
-                    scrapedConnections: { followers: false, following: false },
-                  },
-                  $max: { priority: childPriority },
-                  $addToSet: {
-                    parentRatings: {
-                      parent: parentUsername,
-                      rating: parentRating,
-                    },
-                  },
-                },
-                upsert: true,
-              },
-            }))
-          )
-          .catch((err: any) => {
-            console.error(
-              `Error upserting users from ${connectionType} for ${parentUsername}:`,
-              err
-            );
-          });
-      }
+      // Upsert discovered users
+      await store
+        .upsertDiscoveredUsers(
+          pageItems.map((newUsername) => ({
+            username: newUsername,
+            depth: childDepth,
+            discoveredVia: connectionType,
+            priority: childPriority,
+            parent: { parent: parentUsername, rating: parentRating },
+            seedPath,
+          }))
+        )
+        .catch((err: any) => {
+          console.error(
+            `Error upserting users from ${connectionType} for ${parentUsername}:`,
+            err
+          );
+        });
     }
   } catch (err) {
     console.error(
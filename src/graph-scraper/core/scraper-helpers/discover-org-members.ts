@@ -0,0 +1,123 @@
+import { Octokit } from "@octokit/core";
+import { companyConfig } from "../../../config/company.js";
+import { OrgSource } from "../../types.js";
+import { DiscoveredUser, GraphStore } from "../store/graph-store.js";
+import {
+  fetchOrgMembersPaged,
+  fetchOrgTopRepos,
+  fetchRepoInteractorsPaged,
+} from "./fetch-connections.js";
+
+// Deliberate sourcing from companies whose engineers fit the profile. Org
+// members have no rated parent, so they can only enter at depth 0 (treated as
+// seeds: no filters, boosted connections) or depth 1 (like a seed's
+// connections); deeper users need a parent rated >= MIN_BEST_PARENT_RATING to
+// be picked from the queue.
+
+export interface OrgDiscoveryOptions {
+  depth: 0 | 1;
+  priority: number; // public members; contributors get contributorPriority
+  contributorPriority: number;
+  maxRepos: number; // most starred public, non-fork repos
+  minStars: number;
+  contributorsPerRepo: number; // top contributors by commits
+}
+
+export const DEFAULT_ORG_DISCOVERY: OrgDiscoveryOptions = {
+  depth: 1,
+  priority: 60, // what a seed passes on to its connections
+  contributorPriority: 50,
+  maxRepos: 10,
+  minStars: 10,
+  contributorsPerRepo: 10,
+};
+
+export interface OrgDiscoveryStats {
+  org: string;
+  members: number;
+  contributors: number; // not also members
+  repos: number;
+  queued: number; // new to the graph
+  known: number; // already in the graph (tagged, not re-queued)
+}
+
+export const orgLogin = (org: string) =>
+  org.replace("https://github.com/", "").replace(/\/$/, "");
+
+/**
+ * Queues an organization's public members and the top contributors to its
+ * most starred repos. Everyone is tagged with the org (and contributors with
+ * the repo); users already in the graph keep their status and depth.
+ */
+export async function discoverOrgMembers(
+  orgUrl: string,
+  octokit: Octokit,
+  store: GraphStore,
+  options: OrgDiscoveryOptions = DEFAULT_ORG_DISCOVERY
+): Promise<OrgDiscoveryStats> {
+  const org = orgLogin(orgUrl);
+  const teamMembers = new Set(companyConfig.teamMembers.map(orgLogin));
+
+  const members = new Set<string>();
+  for await (const page of fetchOrgMembersPaged(org, octokit)) {
+    for (const login of page) if (!teamMembers.has(login)) members.add(login);
+  }
+
+  const repos =
+    options.maxRepos > 0
+      ? (await fetchOrgTopRepos(org, options.maxRepos, octokit)).filter(
+          (r) => r.stars >= options.minStars
+        )
+      : [];
+  const contributors = new Map<string, string[]>(); // login -> repos
+  for (const { repo } of repos) {
+    const [owner, name] = repo.split("/");
+    for await (const page of fetchRepoInteractorsPaged(owner, name, "contributor", octokit)) {
+      for (const login of page.slice(0, options.contributorsPerRepo)) {
+        if (teamMembers.has(login)) continue;
+        contributors.set(login, [...(contributors.get(login) ?? []), repo]);
+      }
+      break; // first page is sorted by commits
+    }
+  }
+
+  const entry = (username: string, via: OrgSource["via"], priority: number) => ({
+    username,
+    depth: options.depth,
+    discoveredVia: "org" as const,
+    priority,
+    orgSource: { org, via },
+  });
+  const discovered: DiscoveredUser[] = [
+    ...[...members].map((login) => entry(login, "member", options.priority)),
+    ...[...contributors].flatMap(([login, contributedTo]) =>
+      contributedTo.map((repo) => ({
+        ...entry(login, "contributor", options.contributorPriority),
+        repoInteraction: { repo, type: "contributor" as const },
+      }))
+    ),
+  ];
+
+  const logins = [...new Set(discovered.map((d) => d.username))];
+  const existing = new Set<string>();
+  for (let i = 0; i < logins.length; i += 1000) {
+    const chunk = logins.slice(i, i + 1000);
+    for (const u of await store.findUsers({ _id: { $in: chunk } }, { projection: { _id: 1 } })) {
+      existing.add(u._id);
+    }
+  }
+  await store.upsertDiscoveredUsers(discovered);
+
+  const stats: OrgDiscoveryStats = {
+    org,
+    members: members.size,
+    contributors: [...contributors.keys()].filter((l) => !members.has(l)).length,
+    repos: repos.length,
+    queued: logins.length - existing.size,
+    known: existing.size,
+  };
+  console.log(
+    `[${org}] ${stats.members} public members, ${stats.contributors} other top contributors across ${stats.repos} repos: ${stats.queued} queued, ${stats.known} already known`
+  );
+  return stats;
+}
@@ -0,0 +1,116 @@
+import { Octokit } from "@octokit/core";
+import { GitHubRepo } from "../../../types.js";
+import { RepoInteractionType, SeedPath } from "../../types.js";
+import { GraphStore } from "../store/graph-store.js";
+import { computePriority } from "./discover-connections.js";
+import { fetchRepoInteractorsPaged } from "./fetch-connections.js";
+
+// People who commit to, open PRs on or discuss a strong user's repos actually
+// work with them, which says more than a follow. Only the first page of each
+// list is read: top contributors by commits, the latest PR authors and
+// commenters.
+
+export interface RepoContributorConfig {
+  minRating: number; // parent rating needed to look at their repos
+  maxRepos: number; // the user's own repos, most starred first
+  minStars: number; // skip toy repos nobody else touches
+  maxPerRepo: number; // people queued per repo
+}
+
+export const DEFAULT_REPO_CONTRIBUTORS: RepoContributorConfig = {
+  minRating: 50,
+  maxRepos: 3,
+  minStars: 5,
+  maxPerRepo: 30,
+};
+
+// Strongest signal first; a person found several ways is ranked by the first
+const CO_CONTRIBUTOR_KINDS: RepoInteractionType[] = ["contributor", "pr-author", "commenter"];
+
+/**
+ * The user's own non-fork repos with at least `minStars`, most starred first.
+ * Pinned repos can belong to someone else, so the owner must be the user.
+ */
+export function pickTopRepos(
+  username: string,
+  repos: GitHubRepo[] | null | undefined,
+  config: RepoContributorConfig
+): string[] {
+  const owner = username.toLowerCase();
+  return (repos ?? [])
+    .filter(
+      (r) =>
+        !r.is_fork &&
+        r.full_name?.split("/")[0].toLowerCase() === owner &&
+        r.stargazers_count >= config.minStars
+    )
+    .sort((a, b) => b.stargazers_count - a.stargazers_count)
+    .slice(0, config.maxRepos)
+    .map((r) => r.full_name);
+}
+
+async function firstPage(
+  owner: string,
+  repo: string,
+  kind: RepoInteractionType,
+  octokit: Octokit
+): Promise<string[]> {
+  for await (const page of fetchRepoInteractorsPaged(owner, repo, kind, octokit)) {
+    return page;
+  }
+  return [];
+}
+
+/**
+ * Queues the co-contributors on a parent's top repos with "repo-contributor"
+ * priority and tags each with the repo and how they took part. No follow edges
+ * are added. Returns how many people were queued or tagged.
+ */
+export async function discoverRepoContributors(
+  parentUsername: string,
+  depth: number,
+  parentRating: number,
+  repos: string[],
+  octokit: Octokit,
+  store: GraphStore,
+  config: RepoContributorConfig,
+  grandparentRating?: number,
+  seedPath?: SeedPath | null
+): Promise<number> {
+  const priority = computePriority(parentRating, "repo-contributor", depth + 1, grandparentRating);
+  let found = 0;
+
+  for (const repo of repos) {
+    const [owner, name] = repo.split("/");
+    const kinds = new Map<string, RepoInteractionType[]>();
+    for (const kind of CO_CONTRIBUTOR_KINDS) {
+      for (const login of await firstPage(owner, name, kind, octokit)) {
+        if (login === parentUsername) continue;
+        const seen = kinds.get(login);
+        if (seen) {
+          if (!seen.includes(kind)) seen.push(kind);
+        } else if (kinds.size < config.maxPerRepo) {
+          kinds.set(login, [kind]);
+        }
+      }
+    }
+    if (kinds.size === 0) continue;
+
+    await store.upsertDiscoveredUsers(
+      [...kinds].flatMap(([username, userKinds]) =>
+        userKinds.map((type) => ({
+          username,
+          depth: depth + 1,
+          discoveredVia: "repo-contributor" as const,
+          priority,
+          parent: { parent: parentUsername, rating: parentRating },
+          seedPath,
+          repoInteraction: { repo, type },
+        }))
+      )
+    );
+    console.log(`[${parentUsername}] ${repo}: ${kinds.size} co-contributors`);
+    found += kinds.size;
+  }
+  return found;
+}
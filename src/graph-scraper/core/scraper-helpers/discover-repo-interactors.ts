@@ -0,0 +1,87 @@
+import { Octokit } from "@octokit/core";
+import { companyConfig } from "../../../config/company.js";
+import { RepoInteractionType } from "../../types.js";
+import { GraphStore } from "../store/graph-store.js";
+import { computeRepoPriority } from "./discover-connections.js";
+import { fetchRepoInteractorsPaged } from "./fetch-connections.js";
+
+export const REPO_INTERACTION_TYPES: RepoInteractionType[] = [
+  "contributor",
+  "pr-author",
+  "forker",
+  "commenter",
+  "watcher",
+  "stargazer",
+];
+
+export interface RepoInteractorStats {
+  type: RepoInteractionType;
+  scanned: number;
+  queued: number; // new to the graph
+  known: number; // already in the graph (tagged, not re-queued)
+  truncated: boolean; // stopped at maxPerType
+}
+
+const repoPath = (repoUrl: string) =>
+  repoUrl.replace("https://github.com/", "").replace(/\/$/, "");
+
+/**
+ * Queues the interactors of one repository as depth-1 users, like a seed's
+ * connections. Each one is tagged with the repo and interaction type; users
+ * already in the graph keep their status and only get the tag. Scraping,
+ * filtering and rating happen in the normal scraper loop.
+ */
+export async function discoverRepoInteractors(
+  repoUrl: string,
+  types: RepoInteractionType[],
+  octokit: Octokit,
+  store: GraphStore,
+  { maxPerType = 20000 }: { maxPerType?: number } = {}
+): Promise<RepoInteractorStats[]> {
+  const repo = repoPath(repoUrl);
+  const [owner, name] = repo.split("/");
+  if (!owner || !name) throw new Error(`Not a repository: ${repoUrl}`);
+
+  const teamMembers = new Set(companyConfig.teamMembers.map(repoPath));
+  const results: RepoInteractorStats[] = [];
+
+  for (const type of types) {
+    const stats: RepoInteractorStats = { type, scanned: 0, queued: 0, known: 0, truncated: false };
+    const priority = computeRepoPriority(type);
+
+    for await (const page of fetchRepoInteractorsPaged(owner, name, type, octokit)) {
+      const logins = page
+        .filter((login) => !teamMembers.has(login))
+        .slice(0, maxPerType - stats.scanned);
+      stats.scanned += logins.length;
+
+      const existing = new Set(
+        (await store.findUsers({ _id: { $in: logins } }, { projection: { _id: 1 } })).map(
+          (u) => u._id
+        )
+      );
+      stats.known += existing.size;
+      stats.queued += logins.length - existing.size;
+
+      await store.upsertDiscoveredUsers(
+        logins.map((username) => ({
+          username,
+          depth: 1,
+          discoveredVia: "repo" as const,
+          priority,
+          repoInteraction: { repo, type },
+        }))
+      );
+
+      if (stats.scanned >= maxPerType) {
+        stats.truncated = true;
+        break;
+      }
+    }
+    console.log(
+      `[${repo}] ${type}s: ${stats.scanned} found, ${stats.queued} queued, ${stats.known} already known${stats.truncated ? ` (stopped at ${maxPerType})` : ""}`
+    );
+    results.push(stats);
+  }
+  return results;
+}
@@ -1,5 +1,6 @@
 import { Octokit } from "@octokit/core";
 import { withRateLimitRetry } from "../../../utils/prime-scraper-api-utils.js";
+import { RepoInteractionType } from "../../types.js";
 
 // Helper functions (async generators for paged fetching)
 export async function* fetchFollowersPaged(
@@ -30,6 +31,63 @@ export async function* fetchFollowersPaged(
   }
 }
 
+// REST endpoint and login accessor per repo interaction ("watchers" are
+// subscribers; GitHub's /watchers endpoint lists stargazers)
+const REPO_INTERACTOR_ENDPOINTS: Record<
+  RepoInteractionType,
+  {
+    route: string;
+    params?: Record<string, string>;
+    login: (item: any) => { login?: string; type?: string } | null;
+  }
+> = {
+  stargazer: { route: "GET /repos/{owner}/{repo}/stargazers", login: (item) => item },
+  watcher: { route: "GET /repos/{owner}/{repo}/subscribers", login: (item) => item },
+  forker: { route: "GET /repos/{owner}/{repo}/forks", login: (item) => item.owner },
+  contributor: { route: "GET /repos/{owner}/{repo}/contributors", login: (item) => item },
+  "pr-author": {
+    route: "GET /repos/{owner}/{repo}/pulls",
+    params: { state: "all" },
+    login: (item) => item.user,
+  },
+  commenter: {
+    route: "GET /repos/{owner}/{repo}/issues/comments",
+    params: { sort: "created", direction: "desc" }, // oldest first by default
+    login: (item) => item.user,
+  },
+};
+
+// Pages come in the API's order: contributors by commits, pull requests and
+// comments newest first
+export async function* fetchRepoInteractorsPaged(
+  owner: string,
+  repo: string,
+  type: RepoInteractionType,
+  octokit: Octokit
+): AsyncGenerator<string[], void, undefined> {
+  const { route, params, login } = REPO_INTERACTOR_ENDPOINTS[type];
+  let page = 1;
+  const perPage = 100;
+  while (true) {
+    const response: any = await withRateLimitRetry(() =>
+      octokit.request(route, { owner, repo, ...params, per_page: perPage, page })
+    );
+    // The contributors endpoint answers 204 for empty repos
+    if (!Array.isArray(response.data) || response.data.length === 0) break;
+    const logins = response.data
+      .map(login)
+      .filter((account: any) => account?.login && account.type === "User")
+      .map((account: any) => account.login as string);
+
+    if (logins.length > 0) {
+      yield logins;
+    }
+
+    if (response.data.length < perPage) break;
+    page++;
+  }
+}
+
 export async function* fetchFollowingPaged(
   username: string,
   octokit: Octokit
@@ -57,3 +115,134 @@ export async function* fetchFollowingPaged(
     page++;
   }
 }
+
+// Light profile of a follower, enough for the follower sampler's pre-screen
+export interface FollowerProfile {
+  login: string;
+  createdAt: string;
+  name: string | null;
+  bio: string | null;
+  company: string | null;
+  location: string | null;
+  websiteUrl: string | null;
+  twitterUsername: string | null;
+  followers: number;
+  following: number;
+}
+
+const FOLLOWER_PROFILES_QUERY = `
+  query($followersOf: String!, $first: Int!, $after: String) {
+    user(login: $followersOf) {
+      followers(first: $first, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          login
+          createdAt
+          name
+          bio
+          company
+          location
+          websiteUrl
+          twitterUsername
+          followers { totalCount }
+          following { totalCount }
+        }
+      }
+    }
+  }
+`;
+
+/** Followers with their profile basics, one GraphQL query per page of 100. */
+export async function* fetchFollowerProfilesPaged(
+  username: string,
+  octokit: Octokit
+): AsyncGenerator<FollowerProfile[], void, undefined> {
+  let after: string | null = null;
+  while (true) {
+    const response: any = await withRateLimitRetry(() =>
+      octokit.request("POST /graphql", {
+        query: FOLLOWER_PROFILES_QUERY,
+        variables: { followersOf: username, first: 100, after },
+      })
+    );
+    const followers = response.data.data?.user?.followers;
+    if (!followers) break;
+
+    const page: FollowerProfile[] = followers.nodes
+      .filter((n: any) => n?.login)
+      .map((n: any) => ({
+        login: n.login,
+        createdAt: n.createdAt,
+        name: n.name || null,
+        bio: n.bio || null,
+        company: n.company || null,
+        location: n.location || null,
+        websiteUrl: n.websiteUrl || null,
+        twitterUsername: n.twitterUsername || null,
+        followers: n.followers.totalCount,
+        following: n.following.totalCount,
+      }));
+    if (page.length > 0) yield page;
+
+    if (!followers.pageInfo.hasNextPage) break;
+    after = followers.pageInfo.endCursor;
+  }
+}
+
+export async function* fetchOrgMembersPaged(
+  org: string,
+  octokit: Octokit
+): AsyncGenerator<string[], void, undefined> {
+  let page = 1;
+  const perPage = 100;
+  while (true) {
+    const response = await withRateLimitRetry(() =>
+      octokit.request("GET /orgs/{org}/public_members", { org, per_page: perPage, page })
+    );
+    if (response.data.length === 0) break;
+    const members = response.data
+      .filter((user: any) => user.type === "User")
+      .map((user: any) => user.login);
+
+    if (members.length > 0) {
+      yield members;
+    }
+
+    if (response.data.length < perPage) break;
+    page++;
+  }
+}
+
+const ORG_TOP_REPOS_QUERY = `
+  query($org: String!, $first: Int!) {
+    organization(login: $org) {
+      repositories(
+        first: $first
+        privacy: PUBLIC
+        isFork: false
+        orderBy: { field: STARGAZERS, direction: DESC }
+      ) {
+        nodes { nameWithOwner stargazerCount isArchived }
+      }
+    }
+  }
+`;
+
+/** An organization's most starred public, non-fork repos (one GraphQL query). */
+export async function fetchOrgTopRepos(
+  org: string,
+  first: number,
+  octokit: Octokit
+): Promise<Array<{ repo: string; stars: number }>> {
+  const response: any = await withRateLimitRetry(() =>
+    octokit.request("POST /graphql", {
+      query: ORG_TOP_REPOS_QUERY,
+      variables: { org, first },
+    })
+  );
+  const organization = response.data.data?.organization;
+  if (!organization) throw new Error(`No GitHub organization "${org}"`);
+  return organization.repositories.nodes
+    .filter((r: any) => r && !r.isArchived)
+    .map((r: any) => ({ repo: r.nameWithOwner, stars: r.stargazerCount }));
+}
@@ -1,12 +1,9 @@
 import { Octokit } from "@octokit/core";
 import { normalizeLocation } from "../../../utils/location.js";
 import { withRateLimitRetry } from "../../../utils/prime-scraper-api-utils.js";
-import {
-  fetchProfileReadme,
-  fetchRecentRepositories,
-  fetchWebsiteContent,
-  fetchXProfileMetadata,
-} from "../../../utils/profile-data-fetchers.js";
+import { fetchRecentRepositories } from "../../../utils/profile-data-fetchers.js";
+import { getProvider } from "../providers/providers.js";
+import type { PrefetchedUser } from "./fetch-users-batch.js";
 
 export async function fetchBasicUserData(
   octokit: Octokit,
@@ -58,21 +55,29 @@ export async function fetchBasicUserData(
   };
 }
 
+export type BasicUserData = Awaited<ReturnType<typeof fetchBasicUserData>>;
+
 export async function fetchAdditionalUserData(
   username: string,
   userData: any,
-  octokit: Octokit
+  octokit: Octokit,
+  prefetched?: PrefetchedUser
 ) {
+  // README and repos come with the batched GraphQL fetch when available
   const [profileReadme, websiteContent, xProfile, recentRepositories] =
     await Promise.all([
-      fetchProfileReadme(username),
+      prefetched
+        ? prefetched.profileReadme
+        : getProvider("github").fetchProfileReadme(username),
       userData.blog
-        ? fetchWebsiteContent(userData.blog)
+        ? getProvider("website").fetchContent(userData.blog)
         : Promise.resolve(null),
       userData.twitter_username
-        ? fetchXProfileMetadata(userData.twitter_username)
+        ? getProvider("website").fetchXProfile(userData.twitter_username)
         : Promise.resolve(null),
-      fetchRecentRepositories(username, octokit),
+      prefetched
+        ? prefetched.recentRepositories
+        : fetchRecentRepositories(username, octokit),
     ]);
 
   return {
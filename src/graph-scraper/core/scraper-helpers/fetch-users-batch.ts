@@ -0,0 +1,247 @@
+import { Octokit } from "@octokit/core";
+import { GitHubRepo } from "../../../types.js";
+import { normalizeLocation } from "../../../utils/location.js";
+import {
+  contributionWindow,
+  CONTRIBUTIONS_SELECTION,
+  toContributionData,
+  withRateLimitRetry,
+} from "../../../utils/prime-scraper-api-utils.js";
+import { rankRepositories } from "../../../utils/profile-data-fetchers.js";
+import { ContributionData } from "../../types.js";
+import { BasicUserData } from "./fetch-user-data.js";
+
+// Users aliased into one GraphQL query. Bigger batches are cheaper per user but
+// the repo connections push the query cost up quickly.
+export const GRAPHQL_USERS_PER_QUERY = 10;
+const REPOS_PER_USER = 50;
+
+export interface PrefetchedUser {
+  basic: BasicUserData;
+  contributions: ContributionData | null;
+  profileReadme: string | null;
+  recentRepositories: GitHubRepo[] | null;
+}
+
+const REPO_FIELDS = `
+  databaseId
+  name
+  nameWithOwner
+  description
+  primaryLanguage { name }
+  createdAt
+  updatedAt
+  pushedAt
+  stargazerCount
+  forkCount
+  isFork
+  repositoryTopics(first: 10) { nodes { topic { name } } }
+`;
+
+// Fields can't be shared through a fragment: the profile README lives in the
+// repo named after the user, which needs the per-alias login variable.
+function userSelection(i: number) {
+  return `
+    u${i}: user(login: $login${i}) {
+      login
+      url
+      createdAt
+      name
+      bio
+      company
+      websiteUrl
+      location
+      email
+      twitterUsername
+      followers { totalCount }
+      following { totalCount }
+      socialAccounts(first: 10) { nodes { provider url } }
+      contributionsCollection(from: $from, to: $to) {
+        ${CONTRIBUTIONS_SELECTION}
+      }
+      publicRepos: repositories(privacy: PUBLIC, ownerAffiliations: OWNER) { totalCount }
+      pinnedItems(first: 6, types: REPOSITORY) {
+        nodes { ... on Repository { ${REPO_FIELDS} } }
+      }
+      repositories(
+        first: ${REPOS_PER_USER}
+        privacy: PUBLIC
+        ownerAffiliations: OWNER
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        nodes { ${REPO_FIELDS} }
+      }
+      profileRepo: repository(name: $login${i}) {
+        readme: object(expression: "HEAD:README.md") { ... on Blob { text } }
+      }
+    }
+  `;
+}
+
+function buildQuery(count: number) {
+  const params = Array.from({ length: count }, (_, i) => `$login${i}: String!`);
+  const selections = Array.from({ length: count }, (_, i) => userSelection(i));
+  return `query(${params.join(", ")}, $from: DateTime!, $to: DateTime!) {${selections.join("")}}`;
+}
+
+function toRepo(node: any): GitHubRepo {
+  return {
+    id: node.databaseId,
+    name: node.name,
+    full_name: node.nameWithOwner,
+    description: node.description,
+    language: node.primaryLanguage?.name || null,
+    created_at: node.createdAt || null,
+    updated_at: node.updatedAt || null,
+    pushed_at: node.pushedAt || null,
+    stargazers_count: node.stargazerCount || 0,
+    forks_count: node.forkCount || 0,
+    topics: (node.repositoryTopics?.nodes || []).map((t: any) => t.topic.name),
+    is_fork: node.isFork,
+  };
+}
+
+// Pinned repos are the user's own pick, so they lead; the rest is ranked as in
+// fetchRecentRepositories
+function toRecentRepositories(user: any): GitHubRepo[] {
+  const pinned: GitHubRepo[] = (user.pinnedItems?.nodes || [])
+    .filter((n: any) => n?.databaseId)
+    .map(toRepo);
+  const pinnedIds = new Set(pinned.map((r) => r.id));
+  const others = (user.repositories?.nodes || [])
+    .map(toRepo)
+    .filter((r: GitHubRepo) => !pinnedIds.has(r.id));
+  return [...pinned, ...rankRepositories(others)].slice(0, 10);
+}
+
+function toPrefetchedUser(user: any, depth: number): PrefetchedUser {
+  const linkedinSocial = (user.socialAccounts?.nodes || []).find(
+    (a: { provider: string; url: string }) =>
+      a.provider === "LINKEDIN" || a.url?.includes("linkedin.com")
+  );
+
+  return {
+    basic: {
+      _id: user.login,
+      login: user.login,
+      profileUrl: user.url || "",
+      createdAt: user.createdAt,
+      followers: user.followers.totalCount,
+      following: user.following.totalCount,
+      name: user.name || null,
+      bio: user.bio || null,
+      company: user.company || null,
+      blog: user.websiteUrl || null,
+      location: user.location || null,
+      normalizedLocation: normalizeLocation(user.location) || null,
+      email: user.email || null,
+      twitter_username: user.twitterUsername || null,
+      linkedinUrl: linkedinSocial?.url || null,
+      xUrl: null,
+      xBio: null,
+      xName: null,
+      xLocation: null,
+      public_repos: user.publicRepos.totalCount,
+      contributions: null,
+      profileReadme: null,
+      websiteContent: null,
+      recentRepositories: null,
+      depth,
+      repoInteractionScraped: [],
+    },
+    contributions: user.contributionsCollection
+      ? toContributionData(user.contributionsCollection)
+      : null,
+    profileReadme: user.profileRepo?.readme?.text ?? null,
+    recentRepositories: toRecentRepositories(user),
+  };
+}
+
+// HEAD:README.md misses other names (readme.md, README.rst, ...); REST
+// resolves the README the way the profile page does
+async function fetchReadmeRest(octokit: Octokit, login: string): Promise<string | null> {
+  try {
+    const { data } = await withRateLimitRetry(() =>
+      octokit.request("GET /repos/{owner}/{repo}/readme", { owner: login, repo: login })
+    );
+    return data.content ? Buffer.from(data.content, "base64").toString("utf-8") : null;
+  } catch (error: any) {
+    if (error?.status !== 404) {
+      console.warn(`[BatchFetch] README fallback failed for ${login}: ${error?.message || error}`);
+    }
+    return null;
+  }
+}
+
+async function fetchChunk(
+  octokit: Octokit,
+  users: Array<{ username: string; depth: number }>
+): Promise<Map<string, PrefetchedUser | null>> {
+  const variables: Record<string, string> = { ...contributionWindow() };
+  users.forEach((u, i) => (variables[`login${i}`] = u.username));
+
+  const { data } = await withRateLimitRetry(() =>
+    octokit.request("POST /graphql", {
+      query: buildQuery(users.length),
+      variables,
+    })
+  );
+
+  // Partial errors are expected: unknown logins resolve to null with a
+  // NOT_FOUND error, the other aliases still come back
+  const results = new Map<string, PrefetchedUser | null>();
+  await Promise.all(
+    users.map(async (u, i) => {
+      const user = data.data?.[`u${i}`];
+      if (!user) {
+        results.set(u.username, null);
+        return;
+      }
+      const prefetched = toPrefetchedUser(user, u.depth);
+      // Only users with a profile repo can have a README under another name
+      if (user.profileRepo && prefetched.profileReadme === null) {
+        prefetched.profileReadme = await fetchReadmeRest(octokit, user.login);
+      }
+      results.set(u.username, prefetched);
+    })
+  );
+
+  const otherErrors = (data.errors || []).filter(
+    (e: any) => e.type !== "NOT_FOUND"
+  );
+  if (otherErrors.length > 0) {
+    console.warn(
+      `[BatchFetch] GraphQL errors: ${otherErrors.map((e: any) => e.message).join("; ")}`
+    );
+  }
+  return results;
+}
+
+/**
+ * Fetches profile, social accounts, contributions, pinned/recent repos and the
+ * profile README for many users with one GraphQL query per
+ * GRAPHQL_USERS_PER_QUERY users.
+ *
+ * Returns a map keyed by the requested username. null means GraphQL didn't
+ * resolve the login and a missing entry means its chunk failed; either way the
+ * caller falls back to per-user fetching, which settles whether the user
+ * exists. A profile repo without README.md costs one extra REST request.
+ */
+export async function fetchUsersBatch(
+  octokit: Octokit,
+  users: Array<{ username: string; depth: number }>
+): Promise<Map<string, PrefetchedUser | null>> {
+  const results = new Map<string, PrefetchedUser | null>();
+  for (let i = 0; i < users.length; i += GRAPHQL_USERS_PER_QUERY) {
+    const chunk = users.slice(i, i + GRAPHQL_USERS_PER_QUERY);
+    try {
+      const chunkResults = await fetchChunk(octokit, chunk);
+      chunkResults.forEach((value, key) => results.set(key, value));
+    } catch (error: any) {
+      console.error(
+        `[BatchFetch] Failed for ${chunk.map((u) => u.username).join(", ")}: ${error?.message || error}`
+      );
+    }
+  }
+  return results;
+}
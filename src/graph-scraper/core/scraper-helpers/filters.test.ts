@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { DEFAULT_FILTER_RULES, FilterRuleSchema } from "../../../config/load-profile.js";
+import { ContributionData, IgnoredReason } from "../../types.js";
+import { buildContributionCalendar } from "../providers/fakes/fake-github.js";
+import { evaluateFilterRules } from "./filters.js";
+
+const rules = (input: z.input<typeof FilterRuleSchema>[]) => z.array(FilterRuleSchema).parse(input);
+
+function contributions(
+  total: number,
+  options: { activeMonths?: number; weekendShare?: number; calendar?: boolean } = {}
+): ContributionData {
+  const { calendar = true, ...spread } = options;
+  return {
+    total_commits: total,
+    total_issues: 0,
+    total_prs: 0,
+    restricted_contributions: 0,
+    calendar_total: total,
+    calendar_weeks: calendar ? buildContributionCalendar(total, spread) : (undefined as any),
+    totalSum: total,
+  };
+}
+
+const USER = { login: "octocat", bio: "dev", location: "Berlin, Germany", followers: 10 };
+const ACTIVE = contributions(2000, { activeMonths: 12, weekendShare: 0.3 });
+
+// The filters the scraper applied before rules were configurable, in the same order
+describe("evaluateFilterRules with the default rules", () => {
+  const defaults = rules(DEFAULT_FILTER_RULES);
+
+  it.each([
+    { name: "an active user", user: USER, data: ACTIVE, want: undefined },
+    {
+      name: "a banned country before anything else",
+      user: { login: "x", location: "Beijing, China" },
+      data: null,
+      want: IgnoredReason.BANNED_COUNTRY,
+    },
+    {
+      name: "an empty profile before missing contributions",
+      user: { login: "x" },
+      data: null,
+      want: IgnoredReason.INSUFFICIENT_PROFILE_FIELDS,
+    },
+    { name: "missing contributions", user: USER, data: null, want: IgnoredReason.COULD_NOT_FETCH_CONTRIBUTIONS },
+    {
+      name: "low contributions before the calendar checks",
+      user: USER,
+      data: contributions(400, { activeMonths: 3, weekendShare: 0 }),
+      want: IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS,
+    },
+    {
+      name: "too few active months",
+      user: USER,
+      data: contributions(2000, { activeMonths: 6 }),
+      want: IgnoredReason.NOT_ACTIVE_ENOUGH_MONTHS,
+    },
+    {
+      name: "a weekday coder",
+      user: USER,
+      data: contributions(2000, { weekendShare: 0 }),
+      want: IgnoredReason.WEEKDAY_CODER,
+    },
+    {
+      name: "a missing calendar, skipping the calendar checks",
+      user: USER,
+      data: contributions(2000, { calendar: false }),
+      want: undefined,
+    },
+  ])("reads $name", ({ user, data, want }) => {
+    const result = evaluateFilterRules(defaults, user, data);
+    expect(result.shouldIgnore).toBe(want !== undefined);
+    expect(result.reason).toBe(want);
+  });
+});
+
+describe("evaluateFilterRules with when conditions", () => {
+  const lowForFewFollowersRule: z.input<typeof FilterRuleSchema> = {
+    field: "contributions.total",
+    op: "<",
+    value: 2500,
+    when: [{ field: "followers", op: "<", value: 60 }],
+    reason: IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS,
+  };
+  const lowForFewFollowers = rules([lowForFewFollowersRule]);
+  const followersWhenInactive = rules([
+    {
+      field: "followers",
+      op: ">",
+      value: 5000,
+      when: [{ field: "contributions.total", op: "<", value: 100 }],
+      reason: IgnoredReason.TOO_MANY_FOLLOWERS,
+    },
+  ]);
+
+  it.each([
+    { name: "all conditions hold", rules: lowForFewFollowers, followers: 10, data: ACTIVE, want: IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS },
+    { name: "the when condition fails", rules: lowForFewFollowers, followers: 100, data: ACTIVE, want: undefined },
+    { name: "the when field is missing", rules: lowForFewFollowers, followers: undefined, data: ACTIVE, want: undefined },
+    { name: "no contributions, when holds", rules: lowForFewFollowers, followers: 10, data: null, want: IgnoredReason.COULD_NOT_FETCH_CONTRIBUTIONS },
+    { name: "no contributions, when fails", rules: lowForFewFollowers, followers: 100, data: null, want: undefined },
+    { name: "no contributions for the when, field holds", rules: followersWhenInactive, followers: 6000, data: null, want: IgnoredReason.COULD_NOT_FETCH_CONTRIBUTIONS },
+    { name: "no contributions for the when, field fails", rules: followersWhenInactive, followers: 10, data: null, want: undefined },
+  ])("checks a rule where $name", ({ rules, followers, data, want }) => {
+    const result = evaluateFilterRules(rules, { ...USER, followers }, data);
+    expect(result.shouldIgnore).toBe(want !== undefined);
+    expect(result.reason).toBe(want);
+  });
+
+  it("moves on to later rules when a rule's when condition fails", () => {
+    const chained = rules([
+      lowForFewFollowersRule,
+      { field: "followers", op: ">=", value: 100, reason: IgnoredReason.TOO_MANY_FOLLOWERS },
+    ]);
+    const result = evaluateFilterRules(chained, { ...USER, followers: 100 }, null);
+    expect(result.reason).toBe(IgnoredReason.TOO_MANY_FOLLOWERS);
+    expect(result.rule).toBe(chained[1]);
+  });
+});
@@ -1,70 +1,127 @@
+import { companyConfig } from "../../../config/company.js";
+import {
+  FilterCondition,
+  FilterField,
+  FilterRule,
+} from "../../../config/load-profile.js";
 import { isLocationInBadCountries } from "../../../utils/location.js";
 import { countProfileFields } from "../../../utils/prime-scraper-api-utils.js";
 import { ContributionData, IgnoredReason } from "../../types.js";
-import {
-  isActiveInEnoughMonths,
-  isWeekdayCoder,
-} from "./contribution-patterns.js";
+import { countActiveMonths, weekdayShare } from "./contribution-patterns.js";
 
-export async function checkUserFilters(
+// Filters are rules from the company profile (`filterRules`), evaluated here
+// for the scraper and for `gh-scout filter-rules` dry runs.
+
+export class FilterRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilterRuleError";
+  }
+}
+
+export interface FilterResult {
+  shouldIgnore: boolean;
+  reason?: IgnoredReason;
+  rule?: FilterRule; // the first rule that matched
+}
+
+// null when the data isn't there (e.g. no calendar); conditions on it never hold
+export type FilterMetrics = Record<FilterField, number | boolean | null>;
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+export function filterMetrics(
   userData: any,
   contributions: ContributionData | null | undefined
-): Promise<{ shouldIgnore: boolean; reason?: IgnoredReason }> {
-  console.log(
-    `[Filter Check] Checking filters for ${userData.login} (depth: ${userData.depth})`
-  );
+): FilterMetrics {
+  const weeks = contributions?.calendar_weeks;
+  return {
+    followers: userData.followers ?? null,
+    following: userData.following ?? null,
+    publicRepos: userData.public_repos ?? null,
+    accountAgeYears: userData.createdAt
+      ? (Date.now() - new Date(userData.createdAt).getTime()) / YEAR_MS
+      : null,
+    profileFields: countProfileFields(userData),
+    "location.bannedCountry":
+      !!userData.location && isLocationInBadCountries(userData.location),
+    "contributions.total": contributions?.totalSum ?? null,
+    "contributions.activeMonths": weeks ? countActiveMonths(weeks) : null,
+    "contributions.weekdayShare": weeks ? weekdayShare(weeks) : null,
+  };
+}
 
-  if (userData.location && isLocationInBadCountries(userData.location)) {
-    console.log(`[Filter Check] ${userData.login} rejected: BANNED_COUNTRY`);
-    return { shouldIgnore: true, reason: IgnoredReason.BANNED_COUNTRY };
+function holds(condition: FilterCondition, metrics: FilterMetrics): boolean {
+  const actual = metrics[condition.field];
+  if (actual === null) return false;
+  const value = condition.value;
+  switch (condition.op) {
+    case "<":
+      return Number(actual) < Number(value);
+    case "<=":
+      return Number(actual) <= Number(value);
+    case ">":
+      return Number(actual) > Number(value);
+    case ">=":
+      return Number(actual) >= Number(value);
+    case "==":
+      return actual === value;
+    case "!=":
+      return actual !== value;
   }
+}
 
-  if (countProfileFields(userData) < 1) {
-    console.log(
-      `[Filter Check] ${userData.login} rejected: INSUFFICIENT_PROFILE_FIELDS`
-    );
-    return {
-      shouldIgnore: true,
-      reason: IgnoredReason.INSUFFICIENT_PROFILE_FIELDS,
-    };
-  }
+const describeCondition = (c: FilterCondition) => `${c.field} ${c.op} ${c.value}`;
 
-  if (!contributions) {
-    console.log(
-      `[Filter Check] ${userData.login} rejected: COULD_NOT_FETCH_CONTRIBUTIONS`
-    );
-    return {
-      shouldIgnore: true,
-      reason: IgnoredReason.COULD_NOT_FETCH_CONTRIBUTIONS,
-    };
+/** e.g. "contributions.total < 2500 when followers < 60 -> LOW_CONTRIBUTIONS_LOW_FOLLOWERS" */
+export function describeFilterRule(rule: FilterRule): string {
+  const when = rule.when.length
+    ? ` when ${rule.when.map(describeCondition).join(" and ")}`
+    : "";
+  return `${describeCondition(rule)}${when} -> ${rule.reason}`;
+}
+
+const onContributions = (c: FilterCondition) => c.field.startsWith("contributions.");
+
+/**
+ * Checks `rules` in order and returns the first match. Without contributions,
+ * a rule on contribution fields whose other conditions hold ignores the user
+ * as COULD_NOT_FETCH_CONTRIBUTIONS.
+ */
+export function evaluateFilterRules(
+  rules: FilterRule[],
+  userData: any,
+  contributions: ContributionData | null | undefined
+): FilterResult {
+  const metrics = filterMetrics(userData, contributions);
+  for (const rule of rules) {
+    const conditions = [rule, ...rule.when];
+    const missing = !contributions && conditions.some(onContributions);
+    const checked = missing ? conditions.filter((c) => !onContributions(c)) : conditions;
+    if (checked.every((c) => holds(c, metrics))) {
+      const reason = missing ? IgnoredReason.COULD_NOT_FETCH_CONTRIBUTIONS : rule.reason;
+      return { shouldIgnore: true, reason, rule };
+    }
   }
+  return { shouldIgnore: false };
+}
 
-  if (contributions.totalSum < 500) {
+export async function checkUserFilters(
+  userData: any,
+  contributions: ContributionData | null | undefined,
+  rules: FilterRule[] = companyConfig.filterRules
+): Promise<FilterResult> {
+  console.log(
+    `[Filter Check] Checking filters for ${userData.login} (depth: ${userData.depth})`
+  );
+  const result = evaluateFilterRules(rules, userData, contributions);
+  if (result.shouldIgnore) {
     console.log(
-      `[Filter Check] ${userData.login} rejected: LOW_CONTRIBUTIONS (${contributions.totalSum})`
+      `[Filter Check] ${userData.login} rejected: ${result.reason} (${describeCondition(result.rule!)})`
     );
-    return {
-      shouldIgnore: true,
-      reason: IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS,
-    };
-  }
-
-  if (contributions.calendar_weeks) {
-    if (!isActiveInEnoughMonths(contributions.calendar_weeks)) {
-      console.log(
-        `[Filter Check] ${userData.login} rejected: NOT_ACTIVE_ENOUGH_MONTHS`
-      );
-      return {
-        shouldIgnore: true,
-        reason: IgnoredReason.NOT_ACTIVE_ENOUGH_MONTHS,
-      };
-    }
-    if (isWeekdayCoder(contributions.calendar_weeks)) {
-      console.log(`[Filter Check] ${userData.login} rejected: WEEKDAY_CODER`);
-      return { shouldIgnore: true, reason: IgnoredReason.WEEKDAY_CODER };
-    }
+    return result;
   }
 
   console.log(`[Filter Check] ${userData.login} passed all filters`);
-  return { shouldIgnore: false };
+  return result;
 }
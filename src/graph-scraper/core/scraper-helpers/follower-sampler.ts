@@ -0,0 +1,200 @@
+import { Octokit } from "@octokit/core";
+import { ratingField } from "../../../config/company.js";
+import { isLocationInBadCountries } from "../../../utils/location.js";
+import { FollowerRejection, FollowerSampleStats, SeedPath } from "../../types.js";
+import { GraphStore } from "../store/graph-store.js";
+import { computePriority } from "./discover-connections.js";
+import { FollowerProfile, fetchFollowerProfilesPaged } from "./fetch-connections.js";
+
+// Followers are noisy (anyone can follow a well-known engineer), so instead of
+// queueing all of them like "following", the sampler pre-screens each one on
+// signals that cost no extra API calls and queues only the best few.
+
+export interface FollowerSamplerConfig {
+  maxPerParent: number; // followers queued per parent
+  maxScanned: number; // followers looked at per parent, known ones included (fetched 100 per query)
+  minAccountAgeDays: number;
+  maxFollowing: number; // follow-for-follow accounts follow thousands
+  minFollowerRatio: number; // followers / following
+  minProfileFields: number; // of name, bio, company, location, website, X handle
+  highScorerRating: number; // rating at which being followed by a user counts as a mutual-follow signal
+  minScore: number;
+}
+
+export const DEFAULT_FOLLOWER_SAMPLER: FollowerSamplerConfig = {
+  maxPerParent: 25,
+  maxScanned: 500,
+  minAccountAgeDays: 2 * 365,
+  maxFollowing: 1000,
+  minFollowerRatio: 0.1,
+  minProfileFields: 2,
+  highScorerRating: 50,
+  minScore: 4,
+};
+
+const MAX_MUTUAL_BONUS = 3; // high scorers counted towards the score
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function profileFieldCount(profile: FollowerProfile) {
+  return [
+    profile.name,
+    profile.bio,
+    profile.company,
+    profile.location,
+    profile.websiteUrl,
+    profile.twitterUsername,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Screens one follower. Hard gates reject outright; otherwise the score is
+ * profile completeness, +1 for more followers than following, and +2 per high
+ * scorer in the graph who follows them (up to MAX_MUTUAL_BONUS).
+ */
+export function screenFollower(
+  profile: FollowerProfile,
+  highScorerFollowers: number,
+  config: FollowerSamplerConfig,
+  now = Date.now()
+): { score: number; rejection?: FollowerRejection } {
+  const ageDays = (now - new Date(profile.createdAt).getTime()) / DAY_MS;
+  if (!(ageDays >= config.minAccountAgeDays)) return { score: 0, rejection: "ACCOUNT_TOO_NEW" };
+  if (profile.following > config.maxFollowing) return { score: 0, rejection: "FOLLOWS_TOO_MANY" };
+  if (profile.followers / Math.max(profile.following, 1) < config.minFollowerRatio) {
+    return { score: 0, rejection: "LOW_FOLLOWER_RATIO" };
+  }
+  const fields = profileFieldCount(profile);
+  if (fields < config.minProfileFields) return { score: 0, rejection: "SPARSE_PROFILE" };
+  if (profile.location && isLocationInBadCountries(profile.location)) {
+    return { score: 0, rejection: "BANNED_COUNTRY" };
+  }
+
+  const score =
+    fields +
+    (profile.followers >= profile.following ? 1 : 0) +
+    2 * Math.min(highScorerFollowers, MAX_MUTUAL_BONUS);
+  return score < config.minScore ? { score, rejection: "LOW_SCORE" } : { score };
+}
+
+// How many users rated >= highScorerRating follow each of `logins`. Only users
+// already in the graph can have such edges: everyone on either end of an edge
+// was upserted when it was added.
+async function countHighScorerFollowers(
+  store: GraphStore,
+  logins: string[],
+  highScorerRating: number
+) {
+  const edges = await store.findEdges({ to: logins });
+  const counts = new Map<string, number>();
+  if (edges.length === 0) return counts;
+
+  const highScorers = new Set(
+    (
+      await store.findUsers(
+        {
+          _id: { $in: [...new Set(edges.map((e) => e.from))] },
+          [ratingField("rating")]: { $gte: highScorerRating },
+        },
+        { projection: { _id: 1 } }
+      )
+    ).map((u) => u._id)
+  );
+  for (const edge of edges) {
+    if (highScorers.has(edge.from)) counts.set(edge.to, (counts.get(edge.to) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Follower discovery for one parent: looks at up to `maxScanned` followers and
+ * queues the best `maxPerParent` with "followers" priority. New followers and
+ * pending ones already in the queue are screened and compete for the cap;
+ * pending ones followed by high scorers (mutual follows included, since the
+ * parent is one) get the bonus. Followers that were already scraped are linked
+ * (edge + parent rating) without counting against the cap. Rejected followers
+ * are neither queued nor linked.
+ */
+export async function sampleFollowers(
+  parentUsername: string,
+  depth: number,
+  parentRating: number,
+  octokit: Octokit,
+  store: GraphStore,
+  config: FollowerSamplerConfig,
+  grandparentRating?: number,
+  seedPath?: SeedPath | null
+): Promise<FollowerSampleStats> {
+  const stats: FollowerSampleStats = {
+    scanned: 0,
+    known: 0,
+    queued: 0,
+    rejected: {},
+    sampledAt: new Date(),
+  };
+  const reject = (reason: FollowerRejection) => {
+    stats.rejected[reason] = (stats.rejected[reason] ?? 0) + 1;
+  };
+
+  let seen = 0;
+  const known: string[] = [];
+  const passed: Array<{ login: string; score: number }> = [];
+
+  for await (const page of fetchFollowerProfilesPaged(parentUsername, octokit)) {
+    const logins = page.map((p) => p.login);
+    const scraped = new Set(
+      (
+        await store.findUsers(
+          { _id: { $in: logins }, status: { $ne: "pending" } },
+          { projection: { _id: 1 } }
+        )
+      ).map((u) => u._id)
+    );
+    const highScorerFollowers = await countHighScorerFollowers(
+      store,
+      logins.filter((l) => !scraped.has(l)),
+      config.highScorerRating
+    );
+
+    for (const profile of page) {
+      if (seen++ >= config.maxScanned) break;
+      if (scraped.has(profile.login)) {
+        known.push(profile.login);
+        continue;
+      }
+      stats.scanned++;
+      const { score, rejection } = screenFollower(
+        profile,
+        highScorerFollowers.get(profile.login) ?? 0,
+        config
+      );
+      if (rejection) reject(rejection);
+      else passed.push({ login: profile.login, score });
+    }
+    if (seen >= config.maxScanned) break;
+  }
+
+  passed.sort((a, b) => b.score - a.score);
+  const queued = passed.slice(0, config.maxPerParent).map((p) => p.login);
+  for (let i = queued.length; i < passed.length; i++) reject("OVER_CAP");
+  stats.known = known.length;
+  stats.queued = queued.length;
+
+  const linked = [...known, ...queued];
+  if (linked.length > 0) {
+    await store.addEdges(linked.map((login) => ({ from: login, to: parentUsername })));
+    const priority = computePriority(parentRating, "followers", depth + 1, grandparentRating);
+    await store.upsertDiscoveredUsers(
+      linked.map((username) => ({
+        username,
+        depth: depth + 1,
+        discoveredVia: "followers" as const,
+        priority,
+        parent: { parent: parentUsername, rating: parentRating },
+        seedPath,
+      }))
+    );
+  }
+
+  return stats;
+}
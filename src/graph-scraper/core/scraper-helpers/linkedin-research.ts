@@ -6,16 +6,23 @@ dotenv.config(); // Load environment variables at the very top
 // import *dotenv* from 'dotenv';
 // dotenv.config();
 
-import { Collection } from "mongodb";
 import { UserData } from "../../../types.js";
+import { createCachedFetch } from "../../../utils/http-cache.js";
 import { isLinkedInDomain } from "../../../utils/prime-scraper-api-utils.js";
-import { DbGraphUser, GraphUser } from "../../types.js";
-import openai from "../openai.js"; // Import the shared OpenAI client
+import { GraphUser } from "../../types.js";
+import { GraphStore } from "../store/graph-store.js";
+import { getLlm } from "../llm/llm-registry.js";
+import { getProvider } from "../providers/providers.js";
 
 // If you are in an environment where fetch is not globally available (e.g., older Node.js versions),
 // you might need to import it:
 // import fetch from 'node-fetch';
 
+// External calls go through the response cache (see utils/http-cache.ts)
+const rapidApiFetch = createCachedFetch("rapidapi");
+const geminiFetch = createCachedFetch("gemini");
+const perplexityFetch = createCachedFetch("perplexity");
+
 // Types for the Fresh LinkedIn Profile Data API (rapidapi.com/freshdata-freshdata-default/api/fresh-linkedin-profile-data)
 interface LinkedInEducation {
   school: string;
@@ -73,7 +80,7 @@ export class RapidAPICreditsExhaustedError extends Error {
   }
 }
 
-export async function fetchLinkedInData(user: GraphUser, usersCol?: Collection<DbGraphUser>) {
+export async function fetchLinkedInData(user: GraphUser, store?: GraphStore) {
   console.log(`[${user.login}] Attempting to find LinkedIn URL...`);
 
   // First try to find LinkedIn URL in profile data
@@ -113,7 +120,7 @@ export async function fetchLinkedInData(user: GraphUser, usersCol?: Collection<D
 
   if (user.linkedinUrl && !user.linkedinExperience) {
     console.log(`[${user.login}] Fetching LinkedIn experience...`);
-    const linkedinExperience = await fetchLinkedInExperienceViaRapidAPI(
+    const linkedinExperience = await getProvider("linkedin").fetchProfile(
       user.linkedinUrl
     );
     user.linkedinExperience = linkedinExperience;
@@ -138,7 +145,7 @@ export async function fetchLinkedInData(user: GraphUser, usersCol?: Collection<D
 
   // Fetch company insights for founders/CEOs
   if (user.linkedinExperience && !user.currentCompanyInsights) {
-    const companyInsights = await fetchCurrentEmployerInsights(user, usersCol);
+    const companyInsights = await fetchCurrentEmployerInsights(user, store);
     user.currentCompanyInsights = companyInsights;
   }
 }
@@ -173,7 +180,7 @@ export async function fetchLinkedInExperienceViaRapidAPI(
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const response = await fetch(apiUrl, options);
+      const response = await rapidApiFetch(apiUrl, options);
 
       if (!response.ok) {
         const errorBody = await response.text();
@@ -275,14 +282,14 @@ export const FOUNDER_TITLE_KEYWORDS = [
   "building something new",
 ];
 
-async function fetchCompanyByLinkedInUrl(
+export async function fetchCompanyByLinkedInUrl(
   companyLinkedinUrl: string
 ): Promise<{ companyId: string; companyName: string } | null> {
   const apiKey = process.env.RAPIDAPI_KEY;
   if (!apiKey) return null;
 
   try {
-    const response = await fetch(
+    const response = await rapidApiFetch(
       `https://${RAPIDAPI_HOST}/get-company-by-linkedinurl?linkedin_url=${encodeURIComponent(companyLinkedinUrl)}`,
       {
         method: "GET",
@@ -320,14 +327,14 @@ async function fetchCompanyByLinkedInUrl(
   }
 }
 
-async function fetchCompanyInsightsById(
+export async function fetchCompanyInsightsById(
   companyId: string
 ): Promise<{ employeeCount: number | null; headcountGrowth6m: number | null; headcountGrowth1y: number | null; foundedYear: number | null } | null> {
   const apiKey = process.env.RAPIDAPI_KEY;
   if (!apiKey) return null;
 
   try {
-    const response = await fetch(
+    const response = await rapidApiFetch(
       `https://${RAPIDAPI_HOST}/get-company-insights?company_id=${encodeURIComponent(companyId)}`,
       {
         method: "GET",
@@ -376,7 +383,7 @@ async function fetchCompanyInsightsById(
 
 export async function fetchCurrentEmployerInsights(
   user: Pick<GraphUser, "login" | "linkedinExperience">,
-  usersCol?: Collection<DbGraphUser>
+  store?: GraphStore
 ): Promise<CompanyInsights | null> {
   if (!user.linkedinExperience?.experiences) return null;
 
@@ -404,11 +411,10 @@ export async function fetchCurrentEmployerInsights(
   }
 
   // Check if another user already has insights for this company
-  if (usersCol) {
-    const existing = await usersCol.findOne(
-      { "currentCompanyInsights.linkedinUrl": currentExp.company_linkedin_url } as any,
-      { projection: { currentCompanyInsights: 1 } }
-    );
+  if (store) {
+    const existing = await store.findUser({
+      "currentCompanyInsights.linkedinUrl": currentExp.company_linkedin_url,
+    });
     if (existing?.currentCompanyInsights) {
       console.log(
         `[${user.login}] Reusing cached company insights for ${existing.currentCompanyInsights.companyName} from DB`
@@ -422,13 +428,15 @@ export async function fetchCurrentEmployerInsights(
   );
 
   // Step 1: Get company ID
-  const companyInfo = await fetchCompanyByLinkedInUrl(
+  const companyInfo = await getProvider("linkedin").fetchCompanyByUrl(
     currentExp.company_linkedin_url
   );
   if (!companyInfo) return null;
 
   // Step 2: Get company insights
-  const insights = await fetchCompanyInsightsById(companyInfo.companyId);
+  const insights = await getProvider("linkedin").fetchCompanyInsights(
+    companyInfo.companyId
+  );
   if (!insights) return null;
 
   // Use API founded year, or fall back to founder's start year at the company
@@ -462,7 +470,7 @@ export async function fetchLinkedInProfileUsingOpenai(
   ${user.xBio || user.bio ? `- Bio hints: ${user.xBio || user.bio}` : ""}
   Return ONLY the full LinkedIn profile URL. If you cannot confidently identify the correct profile, return null.`;
 
-    const response = await openai.responses.create({
+    const response = await getProvider("openai").responses.create({
       model: "gpt-4.1",
       tools: [
         {
@@ -508,7 +516,7 @@ Return ONLY the full LinkedIn profile URL. If you cannot confidently identify th
       return null;
     }
 
-    const response = await fetch(
+    const response = await geminiFetch(
       "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=" +
         process.env.GOOGLE_API_KEY,
       {
@@ -647,7 +655,7 @@ Return ONLY the full LinkedIn profile URL as a string.`;
       return null;
     }
 
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
+    const response = await perplexityFetch("https://api.perplexity.ai/chat/completions", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
@@ -711,259 +719,26 @@ Return ONLY the full LinkedIn profile URL as a string.`;
   }
 }
 
-interface BraveSearchResult {
-  title: string;
-  url: string;
-  description?: string;
-}
-
-interface BraveSearchResponse {
-  query: {
-    original: string;
-  };
-  web?: {
-    results: BraveSearchResult[];
-  };
-}
-
-// Global promise chain to serialize Brave API calls
-let braveApiCallQueue = Promise.resolve();
-
-// Helper function to schedule tasks on the braveApiCallQueue with a delay
-async function scheduleBraveApiCall<T>(task: () => Promise<T>): Promise<T> {
-  // Wait for the current end of the queue, then execute the task
-  const taskPromise = braveApiCallQueue.then(task);
-
-  // The next operation on the queue must wait for this task to settle (succeed or fail),
-  // and then wait for the specified delay.
-  braveApiCallQueue = taskPromise
-    .catch(() => {
-      // Prevent an error in one task from breaking the entire queue chain.
-      // The error will still be propagated to the caller of scheduleBraveApiCall.
-    })
-    .then(() => new Promise((resolve) => setTimeout(resolve, 1100))); // Keep 1.1s delay for now
-
-  return taskPromise;
-}
-
-async function withBraveRateLimitRetry(
-  fetchFn: () => Promise<Response>, // The function that performs the fetch
-  maxRetries: number = 3 // Reduced maxRetries as serialization should help
-): Promise<Response> {
-  let retryCount = 0;
-  let lastError: Error | null = null;
-  let firstRateLimitErrorBody: string | null = null; // Variable to store the first 429 error body
-
-  while (retryCount <= maxRetries) {
-    // <= to allow initial attempt + maxRetries
-    let response: Response;
-    try {
-      response = await fetchFn();
-
-      if (response.ok) {
-        return response;
-      }
-
-      // Not OK, handle retryable errors
-      if (
-        response.status === 429 ||
-        (response.status >= 500 && response.status < 600)
-      ) {
-        lastError = new Error(
-          `Brave API request failed with status ${response.status}`
-        );
-        const isRateLimit = response.status === 429;
-        let waitTimeMs: number;
-
-        // Capture the body of the first 429 error
-        if (isRateLimit && !firstRateLimitErrorBody) {
-          try {
-            firstRateLimitErrorBody = await response.text(); // Store the body
-          } catch (bodyError) {
-            firstRateLimitErrorBody =
-              "(Failed to read error body for first 429)";
-          }
-        } else if (isRateLimit) {
-          // For subsequent 429s, still consume the body but don't overwrite the first captured body
-          try {
-            await response.text();
-          } catch (_) {
-            /* ignore */
-          }
-        } else {
-          // For non-429 errors that are retryable (e.g. 5xx), consume body if not already done for 429 check
-          try {
-            await response.text();
-          } catch (_) {
-            /* ignore */
-          }
-        }
-
-        const resetTimestampHeader = response.headers.get("X-RateLimit-Reset");
-        if (isRateLimit && resetTimestampHeader) {
-          const resetTimeEpochSeconds = parseInt(resetTimestampHeader, 10);
-          if (!isNaN(resetTimeEpochSeconds)) {
-            const resetTimeMs = resetTimeEpochSeconds * 1000;
-            const currentTimeMs = Date.now();
-            const calculatedDiffWait = Math.max(
-              1000,
-              resetTimeMs - currentTimeMs
-            );
-            waitTimeMs = calculatedDiffWait + 500;
-            console.log(
-              `Brave API: Rate limit. Using X-RateLimit-Reset. Calculated base diff wait: ${
-                Math.max(0, resetTimeMs - currentTimeMs) / 1000
-              }s. Enforced diff wait: ${
-                calculatedDiffWait / 1000
-              }s. Total wait: ${waitTimeMs / 1000}s.`
-            );
-          } else {
-            waitTimeMs =
-              Math.pow(2, retryCount) * 1500 + (retryCount === 0 ? 2000 : 1000);
-            console.log(
-              `Brave API: Rate limit. X-RateLimit-Reset parse error. Fallback wait ${(
-                waitTimeMs / 1000
-              ).toFixed(1)}s.`
-            );
-          }
-        } else {
-          const baseFirstRetryWait = isRateLimit && retryCount === 0 ? 2000 : 0;
-          waitTimeMs =
-            Math.pow(2, retryCount) * 1500 +
-            (isRateLimit ? 1000 : 0) +
-            baseFirstRetryWait;
-          console.log(
-            `Brave API: Status ${
-              response.status
-            } (no X-RateLimit-Reset or server error). Fallback wait ${(
-              waitTimeMs / 1000
-            ).toFixed(1)}s.`
-          );
-        }
-
-        waitTimeMs = Math.min(waitTimeMs, 30000);
-
-        console.log(
-          `Brave API: Status ${response.status}. Attempt ${retryCount + 1}/${
-            maxRetries + 1
-          }. Retrying in ${waitTimeMs / 1000}s...`
-        );
-        await new Promise((resolve) => setTimeout(resolve, waitTimeMs));
-        retryCount++;
-        continue;
-      } else {
-        // Non-retryable error status (e.g., 400, 401, 404)
-        console.warn(
-          `Brave API: Non-retryable status ${response.status}. Returning response to caller.`
-        );
-        return response; // Return the problematic response to the caller
-      }
-    } catch (error: any) {
-      // Network error or other error during fetchFn()
-      lastError = error;
-      console.warn(
-        `Brave API: Network error or fetchFn issue: ${error.message}. Attempt ${
-          retryCount + 1
-        }/${maxRetries + 1}.`
-      );
-      const waitTimeMs = Math.min(Math.pow(2, retryCount) * 1000 + 1000, 30000); // Base 1s + exponential
-      await new Promise((resolve) => setTimeout(resolve, waitTimeMs));
-      retryCount++;
-      continue;
-    }
-  }
-
-  // All retries exhausted
-  const errorMessage = `Brave API: All ${
-    maxRetries + 1
-  } retries failed. Last error: ${
-    lastError ? lastError.message : "Unknown error after retries."
-  }${
-    firstRateLimitErrorBody
-      ? ` First 429 error body: ${firstRateLimitErrorBody}`
-      : ""
-  }`;
-  console.error(errorMessage);
-  if (lastError) {
-    // Augment the original error with the detailed message if possible
-    lastError.message = errorMessage;
-    throw lastError;
-  }
-  throw new Error(errorMessage); // Fallback error
-}
-
 export async function fetchLinkedInProfileUsingBrave(
   user: UserData,
   optimizedQuery?: string
 ): Promise<string | null> {
-  const performFetchTask = async () => {
-    const searchQuery = optimizedQuery
-      ? `site:linkedin.com/in/ ${optimizedQuery}`
-      : `site:linkedin.com/in/ ${user.name || user.login} Software Engineer`;
-
-    try {
-      if (!process.env.BRAVE_API_KEY) {
-        console.error(
-          "Error: BRAVE_API_KEY is not set. Please set this environment variable."
-        );
-        return null;
-      }
-
-      const headers: HeadersInit = {
-        Accept: "application/json",
-        "Accept-Encoding": "gzip",
-        "X-Subscription-Token": process.env.BRAVE_API_KEY,
-      };
-
-      const fetchLambda = () =>
-        fetch(
-          `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(
-            searchQuery
-          )}&count=5&safesearch=moderate`,
-          {
-            method: "GET",
-            headers,
-          }
-        );
-
-      const response = await withBraveRateLimitRetry(fetchLambda);
+  const searchQuery = optimizedQuery
+    ? `site:linkedin.com/in/ ${optimizedQuery}`
+    : `site:linkedin.com/in/ ${user.name || user.login} Software Engineer`;
 
-      if (!response.ok) {
-        let errorBody = "";
-        try {
-          errorBody = await response.text();
-        } catch (e) {
-          errorBody = "(Failed to read error body)";
-        }
-        console.error(
-          `Brave API Error (final status ${response.status} after retry logic) for ${user.login}:`,
-          errorBody
-        );
-        return null;
-      }
-
-      const data = (await response.json()) as BraveSearchResponse;
+  const results = await getProvider("search").search(searchQuery, 5);
+  if (!results) {
+    console.error(`Failed to search LinkedIn profile for ${user.login}`);
+    return null;
+  }
 
-      if (data.web?.results) {
-        for (const result of data.web.results) {
-          if (result.url.includes("linkedin.com/in/")) {
-            const linkedinUrl = result.url.split("?")[0];
-            return linkedinUrl;
-          }
-        }
-      }
-      return null;
-    } catch (error: any) {
-      console.error(
-        `Failed to fetch LinkedIn profile with Brave for ${user.login} after all retries:`,
-        error.message
-      );
-      return null;
+  for (const result of results) {
+    if (result.url.includes("linkedin.com/in/")) {
+      return result.url.split("?")[0];
     }
-  };
-
-  // Use the new scheduleBraveApiCall helper
-  return scheduleBraveApiCall(performFetchTask);
+  }
+  return null;
 }
 
 export async function generateLinkedInExperienceSummary(
@@ -1118,12 +893,7 @@ REASONING: [Your detective work here]
 QUERY: [Your 6-word-or-less search query, or SKIP]`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{ role: "user", content: prompt }],
-    });
-
-    const result = response.choices[0]?.message?.content?.trim() || "";
+    const { value: result } = await getLlm("query").complete(prompt);
     // Extract just the query part, ignoring the reasoning
     const queryMatch = result.match(/QUERY:\s*(.+)/i);
     const query = queryMatch ? queryMatch[1].trim() : "";
@@ -1240,13 +1010,8 @@ When in doubt, answer YES. Minor name spelling differences (e.g. "Ayush" vs "Aay
 
 Answer exactly: YES or NO`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: 10,
-    });
-
-    const answer = response.choices[0]?.message?.content?.trim().toUpperCase() || "";
+    const { value } = await getLlm("verification").complete(prompt, { maxTokens: 10 });
+    const answer = value.toUpperCase();
     const isMatch = answer.startsWith("YES");
 
     if (!isMatch) {
@@ -0,0 +1,573 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  companyConfig,
+  computeTotalScore,
+  getProfileRating,
+  PROFILE_RATING_FIELDS,
+} from "../../../config/company.js";
+import { IgnoredReason, ProfileRating } from "../../types.js";
+import { currentRatingVersion } from "../llm-rating.js";
+import { FakeGitHub, FakeGitHubUser } from "../providers/fakes/fake-github.js";
+import {
+  FakeLinkedIn,
+  linkedInProfile,
+} from "../providers/fakes/fake-linkedin.js";
+import { FakeOpenAI } from "../providers/fakes/fake-openai.js";
+import { FakeSearch } from "../providers/fakes/fake-search.js";
+import { FakeWebsite } from "../providers/fakes/fake-website.js";
+import { setProviders } from "../providers/providers.js";
+import { FileGraphStore } from "../store/file-graph-store.js";
+import { computePriority } from "./discover-connections.js";
+import { DEFAULT_REPO_CONTRIBUTORS, pickTopRepos } from "./discover-repo-contributors.js";
+import { fetchUsersBatch } from "./fetch-users-batch.js";
+import { processUserFromBatch, ScraperConfig } from "./process-user.js";
+
+const CONFIG: ScraperConfig = {
+  maxDepth: 3,
+  minRatingToScrapeConnections: 10,
+  minRatingToScrapeFollowers: 10,
+};
+
+const [FIRST_CRITERION, SECOND_CRITERION] = companyConfig.criteria.map((c) => c.key);
+
+// Tier scores the fake LLM hands out, keyed by a name in the rating prompt
+const SCORES: Record<string, Record<string, number>> = {
+  "Sally Strong": { [FIRST_CRITERION]: 3, [SECOND_CRITERION]: 3 },
+  "Sam Seed": { [FIRST_CRITERION]: 2 },
+  "Wes Weak": {},
+};
+
+const SALLY_LINKEDIN = "https://www.linkedin.com/in/sally-strong";
+const SAM_LINKEDIN = "https://www.linkedin.com/in/sam-seed";
+const SALLY_COMPANY = "https://www.linkedin.com/company/tinyco";
+
+const active = { contributions: 2000, activeMonths: 12, weekendShare: 0.3 };
+const THIS_YEAR = new Date().getUTCFullYear();
+
+// seed-sam follows everyone at depth 1; sally-strong leads on to depth 2
+const GRAPH: FakeGitHubUser[] = [
+  {
+    login: "seed-sam",
+    name: "Sam Seed",
+    bio: "Building things",
+    company: "Acme",
+    contributions: 50,
+    following: [
+      "sally-strong",
+      "low-larry",
+      "banned-bo",
+      "weekday-wendy",
+      "handle-hank",
+      "weak-wes",
+    ],
+  },
+  {
+    login: "sally-strong",
+    name: "Sally Strong",
+    bio: "Founder @tinyco",
+    location: "Berlin, Germany",
+    twitterUsername: "sallybuilds",
+    blog: "https://sally.dev",
+    linkedinUrl: SALLY_LINKEDIN,
+    commitEmail: "sally@sally.dev",
+    readme: "Hi, I'm Sally",
+    pastContributions: { [THIS_YEAR - 3]: 1000, [THIS_YEAR - 2]: 600 },
+    repos: [{ name: "agent-kit", language: "TypeScript", stars: 120 }],
+    following: ["deep-dan"],
+    ...active,
+  },
+  { login: "low-larry", name: "Larry Low", bio: "dev", contributions: 100 },
+  { login: "banned-bo", name: "Bo Banned", location: "Beijing, China", ...active },
+  {
+    login: "weekday-wendy",
+    name: "Wendy Weekday",
+    bio: "9 to 5",
+    ...active,
+    weekendShare: 0,
+  },
+  { login: "handle-hank", name: "hank", bio: "dev", ...active },
+  { login: "weak-wes", name: "Wes Weak", bio: "dev", following: ["deep-dan"], ...active },
+  { login: "deep-dan", name: "Dan Deep", bio: "dev", ...active },
+];
+
+describe("processUserFromBatch", () => {
+  let tmpDir: string;
+  let store: FileGraphStore;
+  let github: FakeGitHub;
+  let search: FakeSearch;
+  let linkedin: FakeLinkedIn;
+  let website: FakeWebsite;
+  let openai: FakeOpenAI;
+  let restoreProviders: () => void;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gh-scout-test-"));
+    store = new FileGraphStore(path.join(tmpDir, "graph.json"));
+    await store.init();
+
+    github = new FakeGitHub(GRAPH);
+    search = new FakeSearch({
+      "site:linkedin.com/in/ Sam Seed Acme": [
+        { title: "Sam Seed - Acme", url: `${SAM_LINKEDIN}?trk=public` },
+      ],
+    });
+    linkedin = new FakeLinkedIn(
+      {
+        [SALLY_LINKEDIN]: linkedInProfile({
+          full_name: "Sally Strong",
+          headline: "Founder at TinyCo",
+          experiences: [
+            {
+              company: "TinyCo",
+              title: "Founder & CEO",
+              location: "Berlin",
+              description: "",
+              date_range: "2019 - Present",
+              duration: "",
+              start_month: 1,
+              start_year: 2019,
+              end_month: "",
+              end_year: "",
+              is_current: true,
+              job_type: "",
+              company_linkedin_url: SALLY_COMPANY,
+            },
+          ],
+        }),
+        [SAM_LINKEDIN]: linkedInProfile({ full_name: "Sam Seed", headline: "Engineer at Acme" }),
+      },
+      {
+        [SALLY_COMPANY]: {
+          companyId: "tinyco-1",
+          companyName: "TinyCo",
+          employeeCount: 4,
+          headcountGrowth6m: 0,
+          headcountGrowth1y: -10,
+          foundedYear: 2019,
+        },
+      }
+    );
+    website = new FakeWebsite(
+      { "https://sally.dev": "<h1>Sally Strong</h1>" },
+      { sallybuilds: { bio: "building tinyco", name: "Sally Strong", location: "Berlin" } }
+    );
+    openai = new FakeOpenAI({
+      rate: (prompt) => {
+        const name = Object.keys(SCORES).find((n) => prompt.includes(`Name: ${n}`));
+        return name ? SCORES[name] : {};
+      },
+      chat: (prompt) => {
+        if (prompt.includes("QUERY:")) {
+          return prompt.includes("GitHub Display Name: Sam Seed")
+            ? "REASONING: full name and company\nQUERY: Sam Seed Acme"
+            : "REASONING: nothing to go on\nQUERY: SKIP";
+        }
+        return "YES";
+      },
+    });
+
+    restoreProviders = setProviders({
+      github,
+      search,
+      linkedin,
+      website,
+      openai: openai.client,
+    });
+  });
+
+  afterEach(async () => {
+    restoreProviders();
+    await store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function processUser(username: string) {
+    const userDoc = await store.getUser(username);
+    if (!userDoc) throw new Error(`${username} is not queued`);
+    await processUserFromBatch(userDoc, github.octokit, store, CONFIG);
+    return (await store.getUser(username))!;
+  }
+
+  async function processSeed() {
+    await store.insertUsersIfMissing([
+      { _id: "seed-sam", depth: 0, status: "pending", priority: 100 },
+    ]);
+    return processUser("seed-sam");
+  }
+
+  it("rates a seed without filters and queues who it follows", async () => {
+    const seed = await processSeed();
+
+    // 50 contributions would fail the filters, but seeds bypass them
+    expect(seed.status).toBe("processed");
+    const seedRating = getProfileRating(seed).rating!;
+    expect(seedRating).toBe(computeTotalScore({ [FIRST_CRITERION]: 2 }, seed));
+
+    // LinkedIn found through the generated search query
+    expect(search.queries).toEqual(["site:linkedin.com/in/ Sam Seed Acme"]);
+    expect(seed.linkedinUrl).toBe(SAM_LINKEDIN);
+    expect(seed.linkedinExperience?.full_name).toBe("Sam Seed");
+
+    const edges = await store.findEdges({ from: "seed-sam" });
+    expect(edges.map((e) => e.to).sort()).toEqual(
+      GRAPH[0].following!.slice().sort()
+    );
+
+    // Seeds pass at least 60 as parent rating to their connections
+    const sally = await store.getUser("sally-strong");
+    expect(sally).toMatchObject({ status: "pending", depth: 1 });
+    expect(sally!.priority).toBe(
+      computePriority(Math.max(seedRating, 60), "following", 1)
+    );
+    expect(sally!.seedPath).toEqual({
+      seed: "seed-sam",
+      chain: ["seed-sam"],
+      score: Math.max(seedRating, 60),
+    });
+  });
+
+  it("ignores users that fail the filters", async () => {
+    await processSeed();
+
+    const expected: Record<string, IgnoredReason> = {
+      "low-larry": IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS,
+      "banned-bo": IgnoredReason.BANNED_COUNTRY,
+      "weekday-wendy": IgnoredReason.WEEKDAY_CODER,
+      "handle-hank": IgnoredReason.NO_REAL_NAME,
+    };
+    for (const [username, reason] of Object.entries(expected)) {
+      const user = await processUser(username);
+      expect(user.status, username).toBe("ignored");
+      expect(user.ignoredReason, username).toBe(reason);
+      expect(getProfileRating(user).rating, username).toBeUndefined();
+    }
+
+    // Ignored users are never sent to the LLM or LinkedIn
+    expect(openai.prompts.some((p) => p.includes("Larry Low"))).toBe(false);
+    expect(linkedin.profileRequests).toEqual([SAM_LINKEDIN]);
+  });
+
+  it("applies the profile's filter rules, including conditional ones", async () => {
+    await processSeed();
+
+    // A higher contribution bar for accounts with few followers (sally has one)
+    const profileRules = companyConfig.filterRules;
+    companyConfig.filterRules = [
+      ...profileRules,
+      {
+        field: "contributions.total",
+        op: "<",
+        value: 2500,
+        reason: IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS,
+        when: [{ field: "followers", op: "<", value: 60 }],
+      },
+    ];
+    try {
+      const sally = await processUser("sally-strong");
+      expect(sally.status).toBe("ignored");
+      expect(sally.ignoredReason).toBe(IgnoredReason.LOW_CONTRIBUTIONS_LOW_FOLLOWERS);
+    } finally {
+      companyConfig.filterRules = profileRules;
+    }
+  });
+
+  it("scores a strong user with LinkedIn and company data and ranks their connections", async () => {
+    await processSeed();
+    const seedRating = getProfileRating((await store.getUser("seed-sam"))!).rating!;
+
+    const sally = await processUser("sally-strong");
+    expect(sally.status).toBe("processed");
+    expect(sally.email).toBe("sally@sally.dev");
+    expect(sally.xBio).toBe("building tinyco");
+    expect(sally.websiteContent).toContain("Sally Strong");
+    expect(sally.linkedinExperienceSummary).toContain("Founder & CEO at TinyCo");
+    expect(sally.currentCompanyInsights).toMatchObject({
+      companyName: "TinyCo",
+      employeeCount: 4,
+      linkedinUrl: SALLY_COMPANY,
+    });
+
+    // Criteria, profile bonus (X account) and founder stagnation bonus
+    const rating = getProfileRating(sally).rating!;
+    expect(rating).toBe(
+      computeTotalScore(
+        SCORES["Sally Strong"],
+        sally,
+        sally.currentCompanyInsights,
+        2019,
+        true
+      )
+    );
+    expect(rating).toBeGreaterThan(seedRating);
+    expect(sally.ratingProvenance).toMatchObject(currentRatingVersion());
+    expect(sally.ratingProvenance!.usage!.totalTokens).toBeGreaterThan(0);
+
+    // 2000 in the last 12 months against 800 a year before that
+    expect(sally.contributionTimeline).toMatchObject({
+      years: [
+        { year: THIS_YEAR - 3, total: 1000 },
+        { year: THIS_YEAR - 2, total: 600 },
+        { year: THIS_YEAR, total: 2000 },
+      ],
+      trend: "ramping",
+      trendRatio: 2.5,
+      nightShare: null, // too few public events
+      timezone: sally.normalizedLocation!.timezone,
+    });
+    expect(
+      openai.prompts.some((p) =>
+        p.includes(`Contributions by Year: ${THIS_YEAR - 3}: 1,000, ${THIS_YEAR - 2}: 600`)
+      )
+    ).toBe(true);
+
+    // Depth 2 priority blends in the seed (boosted to 60) as grandparent
+    const dan = await store.getUser("deep-dan");
+    expect(dan).toMatchObject({ status: "pending", depth: 2 });
+    expect(dan!.priority).toBe(
+      computePriority(rating, "following", 2, Math.max(seedRating, 60))
+    );
+    expect(dan!.parentRatings).toEqual([{ parent: "sally-strong", rating }]);
+    // The chain keeps the weakest referral along the way
+    expect(dan!.seedPath).toEqual({
+      seed: "seed-sam",
+      chain: ["seed-sam", "sally-strong"],
+      score: Math.min(Math.max(seedRating, 60), rating),
+    });
+  });
+
+  it("does not expand users rated below the connection threshold", async () => {
+    await processSeed();
+
+    const wes = await processUser("weak-wes");
+    expect(wes.status).toBe("processed");
+    expect(getProfileRating(wes).rating!).toBeLessThan(CONFIG.minRatingToScrapeConnections);
+    expect(await store.findEdges({ from: "weak-wes" })).toEqual([]);
+    expect(await store.getUser("deep-dan")).toBeNull();
+  });
+
+  it("rates a user scraped for another profile from the stored document", async () => {
+    await processSeed();
+    const scraped = await processUser("sally-strong");
+
+    // As if sally had only been rated for another profile, then re-queued
+    const otherRating = getProfileRating(scraped);
+    const userDoc = { ...scraped, ratings: { other: otherRating as ProfileRating } };
+    for (const field of PROFILE_RATING_FIELDS) delete userDoc[field];
+    await store.updateUser("sally-strong", { ratings: userDoc.ratings, status: "pending" });
+    github.requests.length = 0;
+    const linkedInRequests = linkedin.profileRequests.length;
+    const prompts = openai.prompts.length;
+
+    await processUserFromBatch(userDoc, github.octokit, store, CONFIG);
+    const sally = (await store.getUser("sally-strong"))!;
+
+    expect(sally.status).toBe("processed");
+    expect(getProfileRating(sally).rating).toBe(otherRating.rating);
+    expect(sally.ratings!.other).toEqual(otherRating);
+    expect(openai.prompts.length).toBe(prompts + 1);
+    // Nothing fetched again
+    expect(github.requests).toEqual([]);
+    expect(linkedin.profileRequests.length).toBe(linkedInRequests);
+    expect(sally.linkedinExperienceSummary).toBe(scraped.linkedinExperienceSummary);
+  });
+
+  it("queues co-contributors on a high scorer's top repos", async () => {
+    const sallyInGraph = GRAPH.find((u) => u.login === "sally-strong")!;
+    github.addUser({
+      ...sallyInGraph,
+      repos: [
+        {
+          name: "agent-kit",
+          stars: 120,
+          contributors: ["sally-strong", "cole-commits", "deep-dan"],
+          prAuthors: ["pat-pulls", "cole-commits"],
+          commenters: ["cam-comments"],
+        },
+        { name: "dotfiles", stars: 1, contributors: ["toy-tom"] },
+      ],
+    });
+
+    await processSeed();
+    const userDoc = (await store.getUser("sally-strong"))!;
+    await processUserFromBatch(userDoc, github.octokit, store, {
+      ...CONFIG,
+      repoContributors: { minRating: 0, maxRepos: 3, minStars: 5, maxPerRepo: 3 },
+    });
+
+    const sally = (await store.getUser("sally-strong"))!;
+    expect(sally.scrapedConnections?.repoContributors).toBe(true);
+    const sallyRating = getProfileRating(sally).rating!;
+    const grandparentRating = sally.parentRatings![0].rating;
+
+    const cole = (await store.getUser("cole-commits"))!;
+    expect(cole).toMatchObject({ status: "pending", depth: 2, discoveredVia: "repo-contributor" });
+    expect(cole.priority).toBe(
+      computePriority(sallyRating, "repo-contributor", 2, grandparentRating)
+    );
+    expect(cole.repoInteractions).toEqual([
+      { repo: "sally-strong/agent-kit", type: "contributor" },
+      { repo: "sally-strong/agent-kit", type: "pr-author" },
+    ]);
+    expect(cole.seedPath).toEqual({
+      seed: "seed-sam",
+      chain: ["seed-sam", "sally-strong"],
+      score: Math.min(grandparentRating, sallyRating),
+    });
+    // Working together isn't a follow
+    expect(await store.findEdges({ from: "sally-strong", to: "cole-commits" })).toEqual([]);
+
+    // deep-dan came through "following" first but is tagged and bumped
+    const dan = (await store.getUser("deep-dan"))!;
+    expect(dan.discoveredVia).toBe("following");
+    expect(dan.repoInteractions).toEqual([{ repo: "sally-strong/agent-kit", type: "contributor" }]);
+    expect(dan.priority).toBe(cole.priority);
+
+    // Per-repo cap, and low-star repos are skipped
+    expect(await store.getUser("pat-pulls")).not.toBeNull();
+    expect(await store.getUser("cam-comments")).toBeNull();
+    expect(await store.getUser("toy-tom")).toBeNull();
+    expect(github.requests.some((r) => r.includes("/repos/sally-strong/dotfiles/"))).toBe(false);
+
+    // A pinned repo of someone else's isn't hers to mine
+    const pinnedReact = { ...sally.recentRepositories![0], full_name: "facebook/react", stargazers_count: 230000 };
+    expect(
+      pickTopRepos("Sally-Strong", [pinnedReact, ...sally.recentRepositories!], DEFAULT_REPO_CONTRIBUTORS)
+    ).toEqual(["sally-strong/agent-kit"]);
+  });
+
+  // sally-strong's followers: new fans plus deep-dan, who is already queued
+  // through her following list
+  async function sampleSallysFollowers(highScorerRating: number) {
+    const fan = (login: string, fields: Partial<FakeGitHubUser> = {}): FakeGitHubUser => ({
+      login,
+      name: login,
+      bio: "engineer",
+      company: "Somewhere",
+      createdAt: "2016-01-01T00:00:00Z",
+      following: ["sally-strong"],
+      ...fields,
+    });
+    github.addUser(fan("fresh-fred", { createdAt: new Date().toISOString() }));
+    github.addUser(fan("blank-bea", { bio: null, company: null }));
+    github.addUser(fan("mass-mo", { following: ["sally-strong", "a", "b", "c", "d"] }));
+    github.addUser(fan("good-gil", { location: "Berlin" }));
+    github.addUser(fan("good-gus"));
+    github.addUser({ ...GRAPH.find((u) => u.login === "deep-dan")!, following: ["sally-strong"] });
+
+    await processSeed();
+    const userDoc = (await store.getUser("sally-strong"))!;
+    await processUserFromBatch(userDoc, github.octokit, store, {
+      ...CONFIG,
+      followerSampler: {
+        maxPerParent: 1,
+        maxScanned: 100,
+        minAccountAgeDays: 365,
+        maxFollowing: 3,
+        minFollowerRatio: 0,
+        minProfileFields: 2,
+        highScorerRating,
+        minScore: 3,
+      },
+    });
+    return (await store.getUser("sally-strong"))!;
+  }
+
+  it("queues only a capped, pre-screened sample of a high scorer's followers", async () => {
+    const sally = await sampleSallysFollowers(1000); // nobody counts as a high scorer
+    expect(sally.scrapedConnections?.followers).toBe(true);
+    expect(sally.followerSample).toMatchObject({
+      scanned: 6, // new followers and the still pending deep-dan
+      known: 1, // seed-sam, already scraped: linked, not screened
+      queued: 1,
+      rejected: {
+        ACCOUNT_TOO_NEW: 1,
+        FOLLOWS_TOO_MANY: 1,
+        SPARSE_PROFILE: 1,
+        OVER_CAP: 2, // good-gus and deep-dan
+      },
+    });
+
+    // The most complete profile wins the single slot
+    const gil = await store.getUser("good-gil");
+    expect(gil).toMatchObject({ status: "pending", depth: 2, discoveredVia: "followers" });
+    expect(await store.findEdges({ from: "good-gil", to: "sally-strong" })).toHaveLength(1);
+    for (const login of ["good-gus", "fresh-fred", "blank-bea", "mass-mo"]) {
+      expect(await store.getUser(login), login).toBeNull();
+    }
+    expect(await store.findEdges({ from: "deep-dan", to: "sally-strong" })).toHaveLength(0);
+    expect(await store.findEdges({ from: "seed-sam", to: "sally-strong" })).toHaveLength(1);
+  });
+
+  it("ranks followers that high scorers follow above more complete profiles", async () => {
+    // sally follows deep-dan back: as a high scorer that's worth +2
+    const sally = await sampleSallysFollowers(1);
+    expect(sally.followerSample).toMatchObject({
+      scanned: 6,
+      queued: 1,
+      rejected: { OVER_CAP: 2 }, // good-gil and good-gus
+    });
+
+    const dan = (await store.getUser("deep-dan"))!;
+    expect(dan.discoveredVia).toBe("following");
+    expect(dan.parentRatings?.map((p) => p.parent)).toContain("sally-strong");
+    expect(await store.findEdges({ from: "deep-dan", to: "sally-strong" })).toHaveLength(1);
+    expect(await store.getUser("good-gil")).toBeNull();
+  });
+
+  it("uses batch-prefetched data instead of per-user requests", async () => {
+    await processSeed();
+    const usernames = ["sally-strong", "low-larry", "weak-wes", "ghost"];
+
+    github.requests.length = 0;
+    const prefetched = await fetchUsersBatch(
+      github.octokit,
+      usernames.map((username) => ({ username, depth: 1 }))
+    );
+    expect(github.requests).toEqual(["POST /graphql"]);
+    expect(prefetched.get("ghost")).toBeNull();
+    expect(prefetched.get("sally-strong")?.contributions?.totalSum).toBe(2000);
+
+    github.requests.length = 0;
+    const userDoc = (await store.getUser("sally-strong"))!;
+    await processUserFromBatch(
+      userDoc,
+      github.octokit,
+      store,
+      CONFIG,
+      prefetched.get("sally-strong")!
+    );
+
+    const sally = (await store.getUser("sally-strong"))!;
+    expect(sally.status).toBe("processed");
+    expect(sally.profileReadme).toBe("Hi, I'm Sally");
+    expect(sally.recentRepositories?.map((r) => r.name)).toEqual(["agent-kit"]);
+    // No profile, contribution, README or repo fetches: only public events,
+    // the yearly totals and the connection listing hit GitHub
+    expect(github.requests).toEqual([
+      "GET /users/sally-strong/events/public",
+      "POST /graphql",
+      "GET /users/sally-strong/following",
+    ]);
+  });
+
+  it("fetches a profile README under another name over REST", async () => {
+    const other = new FakeGitHub([
+      { login: "lower-lou", readme: "Hi, I'm Lou", readmeName: "readme.md" },
+      { login: "plain-pat", readme: "Hi, I'm Pat" },
+      { login: "no-repo-nia" },
+    ]);
+    const prefetched = await fetchUsersBatch(
+      other.octokit,
+      ["lower-lou", "plain-pat", "no-repo-nia"].map((username) => ({ username, depth: 1 }))
+    );
+
+    expect(prefetched.get("lower-lou")?.profileReadme).toBe("Hi, I'm Lou");
+    expect(prefetched.get("plain-pat")?.profileReadme).toBe("Hi, I'm Pat");
+    expect(prefetched.get("no-repo-nia")?.profileReadme).toBeNull();
+    // Only the profile repo without README.md needs the extra request
+    expect(other.requests).toEqual(["POST /graphql", "GET /repos/lower-lou/lower-lou/readme"]);
+  });
+});
@@ -1,30 +1,70 @@
 import { Octokit } from "@octokit/core";
-import { Collection } from "mongodb";
+import {
+  getProfileRating,
+  hasAnyProfileRating,
+  toProfileRatingUpdate,
+} from "../../../config/company.js";
+import { extendSeedPath } from "../seed-paths.js";
+import { GraphStore, releaseClaim } from "../store/graph-store.js";
 import { DbGraphUser, IgnoredReason } from "../../types.js";
 import { discoverConnectionsPageByPage } from "./discover-connections.js";
+import { PrefetchedUser } from "./fetch-users-batch.js";
 import {
-  fetchFollowersPaged,
-  fetchFollowingPaged,
-} from "./fetch-connections.js";
+  discoverRepoContributors,
+  pickTopRepos,
+  RepoContributorConfig,
+} from "./discover-repo-contributors.js";
+import { FollowerSamplerConfig, sampleFollowers } from "./follower-sampler.js";
+import { fetchFollowingPaged } from "./fetch-connections.js";
 import { RapidAPICreditsExhaustedError } from "./linkedin-research.js";
+import { rateStoredUser, storedUserData } from "./rate-stored-user.js";
 import { scrapeUser } from "./scrape-user.js";
 
 export interface ScraperConfig {
   maxDepth: number;
   minRatingToScrapeConnections: number;
   minRatingToScrapeFollowers: number;
+  followerSampler?: FollowerSamplerConfig | null; // follower discovery is off without one
+  repoContributors?: RepoContributorConfig | null; // co-contributor discovery is off without one
+}
+
+/**
+ * Writes the user's final state for this run and releases the worker's lease.
+ * If the lease was lost (another worker reclaimed the user), the write is skipped.
+ */
+async function finishUser(
+  userDoc: DbGraphUser,
+  store: GraphStore,
+  fields: Record<string, any>
+) {
+  if (!userDoc.leaseOwner) {
+    await store.updateUser(userDoc._id, fields);
+    return;
+  }
+  const released = await releaseClaim(
+    store,
+    userDoc._id,
+    userDoc.leaseOwner,
+    fields
+  );
+  if (!released) {
+    console.warn(
+      `[${userDoc._id}] Lease lost to another worker - not marking as ${fields.status}`
+    );
+  }
 }
 
 /**
  * Processes a single user: scrapes profile + rating, then discovers connections.
+ * `prefetched` is the user's data from the batched GraphQL fetch, if any.
  * Throws RapidAPICreditsExhaustedError if API credits are exhausted.
  */
 export async function processUserFromBatch(
   userDoc: DbGraphUser,
   octokit: Octokit,
-  usersCol: Collection<DbGraphUser>,
-  edgesCol: Collection<any>,
-  config: ScraperConfig
+  store: GraphStore,
+  config: ScraperConfig,
+  prefetched?: PrefetchedUser
 ) {
   const username = userDoc._id;
   const depth = userDoc.depth ?? 0;
@@ -35,7 +75,8 @@ export async function processUserFromBatch(
       depth,
       userDoc,
       octokit,
-      usersCol
+      store,
+      prefetched
     );
     if (rating === null) return; // User was ignored or errored
 
@@ -46,14 +87,10 @@ export async function processUserFromBatch(
       userDoc,
       config,
       octokit,
-      usersCol,
-      edgesCol
+      store
     );
 
-    await usersCol.updateOne(
-      { _id: username },
-      { $set: { status: "processed" } }
-    );
+    await finishUser(userDoc, store, { status: "processed" });
   } catch (err: any) {
     if (err instanceof RapidAPICreditsExhaustedError) throw err;
 
@@ -65,21 +102,13 @@ export async function processUserFromBatch(
 
     if (isTransient) {
       console.warn(`[${username}] Transient error, re-queuing: ${err?.message}`);
-      await usersCol.updateOne(
-        { _id: username },
-        { $set: { status: "pending" } }
-      );
+      await finishUser(userDoc, store, { status: "pending" });
     } else {
       console.error(`[${username}] Error:`, err);
-      await usersCol.updateOne(
-        { _id: username },
-        {
-          $set: {
-            status: "ignored",
-            ignoredReason: IgnoredReason.ERROR_SCRAPING,
-          },
-        }
-      );
+      await finishUser(userDoc, store, {
+        status: "ignored",
+        ignoredReason: IgnoredReason.ERROR_SCRAPING,
+      });
     }
   }
 }
@@ -92,49 +121,55 @@ async function scrapeAndRateUser(
   depth: number,
   userDoc: DbGraphUser,
   octokit: Octokit,
-  usersCol: Collection<DbGraphUser>
+  store: GraphStore,
+  prefetched?: PrefetchedUser
 ): Promise<number | null> {
-  if (userDoc.rating !== undefined) {
+  const existingRating = getProfileRating(userDoc).rating;
+  if (existingRating !== undefined) {
     console.log(
-      `[${username}] Already rated (${userDoc.rating}). Skipping profile scrape.`
+      `[${username}] Already rated (${existingRating}). Skipping profile scrape.`
     );
-    return userDoc.rating;
+    return existingRating;
+  }
+
+  // Scraped and rated for another profile: rate the stored data, like `rerate`
+  if (hasAnyProfileRating(userDoc)) {
+    console.log(`[${username}] Rated for another profile. Rating stored data...`);
+    const { score, fields } = await rateStoredUser(storedUserData(userDoc));
+    await store.updateUser(username, toProfileRatingUpdate(fields));
+    return score;
   }
 
   console.log(
     `[${username}] Scraping profile (depth ${depth}, priority ${userDoc.priority ?? "?"})...`
   );
-  const { user } = await scrapeUser(octokit, username, depth, depth === 0, usersCol);
+  const { user } = await scrapeUser(
+    octokit,
+    username,
+    depth,
+    depth === 0,
+    store,
+    prefetched
+  );
 
   if (!user) {
-    await usersCol.updateOne(
-      { _id: username },
-      {
-        $set: {
-          status: "ignored",
-          ignoredReason: IgnoredReason.ERROR_SCRAPING,
-        },
-      }
-    );
+    await finishUser(userDoc, store, {
+      status: "ignored",
+      ignoredReason: IgnoredReason.ERROR_SCRAPING,
+    });
     return null;
   }
 
   if (user.status === "ignored") {
-    await usersCol.updateOne(
-      { _id: username },
-      { $set: user as any },
-      { upsert: true }
-    );
+    const { status, ...ignoredData } = user;
+    await store.saveRatedUser(username, ignoredData);
+    await finishUser(userDoc, store, { status });
     return null;
   }
 
   // Write user data but don't set status to "processed" yet (connections still needed)
   const { status, ...userData } = user;
-  await usersCol.updateOne(
-    { _id: username },
-    { $set: userData as any },
-    { upsert: true }
-  );
+  await store.saveRatedUser(username, toProfileRatingUpdate(userData));
   return user.rating ?? null;
 }
 
@@ -148,8 +183,7 @@ async function scrapeConnections(
   userDoc: DbGraphUser,
   config: ScraperConfig,
   octokit: Octokit,
-  usersCol: Collection<DbGraphUser>,
-  edgesCol: Collection<any>
+  store: GraphStore
 ) {
   if (depth >= config.maxDepth) {
     console.log(`[${username}] Max depth reached. Skipping connections.`);
@@ -177,6 +211,10 @@ async function scrapeConnections(
   // connection discovery so their depth-1 connections get high queue priority,
   // regardless of the seed's own score.
   const effectiveParentRating = depth === 0 ? Math.max(rating, 60) : rating;
+  const seedPath = extendSeedPath(
+    { _id: username, depth, seedPath: userDoc.seedPath },
+    effectiveParentRating
+  );
 
   // Always scrape following (people this user vouches for)
   if (!connections.following) {
@@ -188,19 +226,71 @@ async function scrapeConnections(
       "following",
       fetchFollowingPaged,
       octokit,
-      usersCol,
-      edgesCol,
-      bestGrandparentRating
-    );
-    await usersCol.updateOne(
-      { _id: username },
-      { $set: { "scrapedConnections.following": true } }
+      store,
+      bestGrandparentRating,
+      seedPath
     );
+    await store.updateUser(username, { "scrapedConnections.following": true });
   }
 
-  // Follower scraping disabled - followers are too noisy (random people follow
-  // good engineers, signal is much weaker than "following" direction)
-  // if (!connections.followers && rating >= config.minRatingToScrapeFollowers) {
-  //   ...
-  // }
+  // Followers are too noisy to queue wholesale (random people follow good
+  // engineers), so they're only sampled, and only when the sampler is on
+  if (
+    config.followerSampler &&
+    !connections.followers &&
+    rating >= config.minRatingToScrapeFollowers
+  ) {
+    console.log(`[${username}] Sampling followers...`);
+    try {
+      const sample = await sampleFollowers(
+        username,
+        depth,
+        effectiveParentRating,
+        octokit,
+        store,
+        config.followerSampler,
+        bestGrandparentRating,
+        seedPath
+      );
+      console.log(
+        `[${username}] Followers: queued ${sample.queued} of ${sample.scanned} screened (${sample.known} already known)`
+      );
+      await store.updateUser(username, {
+        "scrapedConnections.followers": true,
+        followerSample: sample,
+      });
+    } catch (err) {
+      console.error(`[${username}] Error sampling followers:`, err);
+    }
+  }
+
+  // Co-contributors on the user's own repos
+  if (
+    config.repoContributors &&
+    !connections.repoContributors &&
+    rating >= config.repoContributors.minRating
+  ) {
+    // Freshly scraped users' repos were saved after the claim was read
+    const recentRepositories =
+      userDoc.recentRepositories ?? (await store.getUser(username))?.recentRepositories;
+    const repos = pickTopRepos(username, recentRepositories, config.repoContributors);
+    console.log(`[${username}] Scraping co-contributors on ${repos.length} repos...`);
+    try {
+      const found = await discoverRepoContributors(
+        username,
+        depth,
+        effectiveParentRating,
+        repos,
+        octokit,
+        store,
+        config.repoContributors,
+        bestGrandparentRating,
+        seedPath
+      );
+      console.log(`[${username}] Co-contributors: ${found} queued or tagged`);
+      await store.updateUser(username, { "scrapedConnections.repoContributors": true });
+    } catch (err) {
+      console.error(`[${username}] Error scraping co-contributors:`, err);
+    }
+  }
 }
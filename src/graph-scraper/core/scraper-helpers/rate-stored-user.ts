@@ -0,0 +1,55 @@
+import { UserData } from "../../../types.js";
+import { DbGraphUser } from "../../types.js";
+import { rateUserV3, WebResearchInfo } from "../llm-rating.js";
+
+// Rating a user that was already scraped (for another profile, or by `rerate`)
+// from its stored document, without GitHub/LinkedIn/web calls.
+
+export function storedUserData(user: DbGraphUser): UserData {
+  return {
+    ...user,
+    login: user._id,
+    repoInteractionScraped: [],
+    recentRepositories: user.recentRepositories || null,
+  };
+}
+
+/** Web research as stored on the user document, in the shape rateUserV3 takes. */
+export function storedWebResearchInfo(userData: UserData): WebResearchInfo {
+  return {
+    openAI: {
+      promptText: userData.webResearchPromptText || "",
+      researchResult: userData.webResearchInfoOpenAI || null,
+    },
+    gemini: userData.webResearchInfoGemini
+      ? {
+          promptText: userData.webResearchPromptText || "",
+          researchResult: userData.webResearchInfoGemini,
+        }
+      : null,
+  };
+}
+
+/**
+ * Rates `userData` and returns the score plus the rating fields to store
+ * (through toProfileRatingUpdate, so they land under the active profile).
+ */
+export async function rateStoredUser(
+  userData: UserData,
+  webResearchInfo: WebResearchInfo = storedWebResearchInfo(userData)
+) {
+  const result = await rateUserV3(userData, webResearchInfo);
+  return {
+    score: result.score,
+    fields: {
+      rating: result.score,
+      ratingReasoning: result.reasoning,
+      criteriaScores: result.criteriaScores,
+      criteriaReasonings: result.criteriaReasonings,
+      engineerArchetype: result.engineerArchetype,
+      inferredLocation: result.inferredLocation,
+      ratedAt: new Date(),
+      ratingProvenance: result.provenance,
+    },
+  };
+}
@@ -1,13 +1,26 @@
 import { Octokit } from "@octokit/core";
-import { Collection } from "mongodb";
-import { fetchContributions } from "../../../utils/prime-scraper-api-utils.js";
-import { fetchUserEmailFromEvents } from "../../../utils/profile-data-fetchers.js";
-import { ContributionData, DbGraphUser, GraphUser, IgnoredReason } from "../../types.js";
+import {
+  fetchContributions,
+  fetchYearlyContributions,
+} from "../../../utils/prime-scraper-api-utils.js";
+import {
+  fetchPublicEvents,
+  findEmailInEvents,
+} from "../../../utils/profile-data-fetchers.js";
+import {
+  ContributionData,
+  ContributionTimeline,
+  GraphUser,
+  IgnoredReason,
+} from "../../types.js";
 import { rateUserV3 } from "../llm-rating.js";
+import { GraphStore } from "../store/graph-store.js";
 import {
   fetchAdditionalUserData,
   fetchBasicUserData,
 } from "./fetch-user-data.js";
+import { PrefetchedUser } from "./fetch-users-batch.js";
+import { buildContributionTimeline } from "./contribution-patterns.js";
 import { checkUserFilters } from "./filters.js";
 import {
   fetchLinkedInData,
@@ -30,6 +43,26 @@ function createIgnoredUser(
   };
 }
 
+// Multi-year history and when the user works, for the rating prompt
+export async function fetchContributionTimeline(
+  user: Pick<GraphUser, "login" | "createdAt" | "contributions" | "normalizedLocation">,
+  events: any[]
+): Promise<ContributionTimeline | null> {
+  if (!user.contributions) return null;
+  const years = await fetchYearlyContributions(
+    user.login,
+    user.contributions.contribution_years ?? []
+  );
+  if (!years) return null;
+  return buildContributionTimeline({
+    contributions: user.contributions,
+    years,
+    eventTimestamps: events.map((e) => e.created_at).filter(Boolean),
+    timezone: user.normalizedLocation?.timezone ?? null,
+    createdAt: user.createdAt || null,
+  });
+}
+
 async function calculateUserRating(user: GraphUser, webResearchInfo: any) {
   console.log(`[${user.login}] Calling rateUserV3...`);
   const ratingData = await rateUserV3(user, webResearchInfo);
@@ -45,6 +78,7 @@ async function calculateUserRating(user: GraphUser, webResearchInfo: any) {
   user.engineerArchetype = ratingData.engineerArchetype;
   user.inferredLocation = ratingData.inferredLocation;
   user.ratedAt = new Date();
+  user.ratingProvenance = ratingData.provenance;
 
   console.log(`[${user.login}] Rating: ${ratingData.score}/${ratingData.criteriaScores ? Object.keys(ratingData.criteriaScores).length * 3 : "?"}${ratingData.inferredLocation ? ` (${ratingData.inferredLocation})` : ""}`);
 }
@@ -54,21 +88,26 @@ export async function scrapeUser(
   username: string,
   depth: number,
   bypassFilters: boolean = false,
-  usersCol?: Collection<DbGraphUser>
+  store?: GraphStore,
+  prefetched?: PrefetchedUser
 ): Promise<{ user: GraphUser | null }> {
   try {
     console.log(
       `[ScrapeUser] Starting scrape for ${username} (depth: ${depth}, bypassFilters: ${bypassFilters})`
     );
 
-    // Fetch basic user data
-    const basicUserData = await fetchBasicUserData(octokit, username, depth);
+    // Fetch basic user data (already there if the batch prefetch succeeded)
+    const basicUserData = prefetched
+      ? prefetched.basic
+      : await fetchBasicUserData(octokit, username, depth);
     console.log(`[ScrapeUser] Fetched basic data for ${username}`);
 
     // Fetch contributions
     let contributions: ContributionData | null | undefined = undefined;
     try {
-      contributions = await fetchContributions(username);
+      contributions = prefetched
+        ? prefetched.contributions
+        : await fetchContributions(username);
       console.log(
         `[ScrapeUser] Fetched contributions for ${username}: ${
           contributions?.totalSum ?? "N/A"
@@ -120,7 +159,8 @@ export async function scrapeUser(
     const additionalData = await fetchAdditionalUserData(
       username,
       basicUserData,
-      octokit
+      octokit,
+      prefetched
     );
 
     // Create the user object with all the fetched data
@@ -158,18 +198,24 @@ export async function scrapeUser(
 
     // Calculate rating
     try {
-      // First, ensure we have the email
+      // Public events give the email (if missing) and activity times
+      const events = await fetchPublicEvents(username, octokit);
       if (!user.email) {
-        console.log(`[${username}] Fetching email...`);
-        const userEmail = await fetchUserEmailFromEvents(username, octokit);
+        const userEmail = findEmailInEvents(events);
         user.email = userEmail;
         console.log(
           `[${username}] Fetched email: ${userEmail || "not found"}`
         );
       }
 
+      user.contributionTimeline = await fetchContributionTimeline(user, events);
+      if (user.contributionTimeline) {
+        const { years, trend } = user.contributionTimeline;
+        console.log(`[${username}] Contribution timeline: ${years.length} years, ${trend}`);
+      }
+
       // Fetch LinkedIn data
-      await fetchLinkedInData(user, usersCol);
+      await fetchLinkedInData(user, store);
 
       // Get web research info
       const webResearchInfo = await fetchWebResearchInfo(user);
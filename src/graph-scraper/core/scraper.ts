@@ -1,19 +1,35 @@
-import { Octokit } from "@octokit/core";
 import dotenv from "dotenv";
-import { Collection, MongoClient } from "mongodb";
-import { DbGraphUser } from "../types.js";
+import os from "os";
+import {
+  getProfileRating,
+  hasAnyProfileRating,
+  ratingField,
+} from "../../config/company.js";
+import { getGitHubPool } from "../../utils/github-token-pool.js";
+import { updateGraphMetrics } from "./graph-metrics.js";
+import { describeLlmUsage } from "./llm/llm-registry.js";
 import { topProfiles } from "./profils.js";
+import { getProvider } from "./providers/providers.js";
+import { fetchUsersBatch } from "./scraper-helpers/fetch-users-batch.js";
+import { DEFAULT_REPO_CONTRIBUTORS } from "./scraper-helpers/discover-repo-contributors.js";
+import { DEFAULT_FOLLOWER_SAMPLER } from "./scraper-helpers/follower-sampler.js";
 import { RapidAPICreditsExhaustedError } from "./scraper-helpers/linkedin-research.js";
 import {
   processUserFromBatch,
   ScraperConfig,
 } from "./scraper-helpers/process-user.js";
+import {
+  GraphStore,
+  openGraphStore,
+  QueueSelection,
+  reclaimExpiredLeases,
+  releaseAllClaims,
+  renewLeases,
+} from "./store/graph-store.js";
 
 dotenv.config();
 
-const octokit = new Octokit({ auth: process.env.GITHUB_ACCESS_TOKEN });
-const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
-const dbName = process.env.MONGODB_DB;
+const githubPool = getGitHubPool();
 
 // --- Configuration ---
 const BATCH_SIZE = 5;
@@ -26,15 +42,36 @@ const SEED_PRIORITY = 100;
 // Queue selection: prioritize users whose BEST parent is high-rated
 const MAX_PARENT_WEIGHT = 1; // weight of max parent rating in effective priority
 const CANDIDATE_POOL_SIZE = 500; // top N by raw priority to re-rank
+// Optional: also favour socially central users (graphMetrics.centrality, 0-100)
+const CENTRALITY_WEIGHT = Number(process.env.CENTRALITY_PRIORITY_WEIGHT || 0);
+const REPO_CONTRIBUTOR_BACKFILL = 200; // best rated processed users re-queued per start
+const METRICS_INTERVAL = 50; // batches between graph metric refreshes
+
+// Multi-worker leases: a claimed user is reclaimed by other workers if its
+// lease isn't renewed in time (crashed or hung worker)
+const LEASE_MS = 10 * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+const IDLE_POLL_MS = 30 * 1000; // queue empty but other workers still busy
+
+const queueSelection = (workerId: string): QueueSelection => ({
+  workerId,
+  leaseMs: LEASE_MS,
+  batchSize: BATCH_SIZE,
+  minPriority: MIN_PRIORITY,
+  minBestParentRating: MIN_BEST_PARENT_RATING,
+  maxParentWeight: MAX_PARENT_WEIGHT,
+  centralityWeight: CENTRALITY_WEIGHT,
+  candidatePoolSize: CANDIDATE_POOL_SIZE,
+});
 
 const SCRAPER_CONFIG: ScraperConfig = {
   maxDepth: MAX_DEPTH,
   minRatingToScrapeConnections: 25,
-  minRatingToScrapeFollowers: 30,
+  minRatingToScrapeFollowers: 50, // only with --sample-followers
 };
 
 // --- Stats ---
-async function printStats(usersCol: Collection<DbGraphUser>) {
+async function printStats(store: GraphStore) {
   const [
     queueSize,
     belowThreshold,
@@ -44,35 +81,37 @@ async function printStats(usersCol: Collection<DbGraphUser>) {
     highScorers,
     totalDiscovered,
   ] = await Promise.all([
-    usersCol.countDocuments({
+    store.countUsers({
       status: "pending",
       priority: { $gte: MIN_PRIORITY },
-    } as any),
-    usersCol.countDocuments({
+    }),
+    store.countUsers({
       status: "pending",
       $or: [
         { priority: { $lt: MIN_PRIORITY } },
         { priority: { $exists: false } },
       ],
     }),
-    usersCol.countDocuments({ status: "processing" }),
-    usersCol.countDocuments({ status: "processed" }),
-    usersCol.countDocuments({ status: "ignored" }),
-    usersCol.countDocuments({
+    store.countUsers({ status: "processing" }),
+    store.countUsers({ status: "processed" }),
+    store.countUsers({ status: "ignored" }),
+    store.countUsers({
       status: "processed",
-      rating: { $gte: 12 },
+      [ratingField("rating")]: { $gte: 12 },
     }),
-    usersCol.countDocuments({}),
+    store.countUsers({}),
   ]);
 
-  const topScorers = await usersCol
-    .find({ status: "processed", rating: { $gte: 12 } })
-    .sort({ rating: -1 })
-    .limit(5)
-    .project({ _id: 1, rating: 1 })
-    .toArray();
+  const topScorers = await store.findUsers(
+    { status: "processed", [ratingField("rating")]: { $gte: 12 } },
+    {
+      sort: { [ratingField("rating")]: -1 },
+      limit: 5,
+      projection: { _id: 1, [ratingField("rating")]: 1 },
+    }
+  );
   const topStr = topScorers
-    .map((u) => `${u._id}(${u.rating})`)
+    .map((u) => `${u._id}(${getProfileRating(u).rating})`)
     .join(", ");
 
   console.log(`\n========== STATS ==========`);
@@ -85,91 +124,147 @@ async function printStats(usersCol: Collection<DbGraphUser>) {
   console.log(
     `High scorers (>=12):  ${highScorers}${topStr ? ` - top: ${topStr}` : ""}`
   );
+  console.log(`GitHub budget (${githubPool.size} tokens):`);
+  for (const line of githubPool.describe()) console.log(`  ${line}`);
+  const llmUsage = describeLlmUsage();
+  if (llmUsage.length > 0) {
+    console.log(`LLM usage this run:`);
+    for (const line of llmUsage) console.log(`  ${line}`);
+  }
   console.log(`===========================\n`);
 }
 
-// --- Startup ---
-async function initializeDatabase(usersCol: Collection<DbGraphUser>) {
-  console.log("Ensuring indexes...");
-  await Promise.all([
-    usersCol.createIndex({ status: 1, priority: -1 }),
-    usersCol.createIndex({ status: 1, "parentRatings.rating": -1, priority: -1 }, { background: true }),
-    usersCol.createIndex({ rating: 1 }),
-  ]);
-  console.log("Indexes ready.");
-
-  // Insert seed users
-  for (const profile of topProfiles) {
-    const username = profile.replace("https://github.com/", "");
-    await usersCol.updateOne(
-      { _id: username },
-      {
-        $setOnInsert: {
-          _id: username,
-          status: "pending" as const,
-          depth: 0,
-          priority: SEED_PRIORITY,
-          parentRatings: [],
-          scrapedConnections: { followers: false, following: false },
-        },
-      },
-      { upsert: true }
-    );
+// --- Graph metrics ---
+async function refreshGraphMetrics(store: GraphStore) {
+  try {
+    const summary = await updateGraphMetrics(store);
+    if (!summary.skipped) {
+      console.log(
+        `Graph metrics: ${summary.updated} of ${summary.users} users updated (${summary.edges} edges, ${summary.ms}ms)`
+      );
+    }
+  } catch (err) {
+    // Stale metrics only affect priority; keep scraping
+    console.error("Error updating graph metrics:", err);
   }
+}
 
-  // Recovery: reset interrupted "processing" users
-  const recovered = await usersCol.updateMany(
-    { status: "processing" },
-    { $set: { status: "pending" } }
+// --- Startup ---
+async function initializeDatabase(store: GraphStore, config: ScraperConfig) {
+  // Insert seed users
+  await store.insertUsersIfMissing(
+    topProfiles.map((profile) => ({
+      _id: profile.replace("https://github.com/", ""),
+      status: "pending" as const,
+      depth: 0,
+      priority: SEED_PRIORITY,
+      parentRatings: [],
+      scrapedConnections: { followers: false, following: false },
+    }))
   );
-  if (recovered.modifiedCount > 0) {
-    console.log(
-      `Recovered ${recovered.modifiedCount} interrupted users back to pending.`
-    );
+
+  // Recovery: requeue users whose worker died (other workers' live leases are kept)
+  const recovered = await reclaimExpiredLeases(store);
+  if (recovered > 0) {
+    console.log(`Recovered ${recovered} users with expired leases back to pending.`);
   }
 
   // Assign default priority to legacy pending users without it
-  const migrated = await usersCol.updateMany(
-    { status: "pending", priority: { $exists: false } } as any,
-    { $set: { priority: 0 } }
+  const migrated = await store.updateUsers(
+    { status: "pending", priority: { $exists: false } },
+    { priority: 0 }
   );
-  if (migrated.modifiedCount > 0) {
+  if (migrated > 0) {
     console.log(
-      `Assigned default priority to ${migrated.modifiedCount} legacy pending users.`
+      `Assigned default priority to ${migrated} legacy pending users.`
     );
   }
 
   // Re-queue processed users whose connections weren't scraped (only if rated well enough)
-  const requeued = await usersCol.updateMany(
+  const requeued = await store.updateUsers(
     {
       status: "processed",
-      rating: { $gte: SCRAPER_CONFIG.minRatingToScrapeConnections },
+      [ratingField("rating")]: {
+        $gte: SCRAPER_CONFIG.minRatingToScrapeConnections,
+      },
       depth: { $lt: MAX_DEPTH },
       "scrapedConnections.following": { $ne: true },
     },
-    { $set: { status: "pending" } }
+    { status: "pending" }
   );
-  if (requeued.modifiedCount > 0) {
+  if (requeued > 0) {
     console.log(
-      `Re-queued ${requeued.modifiedCount} processed users with unscraped connections.`
+      `Re-queued ${requeued} processed users with unscraped connections.`
+    );
+  }
+
+  // Same for followers of high scorers processed before sampling was turned on
+  if (config.followerSampler) {
+    const requeuedForFollowers = await store.updateUsers(
+      {
+        status: "processed",
+        [ratingField("rating")]: { $gte: config.minRatingToScrapeFollowers },
+        depth: { $lt: MAX_DEPTH },
+        "scrapedConnections.followers": { $ne: true },
+      },
+      { status: "pending" }
     );
+    if (requeuedForFollowers > 0) {
+      console.log(
+        `Re-queued ${requeuedForFollowers} processed users for follower sampling.`
+      );
+    }
+  }
+
+  // And for co-contributors of high scorers processed before that discovery
+  // was turned on: the best rated first, a capped batch per start
+  if (config.repoContributors) {
+    const backfill = await store.findUsers(
+      {
+        status: "processed",
+        [ratingField("rating")]: { $gte: config.repoContributors.minRating },
+        depth: { $lt: MAX_DEPTH },
+        "scrapedConnections.repoContributors": { $ne: true },
+      },
+      {
+        sort: { [ratingField("rating")]: -1 },
+        limit: REPO_CONTRIBUTOR_BACKFILL,
+        projection: { _id: 1 },
+      }
+    );
+    const requeuedForRepos = await store.updateUsersById(
+      backfill.map((u) => ({ _id: u._id, fields: { status: "pending" } }))
+    );
+    if (requeuedForRepos > 0) {
+      console.log(
+        `Re-queued ${requeuedForRepos} processed users for co-contributor discovery (at most ${REPO_CONTRIBUTOR_BACKFILL} per start).`
+      );
+    }
   }
 }
 
 // --- Main Loop ---
-async function main() {
-  const client = new MongoClient(mongoUri, {
-    maxPoolSize: 10,
-    serverSelectionTimeoutMS: 5000,
-    socketTimeoutMS: 120000,
-  });
-  await client.connect();
-  console.log(`Connected to MongoDB (${dbName})`);
-  const db = client.db(dbName);
-  const usersCol = db.collection<DbGraphUser>("users");
-  const edgesCol = db.collection("edges");
-
-  await initializeDatabase(usersCol);
+export async function runScraper({
+  workerId = process.env.SCRAPER_WORKER_ID || `${os.hostname()}-${process.pid}`,
+  sampleFollowers = false,
+  repoContributors = false,
+}: { workerId?: string; sampleFollowers?: boolean; repoContributors?: boolean } = {}) {
+  const store = await openGraphStore();
+  const octokit = getProvider("github").octokit;
+  const config: ScraperConfig = {
+    ...SCRAPER_CONFIG,
+    followerSampler: sampleFollowers ? DEFAULT_FOLLOWER_SAMPLER : null,
+    repoContributors: repoContributors ? DEFAULT_REPO_CONTRIBUTORS : null,
+  };
+  const extras = [
+    sampleFollowers ? "sampling followers" : null,
+    repoContributors ? "queueing co-contributors" : null,
+  ].filter(Boolean);
+  console.log(`Worker id: ${workerId}${extras.length ? ` (${extras.join(", ")})` : ""}`);
+
+  await initializeDatabase(store, config);
+  // Centrality only matters here for queue priority; `graph-scoring` refreshes it otherwise
+  if (CENTRALITY_WEIGHT > 0) await refreshGraphMetrics(store);
 
   let batchCount = 0;
 
@@ -177,59 +272,33 @@ async function main() {
     batchCount++;
 
     if (batchCount === 1 || batchCount % STATS_INTERVAL === 0) {
-      await printStats(usersCol);
+      await printStats(store);
+    }
+    if (CENTRALITY_WEIGHT > 0 && batchCount % METRICS_INTERVAL === 0) {
+      await refreshGraphMetrics(store);
     }
 
-    // Fetch next batch: require at least one strong parent, then re-rank
-    // by effective priority that heavily weights the best parent's rating
-    const pendingUsers = await usersCol
-      .aggregate([
-        {
-          $match: {
-            status: "pending",
-            priority: { $gte: MIN_PRIORITY },
-            $or: [
-              { depth: { $lte: 1 } }, // seeds + their direct connections get a free pass
-              { "parentRatings.rating": { $gte: MIN_BEST_PARENT_RATING } },
-            ],
-          },
-        },
-        { $sort: { priority: -1 } },
-        { $limit: CANDIDATE_POOL_SIZE },
-        {
-          $addFields: {
-            _maxParentRating: {
-              $cond: [
-                {
-                  $and: [
-                    { $isArray: "$parentRatings" },
-                    { $gt: [{ $size: "$parentRatings" }, 0] },
-                  ],
-                },
-                { $max: "$parentRatings.rating" },
-                0,
-              ],
-            },
-          },
-        },
-        {
-          $addFields: {
-            _effectivePriority: {
-              $add: [
-                "$priority",
-                { $multiply: ["$_maxParentRating", MAX_PARENT_WEIGHT] },
-              ],
-            },
-          },
-        },
-        { $sort: { _effectivePriority: -1 } },
-        { $limit: BATCH_SIZE },
-      ])
-      .toArray();
+    const reclaimed = await reclaimExpiredLeases(store);
+    if (reclaimed > 0) {
+      console.log(`Reclaimed ${reclaimed} users with expired leases.`);
+    }
+
+    // Fetch next batch and lease it to this worker
+    const pendingUsers = await store.claimNextBatch(queueSelection(workerId));
 
     if (pendingUsers.length === 0) {
-      await printStats(usersCol);
-      const parkedCount = await usersCol.countDocuments({
+      // Other workers may still discover new users from what they're processing
+      const inFlight = await store.countUsers({ status: "processing" });
+      if (inFlight > 0) {
+        console.log(
+          `Queue empty, ${inFlight} users still processing on other workers. Waiting...`
+        );
+        await new Promise((resolve) => setTimeout(resolve, IDLE_POLL_MS));
+        continue;
+      }
+
+      await printStats(store);
+      const parkedCount = await store.countUsers({
         status: "pending",
         $or: [
           { priority: { $lt: MIN_PRIORITY } },
@@ -242,28 +311,38 @@ async function main() {
       break;
     }
 
-    const effPriorities = pendingUsers.map((u: any) => u._effectivePriority ?? u.priority ?? 0);
+    const effPriorities = pendingUsers.map((u) => u._effectivePriority ?? u.priority ?? 0);
     console.log(
       `Batch ${batchCount}: ${pendingUsers.length} users ` +
         `[priority ${Math.min(...effPriorities).toFixed(1)}-${Math.max(...effPriorities).toFixed(1)}] ` +
         `(${pendingUsers.map((u) => u._id).join(", ")})`
     );
 
-    // Mark as processing
-    await usersCol.updateMany(
-      { _id: { $in: pendingUsers.map((u) => u._id) } },
-      { $set: { status: "processing" } }
-    );
+    // Heartbeat: keep our leases alive while the batch is being processed
+    const claimedIds = pendingUsers.map((u) => u._id);
+    const heartbeat = setInterval(() => {
+      renewLeases(store, workerId, claimedIds, LEASE_MS).catch((err) =>
+        console.error("Error renewing leases:", err)
+      );
+    }, HEARTBEAT_MS);
 
     try {
+      // One GraphQL round trip for the profiles of every user that still needs
+      // scraping; users rated for any profile are rated from stored data
+      const toScrape = pendingUsers.filter((u) => !hasAnyProfileRating(u));
+      const prefetched = await fetchUsersBatch(
+        octokit,
+        toScrape.map((u) => ({ username: u._id, depth: u.depth ?? 0 }))
+      );
+
       await Promise.all(
-        pendingUsers.map((userDoc: any) =>
+        pendingUsers.map((userDoc) =>
           processUserFromBatch(
-            userDoc as DbGraphUser,
+            userDoc,
             octokit,
-            usersCol,
-            edgesCol,
-            SCRAPER_CONFIG
+            store,
+            config,
+            prefetched.get(userDoc._id) ?? undefined
           )
         )
       );
@@ -272,23 +351,24 @@ async function main() {
         console.error(
           "\nRapidAPI credits exhausted! Exiting gracefully..."
         );
-        // Reset any remaining "processing" users back to "pending"
-        await usersCol.updateMany(
-          { status: "processing" },
-          { $set: { status: "pending" } }
-        );
-        await printStats(usersCol);
+        // Hand this worker's remaining claims back to the queue
+        await releaseAllClaims(store, workerId);
+        await printStats(store);
         break;
       }
       throw err;
+    } finally {
+      clearInterval(heartbeat);
     }
 
     if (global.gc) global.gc();
     await new Promise((resolve) => setTimeout(resolve, 100));
   }
 
-  await client.close();
+  await store.close();
   console.log("Done.");
 }
 
-main().catch(console.error);
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runScraper().catch(console.error);
+}
@@ -0,0 +1,70 @@
+import { DbGraphUser, SeedPath } from "../types.js";
+
+// A path is as strong as its weakest referral: paths compare by their lowest
+// parent rating, then by length (shorter wins).
+
+/** True if `candidate` should replace `current` as a user's seed path. */
+export function isBetterSeedPath(candidate: SeedPath, current: SeedPath | undefined | null) {
+  if (!current) return true;
+  if (candidate.score !== current.score) return candidate.score > current.score;
+  return candidate.chain.length < current.chain.length;
+}
+
+/**
+ * The seed path a parent hands to the users it discovers, given the rating it
+ * passes on (see scrapeConnections). Null if the parent isn't a seed and has
+ * no recorded path itself.
+ */
+export function extendSeedPath(
+  parent: Pick<DbGraphUser, "_id" | "depth" | "seedPath">,
+  parentRating: number
+): SeedPath | null {
+  if (parent.depth === 0) {
+    return { seed: parent._id, chain: [parent._id], score: parentRating };
+  }
+  if (!parent.seedPath) return null;
+  return {
+    seed: parent.seedPath.seed,
+    chain: [...parent.seedPath.chain, parent._id],
+    score: Math.min(parent.seedPath.score, parentRating),
+  };
+}
+
+const MAX_PASSES = 50;
+
+/**
+ * Best seed path for every non-seed user, from the recorded parentRatings.
+ * Used to backfill users discovered before paths were stored. Relaxes until
+ * nothing improves, since a user's depth (from its first discovery) doesn't
+ * order it after every parent.
+ */
+export function computeSeedPaths(
+  users: Array<Pick<DbGraphUser, "_id" | "depth" | "parentRatings">>
+): Map<string, SeedPath> {
+  const depthOf = new Map(users.map((u) => [u._id, u.depth]));
+  const paths = new Map<string, SeedPath>();
+  const ordered = users
+    .filter((u) => u.depth !== 0 && u.parentRatings?.length)
+    .sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0));
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (const user of ordered) {
+      for (const { parent, rating } of user.parentRatings!) {
+        const depth = depthOf.get(parent);
+        if (depth === undefined) continue;
+        const candidate = extendSeedPath(
+          { _id: parent, depth, seedPath: paths.get(parent) },
+          rating
+        );
+        if (!candidate || candidate.chain.includes(user._id)) continue;
+        if (isBetterSeedPath(candidate, paths.get(user._id))) {
+          paths.set(user._id, candidate);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return paths;
+}
@@ -1,68 +1,40 @@
 import dotenv from "dotenv";
-import { MongoClient } from "mongodb";
-import { DbGraphUser } from "../types.js";
+import { ratingField } from "../../config/company.js";
+import { FollowerSampleStats } from "../types.js";
+import { GraphStore, openGraphStore } from "./store/graph-store.js";
 
 dotenv.config();
 
-const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
-const dbName = process.env.MONGODB_DB;
-
-async function calculateGraphStats() {
-  const client = new MongoClient(mongoUri);
+export async function calculateGraphStats() {
+  let store: GraphStore | undefined;
   try {
-    await client.connect();
-    const db = client.db(dbName);
-    const usersCol = db.collection<DbGraphUser>("users");
-    const edgesCol = db.collection("edges");
+    store = await openGraphStore();
 
     // Get basic counts
-    const totalUsers = await usersCol.countDocuments();
-    const totalEdges = await edgesCol.countDocuments();
+    const totalUsers = await store.countUsers();
+    const totalEdges = await store.countEdges();
 
     // Get status distribution
-    const statusCounts = await usersCol
-      .aggregate([{ $group: { _id: "$status", count: { $sum: 1 } } }])
-      .toArray();
+    const statusCounts = await store.countUsersBy("status");
 
     // Get depth distribution
-    const depthCounts = await usersCol
-      .aggregate([{ $group: { _id: "$depth", count: { $sum: 1 } } }])
-      .toArray();
+    const depthCounts = await store.countUsersBy("depth");
 
     // Get depth distribution for high-rated processed users
-    const highRatedProcessedByDepth = await usersCol
-      .aggregate([
-        {
-          $match: {
-            status: "processed",
-            rating: { $gt: 50 },
-          },
-        },
-        {
-          $group: {
-            _id: "$depth",
-            count: { $sum: 1 },
-          },
-        },
-      ])
-      .toArray();
+    const highRatedProcessedByDepth = await store.countUsersBy("depth", {
+      status: "processed",
+      rating: { $gt: 50 },
+    });
 
     // Get ignored reasons distribution
-    const ignoredReasons = await usersCol
-      .aggregate([
-        { $match: { status: "ignored" } },
-        { $group: { _id: "$ignoredReason", count: { $sum: 1 } } },
-      ])
-      .toArray();
+    const ignoredReasons = await store.countUsersBy("ignoredReason", {
+      status: "ignored",
+    });
 
     // Calculate average followers/following per user
-    const followingCounts = await edgesCol
-      .aggregate([{ $group: { _id: "$from", count: { $sum: 1 } } }])
-      .toArray();
+    const followingCounts = await store.countEdgesBy("from");
 
-    const followerCounts = await edgesCol
-      .aggregate([{ $group: { _id: "$to", count: { $sum: 1 } } }])
-      .toArray();
+    const followerCounts = await store.countEdgesBy("to");
 
     const avgFollowing =
       followingCounts.reduce((sum, curr) => sum + curr.count, 0) /
@@ -89,7 +61,7 @@ async function calculateGraphStats() {
     const processedStatusCount =
       statusCounts.find((s) => s._id === "processed")?.count || 0;
     if (processedStatusCount > 0) {
-      const ratedUsersCount = await usersCol.countDocuments({
+      const ratedUsersCount = await store.countUsers({
         status: "processed",
         rating: { $exists: true },
       });
@@ -116,7 +88,7 @@ async function calculateGraphStats() {
       });
 
     // Get total ignored users count
-    const totalIgnored = await usersCol.countDocuments({ status: "ignored" });
+    const totalIgnored = await store.countUsers({ status: "ignored" });
     console.log("\nIgnored Users Statistics:");
     console.log(
       `Total Ignored Users: ${totalIgnored} (${(
@@ -169,34 +141,92 @@ async function calculateGraphStats() {
       }
     }
 
+    // Yield of follower sampling vs following-based discovery (seeds excluded)
+    const CANDIDATE_RATING = 40;
+    const viaCounts = async (filter: Record<string, any> = {}) =>
+      new Map(
+        (
+          await store!.countUsersBy("discoveredVia", {
+            depth: { $gt: 0 },
+            ...filter,
+          })
+        ).map(({ _id, count }) => [_id as string, count])
+      );
+    const [discoveredVia, processedVia, ignoredVia, candidatesVia, outreachVia] =
+      await Promise.all([
+        viaCounts(),
+        viaCounts({ status: "processed" }),
+        viaCounts({ status: "ignored" }),
+        viaCounts({ [ratingField("rating")]: { $gte: CANDIDATE_RATING } }),
+        viaCounts({ reviewStatus: "outreach" }),
+      ]);
+
+    if (discoveredVia.size > 0) {
+      console.log("\nDiscovery Yield:");
+      console.log("----------------------------------------");
+      for (const [via, count] of discoveredVia) {
+        const processed = processedVia.get(via) ?? 0;
+        const candidates = candidatesVia.get(via) ?? 0;
+        const hitRate =
+          processed > 0 ? ((candidates / processed) * 100).toFixed(1) : "-";
+        console.log(
+          `${via ?? "unknown"}: ${count} discovered, ${processed} processed, ${ignoredVia.get(via) ?? 0} ignored, ${candidates} rated >= ${CANDIDATE_RATING} (${hitRate}% of processed), ${outreachVia.get(via) ?? 0} outreach`
+        );
+      }
+
+      const samples = await store.findUsers(
+        { followerSample: { $exists: true } },
+        { projection: { _id: 1, followerSample: 1 } }
+      );
+      if (samples.length > 0) {
+        const totals = { scanned: 0, known: 0, queued: 0 };
+        const rejected: Record<string, number> = {};
+        for (const { followerSample } of samples as Array<{
+          followerSample: FollowerSampleStats;
+        }>) {
+          totals.scanned += followerSample.scanned;
+          totals.known += followerSample.known;
+          totals.queued += followerSample.queued;
+          for (const [reason, count] of Object.entries(followerSample.rejected)) {
+            rejected[reason] = (rejected[reason] ?? 0) + (count ?? 0);
+          }
+        }
+        console.log(
+          `\nFollower Sampler: ${samples.length} parents, ${totals.scanned} new followers screened, ${totals.queued} queued, ${totals.known} already known`
+        );
+        Object.entries(rejected)
+          .sort(([, a], [, b]) => b - a)
+          .forEach(([reason, count]) => {
+            const percentage = ((count / Math.max(totals.scanned, 1)) * 100).toFixed(1);
+            console.log(`  ${reason}: ${count} (${percentage}%)`);
+          });
+      }
+    }
+
     // Add new section for Depth 6 Sample Profiles
-    const depth6HighRatedUsers = await usersCol
-      .find({
+    const depth6HighRatedUsers = await store.findUsers(
+      {
         depth: 6,
         status: "processed",
         rating: { $gt: 50 },
-      })
-      .project({ html_url: 1, login: 1, rating: 1 }) // Assuming html_url and login exist
-      .sort({ rating: -1 }) // Optional: sort by rating descending
-      .limit(20)
-      .toArray();
+      },
+      { sort: { rating: -1 }, limit: 20, projection: { _id: 1, rating: 1 } }
+    );
 
     if (depth6HighRatedUsers.length > 0) {
       console.log("Depth 6 Sample Profiles (Rating > 50, Processed):");
       console.log("----------------------------------------------------");
       depth6HighRatedUsers.forEach((user) => {
         console.log(
-          `- https://github.com/${user.login} (Rating: ${user.rating})`
+          `- https://github.com/${user._id} (Rating: ${user.rating})`
         );
       });
     }
 
     // Add Rating Statistics
-    const ratedUsers = await usersCol
-      .find({
-        rating: { $exists: true },
-      })
-      .toArray();
+    const ratedUsers = await store.findUsers({
+      rating: { $exists: true },
+    });
 
     if (ratedUsers.length > 0) {
       console.log("\nRating Statistics:");
@@ -252,8 +282,10 @@ async function calculateGraphStats() {
   } catch (error) {
     console.error("Error calculating graph stats:", error);
   } finally {
-    await client.close();
+    await store?.close();
   }
 }
 
-calculateGraphStats().catch(console.error);
+if (import.meta.url === `file://${process.argv[1]}`) {
+  calculateGraphStats().catch(console.error);
+}
@@ -0,0 +1,316 @@
+import fs from "fs";
+import path from "path";
+import { DbGraphUser } from "../../types.js";
+import { isBetterSeedPath } from "../seed-paths.js";
+import {
+  compareBySort,
+  getPath,
+  matchesFilter,
+  setPath,
+} from "./filter-match.js";
+import {
+  ClaimedUser,
+  DiscoveredUser,
+  effectivePriority,
+  FindOptions,
+  GraphEdge,
+  GraphStore,
+  NewUser,
+  QueueSelection,
+  UserFilter,
+} from "./graph-store.js";
+
+const FLUSH_DELAY_MS = 1000;
+
+// JSON.stringify(Date) always produces millisecond precision, while GitHub's
+// own timestamps (createdAt) don't - so only the former are revived as Dates.
+const SERIALIZED_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+interface FileContents {
+  users: DbGraphUser[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Single-file JSON store for local runs and CI: everything lives in memory and
+ * is written back (atomically, debounced) after changes and on close().
+ * Not meant for million-user crawls - use MongoDB for those.
+ */
+export class FileGraphStore implements GraphStore {
+  private users = new Map<string, DbGraphUser>();
+  private edges: GraphEdge[] = [];
+  private edgeKeys = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private filePath: string) {}
+
+  async init() {
+    if (!fs.existsSync(this.filePath)) return;
+    const contents: FileContents = JSON.parse(
+      fs.readFileSync(this.filePath, "utf-8"),
+      (_key, value) =>
+        typeof value === "string" && SERIALIZED_DATE.test(value)
+          ? new Date(value)
+          : value
+    );
+    this.users = new Map(contents.users.map((u) => [u._id, u]));
+    this.edges = [];
+    this.edgeKeys.clear();
+    this.pushEdges(contents.edges);
+  }
+
+  async close() {
+    this.flush();
+  }
+
+  /** Writes the whole graph to disk via a temp file + rename. */
+  flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const contents: FileContents = {
+      users: [...this.users.values()],
+      edges: this.edges,
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(contents));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+
+  private pushEdges(edges: GraphEdge[]): number {
+    let added = 0;
+    for (const edge of edges) {
+      const key = `${edge.from}\u0000${edge.to}`;
+      if (this.edgeKeys.has(key)) continue;
+      this.edgeKeys.add(key);
+      this.edges.push({ from: edge.from, to: edge.to });
+      added++;
+    }
+    return added;
+  }
+
+  private query(filter: UserFilter): DbGraphUser[] {
+    const result: DbGraphUser[] = [];
+    for (const user of this.users.values()) {
+      if (matchesFilter(user, filter)) result.push(user);
+    }
+    return result;
+  }
+
+  async getUser(username: string) {
+    const user = this.users.get(username);
+    return user ? structuredClone(user) : null;
+  }
+
+  async findUser(filter: UserFilter) {
+    const [user] = await this.findUsers(filter, { limit: 1 });
+    return user ?? null;
+  }
+
+  async findUsers(filter: UserFilter, options: FindOptions = {}) {
+    let result = this.query(filter);
+    if (options.sort) result.sort(compareBySort(options.sort));
+    if (options.limit) result = result.slice(0, options.limit);
+    return result.map((u) => structuredClone(u));
+  }
+
+  async countUsers(filter: UserFilter = {}) {
+    return this.query(filter).length;
+  }
+
+  async countUsersBy(field: string, filter: UserFilter = {}) {
+    const counts = new Map<any, number>();
+    for (const user of this.query(filter)) {
+      const key = getPath(user, field) ?? null;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return [...counts].map(([_id, count]) => ({ _id, count }));
+  }
+
+  private applySet(user: DbGraphUser, fields: Record<string, any>): boolean {
+    let changed = false;
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) continue; // Mongo drops undefined on $set too
+      if (JSON.stringify(getPath(user, key)) !== JSON.stringify(value)) {
+        setPath(user, key, structuredClone(value));
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  async updateUser(username: string, fields: Record<string, any>) {
+    const user = this.users.get(username);
+    if (!user) return false;
+    if (this.applySet(user, fields)) this.scheduleFlush();
+    return true;
+  }
+
+  async updateUsers(filter: UserFilter, fields: Record<string, any>) {
+    let modified = 0;
+    for (const user of this.query(filter)) {
+      if (this.applySet(user, fields)) modified++;
+    }
+    if (modified > 0) this.scheduleFlush();
+    return modified;
+  }
+
+  async updateUsersById(updates: Array<{ _id: string; fields: Record<string, any> }>) {
+    let modified = 0;
+    for (const { _id, fields } of updates) {
+      const user = this.users.get(_id);
+      if (user && this.applySet(user, fields)) modified++;
+    }
+    if (modified > 0) this.scheduleFlush();
+    return modified;
+  }
+
+  async saveRatedUser(username: string, userData: Record<string, any>) {
+    let user = this.users.get(username);
+    if (!user) {
+      user = { _id: username } as DbGraphUser;
+      this.users.set(username, user);
+    }
+    this.applySet(user, userData);
+    this.scheduleFlush();
+  }
+
+  async insertUsersIfMissing(users: NewUser[]) {
+    for (const user of users) {
+      if (!this.users.has(user._id)) {
+        this.users.set(user._id, structuredClone(user) as DbGraphUser);
+        this.scheduleFlush();
+      }
+    }
+  }
+
+  async upsertDiscoveredUsers(users: DiscoveredUser[]) {
+    for (const u of users) {
+      let user = this.users.get(u.username);
+      if (!user) {
+        user = {
+          _id: u.username,
+          status: "pending",
+          depth: u.depth,
+          discoveredVia: u.discoveredVia,
+          scrapedConnections: { followers: false, following: false },
+          parentRatings: [],
+        } as unknown as DbGraphUser;
+        this.users.set(u.username, user);
+      }
+      if (user.priority === undefined || u.priority > user.priority) {
+        user.priority = u.priority;
+      }
+      user.parentRatings = user.parentRatings ?? [];
+      const parent = u.parent;
+      if (
+        parent &&
+        !user.parentRatings.some(
+          (p) => p.parent === parent.parent && p.rating === parent.rating
+        )
+      ) {
+        user.parentRatings.push({ ...parent });
+      }
+      const interaction = u.repoInteraction;
+      if (
+        interaction &&
+        !user.repoInteractions?.some(
+          (r) => r.repo === interaction.repo && r.type === interaction.type
+        )
+      ) {
+        user.repoInteractions = [...(user.repoInteractions ?? []), { ...interaction }];
+      }
+      const orgSource = u.orgSource;
+      if (
+        orgSource &&
+        !user.orgSources?.some((o) => o.org === orgSource.org && o.via === orgSource.via)
+      ) {
+        user.orgSources = [...(user.orgSources ?? []), { ...orgSource }];
+      }
+      if (u.seedPath && user.depth !== 0 && isBetterSeedPath(u.seedPath, user.seedPath)) {
+        user.seedPath = structuredClone(u.seedPath);
+      }
+    }
+    if (users.length > 0) this.scheduleFlush();
+  }
+
+  async addEdges(edges: GraphEdge[]) {
+    if (this.pushEdges(edges) > 0) this.scheduleFlush();
+  }
+
+  async findEdges(filter: { from?: string | string[]; to?: string | string[] }) {
+    const toSet = (v?: string | string[]) =>
+      v === undefined ? null : new Set(Array.isArray(v) ? v : [v]);
+    const from = toSet(filter.from);
+    const to = toSet(filter.to);
+    return this.edges
+      .filter((e) => (!from || from.has(e.from)) && (!to || to.has(e.to)))
+      .map((e) => ({ ...e }));
+  }
+
+  async countEdges() {
+    return this.edges.length;
+  }
+
+  async countEdgesBy(field: "from" | "to") {
+    const counts = new Map<string, number>();
+    for (const edge of this.edges) {
+      counts.set(edge[field], (counts.get(edge[field]) ?? 0) + 1);
+    }
+    return [...counts].map(([_id, count]) => ({ _id, count }));
+  }
+
+  async claimNextBatch(selection: QueueSelection) {
+    const pool = this.query({
+      status: "pending",
+      priority: { $gte: selection.minPriority },
+      $or: [
+        { depth: { $lte: 1 } },
+        { "parentRatings.rating": { $gte: selection.minBestParentRating } },
+      ],
+    })
+      .sort(
+        selection.centralityWeight > 0
+          ? (a, b) =>
+              effectivePriority(b, 0, selection.centralityWeight) -
+              effectivePriority(a, 0, selection.centralityWeight)
+          : compareBySort({ priority: -1 })
+      )
+      .slice(0, selection.candidatePoolSize);
+
+    const batch = pool
+      .map((user) => ({
+        user,
+        eff: effectivePriority(
+          user,
+          selection.maxParentWeight,
+          selection.centralityWeight
+        ),
+      }))
+      .sort((a, b) => b.eff - a.eff)
+      .slice(0, selection.batchSize);
+
+    const leaseExpiresAt = new Date(Date.now() + selection.leaseMs);
+    for (const { user } of batch) {
+      user.status = "processing";
+      user.leaseOwner = selection.workerId;
+      user.leaseExpiresAt = leaseExpiresAt;
+    }
+    if (batch.length > 0) this.scheduleFlush();
+
+    return batch.map(
+      ({ user, eff }): ClaimedUser => ({
+        ...structuredClone(user),
+        _effectivePriority: eff,
+      })
+    );
+  }
+}
@@ -0,0 +1,147 @@
+// In-memory evaluation of the Mongo filter subset used across the scraper.
+// Supported: implicit equality, $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin,
+// $exists, $regex/$options, $size, $not, and top-level $or / $and.
+// Dotted paths traverse arrays the way Mongo does ("parentRatings.rating"
+// matches if any element matches).
+
+import { UserFilter } from "./graph-store.js";
+
+/** Collects every value reachable at a dotted path, flattening arrays on the way. */
+export function getPathValues(doc: any, path: string): any[] {
+  let current: any[] = [doc];
+  for (const key of path.split(".")) {
+    const next: any[] = [];
+    for (const value of current) {
+      if (value == null) continue;
+      if (Array.isArray(value) && !/^\d+$/.test(key)) {
+        for (const item of value) {
+          if (item != null && typeof item === "object" && key in item) {
+            next.push(item[key]);
+          }
+        }
+      } else if (typeof value === "object" && key in value) {
+        next.push(value[key]);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+export function getPath(doc: any, path: string): any {
+  return getPathValues(doc, path)[0];
+}
+
+export function setPath(doc: any, path: string, value: any) {
+  const keys = path.split(".");
+  let target = doc;
+  for (const key of keys.slice(0, -1)) {
+    if (target[key] == null || typeof target[key] !== "object") target[key] = {};
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function comparable(value: any): any {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (b === null) return a == null;
+  if (a instanceof Date || b instanceof Date) {
+    return comparable(a) === comparable(b);
+  }
+  if (typeof a === "object" && a !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/** Candidate values for a path: the values themselves plus array elements. */
+function expand(values: any[]): any[] {
+  const out: any[] = [];
+  for (const v of values) {
+    out.push(v);
+    if (Array.isArray(v)) out.push(...v);
+  }
+  return out;
+}
+
+function matchesOperator(values: any[], op: string, arg: any): boolean {
+  const candidates = expand(values);
+  switch (op) {
+    case "$eq":
+      return candidates.length === 0
+        ? arg === null
+        : candidates.some((v) => valuesEqual(v, arg));
+    case "$ne":
+      return !matchesOperator(values, "$eq", arg);
+    case "$gt":
+      return candidates.some((v) => v != null && comparable(v) > comparable(arg));
+    case "$gte":
+      return candidates.some((v) => v != null && comparable(v) >= comparable(arg));
+    case "$lt":
+      return candidates.some((v) => v != null && comparable(v) < comparable(arg));
+    case "$lte":
+      return candidates.some((v) => v != null && comparable(v) <= comparable(arg));
+    case "$in":
+      return (arg as any[]).some((a) => matchesOperator(values, "$eq", a));
+    case "$nin":
+      return !matchesOperator(values, "$in", arg);
+    case "$exists":
+      return arg ? values.some((v) => v !== undefined) : values.every((v) => v === undefined);
+    case "$size":
+      return values.some((v) => Array.isArray(v) && v.length === arg);
+    case "$not":
+      return !matchesCondition(values, arg);
+    default:
+      throw new Error(`Unsupported filter operator: ${op}`);
+  }
+}
+
+function matchesCondition(values: any[], condition: any): boolean {
+  const isOperatorObject =
+    condition != null &&
+    typeof condition === "object" &&
+    !Array.isArray(condition) &&
+    !(condition instanceof Date) &&
+    Object.keys(condition).some((k) => k.startsWith("$"));
+
+  if (!isOperatorObject) return matchesOperator(values, "$eq", condition);
+
+  return Object.entries(condition).every(([op, arg]) => {
+    if (op === "$options") return true; // consumed by $regex
+    if (op === "$regex") {
+      const regex = new RegExp(arg as string, condition.$options);
+      return expand(values).some((v) => typeof v === "string" && regex.test(v));
+    }
+    return matchesOperator(values, op, arg);
+  });
+}
+
+export function matchesFilter(doc: any, filter: UserFilter): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$or") {
+      return (condition as UserFilter[]).some((f) => matchesFilter(doc, f));
+    }
+    if (key === "$and") {
+      return (condition as UserFilter[]).every((f) => matchesFilter(doc, f));
+    }
+    return matchesCondition(getPathValues(doc, key), condition);
+  });
+}
+
+/** Comparator for a Mongo-style sort spec. Missing values sort lowest, like Mongo. */
+export function compareBySort(sort: Record<string, 1 | -1>) {
+  return (a: any, b: any): number => {
+    for (const [path, direction] of Object.entries(sort)) {
+      const av = comparable(getPath(a, path));
+      const bv = comparable(getPath(b, path));
+      if (av === bv) continue;
+      if (av == null) return -direction;
+      if (bv == null) return direction;
+      return av < bv ? -direction : direction;
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,203 @@
+import dotenv from "dotenv";
+import {
+  DbGraphUser,
+  DiscoverySource,
+  OrgSource,
+  RepoInteraction,
+  SeedPath,
+} from "../../types.js";
+
+dotenv.config();
+
+// Mongo-style filter. The Mongo store passes it through as-is; the file store
+// evaluates the subset documented in filter-match.ts.
+export type UserFilter = Record<string, any>;
+
+export interface FindOptions {
+  sort?: Record<string, 1 | -1>;
+  limit?: number;
+  projection?: Record<string, 1>;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+}
+
+export interface DiscoveredUser {
+  username: string;
+  depth: number;
+  discoveredVia: DiscoverySource;
+  priority: number;
+  parent?: { parent: string; rating: number }; // absent for repo interactors and org members
+  repoInteraction?: RepoInteraction;
+  orgSource?: OrgSource;
+  seedPath?: SeedPath | null; // replaces the stored path if better (see core/seed-paths.ts)
+}
+
+// Knobs for best-first queue selection (see README "How It Works")
+export interface QueueSelection {
+  workerId: string; // claimed users are leased to this worker
+  leaseMs: number; // lease duration; renewed by heartbeats while processing
+  batchSize: number;
+  minPriority: number;
+  minBestParentRating: number; // users deeper than 1 need at least one parent >= this
+  maxParentWeight: number; // weight of max parent rating in effective priority
+  centralityWeight: number; // weight of graphMetrics.centrality (0-100) in effective priority; 0 disables
+  candidatePoolSize: number; // top N by priority (plus weighted centrality) to re-rank
+}
+
+export type ClaimedUser = DbGraphUser & { _effectivePriority: number };
+
+// A queue entry that hasn't been scraped yet (e.g. a seed)
+export type NewUser = Partial<DbGraphUser> & { _id: string };
+
+/**
+ * Persistence for the crawl: the users collection doubles as the priority
+ * queue, edges record who-follows-whom. All traversal code goes through this
+ * interface so the scraper can run against MongoDB or a local file.
+ */
+export interface GraphStore {
+  /** Creates indexes / loads data. Safe to call on every startup. */
+  init(): Promise<void>;
+  close(): Promise<void>;
+
+  getUser(username: string): Promise<DbGraphUser | null>;
+  findUser(filter: UserFilter): Promise<DbGraphUser | null>;
+  findUsers(filter: UserFilter, options?: FindOptions): Promise<DbGraphUser[]>;
+  countUsers(filter?: UserFilter): Promise<number>;
+  /** Group counts by a (possibly dotted) field, like `$group: { _id: "$field" }`. */
+  countUsersBy(
+    field: string,
+    filter?: UserFilter
+  ): Promise<Array<{ _id: any; count: number }>>;
+
+  /** `$set`s fields on one user. Returns false if the user doesn't exist. */
+  updateUser(username: string, fields: Record<string, any>): Promise<boolean>;
+  /** `$set`s fields on every matching user. Returns the number modified. */
+  updateUsers(filter: UserFilter, fields: Record<string, any>): Promise<number>;
+  /** `$set`s different fields on each user in one round trip. Returns the number modified. */
+  updateUsersById(updates: Array<{ _id: string; fields: Record<string, any> }>): Promise<number>;
+  /** Writes scraped/rated user data, inserting the user if needed. */
+  saveRatedUser(username: string, userData: Record<string, any>): Promise<void>;
+  /** Inserts users that don't exist yet; existing users are left untouched. */
+  insertUsersIfMissing(users: NewUser[]): Promise<void>;
+  /** Queues newly discovered users, raising priority and recording the parent on existing ones. */
+  upsertDiscoveredUsers(users: DiscoveredUser[]): Promise<void>;
+
+  addEdges(edges: GraphEdge[]): Promise<void>;
+  findEdges(filter: {
+    from?: string | string[];
+    to?: string | string[];
+  }): Promise<GraphEdge[]>;
+  countEdges(): Promise<number>;
+  countEdgesBy(field: "from" | "to"): Promise<Array<{ _id: string; count: number }>>;
+
+  /**
+   * Selects the next batch by effective priority and leases it to
+   * `selection.workerId` ("processing" + leaseOwner/leaseExpiresAt). Each user
+   * is claimed atomically, so concurrent workers never get the same user.
+   */
+  claimNextBatch(selection: QueueSelection): Promise<ClaimedUser[]>;
+}
+
+export function effectivePriority(
+  user: Pick<DbGraphUser, "priority" | "parentRatings" | "graphMetrics">,
+  maxParentWeight: number,
+  centralityWeight = 0
+): number {
+  const maxParentRating = user.parentRatings?.length
+    ? Math.max(...user.parentRatings.map((p) => p.rating))
+    : 0;
+  return (
+    (user.priority ?? 0) +
+    maxParentRating * maxParentWeight +
+    (user.graphMetrics?.centrality ?? 0) * centralityWeight
+  );
+}
+
+const LEASE_CLEARED = { leaseOwner: null, leaseExpiresAt: null };
+
+/**
+ * Puts "processing" users whose lease ran out (crashed or stalled worker) back
+ * in the queue. Users without a lease come from pre-lease runs and are
+ * reclaimed as well.
+ */
+export function reclaimExpiredLeases(store: GraphStore): Promise<number> {
+  return store.updateUsers(
+    {
+      status: "processing",
+      $or: [{ leaseExpiresAt: null }, { leaseExpiresAt: { $lt: new Date() } }],
+    },
+    { status: "pending", ...LEASE_CLEARED }
+  );
+}
+
+/** Heartbeat: extends the leases this worker still holds. */
+export function renewLeases(
+  store: GraphStore,
+  workerId: string,
+  usernames: string[],
+  leaseMs: number
+): Promise<number> {
+  return store.updateUsers(
+    { _id: { $in: usernames }, status: "processing", leaseOwner: workerId },
+    { leaseExpiresAt: new Date(Date.now() + leaseMs) }
+  );
+}
+
+/**
+ * Finishes a claimed user: sets `fields` (usually the final status) and drops
+ * the lease - but only while `workerId` still owns it. Returns false if the
+ * lease was lost, i.e. another worker has reclaimed the user in the meantime.
+ */
+export async function releaseClaim(
+  store: GraphStore,
+  username: string,
+  workerId: string,
+  fields: Record<string, any>
+): Promise<boolean> {
+  const released = await store.updateUsers(
+    { _id: username, leaseOwner: workerId },
+    { ...fields, ...LEASE_CLEARED }
+  );
+  return released > 0;
+}
+
+/** Returns all of this worker's claims to the queue (e.g. on shutdown). */
+export function releaseAllClaims(
+  store: GraphStore,
+  workerId: string
+): Promise<number> {
+  return store.updateUsers(
+    { status: "processing", leaseOwner: workerId },
+    { status: "pending", ...LEASE_CLEARED }
+  );
+}
+
+/**
+ * Opens the store selected by GRAPH_STORE ("mongo" by default, or "file" with
+ * GRAPH_STORE_PATH) and initializes it.
+ */
+export async function openGraphStore(): Promise<GraphStore> {
+  const kind = process.env.GRAPH_STORE || "mongo";
+  let store: GraphStore;
+
+  if (kind === "file") {
+    const { FileGraphStore } = await import("./file-graph-store.js");
+    store = new FileGraphStore(
+      process.env.GRAPH_STORE_PATH || "dataOutputs/graph-store.json"
+    );
+  } else if (kind === "mongo") {
+    const { MongoGraphStore } = await import("./mongo-graph-store.js");
+    store = await MongoGraphStore.connect(
+      process.env.MONGODB_URI || "mongodb://localhost:27017",
+      process.env.MONGODB_DB
+    );
+  } else {
+    throw new Error(`Unknown GRAPH_STORE "${kind}". Use "mongo" or "file".`);
+  }
+
+  await store.init();
+  return store;
+}
@@ -0,0 +1,318 @@
+import { Collection, MongoClient } from "mongodb";
+import { DbGraphUser, SeedPath } from "../../types.js";
+import {
+  ClaimedUser,
+  DiscoveredUser,
+  FindOptions,
+  GraphEdge,
+  GraphStore,
+  NewUser,
+  QueueSelection,
+  UserFilter,
+} from "./graph-store.js";
+
+const UPSERT_CHUNK_SIZE = 100;
+
+// Sets the seed path unless the stored one is at least as good (same order
+// as isBetterSeedPath); seeds never get one
+function seedPathUpdate(username: string, seedPath: SeedPath) {
+  return {
+    filter: {
+      _id: username,
+      depth: { $gt: 0 },
+      $or: [
+        { seedPath: { $exists: false } },
+        { "seedPath.score": { $lt: seedPath.score } },
+        {
+          "seedPath.score": seedPath.score,
+          [`seedPath.chain.${seedPath.chain.length}`]: { $exists: true }, // longer chain
+        },
+      ],
+    },
+    update: { $set: { seedPath } },
+  };
+}
+// Ranked candidates fetched per claimed slot; others may win some of them
+const CLAIM_OVERFETCH = 4;
+
+export class MongoGraphStore implements GraphStore {
+  private usersCol: Collection<DbGraphUser>;
+  private edgesCol: Collection<GraphEdge>;
+
+  constructor(private client: MongoClient, dbName?: string) {
+    const db = client.db(dbName);
+    this.usersCol = db.collection<DbGraphUser>("users");
+    this.edgesCol = db.collection<GraphEdge>("edges");
+  }
+
+  static async connect(uri: string, dbName?: string): Promise<MongoGraphStore> {
+    const client = new MongoClient(uri, {
+      maxPoolSize: 10,
+      serverSelectionTimeoutMS: 5000,
+      socketTimeoutMS: 120000,
+    });
+    await client.connect();
+    console.log(`Connected to MongoDB (${dbName})`);
+    return new MongoGraphStore(client, dbName);
+  }
+
+  async init() {
+    await Promise.all([
+      this.usersCol.createIndex({ status: 1, priority: -1 }),
+      this.usersCol.createIndex(
+        { status: 1, "parentRatings.rating": -1, priority: -1 },
+        { background: true }
+      ),
+      this.usersCol.createIndex({ rating: 1 }),
+      this.usersCol.createIndex({ status: 1, leaseExpiresAt: 1 }),
+    ]);
+  }
+
+  async close() {
+    await this.client.close();
+  }
+
+  async getUser(username: string) {
+    return this.usersCol.findOne({ _id: username });
+  }
+
+  async findUser(filter: UserFilter) {
+    return this.usersCol.findOne(filter);
+  }
+
+  async findUsers(filter: UserFilter, options: FindOptions = {}) {
+    let cursor = this.usersCol.find(filter);
+    if (options.projection) cursor = cursor.project(options.projection);
+    if (options.sort) cursor = cursor.sort(options.sort);
+    if (options.limit) cursor = cursor.limit(options.limit);
+    return (await cursor.toArray()) as DbGraphUser[];
+  }
+
+  async countUsers(filter: UserFilter = {}) {
+    return this.usersCol.countDocuments(filter);
+  }
+
+  async countUsersBy(field: string, filter: UserFilter = {}) {
+    return (await this.usersCol
+      .aggregate([
+        { $match: filter },
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      ])
+      .toArray()) as Array<{ _id: any; count: number }>;
+  }
+
+  async updateUser(username: string, fields: Record<string, any>) {
+    const result = await this.usersCol.updateOne(
+      { _id: username },
+      { $set: fields }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async updateUsers(filter: UserFilter, fields: Record<string, any>) {
+    const result = await this.usersCol.updateMany(filter, { $set: fields });
+    return result.modifiedCount;
+  }
+
+  async updateUsersById(updates: Array<{ _id: string; fields: Record<string, any> }>) {
+    let modified = 0;
+    for (let i = 0; i < updates.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = updates.slice(i, i + UPSERT_CHUNK_SIZE);
+      const result = await this.usersCol.bulkWrite(
+        chunk.map((u) => ({
+          updateOne: { filter: { _id: u._id }, update: { $set: u.fields } },
+        })),
+        { ordered: false }
+      );
+      modified += result.modifiedCount;
+    }
+    return modified;
+  }
+
+  async saveRatedUser(username: string, userData: Record<string, any>) {
+    await this.usersCol.updateOne(
+      { _id: username },
+      { $set: userData },
+      { upsert: true }
+    );
+  }
+
+  async insertUsersIfMissing(users: NewUser[]) {
+    for (const user of users) {
+      await this.usersCol.updateOne(
+        { _id: user._id },
+        { $setOnInsert: user },
+        { upsert: true }
+      );
+    }
+  }
+
+  async upsertDiscoveredUsers(users: DiscoveredUser[]) {
+    for (let i = 0; i < users.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = users.slice(i, i + UPSERT_CHUNK_SIZE);
+      await this.usersCol.bulkWrite(
+        chunk.flatMap((u) => [
+          {
+            updateOne: {
+              filter: { _id: u.username },
+              update: {
+                $setOnInsert: {
+                  _id: u.username,
+                  status: "pending" as const,
+                  depth: u.depth,
+                  discoveredVia: u.discoveredVia,
+                  scrapedConnections: { followers: false, following: false },
+                },
+                $max: { priority: u.priority },
+                $addToSet: {
+                  ...(u.parent ? { parentRatings: u.parent } : {}),
+                  ...(u.repoInteraction ? { repoInteractions: u.repoInteraction } : {}),
+                  ...(u.orgSource ? { orgSources: u.orgSource } : {}),
+                },
+              },
+              upsert: true,
+            },
+          },
+          ...(u.seedPath ? [{ updateOne: seedPathUpdate(u.username, u.seedPath) }] : []),
+        ])
+      );
+    }
+  }
+
+  async addEdges(edges: GraphEdge[]) {
+    if (edges.length === 0) return;
+    await this.edgesCol
+      .insertMany(edges, { ordered: false })
+      .catch(() => {}); // Ignore duplicate edge errors
+  }
+
+  async findEdges(filter: { from?: string | string[]; to?: string | string[] }) {
+    const query: Record<string, any> = {};
+    for (const key of ["from", "to"] as const) {
+      const value = filter[key];
+      if (value !== undefined) {
+        query[key] = Array.isArray(value) ? { $in: value } : value;
+      }
+    }
+    return this.edgesCol
+      .find(query, { projection: { _id: 0, from: 1, to: 1 } })
+      .toArray();
+  }
+
+  async countEdges() {
+    return this.edgesCol.countDocuments();
+  }
+
+  async countEdgesBy(field: "from" | "to") {
+    return (await this.edgesCol
+      .aggregate([{ $group: { _id: `$${field}`, count: { $sum: 1 } } }])
+      .toArray()) as Array<{ _id: string; count: number }>;
+  }
+
+  async claimNextBatch(selection: QueueSelection) {
+    // Require at least one strong parent, then re-rank by effective priority
+    // that heavily weights the best parent's rating
+    const pendingUsers = (await this.usersCol
+      .aggregate([
+        {
+          $match: {
+            status: "pending",
+            priority: { $gte: selection.minPriority },
+            $or: [
+              { depth: { $lte: 1 } }, // seeds + their direct connections get a free pass
+              {
+                "parentRatings.rating": {
+                  $gte: selection.minBestParentRating,
+                },
+              },
+            ],
+          },
+        },
+        // With a centrality weight, central users must be able to enter the
+        // pool too, not only be re-ranked within the top by raw priority
+        ...(selection.centralityWeight > 0
+          ? [
+              {
+                $addFields: {
+                  _poolScore: {
+                    $add: [
+                      "$priority",
+                      {
+                        $multiply: [
+                          { $ifNull: ["$graphMetrics.centrality", 0] },
+                          selection.centralityWeight,
+                        ],
+                      },
+                    ],
+                  },
+                },
+              },
+              { $sort: { _poolScore: -1 } },
+            ]
+          : [{ $sort: { priority: -1 } }]),
+        { $limit: selection.candidatePoolSize },
+        {
+          $addFields: {
+            _maxParentRating: {
+              $cond: [
+                {
+                  $and: [
+                    { $isArray: "$parentRatings" },
+                    { $gt: [{ $size: "$parentRatings" }, 0] },
+                  ],
+                },
+                { $max: "$parentRatings.rating" },
+                0,
+              ],
+            },
+          },
+        },
+        {
+          $addFields: {
+            _effectivePriority: {
+              $add: [
+                "$priority",
+                { $multiply: ["$_maxParentRating", selection.maxParentWeight] },
+                {
+                  $multiply: [
+                    { $ifNull: ["$graphMetrics.centrality", 0] },
+                    selection.centralityWeight,
+                  ],
+                },
+              ],
+            },
+          },
+        },
+        { $sort: { _effectivePriority: -1 } },
+        { $limit: selection.batchSize * CLAIM_OVERFETCH },
+        { $project: { _id: 1, _effectivePriority: 1 } },
+      ])
+      .toArray()) as Array<{ _id: string; _effectivePriority: number }>;
+
+    // Claim one by one: the status filter makes each claim atomic, so a user
+    // another worker grabbed in the meantime is simply skipped
+    const leaseExpiresAt = new Date(Date.now() + selection.leaseMs);
+    const claimed: ClaimedUser[] = [];
+    for (const candidate of pendingUsers) {
+      if (claimed.length >= selection.batchSize) break;
+      const user = await this.usersCol.findOneAndUpdate(
+        { _id: candidate._id, status: "pending" },
+        {
+          $set: {
+            status: "processing",
+            leaseOwner: selection.workerId,
+            leaseExpiresAt,
+          },
+        },
+        { returnDocument: "after" }
+      );
+      if (user) {
+        claimed.push({
+          ...user,
+          _effectivePriority: candidate._effectivePriority,
+        });
+      }
+    }
+    return claimed;
+  }
+}
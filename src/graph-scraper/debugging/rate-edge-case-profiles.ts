@@ -355,6 +355,7 @@ async function rateAndLogEdgeCases() {
               webResearchInfoGemini: userData.webResearchInfoGemini,
               webResearchPromptText: userData.webResearchPromptText,
               ratedAt: ratingResult.ratedAt,
+              ratingProvenance: ratingResult.provenance,
             },
           }
         );
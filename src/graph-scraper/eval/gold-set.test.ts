@@ -0,0 +1,60 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { GOLD_SETS_DIR, GoldSetError, loadGoldSet } from "./gold-set.js";
+
+describe("loadGoldSet", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  const writeGoldSet = (content: unknown) => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "gold-set-"));
+    const file = path.join(dir, "rogo.json");
+    fs.writeFileSync(file, JSON.stringify(content));
+    return file;
+  };
+
+  it("loads the example gold set", () => {
+    const goldSet = loadGoldSet(path.join(GOLD_SETS_DIR, "rogo.example.json"));
+    expect(goldSet.profile).toBe("rogo");
+    expect(goldSet.users.map((u) => u.login)).toContain("octocat");
+  });
+
+  it.each([
+    {
+      name: "another profile",
+      content: { profile: "acme", users: [{ login: "a", tiers: {} }] },
+      error: /labeled for profile "acme"/,
+    },
+    {
+      name: "unknown criteria",
+      content: { profile: "rogo", users: [{ login: "a", tiers: { nope: 1 } }] },
+      error: /unknown criteria nope/,
+    },
+    {
+      name: "duplicate logins",
+      content: {
+        profile: "rogo",
+        users: [
+          { login: "Dupe", tiers: {} },
+          { login: "dupe", tiers: {} },
+        ],
+      },
+      error: /lists dupe twice/,
+    },
+    {
+      name: "tiers out of range",
+      content: { profile: "rogo", users: [{ login: "a", tiers: { location: 4 } }] },
+      error: /users\.0\.tiers\.location/,
+    },
+  ])("rejects $name", ({ content, error }) => {
+    const file = writeGoldSet(content);
+    expect(() => loadGoldSet(file)).toThrow(GoldSetError);
+    expect(() => loadGoldSet(file)).toThrow(error);
+  });
+});
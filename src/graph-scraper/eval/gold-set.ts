@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { ACTIVE_PROFILE_ID, companyConfig } from "../../config/company.js";
+
+// A gold set is a hand-labeled list of users with the tier each criterion
+// should get. Criteria left out of `tiers` are unlabeled for that user and
+// don't count towards the metrics.
+
+export const GOLD_SETS_DIR = path.join("src", "config", "gold-sets");
+
+const GoldEntrySchema = z.object({
+  login: z.string().min(1),
+  tiers: z.record(z.string(), z.number().int().min(0).max(3)),
+  notes: z.string().optional(),
+});
+
+export const GoldSetSchema = z.object({
+  profile: z.string(),
+  users: z.array(GoldEntrySchema).min(1),
+});
+
+export type GoldEntry = z.infer<typeof GoldEntrySchema>;
+export type GoldSet = z.infer<typeof GoldSetSchema>;
+
+export class GoldSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GoldSetError";
+  }
+}
+
+export function defaultGoldSetPath(profileId = ACTIVE_PROFILE_ID) {
+  return path.join(GOLD_SETS_DIR, `${profileId}.json`);
+}
+
+/** Loads a gold set and checks it against the active profile's criteria. */
+export function loadGoldSet(file = defaultGoldSetPath()): GoldSet {
+  if (!fs.existsSync(file)) {
+    throw new GoldSetError(`No gold set at ${file}`);
+  }
+
+  const result = GoldSetSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new GoldSetError(`Invalid gold set ${file}:\n${issues}`);
+  }
+
+  const goldSet = result.data;
+  if (goldSet.profile !== companyConfig.id) {
+    throw new GoldSetError(
+      `Gold set ${file} is labeled for profile "${goldSet.profile}" but the active profile is "${companyConfig.id}"`
+    );
+  }
+
+  const keys = new Set(companyConfig.criteria.map((c) => c.key));
+  const logins = new Set<string>();
+  for (const entry of goldSet.users) {
+    const login = entry.login.toLowerCase();
+    if (logins.has(login)) {
+      throw new GoldSetError(`Gold set ${file} lists ${entry.login} twice`);
+    }
+    logins.add(login);
+    const unknown = Object.keys(entry.tiers).filter((k) => !keys.has(k));
+    if (unknown.length > 0) {
+      throw new GoldSetError(
+        `Gold set ${file}: ${entry.login} has unknown criteria ${unknown.join(", ")}`
+      );
+    }
+  }
+  return goldSet;
+}
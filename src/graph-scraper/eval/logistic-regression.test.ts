@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { auc, fitLogisticRegression, predict } from "./logistic-regression.js";
+
+// Every combination of three 0-3 tiers, hired when 2*a + b - c clears 3: the
+// first criterion matters most, the third counts against a hire
+const xs: number[][] = [];
+const ys: number[] = [];
+for (let a = 0; a <= 3; a++) {
+  for (let b = 0; b <= 3; b++) {
+    for (let c = 0; c <= 3; c++) {
+      xs.push([a, b, c]);
+      ys.push(2 * a + b - c > 3 ? 1 : 0);
+    }
+  }
+}
+
+describe("fitLogisticRegression", () => {
+  const model = fitLogisticRegression(xs, ys);
+
+  it("recovers the sign and order of the weights", () => {
+    const [a, b, c] = model.weights;
+    expect(a).toBeGreaterThan(b);
+    expect(b).toBeGreaterThan(0);
+    expect(c).toBeLessThan(0);
+    expect(model.intercept).toBeLessThan(0);
+  });
+
+  it("separates the classes", () => {
+    const scores = xs.map((x) => predict(model, x));
+    expect(auc(scores, ys)).toBe(1);
+    expect(scores.every((p, i) => (p > 0.5 ? 1 : 0) === ys[i])).toBe(true);
+  });
+
+  it("keeps weights finite on separable data", () => {
+    expect(model.weights.every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe("auc", () => {
+  it.each([
+    { name: "perfect ranking", scores: [0.9, 0.8, 0.2, 0.1], labels: [1, 1, 0, 0], want: 1 },
+    { name: "inverted ranking", scores: [0.1, 0.2, 0.8, 0.9], labels: [1, 1, 0, 0], want: 0 },
+    { name: "ties count half", scores: [0.5, 0.5], labels: [1, 0], want: 0.5 },
+    { name: "mixed", scores: [0.9, 0.3, 0.5, 0.1], labels: [1, 1, 0, 0], want: 0.75 },
+    { name: "one class", scores: [0.9, 0.1], labels: [1, 1], want: null },
+    { name: "empty", scores: [], labels: [], want: null },
+  ])("$name", ({ scores, labels, want }) => {
+    expect(auc(scores, labels)).toBe(want);
+  });
+});
@@ -0,0 +1,54 @@
+// Small L2-regularized logistic regression for fitting criterion weights.
+// Data sets are a few hundred reviewed users, so plain batch gradient descent
+// is plenty.
+
+export interface LogisticModel {
+  weights: number[];
+  intercept: number;
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export function predict(model: LogisticModel, x: number[]): number {
+  return sigmoid(x.reduce((sum, v, i) => sum + v * model.weights[i], model.intercept));
+}
+
+export function fitLogisticRegression(
+  xs: number[][],
+  ys: number[],
+  { l2 = 0.01, learningRate = 0.05, iterations = 5000 } = {}
+): LogisticModel {
+  const n = xs.length;
+  const d = xs[0]?.length ?? 0;
+  const model: LogisticModel = { weights: new Array(d).fill(0), intercept: 0 };
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const grad = new Array(d).fill(0);
+    let gradIntercept = 0;
+    for (let i = 0; i < n; i++) {
+      const error = predict(model, xs[i]) - ys[i];
+      for (let j = 0; j < d; j++) grad[j] += error * xs[i][j];
+      gradIntercept += error;
+    }
+    for (let j = 0; j < d; j++) {
+      model.weights[j] -= learningRate * (grad[j] / n + l2 * model.weights[j]);
+    }
+    model.intercept -= learningRate * (gradIntercept / n);
+  }
+  return model;
+}
+
+/**
+ * Area under the ROC curve: the chance a random positive scores above a
+ * random negative (ties count half). Null without both classes.
+ */
+export function auc(scores: number[], labels: number[]): number | null {
+  const pos = scores.filter((_, i) => labels[i] === 1);
+  const neg = scores.filter((_, i) => labels[i] !== 1);
+  if (pos.length === 0 || neg.length === 0) return null;
+  let wins = 0;
+  for (const p of pos) {
+    for (const q of neg) wins += p > q ? 1 : p === q ? 0.5 : 0;
+  }
+  return wins / (pos.length * neg.length);
+}
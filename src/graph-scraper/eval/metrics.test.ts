@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { computeEvalMetrics, precisionAtK, ScoredUser, spearman } from "./metrics.js";
+
+const user = (
+  expected: Record<string, number>,
+  predicted: Record<string, number>,
+  expectedTotal = 0,
+  predictedTotal = 0
+): ScoredUser => ({ expected, predicted, expectedTotal, predictedTotal });
+
+describe("spearman", () => {
+  it.each([
+    { name: "same order", xs: [1, 2, 3], ys: [10, 20, 30], want: 1 },
+    { name: "reversed", xs: [1, 2, 3], ys: [30, 20, 10], want: -1 },
+    // Tied values share rank 2.5
+    { name: "ties", xs: [1, 2, 2, 3], ys: [1, 2, 3, 4], want: 4.5 / Math.sqrt(22.5) },
+    { name: "constant input", xs: [2, 2, 2], ys: [1, 2, 3], want: null },
+    { name: "one user", xs: [1], ys: [1], want: null },
+    { name: "empty", xs: [], ys: [], want: null },
+  ])("$name", ({ xs, ys, want }) => {
+    const got = spearman(xs, ys);
+    if (want === null) expect(got).toBeNull();
+    else expect(got).toBeCloseTo(want, 10);
+  });
+});
+
+describe("precisionAtK", () => {
+  it.each([
+    { name: "same order", expected: [5, 4, 3, 2, 1], predicted: [5, 4, 3, 2, 1], k: 2, want: 1 },
+    { name: "reversed", expected: [5, 4, 3, 2, 1], predicted: [1, 2, 3, 4, 5], k: 2, want: 0 },
+    { name: "half right", expected: [5, 4, 3, 2], predicted: [9, 1, 8, 2], k: 2, want: 0.5 },
+    // Both users tied with the 2nd expected score are top
+    { name: "expected ties at the cutoff", expected: [5, 3, 3, 1], predicted: [0, 9, 8, 7], k: 2, want: 1 },
+    // Predicted ties keep input order, so the first tied user is picked
+    { name: "predicted ties", expected: [1, 3], predicted: [2, 2], k: 1, want: 0 },
+    { name: "k larger than the set", expected: [3, 1], predicted: [1, 3], k: 10, want: 1 },
+    { name: "k of zero", expected: [3, 1], predicted: [1, 3], k: 0, want: null },
+    { name: "empty", expected: [], predicted: [], k: 10, want: null },
+  ])("$name", ({ expected, predicted, k, want }) => {
+    expect(precisionAtK(expected, predicted, k)).toBe(want);
+  });
+});
+
+describe("computeEvalMetrics", () => {
+  it.each([
+    {
+      name: "exact tiers",
+      users: [user({ a: 3 }, { a: 3 }), user({ a: 0 }, { a: 0 })],
+      accuracy: 1,
+      meanAbsError: 0,
+    },
+    {
+      name: "predictions are rounded and clamped to 0-3",
+      users: [user({ a: 3 }, { a: 2.6 }), user({ a: 0 }, { a: 5 })],
+      accuracy: 0.5,
+      meanAbsError: 1.5,
+    },
+    {
+      name: "missing predictions count as tier 0",
+      users: [user({ a: 2 }, {})],
+      accuracy: 0,
+      meanAbsError: 2,
+    },
+    {
+      name: "unlabeled users are skipped",
+      users: [user({ a: 1 }, { a: 2 }), user({}, { a: 3 })],
+      accuracy: 0,
+      meanAbsError: 1,
+    },
+    { name: "no users", users: [], accuracy: null, meanAbsError: null },
+  ])("$name", ({ users, accuracy, meanAbsError }) => {
+    const metrics = computeEvalMetrics(["a"], users);
+    expect(metrics.criteria.a.accuracy).toBe(accuracy);
+    expect(metrics.criteria.a.meanAbsError).toBe(meanAbsError);
+    expect(metrics.overall).toEqual({
+      labeled: metrics.criteria.a.labeled,
+      accuracy,
+      meanAbsError,
+    });
+  });
+
+  it("pools every criterion into the overall numbers", () => {
+    const metrics = computeEvalMetrics(
+      ["a", "b"],
+      [user({ a: 3, b: 1 }, { a: 3, b: 3 }), user({ a: 2 }, { a: 1 })]
+    );
+    expect(metrics.criteria.b).toMatchObject({ labeled: 1, accuracy: 0, meanAbsError: 2 });
+    expect(metrics.criteria.a.confusion[2][1]).toBe(1);
+    expect(metrics.overall).toEqual({ labeled: 3, accuracy: 1 / 3, meanAbsError: 1 });
+  });
+
+  it("ranks users by total score", () => {
+    const metrics = computeEvalMetrics(
+      ["a"],
+      [user({}, {}, 10, 12), user({}, {}, 20, 18), user({}, {}, 30, 35)]
+    );
+    expect(metrics.rankCorrelation).toBe(1);
+    expect(metrics.precisionAtK).toBe(1);
+  });
+});
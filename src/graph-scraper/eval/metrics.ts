@@ -0,0 +1,137 @@
+// Agreement metrics between gold-set tiers and model ratings.
+
+export const TIERS = [0, 1, 2, 3];
+
+// Size of the shortlist precision@k looks at
+export const TOP_K = 10;
+
+export interface CriterionMetrics {
+  labeled: number;
+  accuracy: number | null;
+  meanAbsError: number | null;
+  /** confusion[expected][predicted] */
+  confusion: number[][];
+}
+
+export interface EvalMetrics {
+  criteria: Record<string, CriterionMetrics>;
+  /** Over every labeled (user, criterion) pair */
+  overall: { labeled: number; accuracy: number | null; meanAbsError: number | null };
+  /** Spearman correlation of expected vs predicted total scores */
+  rankCorrelation: number | null;
+  /** Share of the predicted top TOP_K users that belong in the expected top TOP_K */
+  precisionAtK: number | null;
+}
+
+export interface ScoredUser {
+  expected: Record<string, number>;
+  predicted: Record<string, number>;
+  expectedTotal: number;
+  predictedTotal: number;
+}
+
+function emptyConfusion() {
+  return TIERS.map(() => TIERS.map(() => 0));
+}
+
+// 1-based ranks, ties share their average rank
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].i] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+  // Constant input (e.g. every user labeled the same) has no defined correlation
+  return vx === 0 || vy === 0 ? null : cov / Math.sqrt(vx * vy);
+}
+
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+/**
+ * Share of the `k` users with the highest `predicted` scores that are also in
+ * the expected top `k`. Users tied with the k-th expected score all count as
+ * top; ties in `predicted` keep input order. `k` is capped at the number of
+ * users. Null without users.
+ */
+export function precisionAtK(expected: number[], predicted: number[], k: number): number | null {
+  const n = Math.min(k, expected.length);
+  if (n <= 0) return null;
+  const cutoff = [...expected].sort((a, b) => b - a)[n - 1];
+  const topPredicted = predicted
+    .map((v, i) => ({ v, i }))
+    .sort((a, b) => b.v - a.v)
+    .slice(0, n);
+  return topPredicted.filter(({ i }) => expected[i] >= cutoff).length / n;
+}
+
+export function computeEvalMetrics(criterionKeys: string[], users: ScoredUser[]): EvalMetrics {
+  const criteria: Record<string, CriterionMetrics> = {};
+  let labeled = 0;
+  let correct = 0;
+  let absError = 0;
+
+  for (const key of criterionKeys) {
+    const confusion = emptyConfusion();
+    let n = 0;
+    let hits = 0;
+    let err = 0;
+    for (const user of users) {
+      const expected = user.expected[key];
+      if (expected === undefined) continue;
+      const predicted = Math.max(0, Math.min(3, Math.round(user.predicted[key] ?? 0)));
+      confusion[expected][predicted]++;
+      n++;
+      if (expected === predicted) hits++;
+      err += Math.abs(expected - predicted);
+    }
+    criteria[key] = {
+      labeled: n,
+      accuracy: n ? hits / n : null,
+      meanAbsError: n ? err / n : null,
+      confusion,
+    };
+    labeled += n;
+    correct += hits;
+    absError += err;
+  }
+
+  return {
+    criteria,
+    overall: {
+      labeled,
+      accuracy: labeled ? correct / labeled : null,
+      meanAbsError: labeled ? absError / labeled : null,
+    },
+    rankCorrelation: spearman(
+      users.map((u) => u.expectedTotal),
+      users.map((u) => u.predictedTotal)
+    ),
+    precisionAtK: precisionAtK(
+      users.map((u) => u.expectedTotal),
+      users.map((u) => u.predictedTotal),
+      TOP_K
+    ),
+  };
+}
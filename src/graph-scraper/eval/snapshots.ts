@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+import { PROFILE_RATING_FIELDS } from "../../config/company.js";
+import { GraphStore } from "../core/store/graph-store.js";
+import { DbGraphUser } from "../types.js";
+
+// Frozen copies of the scraped data the rating prompt is built from, so eval
+// runs rate identical inputs no matter how the DB changes in between.
+
+export const EVAL_DIR = process.env.EVAL_DIR || path.join("dataOutputs", "eval");
+
+// Rating outputs, review decisions and queue state aren't rating inputs
+const EXCLUDED_FIELDS = new Set<string>([
+  ...PROFILE_RATING_FIELDS,
+  "ratings",
+  "reviewStatus",
+  "reviewNote",
+  "reviewedAt",
+  "outreach",
+  "outreachDrafts",
+  "status",
+  "priority",
+  "parentRatings",
+  "averageParentRating",
+  "leaseOwner",
+  "leaseExpiresAt",
+  "scrapedConnections",
+]);
+
+export interface UserSnapshot {
+  login: string;
+  snapshotAt: string;
+  user: DbGraphUser;
+}
+
+function snapshotPath(login: string) {
+  return path.join(EVAL_DIR, "snapshots", `${login.toLowerCase()}.json`);
+}
+
+export function readSnapshot(login: string): UserSnapshot | null {
+  const file = snapshotPath(login);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+/**
+ * Freezes the stored data of `login`. Returns null if the user hasn't been
+ * scraped (run `gh-scout scrape <login>` first).
+ */
+export async function takeSnapshot(
+  store: GraphStore,
+  login: string
+): Promise<UserSnapshot | null> {
+  const user = await store.getUser(login);
+  if (!user || !user.contributions || !user.recentRepositories) return null;
+
+  const frozen = Object.fromEntries(
+    Object.entries(user).filter(([key]) => !EXCLUDED_FIELDS.has(key))
+  ) as DbGraphUser;
+  const snapshot: UserSnapshot = {
+    login,
+    snapshotAt: new Date().toISOString(),
+    user: frozen,
+  };
+
+  const file = snapshotPath(login);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(snapshot, null, 2));
+  return snapshot;
+}
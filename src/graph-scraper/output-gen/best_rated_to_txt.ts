@@ -1,15 +1,18 @@
 import { config } from "dotenv";
 import fs from "fs";
-import { MongoClient } from "mongodb";
 import path from "path";
-import { companyConfig } from "../../config/company.js";
+import {
+  companyConfig,
+  getProfileRating,
+  ratingField,
+} from "../../config/company.js";
 import { topProfiles } from "../core/profils.js";
+import { GraphStore, openGraphStore } from "../core/store/graph-store.js";
 
 config();
 
 const startIndex = 0;
-const endIndex = 200;
-const NYC_ONLY = process.argv.includes("--nyc");
+const DEFAULT_LIMIT = 200;
 
 interface RatedUser {
   _id: string;
@@ -25,15 +28,13 @@ interface RatedUser {
   dept?: string;
 }
 
-async function exportBestRatedToTxt() {
-  const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
-  const dbName = process.env.MONGODB_DB;
-
-  const client = new MongoClient(mongoUri);
+export async function exportBestRatedToTxt({
+  nycOnly = false,
+  limit = DEFAULT_LIMIT,
+}: { nycOnly?: boolean; limit?: number } = {}) {
+  let store: GraphStore | undefined;
   try {
-    await client.connect();
-    const db = client.db(dbName);
-    const usersCol = db.collection<RatedUser>("users");
+    store = await openGraphStore();
 
     // Get all existing profile URLs to filter out
     const knownProfiles = new Set(
@@ -46,25 +47,25 @@ async function exportBestRatedToTxt() {
     );
     const excludeIds = [...Array.from(knownProfiles), ...teamUsernames];
 
-    const ratedUsers = await usersCol
-      .find({
+    const ratedUsers = (await store.findUsers(
+      {
         status: "processed",
-        rating: { $exists: true },
+        [ratingField("rating")]: { $exists: true },
         _id: { $nin: excludeIds },
         reviewStatus: { $exists: false },
-        linkedinUrl: { $exists: true, $ne: null } as any,
-        "criteriaScores.startup_experience": { $gte: 1 },
-        "criteriaScores.hireability": { $gte: 1 },
-        "criteriaScores.builder_signal": { $gte: 2 },
-      })
-      .sort({ rating: -1 })
-      .toArray();
-
-    const filteredUsers = NYC_ONLY
+        linkedinUrl: { $exists: true, $ne: null },
+        [ratingField("criteriaScores", "startup_experience")]: { $gte: 1 },
+        [ratingField("criteriaScores", "hireability")]: { $gte: 1 },
+        [ratingField("criteriaScores", "builder_signal")]: { $gte: 2 },
+      },
+      { sort: { [ratingField("rating")]: -1 } }
+    )).map((u) => ({ ...u, ...getProfileRating(u) })) as unknown as RatedUser[];
+
+    const filteredUsers = nycOnly
       ? ratedUsers.filter((u) => u.criteriaScores?.location === 3)
       : ratedUsers;
 
-    const slicedRatedUsers = filteredUsers.slice(startIndex, endIndex);
+    const slicedRatedUsers = filteredUsers.slice(startIndex, startIndex + limit);
 
     // Create output directory if it doesn't exist
     const outputDir = path.join(process.cwd(), "output");
@@ -111,11 +112,13 @@ ${criteriaLines ? `Criteria:\n${criteriaLines}` : `Reasoning: ${user.ratingReaso
   } catch (error) {
     console.error("Error exporting rated profiles:", error);
   } finally {
-    await client.close();
+    await store?.close();
   }
 }
 
 // Run the script if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  exportBestRatedToTxt().catch(console.error);
+  exportBestRatedToTxt({ nycOnly: process.argv.includes("--nyc") }).catch(
+    console.error
+  );
 }
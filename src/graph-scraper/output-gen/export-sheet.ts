@@ -0,0 +1,93 @@
+import { config } from "dotenv";
+import fs from "fs";
+import path from "path";
+import { companyConfig, ratingField } from "../../config/company.js";
+import { openGraphStore, UserFilter } from "../core/store/graph-store.js";
+import { toCsv } from "../../utils/csv.js";
+import { toXlsx } from "../../utils/xlsx.js";
+import { loadSheetLayout, SheetCandidate } from "./sheet-layout.js";
+
+config();
+
+export type SheetFormat = "csv" | "xlsx";
+export type SheetScope = "reviewed" | "outreach" | "rated";
+
+const SCOPE_FILTERS: Record<SheetScope, UserFilter> = {
+  reviewed: { reviewStatus: { $exists: true } },
+  outreach: { "outreach.profile": companyConfig.id },
+  rated: { status: "processed", [ratingField("rating")]: { $exists: true } },
+};
+
+/**
+ * Writes candidates (highest rated first) to a CSV or XLSX file in the given
+ * column layout, for Google Sheets or Excel.
+ */
+export async function exportSheet({
+  layout,
+  scope = "reviewed",
+  format,
+  out,
+  limit,
+}: {
+  layout?: string;
+  scope?: SheetScope;
+  format?: SheetFormat;
+  out?: string;
+  limit?: number;
+}) {
+  const columns = loadSheetLayout(layout);
+  const fileFormat: SheetFormat =
+    format ?? (out && path.extname(out).toLowerCase() === ".xlsx" ? "xlsx" : "csv");
+  const outputPath =
+    out ?? path.join(process.cwd(), "output", `candidates-${companyConfig.id}.${fileFormat}`);
+
+  const store = await openGraphStore();
+  try {
+    const users = await store.findUsers(SCOPE_FILTERS[scope], {
+      sort: { [ratingField("rating")]: -1 },
+      limit,
+    });
+
+    // Resolve the highest-rated parent of each candidate to a name
+    const topParents = new Map(
+      users
+        .filter((u) => u.parentRatings?.length)
+        .map((u) => [
+          u._id,
+          u.parentRatings!.reduce((best, p) => (p.rating > best.rating ? p : best)).parent,
+        ])
+    );
+    const parents = await store.findUsers(
+      { _id: { $in: [...new Set(topParents.values())] } },
+      { projection: { name: 1 } }
+    );
+    const parentNames = new Map(parents.map((p) => [p._id, p.name]));
+
+    const candidates: SheetCandidate[] = users.map((user) => {
+      const parent = topParents.get(user._id);
+      return {
+        user,
+        topReferrer: parent ? { github: parent, name: parentNames.get(parent) ?? null } : null,
+      };
+    });
+
+    const header = columns.map((c) => c.header);
+    const rows = candidates.map((candidate) =>
+      columns.map((column) => {
+        const value = column.get(candidate);
+        if (value === null || value === undefined) return "";
+        return fileFormat === "xlsx" ? value : String(value);
+      })
+    );
+
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    if (fileFormat === "xlsx") {
+      fs.writeFileSync(outputPath, toXlsx([header, ...rows], "Candidates"));
+    } else {
+      fs.writeFileSync(outputPath, toCsv([header, ...(rows as string[][])]));
+    }
+    console.log(`Exported ${rows.length} ${scope} candidates (${columns.length} columns) to ${outputPath}`);
+  } finally {
+    await store.close();
+  }
+}
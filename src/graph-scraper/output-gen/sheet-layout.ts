@@ -0,0 +1,225 @@
+import fs from "fs";
+import { z } from "zod";
+import { companyConfig, getProfileRating } from "../../config/company.js";
+import { DbGraphUser, OutreachChannel } from "../types.js";
+
+// Column layouts for the candidate sheet (export-sheet / import-sheet). A
+// layout is an ordered list of fields with the header each one gets; import
+// finds columns by those headers, so a sheet exported with a layout can be
+// edited by hand and read back with the same layout.
+
+export class SheetLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SheetLayoutError";
+  }
+}
+
+export interface SheetCandidate {
+  user: DbGraphUser;
+  topReferrer: { github: string; name: string | null } | null;
+}
+
+type CellValue = string | number | null | undefined;
+
+interface SheetField {
+  header: string;
+  get: (c: SheetCandidate) => CellValue;
+}
+
+const day = (date: Date | undefined) => date?.toISOString().slice(0, 10);
+
+function sentAt(c: SheetCandidate, channel: OutreachChannel) {
+  const outreach = c.user.outreach;
+  if (outreach?.profile !== companyConfig.id) return undefined;
+  return day(outreach.contacts.find((contact) => contact.channel === channel)?.sentAt);
+}
+
+function activeOutreach(c: SheetCandidate) {
+  return c.user.outreach?.profile === companyConfig.id ? c.user.outreach : undefined;
+}
+
+const FIELDS: Record<string, SheetField> = {
+  github: { header: "GitHub username", get: (c) => c.user._id },
+  githubUrl: { header: "GitHub", get: (c) => `https://github.com/${c.user._id}` },
+  name: { header: "Name", get: (c) => c.user.name },
+  company: { header: "Company", get: (c) => c.user.company },
+  companies: {
+    header: "Current/past companies",
+    get: (c) => {
+      const names = (c.user.linkedinExperience?.experiences ?? []).map((e) => e.company);
+      if (!names.length && c.user.company) names.push(c.user.company);
+      return [...new Set(names.filter(Boolean))].join(", ");
+    },
+  },
+  location: {
+    header: "Location",
+    get: (c) => getProfileRating(c.user).inferredLocation || c.user.location,
+  },
+  email: { header: "Email Address", get: (c) => c.user.email },
+  linkedinUrl: { header: "LinkedIn", get: (c) => c.user.linkedinUrl },
+  xUrl: {
+    header: "Twitter",
+    get: (c) =>
+      c.user.xUrl || (c.user.twitter_username ? `https://x.com/${c.user.twitter_username}` : null),
+  },
+  blog: { header: "Other links", get: (c) => c.user.blog },
+  rating: { header: "Scraper Score", get: (c) => getProfileRating(c.user).rating },
+  archetype: {
+    header: "Archetype",
+    get: (c) => getProfileRating(c.user).engineerArchetype?.join(", "),
+  },
+  topReferrer: {
+    header: "Top referrer",
+    get: (c) =>
+      c.topReferrer
+        ? c.topReferrer.name
+          ? `${c.topReferrer.name} (${c.topReferrer.github})`
+          : c.topReferrer.github
+        : null,
+  },
+  discoveredVia: {
+    header: "Discovered via",
+    get: (c) => (c.user.depth === 0 ? "seed" : c.user.discoveredVia),
+  },
+  depth: { header: "Depth", get: (c) => c.user.depth },
+  reviewStatus: { header: "Review status", get: (c) => c.user.reviewStatus },
+  reviewNote: { header: "Review note", get: (c) => c.user.reviewNote },
+  reviewedAt: { header: "Reviewed", get: (c) => day(c.user.reviewedAt) },
+  outreachStage: { header: "Status", get: (c) => activeOutreach(c)?.stage },
+  outreachChannel: {
+    header: "Channel",
+    get: (c) => activeOutreach(c)?.contacts[0]?.channel,
+  },
+  outreachMessage: {
+    header: "Outreach Messages",
+    get: (c) => activeOutreach(c)?.contacts.find((contact) => contact.message)?.message,
+  },
+  linkedinSentAt: { header: "LinkedIn DM (date)", get: (c) => sentAt(c, "linkedin") },
+  xSentAt: { header: "X DM (date)", get: (c) => sentAt(c, "x") },
+  emailSentAt: { header: "Email (date)", get: (c) => sentAt(c, "email") },
+  declinedReason: {
+    header: "Declined reason",
+    get: (c) => activeOutreach(c)?.declinedReason,
+  },
+};
+
+// Per-criterion tier scores, e.g. "criteria.builder_signal"; "criteria.*"
+// expands to every criterion of the active profile
+function criterionField(key: string): SheetField | undefined {
+  const criterion = companyConfig.criteria.find((c) => c.key === key);
+  if (!criterion) return undefined;
+  return {
+    header: `${criterion.label} score`,
+    get: (c) => getProfileRating(c.user).criteriaScores?.[key],
+  };
+}
+
+export const SheetLayoutSchema = z.object({
+  columns: z
+    .array(z.object({ field: z.string(), header: z.string().optional() }))
+    .min(1),
+});
+
+export type SheetLayoutSpec = z.infer<typeof SheetLayoutSchema>;
+
+export interface SheetColumn {
+  field: string;
+  header: string;
+  get: SheetField["get"];
+}
+
+const sender = companyConfig.outreach?.senderName;
+
+export const BUILT_IN_LAYOUTS: Record<string, SheetLayoutSpec> = {
+  // Everything we know for reviewing candidates
+  candidates: {
+    columns: [
+      "name",
+      "github",
+      "githubUrl",
+      "linkedinUrl",
+      "xUrl",
+      "email",
+      "blog",
+      "company",
+      "location",
+      "rating",
+      "criteria.*",
+      "archetype",
+      "topReferrer",
+      "discoveredVia",
+      "depth",
+      "reviewStatus",
+      "reviewNote",
+      "outreachStage",
+      "outreachChannel",
+      "outreachMessage",
+      "declinedReason",
+    ].map((field) => ({ field })),
+  },
+  // The hand-maintained outreach sheet (columns A-O in outreach-agent-guide.md)
+  "outreach-sheet": {
+    columns: [
+      { field: "name" },
+      { field: "outreachMessage" },
+      { field: "companies" },
+      { field: "reviewNote", header: "Why interesting / potential role" },
+      { field: "rating" },
+      { field: "linkedinSentAt", header: sender ? `LinkedIn DM ${sender} (date)` : undefined },
+      { field: "xSentAt", header: sender ? `X DM ${sender} (date)` : undefined },
+      { field: "emailSentAt", header: sender ? `Email ${sender} (date)` : undefined },
+      { field: "outreachStage" },
+      { field: "location" },
+      { field: "email" },
+      { field: "linkedinUrl" },
+      { field: "githubUrl" },
+      { field: "xUrl" },
+      { field: "blog" },
+    ],
+  },
+};
+
+/** Resolves a built-in layout name or a JSON layout file into columns. */
+export function loadSheetLayout(nameOrPath = "candidates"): SheetColumn[] {
+  let spec = BUILT_IN_LAYOUTS[nameOrPath];
+  if (!spec) {
+    if (!fs.existsSync(nameOrPath)) {
+      throw new SheetLayoutError(
+        `Unknown layout "${nameOrPath}" - use ${Object.keys(BUILT_IN_LAYOUTS).join(", ")} or a JSON file`
+      );
+    }
+    const result = SheetLayoutSchema.safeParse(JSON.parse(fs.readFileSync(nameOrPath, "utf-8")));
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((i) => `  ${i.path.join(".")}: ${i.message}`)
+        .join("\n");
+      throw new SheetLayoutError(`Invalid layout ${nameOrPath}:\n${issues}`);
+    }
+    spec = result.data;
+  }
+
+  const columns: SheetColumn[] = [];
+  for (const { field, header } of spec.columns) {
+    if (field === "criteria.*") {
+      for (const criterion of companyConfig.criteria) {
+        columns.push({ field: `criteria.${criterion.key}`, ...criterionField(criterion.key)! });
+      }
+      continue;
+    }
+    const def = field.startsWith("criteria.")
+      ? criterionField(field.slice("criteria.".length))
+      : FIELDS[field];
+    if (!def) {
+      throw new SheetLayoutError(
+        `Unknown field "${field}" - available: ${[...Object.keys(FIELDS), "criteria.<key>", "criteria.*"].join(", ")}`
+      );
+    }
+    columns.push({ field, header: header ?? def.header, get: def.get });
+  }
+
+  const headers = columns.map((c) => c.header.toLowerCase());
+  const duplicate = headers.find((h, i) => headers.indexOf(h) !== i);
+  if (duplicate) throw new SheetLayoutError(`Duplicate column header "${duplicate}"`);
+  return columns;
+}
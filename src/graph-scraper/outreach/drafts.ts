@@ -0,0 +1,210 @@
+import { z } from "zod";
+import { companyConfig } from "../../config/company.js";
+import { OutreachConfig } from "../../config/load-profile.js";
+import { getLlm } from "../core/llm/llm-registry.js";
+import type { CandidateLookup } from "../scripts/lookup-candidate.js";
+import { OutreachChannel, OutreachDraft } from "../types.js";
+
+// Drafts outreach messages from `gh-scout lookup` data. Models can't count
+// characters, so every draft is measured here and sent back for a rewrite
+// when it breaks a limit; drafts that still don't fit are rejected.
+
+export type DraftChannel = Exclude<OutreachChannel, "other">;
+export const DRAFT_CHANNELS: DraftChannel[] = ["linkedin", "x", "email"];
+
+const DEFAULT_CHANNELS: Record<DraftChannel, { maxChars: number; template: string }> = {
+  linkedin: {
+    maxChars: 300, // LinkedIn's connection note limit
+    template:
+      "A LinkedIn connection request note. Keep greeting and sign-off to first names; every character counts.",
+  },
+  x: {
+    maxChars: 500,
+    template: "A short, casual X (Twitter) DM. Two or three sentences.",
+  },
+  email: {
+    maxChars: 1200,
+    template:
+      "A short email: a few short paragraphs, signed with the sender's first name. The subject line is specific to the candidate, not generic.",
+  },
+};
+
+const MAX_SUBJECT_CHARS = 80;
+const MAX_ATTEMPTS = 3;
+
+export class DraftValidationError extends Error {
+  constructor(
+    readonly channel: DraftChannel,
+    readonly problems: string[]
+  ) {
+    super(`No valid ${channel} draft after ${MAX_ATTEMPTS} attempts: ${problems.join("; ")}`);
+    this.name = "DraftValidationError";
+  }
+}
+
+/** Characters as a person (and LinkedIn's counter) sees them, not UTF-16 units or bytes. */
+export function countChars(text: string) {
+  return [...text].length;
+}
+
+export function channelSettings(channel: DraftChannel, config?: OutreachConfig) {
+  return { ...DEFAULT_CHANNELS[channel], ...config?.channels[channel] };
+}
+
+/** Channels the candidate can be reached on. */
+export function reachableChannels(candidate: CandidateLookup): DraftChannel[] {
+  return DRAFT_CHANNELS.filter((channel) => {
+    if (channel === "linkedin") return !!candidate.linkedinUrl;
+    if (channel === "x") return !!(candidate.twitterUsername || candidate.xUrl);
+    return !!candidate.email;
+  });
+}
+
+/** Problems with a draft; empty when it can be sent as is. */
+export function validateDraft(
+  channel: DraftChannel,
+  draft: { text: string; subject?: string },
+  config?: OutreachConfig
+): string[] {
+  const { maxChars } = channelSettings(channel, config);
+  const problems: string[] = [];
+  const chars = countChars(draft.text);
+  if (chars === 0) problems.push("message is empty");
+  if (chars > maxChars) problems.push(`message is ${chars} characters, limit is ${maxChars}`);
+  if (channel === "email") {
+    const subjectChars = countChars(draft.subject ?? "");
+    if (subjectChars === 0) problems.push("subject is empty");
+    if (subjectChars > MAX_SUBJECT_CHARS) {
+      problems.push(`subject is ${subjectChars} characters, limit is ${MAX_SUBJECT_CHARS}`);
+    }
+  }
+  if (/\p{Extended_Pictographic}/u.test(`${draft.subject ?? ""}${draft.text}`)) {
+    problems.push("contains emoji");
+  }
+  // Template placeholders the model forgot to fill in, e.g. "[Name]" or "{company}"
+  if (/\[[A-Z][^\]]{0,30}\]|\{[a-zA-Z_]+\}/.test(draft.text)) {
+    problems.push("contains an unfilled placeholder");
+  }
+  return problems;
+}
+
+/**
+ * How a candidate relates to their top referrer, read as "<relation> <referrer>".
+ * Shared by the draft prompt and the review UI.
+ */
+export function referrerRelation(discoveredVia: CandidateLookup["discoveredVia"]) {
+  switch (discoveredVia) {
+    case "followers":
+      return "they follow";
+    case "repo-contributor":
+      return "they contribute to a repo of";
+    default:
+      return "followed by";
+  }
+}
+
+// Candidate facts the message may draw on (no scores or internal reasoning labels)
+function candidateFacts(c: CandidateLookup) {
+  const reasonings = Object.entries(c.criteriaReasonings ?? {})
+    .map(([key, text]) => `  ${key}: ${text}`)
+    .join("\n");
+  return [
+    `Name: ${c.name || c.github}`,
+    c.company ? `Company: ${c.company}` : null,
+    c.location ? `Location: ${c.location}` : null,
+    c.bio ? `GitHub bio: ${c.bio}` : null,
+    c.xBio ? `X bio: ${c.xBio}` : null,
+    c.blog ? `Website: ${c.blog}` : null,
+    c.linkedinSummary ? `Career:\n${c.linkedinSummary}` : null,
+    c.webResearch ? `Web research: ${c.webResearch}` : null,
+    c.topReferrer
+      ? `Shared connection: ${referrerRelation(c.discoveredVia)} ${c.topReferrer.name || c.topReferrer.github} (github.com/${c.topReferrer.github}) on GitHub`
+      : null,
+    reasonings ? `Why they look like a fit:\n${reasonings}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function buildDraftPrompt(
+  candidate: CandidateLookup,
+  channel: DraftChannel,
+  config: OutreachConfig | undefined,
+  styleExamples: string[]
+) {
+  const { maxChars, template } = channelSettings(channel, config);
+  const sender = config?.senderName ?? "the recruiter";
+  const guidelines = (config?.guidelines ?? []).map((g) => `- ${g}`).join("\n");
+  const examples = styleExamples.map((e, i) => `Example ${i + 1}:\n${e}`).join("\n\n");
+
+  return `You are ${sender}, reaching out to a software engineer on behalf of ${companyConfig.name}.
+
+About ${companyConfig.name}:
+${config?.pitch ?? companyConfig.description}
+
+Channel: ${template}
+Hard limit: ${maxChars} characters${channel === "email" ? ` for the body, ${MAX_SUBJECT_CHARS} for the subject` : ""}. Stay well under it.
+${guidelines ? `\nGuidelines:\n${guidelines}\n` : ""}${examples ? `\nMatch the tone and style of these messages we sent before (don't copy their content):\n\n${examples}\n` : ""}
+Candidate:
+${candidateFacts(candidate)}
+
+Write the message. Only use facts from the candidate data above. Address them by first name.`;
+}
+
+const MessageSchema = z.object({ text: z.string() });
+const EmailSchema = z.object({ subject: z.string(), text: z.string() });
+
+/**
+ * Drafts a message for one channel, asking for rewrites (up to MAX_ATTEMPTS
+ * in total) while the draft breaks a limit. Throws DraftValidationError if no
+ * attempt passes.
+ */
+export async function draftMessage(
+  candidate: CandidateLookup,
+  channel: DraftChannel,
+  styleExamples: string[] = []
+): Promise<OutreachDraft> {
+  const config = companyConfig.outreach;
+  const llm = getLlm("outreach");
+  const basePrompt = buildDraftPrompt(candidate, channel, config, [
+    ...(config?.styleExamples ?? []),
+    ...styleExamples,
+  ]);
+
+  let prompt = basePrompt;
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { value, model } =
+      channel === "email"
+        ? await llm.completeStructured(prompt, EmailSchema, "outreach_email")
+        : await llm.completeStructured(prompt, MessageSchema, "outreach_message");
+    if (!value) {
+      problems = ["model returned no usable draft"];
+      continue;
+    }
+
+    const draft: { text: string; subject?: string } = { text: value.text.trim() };
+    if (channel === "email") draft.subject = (value as z.infer<typeof EmailSchema>).subject.trim();
+    problems = validateDraft(channel, draft, config);
+    if (problems.length === 0) {
+      return {
+        profile: companyConfig.id,
+        channel,
+        ...draft,
+        chars: countChars(draft.text),
+        provider: llm.provider,
+        model,
+        createdAt: new Date(),
+      };
+    }
+
+    console.log(`[${candidate.github}] ${channel} draft ${attempt} rejected: ${problems.join("; ")}`);
+    prompt = `${basePrompt}
+
+Your previous draft was rejected:
+${draft.subject ? `Subject: ${draft.subject}\n` : ""}${draft.text}
+
+Problems: ${problems.join("; ")}. Rewrite it to fix them.`;
+  }
+  throw new DraftValidationError(channel, problems);
+}
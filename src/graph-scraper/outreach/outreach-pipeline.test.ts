@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { OutreachRecord, OutreachStage } from "../types.js";
+import {
+  advanceOutreach,
+  furthestStage,
+  OutreachTransitionError,
+  OutreachUpdate,
+  reachedStage,
+} from "./outreach-pipeline.js";
+
+const PROFILE = "rogo";
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+/** Walks a record through `stages`, one day apart. */
+function walk(...stages: OutreachStage[]): OutreachRecord {
+  return stages.reduce<OutreachRecord | undefined>(
+    (record, stage, i) =>
+      advanceOutreach(record, {
+        stage,
+        profile: PROFILE,
+        at: day(i + 1),
+        channel: stage === "sent" ? "email" : undefined,
+        reason: stage === "declined" ? "took another offer" : undefined,
+      }),
+    undefined
+  )!;
+}
+
+describe("advanceOutreach", () => {
+  it("moves forward and stamps each stage", () => {
+    const record = walk("sent", "replied", "offer", "hired");
+
+    expect(record.stage).toBe("hired");
+    expect(record.contacts).toEqual([{ channel: "email", message: undefined, sentAt: day(1) }]);
+    expect(record).toMatchObject({ repliedAt: day(2), offerAt: day(3), hiredAt: day(4) });
+    expect(record.interviewedAt).toBeUndefined(); // skipped
+    expect(record.history.map((h) => h.stage)).toEqual(["sent", "replied", "offer", "hired"]);
+  });
+
+  it("logs follow-ups before a reply", () => {
+    const record = advanceOutreach(walk("sent"), {
+      stage: "sent",
+      profile: PROFILE,
+      channel: "linkedin",
+      message: "Following up",
+      at: day(5),
+    });
+
+    expect(record.stage).toBe("sent");
+    expect(record.contacts.map((c) => c.channel)).toEqual(["email", "linkedin"]);
+  });
+
+  it("records why a candidate declined", () => {
+    const record = walk("sent", "replied", "declined");
+
+    expect(record).toMatchObject({
+      stage: "declined",
+      declinedAt: day(3),
+      declinedReason: "took another offer",
+    });
+  });
+
+  it.each<{ name: string; from: OutreachStage[]; update: Partial<OutreachUpdate>; error: RegExp }>([
+    {
+      name: "a stage before sent",
+      from: [],
+      update: { stage: "replied" },
+      error: /record "sent" first/,
+    },
+    { name: "sent without a channel", from: [], update: { stage: "sent" }, error: /needs a channel/ },
+    {
+      name: "a follow-up after a reply",
+      from: ["sent", "replied"],
+      update: { stage: "sent", channel: "x" },
+      error: /follow-ups can only be logged before a reply/,
+    },
+    {
+      name: "a backward move",
+      from: ["sent", "interviewing"],
+      update: { stage: "replied" },
+      error: /only move forward/,
+    },
+    {
+      name: "the same stage again",
+      from: ["sent", "replied"],
+      update: { stage: "replied" },
+      error: /only move forward/,
+    },
+    {
+      name: "a move after hired",
+      from: ["sent", "hired"],
+      update: { stage: "offer" },
+      error: /ended as "hired"/,
+    },
+    {
+      name: "a move after declined",
+      from: ["sent", "declined"],
+      update: { stage: "replied" },
+      error: /ended as "declined"/,
+    },
+    {
+      name: "declining after hired",
+      from: ["sent", "hired"],
+      update: { stage: "declined", reason: "changed mind" },
+      error: /ended as "hired"/,
+    },
+    {
+      name: "declined without a reason",
+      from: ["sent", "replied"],
+      update: { stage: "declined" },
+      error: /needs a reason/,
+    },
+  ])("rejects $name", ({ from, update, error }) => {
+    const record = from.length ? walk(...from) : undefined;
+    const apply = () => advanceOutreach(record, { profile: PROFILE, ...update } as OutreachUpdate);
+
+    expect(apply).toThrow(OutreachTransitionError);
+    expect(apply).toThrow(error);
+  });
+});
+
+describe("reachedStage", () => {
+  it("counts the furthest stage before a decline", () => {
+    const record = walk("sent", "interviewing", "declined");
+
+    expect(furthestStage(record)).toBe("interviewing");
+    expect(reachedStage(record, "replied")).toBe(true);
+    expect(reachedStage(record, "offer")).toBe(false);
+    expect(reachedStage(record, "declined")).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  OUTREACH_STAGES,
+  OutreachChannel,
+  OutreachRecord,
+  OutreachStage,
+} from "../types.js";
+
+// Outreach state machine. Stages only move forward (skipping is fine, e.g. a
+// reply that went straight to an interview); "hired" and "declined" are final.
+
+export const OUTREACH_PIPELINE: OutreachStage[] = [
+  "sent",
+  "replied",
+  "interviewing",
+  "offer",
+  "hired",
+];
+
+const pipelineIndex = (stage: OutreachStage) => OUTREACH_PIPELINE.indexOf(stage);
+
+// Keys of the per-stage timestamps (repliedAt, offerAt, ...)
+type OutreachDateField = {
+  [K in keyof OutreachRecord]-?: NonNullable<OutreachRecord[K]> extends Date ? K : never;
+}[keyof OutreachRecord];
+
+const STAGE_DATE_FIELD: Partial<Record<OutreachStage, OutreachDateField>> = {
+  replied: "repliedAt",
+  interviewing: "interviewedAt",
+  offer: "offerAt",
+  hired: "hiredAt",
+  declined: "declinedAt",
+};
+
+export class OutreachTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutreachTransitionError";
+  }
+}
+
+export function isOutreachStage(value: string): value is OutreachStage {
+  return (OUTREACH_STAGES as readonly string[]).includes(value);
+}
+
+export interface OutreachUpdate {
+  stage: OutreachStage;
+  profile: string;
+  at?: Date;
+  channel?: OutreachChannel;
+  message?: string;
+  reason?: string;
+  note?: string;
+}
+
+/**
+ * Applies a stage change and returns the new record, or throws
+ * OutreachTransitionError if the move isn't allowed. "sent" on a record that
+ * is still at "sent" logs a follow-up on another channel.
+ */
+export function advanceOutreach(
+  record: OutreachRecord | undefined,
+  update: OutreachUpdate
+): OutreachRecord {
+  const at = update.at ?? new Date();
+  const { stage } = update;
+
+  if (stage === "sent") {
+    if (!update.channel) {
+      throw new OutreachTransitionError(`"sent" needs a channel`);
+    }
+    if (record && record.stage !== "sent") {
+      throw new OutreachTransitionError(
+        `Already at "${record.stage}" - follow-ups can only be logged before a reply`
+      );
+    }
+    const contact = { channel: update.channel, message: update.message, sentAt: at };
+    const base: OutreachRecord = record ?? {
+      profile: update.profile,
+      stage: "sent",
+      contacts: [],
+      history: [],
+    };
+    return {
+      ...base,
+      contacts: [...base.contacts, contact],
+      history: [...base.history, { stage, at, note: update.note }],
+    };
+  }
+
+  if (!record) {
+    throw new OutreachTransitionError(`No outreach sent yet - record "sent" first`);
+  }
+  if (record.stage === "hired" || record.stage === "declined") {
+    throw new OutreachTransitionError(`Outreach already ended as "${record.stage}"`);
+  }
+  if (stage !== "declined" && pipelineIndex(stage) <= pipelineIndex(record.stage)) {
+    throw new OutreachTransitionError(
+      `Can't move from "${record.stage}" to "${stage}" - stages only move forward`
+    );
+  }
+  if (stage === "declined" && !update.reason) {
+    throw new OutreachTransitionError(`"declined" needs a reason`);
+  }
+
+  const next: OutreachRecord = {
+    ...record,
+    stage,
+    history: [...record.history, { stage, at, note: update.note }],
+  };
+  const dateField = STAGE_DATE_FIELD[stage];
+  if (dateField) next[dateField] = at;
+  if (stage === "declined") next.declinedReason = update.reason;
+  return next;
+}
+
+/** Furthest pipeline stage reached, ignoring a final "declined". */
+export function furthestStage(record: OutreachRecord): OutreachStage {
+  return record.history
+    .map((h) => h.stage)
+    .filter((s) => s !== "declined")
+    .reduce((best, s) => (pipelineIndex(s) > pipelineIndex(best) ? s : best), "sent");
+}
+
+export function reachedStage(record: OutreachRecord, stage: OutreachStage) {
+  if (stage === "declined") return record.stage === "declined";
+  return pipelineIndex(furthestStage(record)) >= pipelineIndex(stage);
+}
@@ -0,0 +1,154 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { fileURLToPath } from "url";
+import { companyConfig, getProfileRating } from "../../config/company.js";
+import { GraphStore, openGraphStore } from "../core/store/graph-store.js";
+import { referrerRelation } from "../outreach/drafts.js";
+import { buildCandidateLookup } from "../scripts/lookup-candidate.js";
+import { applyReview } from "../scripts/mark-reviewed.js";
+import { findReviewCandidates, ReviewFilters } from "../scripts/review-batch.js";
+import { HttpError, readJson, sendJson, serveLocally } from "../../utils/local-server.js";
+
+dotenv.config();
+
+// Local web app for candidate triage: the review-batch query as a list, the
+// full candidate on the right, and outreach/discarded marking with notes.
+// Binds to localhost only; there is no auth.
+
+const PAGE = path.join(path.dirname(fileURLToPath(import.meta.url)), "review-ui.html");
+
+function filtersFromQuery(params: URLSearchParams, defaults: ReviewFilters): ReviewFilters {
+  const flag = (name: string, fallback: boolean) =>
+    params.has(name) ? params.get(name) === "1" : fallback;
+  const tier = (name: string, fallback: number) => {
+    const value = Number(params.get(name) ?? fallback);
+    return Number.isFinite(value) ? value : fallback;
+  };
+  return {
+    nycOnly: flag("nyc", defaults.nycOnly),
+    noLinkedin: flag("noLinkedin", defaults.noLinkedin),
+    requireTwitter: flag("requireTwitter", defaults.requireTwitter),
+    minHireability: tier("minHireability", defaults.minHireability),
+    minStartupExp: tier("minStartupExp", defaults.minStartupExp),
+    minAiExp: tier("minAiExp", defaults.minAiExp),
+  };
+}
+
+async function listCandidates(store: GraphStore, filters: ReviewFilters, limit: number) {
+  const users = await findReviewCandidates(store, filters, { limit });
+  return users.map((u) => {
+    const rating = getProfileRating(u);
+    return {
+      github: u._id,
+      name: u.name,
+      company: u.company,
+      rating: rating.rating,
+      archetype: rating.engineerArchetype ?? [],
+      location: rating.inferredLocation || u.location,
+    };
+  });
+}
+
+async function candidateDetail(store: GraphStore, login: string) {
+  const lookup = await buildCandidateLookup(store, login);
+  const user = await store.getUser(login);
+  if (!lookup || !user) throw new HttpError(404, `No user ${login}`);
+
+  const weeks = user.contributions?.calendar_weeks ?? [];
+  return {
+    ...lookup,
+    reviewStatus: user.reviewStatus ?? null,
+    reviewNote: user.reviewNote ?? null,
+    // Same wording as the outreach drafts
+    referrerRelation: lookup.topReferrer ? referrerRelation(lookup.discoveredVia) : null,
+    followers: user.followers,
+    publicRepos: user.public_repos,
+    criteria: companyConfig.criteria.map((c) => ({
+      key: c.key,
+      label: c.label,
+      weight: c.weight ?? 1,
+      score: lookup.criteriaScores?.[c.key] ?? null,
+      reasoning: lookup.criteriaReasonings?.[c.key] ?? null,
+    })),
+    contributions: user.contributions
+      ? {
+          total: user.contributions.calendar_total,
+          weeks: weeks.map((w) =>
+            w.contributionDays.map((d) => ({ date: d.date, count: d.contributionCount }))
+          ),
+        }
+      : null,
+    recentRepositories: (user.recentRepositories ?? []).slice(0, 8).map((r: any) => ({
+      name: r.name,
+      description: r.description ?? null,
+      language: r.language ?? null,
+      stars: r.stargazers_count ?? r.stars ?? null,
+    })),
+  };
+}
+
+async function route(
+  store: GraphStore,
+  defaults: ReviewFilters,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL
+) {
+  if (req.method === "GET" && url.pathname === "/") {
+    res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+    res.end(fs.readFileSync(PAGE));
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/api/config") {
+    return sendJson(res, 200, { profile: companyConfig.id, name: companyConfig.name, defaults });
+  }
+
+  if (req.method === "GET" && url.pathname === "/api/candidates") {
+    const limit = Math.min(Number(url.searchParams.get("limit")) || 50, 500);
+    const filters = filtersFromQuery(url.searchParams, defaults);
+    return sendJson(res, 200, await listCandidates(store, filters, limit));
+  }
+
+  const match = url.pathname.match(/^\/api\/candidates\/([^/]+)(\/review)?$/);
+  if (match) {
+    const login = decodeURIComponent(match[1]);
+    if (req.method === "GET" && !match[2]) {
+      return sendJson(res, 200, await candidateDetail(store, login));
+    }
+    if (req.method === "POST" && match[2]) {
+      const { status, note } = await readJson(req);
+      if (status !== "outreach" && status !== "discarded") {
+        throw new HttpError(400, `status must be "outreach" or "discarded"`);
+      }
+      const found = await applyReview(store, login, status, note?.trim() || undefined);
+      if (!found) throw new HttpError(404, `No user ${login}`);
+      console.log(`[${login}] Marked as ${status}${note ? ` (${note.trim()})` : ""}`);
+      return sendJson(res, 200, { github: login, reviewStatus: status });
+    }
+  }
+
+  throw new HttpError(404, "Not found");
+}
+
+/** Serves the review UI until the process is interrupted. */
+export async function startReviewServer({
+  port,
+  filters,
+}: {
+  port: number;
+  filters: ReviewFilters;
+}) {
+  const store = await openGraphStore();
+
+  const server = await serveLocally(port, (req, res, url) =>
+    route(store, filters, req, res, url)
+  );
+  console.log(`Review UI for profile ${companyConfig.id}: ${server.url}`);
+  console.log("Press Ctrl+C to stop");
+
+  await server.closed;
+  await store.close();
+}
@@ -1,34 +1,27 @@
 import dotenv from "dotenv";
-import { MongoClient } from "mongodb";
 import { fetchCurrentEmployerInsights } from "../core/scraper-helpers/linkedin-research.js";
-import { DbGraphUser } from "../types.js";
+import { openGraphStore } from "../core/store/graph-store.js";
 
 dotenv.config();
 
-const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
-const dbName = process.env.MONGODB_DB;
-
 async function main() {
-  const client = new MongoClient(mongoUri);
-  await client.connect();
-  const db = client.db(dbName);
-  const usersCol = db.collection<DbGraphUser>("users");
+  const store = await openGraphStore();
 
   // Find processed users with LinkedIn data but no company insights
   // currentCompanyInsights: null means we checked but they weren't a founder (old behavior)
   // currentCompanyInsights: { $exists: false } means we never checked
   // We want both, since we removed the founder-only filter
-  const users = await usersCol
-    .find({
+  const users = await store.findUsers(
+    {
       status: "processed",
       linkedinExperience: { $exists: true, $ne: null },
       $or: [
         { currentCompanyInsights: null },
         { currentCompanyInsights: { $exists: false } },
       ],
-    })
-    .project({ _id: 1, login: 1, linkedinExperience: 1 })
-    .toArray();
+    },
+    { projection: { _id: 1, linkedinExperience: 1 } }
+  );
 
   console.log(`Found ${users.length} users to backfill company insights for\n`);
 
@@ -43,15 +36,12 @@ async function main() {
 
     try {
       const insights = await fetchCurrentEmployerInsights(
-        { login, linkedinExperience: user.linkedinExperience as any },
-        usersCol as any
+        { login, linkedinExperience: user.linkedinExperience },
+        store
       );
 
       if (insights) {
-        await usersCol.updateOne(
-          { _id: user._id },
-          { $set: { currentCompanyInsights: insights } }
-        );
+        await store.updateUser(user._id, { currentCompanyInsights: insights });
         fetched++;
         // Log progress every 10 fetched
         if (fetched % 10 === 0) {
@@ -76,7 +66,7 @@ async function main() {
   console.log(`  Skipped (no company URL / stealth): ${skipped}`);
   console.log(`  Errors: ${errors}`);
 
-  await client.close();
+  await store.close();
 }
 
 main().catch(console.error);
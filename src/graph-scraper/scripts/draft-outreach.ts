@@ -0,0 +1,84 @@
+import dotenv from "dotenv";
+import { companyConfig } from "../../config/company.js";
+import { GraphStore, openGraphStore } from "../core/store/graph-store.js";
+import {
+  DraftChannel,
+  draftMessage,
+  DraftValidationError,
+  reachableChannels,
+} from "../outreach/drafts.js";
+import { OutreachDraft } from "../types.js";
+import { buildCandidateLookup } from "./lookup-candidate.js";
+
+dotenv.config();
+
+const MAX_SENT_EXAMPLES = 3;
+
+// Latest messages we actually sent on a channel, used as style examples
+async function recentSentMessages(store: GraphStore, channel: DraftChannel, exclude: string) {
+  const users = await store.findUsers(
+    { "outreach.profile": companyConfig.id, "outreach.contacts.channel": channel },
+    { projection: { outreach: 1 } }
+  );
+  return users
+    .filter((u) => u._id !== exclude)
+    .flatMap((u) => u.outreach!.contacts)
+    .filter((c) => c.channel === channel && c.message)
+    .sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime())
+    .slice(0, MAX_SENT_EXAMPLES)
+    .map((c) => c.message!);
+}
+
+/**
+ * Drafts outreach messages for a candidate on the given channels (default:
+ * every channel they're reachable on) and stores them as `outreachDrafts`.
+ */
+export async function draftOutreach(
+  query: string,
+  { channels, save = true }: { channels?: DraftChannel[]; save?: boolean } = {}
+) {
+  const store = await openGraphStore();
+  try {
+    const candidate = await buildCandidateLookup(store, query);
+    if (!candidate) {
+      console.error(`No user found for "${query}"`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const targets = channels ?? reachableChannels(candidate);
+    if (targets.length === 0) {
+      console.error(`[${candidate.github}] No LinkedIn, X or email to reach them on`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const drafts: Partial<Record<DraftChannel, OutreachDraft>> = {};
+    for (const channel of targets) {
+      const examples = await recentSentMessages(store, channel, candidate.github);
+      try {
+        drafts[channel] = await draftMessage(candidate, channel, examples);
+      } catch (error) {
+        if (!(error instanceof DraftValidationError)) throw error;
+        console.error(`[${candidate.github}] ${error.message}`);
+        process.exitCode = 1;
+      }
+    }
+
+    for (const draft of Object.values(drafts)) {
+      console.log(`\n=== ${draft.channel} (${draft.chars} chars) ===`);
+      if (draft.subject) console.log(`Subject: ${draft.subject}\n`);
+      console.log(draft.text);
+    }
+
+    if (save && Object.keys(drafts).length > 0) {
+      const user = await store.getUser(candidate.github);
+      await store.updateUser(candidate.github, {
+        outreachDrafts: { ...user?.outreachDrafts, ...drafts },
+      });
+      console.log(`\nSaved ${Object.keys(drafts).join(", ")} draft(s) for ${candidate.github}`);
+    }
+  } finally {
+    await store.close();
+  }
+}
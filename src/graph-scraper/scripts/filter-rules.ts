@@ -0,0 +1,151 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import { z } from "zod";
+import { companyConfig, getProfileRating } from "../../config/company.js";
+import { FilterRule, FilterRuleSchema } from "../../config/load-profile.js";
+import {
+  describeFilterRule,
+  evaluateFilterRules,
+  FilterRuleError,
+} from "../core/scraper-helpers/filters.js";
+import { openGraphStore } from "../core/store/graph-store.js";
+import { DbGraphUser } from "../types.js";
+
+dotenv.config();
+
+/** Reads a JSON array of filter rules, in the profile's `filterRules` format. */
+export function loadFilterRules(file: string): FilterRule[] {
+  if (!fs.existsSync(file)) {
+    throw new FilterRuleError(`No filter rules at ${file}`);
+  }
+  const result = z
+    .array(FilterRuleSchema)
+    .safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new FilterRuleError(`Invalid filter rules ${file}:\n${issues}`);
+  }
+  return result.data;
+}
+
+type Flip = { user: DbGraphUser; rating: number | undefined };
+
+const examples = (flips: Flip[], limit: number) =>
+  flips
+    .sort((a, b) => (b.rating ?? -1) - (a.rating ?? -1))
+    .slice(0, limit)
+    .map((f) => (f.rating !== undefined ? `${f.user._id} (${f.rating})` : f.user._id))
+    .join(", ");
+
+function countBy<T>(items: T[], key: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  return [...groups].sort((a, b) => b[1].length - a[1].length);
+}
+
+/**
+ * Re-evaluates stored processed and filter-ignored users (seeds excluded)
+ * against `rulesFile` (default: the active profile's filterRules) and reports
+ * whose status the rules would flip. Nothing is written.
+ */
+export async function dryRunFilterRules({
+  rulesFile,
+  limit,
+}: {
+  rulesFile?: string;
+  limit: number;
+}) {
+  const rules = rulesFile ? loadFilterRules(rulesFile) : companyConfig.filterRules;
+
+  console.log(`Filter rules (${rulesFile ?? `profile ${companyConfig.id}`}):`);
+  rules.forEach((rule, i) => console.log(`  ${i + 1}. ${describeFilterRule(rule)}`));
+
+  // Ignored users only count if filters (old or new) could have ignored them
+  const filterReasons = new Set<string>(
+    [...companyConfig.filterRules, ...rules].map((r) => r.reason)
+  );
+
+  const store = await openGraphStore();
+  try {
+    const users = await store.findUsers({
+      status: { $in: ["processed", "ignored"] },
+      depth: { $gt: 0 },
+    });
+
+    let evaluated = 0;
+    let noContributions = 0;
+    let otherReasons = 0;
+    const wouldIgnore: Array<Flip & { rule: FilterRule }> = [];
+    const wouldPass: Flip[] = [];
+    const reasonChanges: Array<Flip & { from: string; to: string }> = [];
+    const rejectsByRule = new Map<FilterRule, number>();
+
+    for (const user of users) {
+      if (user.status === "ignored" && !filterReasons.has(user.ignoredReason ?? "")) {
+        otherReasons++;
+        continue;
+      }
+      if (!user.contributions) {
+        noContributions++;
+        continue;
+      }
+      evaluated++;
+
+      const result = evaluateFilterRules(rules, user, user.contributions);
+      const rating = getProfileRating(user).rating;
+      if (result.rule) {
+        rejectsByRule.set(result.rule, (rejectsByRule.get(result.rule) ?? 0) + 1);
+      }
+
+      if (user.status === "processed" && result.shouldIgnore) {
+        wouldIgnore.push({ user, rating, rule: result.rule! });
+      } else if (user.status === "ignored" && !result.shouldIgnore) {
+        wouldPass.push({ user, rating });
+      } else if (user.status === "ignored" && result.reason !== user.ignoredReason) {
+        reasonChanges.push({ user, rating, from: user.ignoredReason!, to: result.reason! });
+      }
+    }
+
+    console.log(
+      `\nEvaluated ${evaluated} users decided by filters` +
+        ` (skipped ${noContributions} without stored contributions and ${otherReasons} ignored for other reasons)`
+    );
+
+    console.log(`\nProcessed users the rules would ignore: ${wouldIgnore.length}`);
+    for (const [label, flips] of countBy(wouldIgnore, (f) => describeFilterRule(f.rule))) {
+      console.log(`  ${String(flips.length).padStart(6)}  ${label}`);
+      console.log(`          e.g. ${examples(flips, limit)}`);
+    }
+
+    console.log(`\nIgnored users that would pass the filters: ${wouldPass.length}`);
+    for (const [reason, flips] of countBy(wouldPass, (f) => f.user.ignoredReason!)) {
+      console.log(`  ${String(flips.length).padStart(6)}  ${reason}`);
+      console.log(`          e.g. ${examples(flips, limit)}`);
+    }
+
+    if (reasonChanges.length > 0) {
+      console.log(`\nIgnored users that would be ignored for another reason: ${reasonChanges.length}`);
+      for (const [change, flips] of countBy(reasonChanges, (f) => `${f.from} -> ${f.to}`)) {
+        console.log(`  ${String(flips.length).padStart(6)}  ${change}`);
+      }
+    }
+
+    console.log(`\nFirst matching rule per evaluated user:`);
+    rules.forEach((rule, i) => {
+      const flipped = wouldIgnore.filter((f) => f.rule === rule).length;
+      console.log(
+        `  ${i + 1}. ${String(rejectsByRule.get(rule) ?? 0).padStart(6)} rejected, ${flipped} of them processed now  ${describeFilterRule(rule)}`
+      );
+    });
+
+    if (wouldPass.length > 0) {
+      console.log(
+        `\nUsers that would pass aren't re-queued; they are still checked for a real name before rating.`
+      );
+    }
+  } finally {
+    await store.close();
+  }
+}
@@ -0,0 +1,212 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import {
+  companyConfig,
+  computeProfileBonus,
+  computeStagnationBonus,
+  getProfileRating,
+  ratingField,
+} from "../../config/company.js";
+import { CompanyProfileSchema, PROFILES_DIR } from "../../config/load-profile.js";
+import { getFounderContext } from "../core/llm-rating.js";
+import { openGraphStore } from "../core/store/graph-store.js";
+import { auc, fitLogisticRegression, LogisticModel, predict } from "../eval/logistic-regression.js";
+import { DbGraphUser } from "../types.js";
+
+dotenv.config();
+
+// Below this many labels per class the fit is mostly noise
+const MIN_PER_CLASS = 10;
+
+interface Example {
+  login: string;
+  criteria: number[];
+  profileBonus: number;
+  stagnationBonus: number;
+  label: number; // 1 = outreach, 0 = discarded
+}
+
+function toExample(user: DbGraphUser, keys: string[]): Example | null {
+  const { criteriaScores } = getProfileRating(user);
+  if (!criteriaScores) return null;
+  const { founderStartYear, isFounder } = getFounderContext(user);
+  return {
+    login: user._id,
+    criteria: keys.map((k) => criteriaScores[k] ?? 0),
+    profileBonus: computeProfileBonus(user),
+    stagnationBonus: computeStagnationBonus(
+      user.currentCompanyInsights,
+      founderStartYear,
+      isFounder
+    ),
+    label: user.reviewStatus === "outreach" ? 1 : 0,
+  };
+}
+
+const features = (e: Example) => [...e.criteria, e.profileBonus, e.stagnationBonus];
+
+// Deterministic shuffle so a given --seed always gives the same split
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Holds out the same fraction of each class
+function stratifiedSplit(examples: Example[], holdout: number, seed: number) {
+  const random = mulberry32(seed);
+  const train: Example[] = [];
+  const test: Example[] = [];
+  for (const label of [0, 1]) {
+    const group = examples.filter((e) => e.label === label);
+    for (let i = group.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [group[i], group[j]] = [group[j], group[i]];
+    }
+    const cut = Math.round(group.length * holdout);
+    test.push(...group.slice(0, cut));
+    train.push(...group.slice(cut));
+  }
+  return { train, test };
+}
+
+function weightedTotal(e: Example, weights: number[]) {
+  return (
+    e.criteria.reduce((sum, tier, i) => sum + tier * weights[i], 0) +
+    e.profileBonus +
+    e.stagnationBonus
+  );
+}
+
+/**
+ * Maps model coefficients onto the profile's integer weight scale: the largest
+ * criterion coefficient gets the current largest weight. Negative coefficients
+ * become 0 (weights must be non-negative).
+ */
+function toProfileWeights(model: LogisticModel, criteriaCount: number, maxWeight: number) {
+  const coefs = model.weights.slice(0, criteriaCount);
+  const top = Math.max(...coefs);
+  const scale = top > 0 ? maxWeight / top : 0;
+  return {
+    scale,
+    weights: coefs.map((c) => Math.max(0, Math.round(c * scale))),
+  };
+}
+
+const fmt = (v: number | null) => (v === null ? "n/a" : v.toFixed(3));
+
+/**
+ * Fits criterion weights to reviewed users (outreach = positive, discarded =
+ * negative) with logistic regression over the stored tier scores and the
+ * profile/stagnation bonuses, and reports held-out AUC against the current
+ * weights. `emitProfile` writes the fitted weights as a new JSON profile.
+ */
+export async function fitWeights({
+  holdout,
+  l2,
+  seed,
+  emitProfile,
+}: {
+  holdout: number;
+  l2: number;
+  seed: number;
+  emitProfile?: string;
+}) {
+  const keys = companyConfig.criteria.map((c) => c.key);
+  const currentWeights = companyConfig.criteria.map((c) => c.weight ?? 1);
+
+  const store = await openGraphStore();
+  let examples: Example[];
+  try {
+    const users = await store.findUsers({
+      reviewStatus: { $in: ["outreach", "discarded"] },
+      [ratingField("criteriaScores")]: { $exists: true },
+    });
+    examples = users
+      .map((u) => toExample(u, keys))
+      .filter((e): e is Example => e !== null);
+  } finally {
+    await store.close();
+  }
+
+  const positives = examples.filter((e) => e.label === 1).length;
+  const negatives = examples.length - positives;
+  console.log(
+    `Profile ${companyConfig.id}: ${examples.length} reviewed users with criteria scores (${positives} outreach, ${negatives} discarded)`
+  );
+  if (positives < MIN_PER_CLASS || negatives < MIN_PER_CLASS) {
+    console.log(
+      `Need at least ${MIN_PER_CLASS} of each. Review more candidates with "gh-scout mark" first.`
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  // Held-out comparison
+  const { train, test } = stratifiedSplit(examples, holdout, seed);
+  const heldOutModel = fitLogisticRegression(train.map(features), train.map((e) => e.label), { l2 });
+  const heldOutProposal = toProfileWeights(heldOutModel, keys.length, Math.max(...currentWeights));
+  const testLabels = test.map((e) => e.label);
+
+  console.log(`\nHeld-out AUC (train ${train.length}, test ${test.length}, seed ${seed}):`);
+  console.log(
+    `  current weights:   ${fmt(auc(test.map((e) => weightedTotal(e, currentWeights)), testLabels))}`
+  );
+  console.log(
+    `  logistic model:    ${fmt(auc(test.map((e) => predict(heldOutModel, features(e))), testLabels))}`
+  );
+  console.log(
+    `  proposed weights:  ${fmt(auc(test.map((e) => weightedTotal(e, heldOutProposal.weights)), testLabels))}`
+  );
+
+  // Final fit on everything
+  const model = fitLogisticRegression(examples.map(features), examples.map((e) => e.label), { l2 });
+  const { scale, weights } = toProfileWeights(model, keys.length, Math.max(...currentWeights));
+
+  console.log(`\n${"criterion".padEnd(24)} current  coef     proposed`);
+  keys.forEach((key, i) => {
+    const coef = model.weights[i];
+    console.log(
+      `${key.padEnd(24)} ${String(currentWeights[i]).padStart(7)}  ${coef.toFixed(3).padStart(7)}  ${String(weights[i]).padStart(8)}${coef < 0 ? "  (negative, clamped)" : ""}`
+    );
+  });
+
+  // Bonuses are added unweighted, so compare them on the same scale
+  const [profileCoef, stagnationCoef] = model.weights.slice(keys.length);
+  if (scale > 0) {
+    console.log(
+      `\nBonus points are worth (1 = as counted today): profile ${(profileCoef * scale).toFixed(2)}, stagnation ${(stagnationCoef * scale).toFixed(2)}`
+    );
+  }
+
+  console.log(`\nProposed weight block for ${companyConfig.id}:`);
+  keys.forEach((key, i) => console.log(`  ${key}: weight ${weights[i]}`));
+  console.log(
+    `\nAfter pasting them into ${companyConfig.id}, "gh-scout --profile ${companyConfig.id} rerate --recompute-weights" re-totals its stored ratings without API calls.`
+  );
+
+  if (emitProfile) {
+    const file = path.join(PROFILES_DIR, `${emitProfile}.json`);
+    if (fs.existsSync(file)) {
+      throw new Error(`${file} already exists`);
+    }
+    const { maxTierSum, ...profile } = companyConfig;
+    const proposed = CompanyProfileSchema.parse({
+      ...profile,
+      id: emitProfile,
+      name: `${profile.name} (fitted weights)`,
+      criteria: profile.criteria.map((c, i) => ({ ...c, weight: weights[i] })),
+    });
+    fs.writeFileSync(file, JSON.stringify(proposed, null, 2) + "\n");
+    console.log(`Wrote ${file} (use with --profile ${emitProfile})`);
+    // Ratings are stored per profile id, so there is nothing to re-total yet
+    console.log(
+      `${emitProfile} has no ratings yet: "gh-scout --profile ${emitProfile} rerate" rates every processed user again (LLM calls). To keep the stored ratings, paste the weights above into ${companyConfig.id} and recompute instead.`
+    );
+  }
+}
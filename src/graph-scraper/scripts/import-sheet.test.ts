@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { linkedinProfilePattern, parseSheetDate } from "./import-sheet.js";
+
+// Dates without a year are read in local time, like the sheet shows them
+const NOW = new Date(2026, 2, 1, 12); // Mar 1 2026, noon
+
+describe("parseSheetDate", () => {
+  it.each([
+    { name: "an ISO date", value: "2026-02-13", want: new Date("2026-02-13") },
+    { name: "an ISO timestamp", value: "2026-02-13T09:30:00Z", want: new Date("2026-02-13T09:30:00Z") },
+    { name: "an Excel day serial", value: "45000", want: new Date(Date.UTC(2023, 2, 15)) },
+    { name: "an Excel serial with a time", value: "45000.5", want: new Date(Date.UTC(2023, 2, 15, 12)) },
+    { name: "a month and day this year", value: "Feb 13", want: new Date(2026, 1, 13) },
+    { name: "a month and day still ahead, so last year", value: "Dec 20", want: new Date(2025, 11, 20) },
+    { name: "tomorrow, within a day of now", value: "Mar 2", want: new Date(2026, 2, 2) },
+    { name: "surrounding whitespace", value: "  Feb 13 ", want: new Date(2026, 1, 13) },
+  ])("reads $name", ({ value, want }) => {
+    expect(parseSheetDate(value, NOW)).toEqual(want);
+  });
+
+  it.each([
+    { name: "an empty cell", value: "" },
+    { name: "whitespace", value: "   " },
+    { name: "text", value: "next week" },
+    { name: "an invalid date with a year", value: "2026-13-45" },
+  ])("skips $name", ({ value }) => {
+    expect(parseSheetDate(value, NOW)).toBeUndefined();
+  });
+});
+
+describe("linkedinProfilePattern", () => {
+  const matches = (sheetUrl: string, storedUrl: string) =>
+    new RegExp(linkedinProfilePattern(sheetUrl)!, "i").test(storedUrl);
+
+  it.each([
+    { name: "the same URL", sheet: "https://www.linkedin.com/in/jane-doe", stored: "https://www.linkedin.com/in/jane-doe" },
+    { name: "a trailing slash", sheet: "https://linkedin.com/in/jane-doe/", stored: "https://www.linkedin.com/in/jane-doe/" },
+    { name: "a query string in the sheet", sheet: "linkedin.com/in/jane-doe?trk=x", stored: "https://www.linkedin.com/in/jane-doe" },
+    { name: "other case", sheet: "https://www.linkedin.com/in/Jane-Doe", stored: "https://www.linkedin.com/in/jane-doe" },
+  ])("matches $name", ({ sheet, stored }) => {
+    expect(matches(sheet, stored)).toBe(true);
+  });
+
+  it.each([
+    { name: "a longer slug", sheet: "https://www.linkedin.com/in/jane", stored: "https://www.linkedin.com/in/jane-doe" },
+    { name: "a slug ending the same", sheet: "https://www.linkedin.com/in/doe", stored: "https://www.linkedin.com/in/jane-doe" },
+    { name: "a regex character as a wildcard", sheet: "https://www.linkedin.com/in/j.doe", stored: "https://www.linkedin.com/in/jxdoe" },
+  ])("doesn't match $name", ({ sheet, stored }) => {
+    expect(matches(sheet, stored)).toBe(false);
+  });
+
+  it("reads regex characters literally", () => {
+    expect(matches("https://www.linkedin.com/in/j.doe(1)", "https://www.linkedin.com/in/j.doe(1)")).toBe(true);
+  });
+
+  it("is null without a profile URL", () => {
+    expect(linkedinProfilePattern("https://www.linkedin.com/company/acme")).toBeNull();
+  });
+});
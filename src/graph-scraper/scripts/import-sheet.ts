@@ -0,0 +1,246 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { companyConfig } from "../../config/company.js";
+import { GraphStore, openGraphStore } from "../core/store/graph-store.js";
+import {
+  advanceOutreach,
+  isOutreachStage,
+  OutreachTransitionError,
+  reachedStage,
+} from "../outreach/outreach-pipeline.js";
+import { loadSheetLayout } from "../output-gen/sheet-layout.js";
+import { DbGraphUser, OutreachChannel, OutreachRecord, OutreachStage } from "../types.js";
+import { parseCsv } from "../../utils/csv.js";
+import { fromExcelSerial, parseXlsx } from "../../utils/xlsx.js";
+
+dotenv.config();
+
+// Free-text statuses from the hand-maintained sheet, checked in order
+const STATUS_PATTERNS: Array<[RegExp, OutreachStage]> = [
+  [/hired|joined/, "hired"],
+  [/offer/, "offer"],
+  [/interview/, "interviewing"],
+  [/declin|reject|not interested|no interest/, "declined"],
+  [/repl|respond|answered/, "replied"],
+  [/reached out|contacted|sent|messaged/, "sent"],
+];
+
+function parseStage(value: string): OutreachStage | undefined {
+  const text = value.trim().toLowerCase();
+  if (isOutreachStage(text)) return text;
+  return STATUS_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/** Sheet dates: ISO, Excel day serials, or "Feb 13" without a year (the latest such date not in the future). */
+export function parseSheetDate(value: string, now = new Date()): Date | undefined {
+  const text = value.trim();
+  if (!text) return undefined;
+  if (/^\d+(\.\d+)?$/.test(text)) return fromExcelSerial(Number(text));
+
+  if (/\b\d{4}\b/.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  // Without a day, Date() reads any text plus the year as January 1st
+  if (!/\d/.test(text)) return undefined;
+  const thisYear = new Date(`${text} ${now.getFullYear()}`);
+  if (isNaN(thisYear.getTime())) return undefined;
+  if (thisYear.getTime() > now.getTime() + 24 * 60 * 60 * 1000) {
+    thisYear.setFullYear(thisYear.getFullYear() - 1);
+  }
+  return thisYear;
+}
+
+function readSheet(file: string): string[][] {
+  if (path.extname(file).toLowerCase() === ".xlsx") return parseXlsx(fs.readFileSync(file));
+  return parseCsv(fs.readFileSync(file, "utf-8"));
+}
+
+/**
+ * Pattern for stored LinkedIn URLs of the same profile as `url`: the slug
+ * matched literally and whole, with or without a trailing slash.
+ */
+export function linkedinProfilePattern(url: string): string | null {
+  const slug = url.match(/linkedin\.com\/in\/([^/?#]+)/)?.[1];
+  return slug ? `/in/${slug.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}/?$` : null;
+}
+
+async function findCandidate(store: GraphStore, cell: (field: string) => string) {
+  const login =
+    cell("github") || cell("githubUrl").match(/github\.com\/([A-Za-z0-9-]+)/)?.[1];
+  if (login) return store.getUser(login);
+  const pattern = linkedinProfilePattern(cell("linkedinUrl"));
+  if (pattern) return store.findUser({ linkedinUrl: { $regex: pattern, $options: "i" } });
+  return null;
+}
+
+const SENT_COLUMNS: Array<[string, OutreachChannel]> = [
+  ["linkedinSentAt", "linkedin"],
+  ["xSentAt", "x"],
+  ["emailSentAt", "email"],
+];
+
+/**
+ * Replays the sheet's outreach columns onto the stored record: sends the DB
+ * doesn't know about yet, then the sheet's stage if it's further along. Never
+ * moves a record backwards.
+ */
+function syncOutreach(
+  user: DbGraphUser,
+  cell: (field: string) => string,
+  stage: OutreachStage
+): { outreach: OutreachRecord; changes: string[] } | null {
+  const profile = companyConfig.id;
+  if (user.outreach && user.outreach.profile !== profile) {
+    console.log(`[${user._id}] Already in outreach for profile "${user.outreach.profile}", skipping stage`);
+    return null;
+  }
+  let record = user.outreach;
+  const changes: string[] = [];
+
+  const sends = SENT_COLUMNS.map(([field, channel]) => ({ channel, at: parseSheetDate(cell(field)) }))
+    .filter((s): s is { channel: OutreachChannel; at: Date } => !!s.at)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  if (sends.length === 0 && !record) {
+    const channel = cell("outreachChannel").toLowerCase();
+    sends.push({
+      channel: (["linkedin", "x", "email"].includes(channel) ? channel : "other") as OutreachChannel,
+      at: user.reviewedAt ?? new Date(),
+    });
+  }
+
+  for (const send of sends) {
+    if (record?.contacts.some((c) => c.channel === send.channel)) continue;
+    if (record && record.stage !== "sent") break; // follow-ups only before a reply
+    record = advanceOutreach(record, {
+      stage: "sent",
+      profile,
+      channel: send.channel,
+      at: send.at,
+      // The sheet keeps one message per candidate: the first one sent
+      message: record ? undefined : cell("outreachMessage") || undefined,
+      note: "imported from sheet",
+    });
+    changes.push(`sent via ${send.channel}`);
+  }
+
+  if (record && stage !== "sent" && !reachedStage(record, stage)) {
+    if (record.stage === "hired" || record.stage === "declined") {
+      console.log(`[${user._id}] Sheet says ${stage} but outreach already ended as ${record.stage}`);
+    } else {
+      record = advanceOutreach(record, {
+        stage,
+        profile,
+        reason: stage === "declined" ? cell("declinedReason") || cell("outreachStage") : undefined,
+        note: "imported from sheet",
+      });
+      changes.push(stage);
+    }
+  }
+
+  return changes.length ? { outreach: record!, changes } : null;
+}
+
+/**
+ * Reads a CSV or XLSX sheet in the given layout and syncs review status,
+ * review notes and outreach stages into the DB. Rows are matched by GitHub
+ * username or URL, falling back to the LinkedIn URL.
+ */
+export async function importSheet(
+  file: string,
+  { layout, dryRun = false }: { layout?: string; dryRun?: boolean } = {}
+) {
+  const columns = loadSheetLayout(layout);
+  const [header = [], ...rows] = readSheet(file).filter((row) => row.some((v) => v.trim()));
+
+  // Columns are matched by the layout's header, or by the field name itself
+  const indexOf = new Map<string, number>();
+  header.forEach((title, i) => {
+    const text = title.trim().toLowerCase();
+    const column = columns.find(
+      (c) => c.header.toLowerCase() === text || c.field.toLowerCase() === text
+    );
+    if (column && !indexOf.has(column.field)) indexOf.set(column.field, i);
+  });
+  if (!["github", "githubUrl", "linkedinUrl"].some((f) => indexOf.has(f))) {
+    console.error(
+      `${file}: no GitHub or LinkedIn column found. Headers: ${header.join(", ")}`
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const counts = { updated: 0, unchanged: 0, unknown: 0, failed: 0 };
+  const store = await openGraphStore();
+  try {
+    for (const [r, row] of rows.entries()) {
+      const cell = (field: string) => {
+        const i = indexOf.get(field);
+        return i === undefined ? "" : (row[i] ?? "").trim();
+      };
+      const user = await findCandidate(store, cell);
+      if (!user) {
+        console.log(`Row ${r + 2}: no matching user (${cell("github") || cell("githubUrl") || cell("linkedinUrl") || cell("name")})`);
+        counts.unknown++;
+        continue;
+      }
+
+      const fields: Record<string, any> = {};
+      const changes: string[] = [];
+
+      const statusText = cell("outreachStage");
+      let reviewStatus = cell("reviewStatus").toLowerCase();
+      if (!reviewStatus && /discard/i.test(statusText)) reviewStatus = "discarded";
+      if ((reviewStatus === "outreach" || reviewStatus === "discarded") && reviewStatus !== user.reviewStatus) {
+        fields.reviewStatus = reviewStatus;
+        changes.push(`reviewStatus ${user.reviewStatus ?? "none"} -> ${reviewStatus}`);
+      }
+
+      const note = cell("reviewNote");
+      if (note && note !== user.reviewNote) {
+        fields.reviewNote = note;
+        changes.push("reviewNote");
+      }
+
+      const stage = statusText && !/discard/i.test(statusText) ? parseStage(statusText) : undefined;
+      if (statusText && !stage && !/discard/i.test(statusText)) {
+        console.log(`[${user._id}] Unrecognized status "${statusText}", skipping outreach`);
+      }
+      if (stage) {
+        try {
+          const synced = syncOutreach(user, cell, stage);
+          if (synced) {
+            fields.outreach = synced.outreach;
+            changes.push(...synced.changes);
+            // Same as `gh-scout outreach`: contacted candidates are outreach picks
+            if (!fields.reviewStatus && user.reviewStatus !== "outreach") {
+              fields.reviewStatus = "outreach";
+              changes.push(`reviewStatus ${user.reviewStatus ?? "none"} -> outreach`);
+            }
+          }
+        } catch (error) {
+          if (!(error instanceof OutreachTransitionError)) throw error;
+          console.log(`[${user._id}] ${error.message}`);
+          counts.failed++;
+          continue;
+        }
+      }
+
+      if (changes.length === 0) {
+        counts.unchanged++;
+        continue;
+      }
+      if (fields.reviewStatus) fields.reviewedAt = user.reviewedAt ?? new Date();
+      console.log(`[${user._id}] ${changes.join(", ")}`);
+      if (!dryRun) await store.updateUser(user._id, fields);
+      counts.updated++;
+    }
+  } finally {
+    await store.close();
+  }
+
+  console.log(
+    `\n${dryRun ? "Would update" : "Updated"} ${counts.updated}, unchanged ${counts.unchanged}, unknown ${counts.unknown}, failed ${counts.failed}`
+  );
+}
@@ -1,36 +1,22 @@
 import dotenv from "dotenv";
-import { MongoClient } from "mongodb";
-import { DbGraphUser } from "../types.js";
+import { companyConfig, getProfileRating } from "../../config/company.js";
+import { GraphStore, openGraphStore } from "../core/store/graph-store.js";
 
 dotenv.config();
 
-const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
-const dbName = process.env.MONGODB_DB;
-
-async function main() {
-  const query = process.argv[2];
-  if (!query) {
-    console.error("Usage: npm run lookup <github-username-or-linkedin-slug>");
-    process.exit(1);
-  }
-
-  const client = new MongoClient(mongoUri);
-  await client.connect();
-  const db = client.db(dbName);
-  const usersCol = db.collection<DbGraphUser>("users");
+export type CandidateLookup = NonNullable<Awaited<ReturnType<typeof buildCandidateLookup>>>;
 
+/** Outreach-ready data for a candidate by GitHub username or LinkedIn slug, or null if unknown. */
+export async function buildCandidateLookup(store: GraphStore, query: string) {
   // Try by GitHub username first, then by LinkedIn slug
-  let user = await usersCol.findOne({ _id: query });
+  let user = await store.getUser(query);
   if (!user) {
-    user = await usersCol.findOne({ linkedinUrl: { $regex: query, $options: "i" } });
-  }
-  if (!user) {
-    console.error(`No user found for "${query}"`);
-    await client.close();
-    process.exit(1);
+    user = await store.findUser({ linkedinUrl: { $regex: query, $options: "i" } });
   }
+  if (!user) return null;
 
   const u = user as any;
+  const profileRating = getProfileRating(user);
   const output = {
     github: user._id,
     githubUrl: `https://github.com/${user._id}`,
@@ -38,9 +24,10 @@ async function main() {
     email: user.email || null,
     company: user.company || null,
     bio: user.bio || null,
-    location: user.inferredLocation || null,
-    rating: user.rating,
-    archetype: user.engineerArchetype || null,
+    location: profileRating.inferredLocation || null,
+    profile: companyConfig.id,
+    rating: profileRating.rating,
+    archetype: profileRating.engineerArchetype || null,
     // Links
     linkedinUrl: user.linkedinUrl || null,
     xUrl: u.xUrl || null,
@@ -54,14 +41,32 @@ async function main() {
     currentCompanyInsights: u.currentCompanyInsights || null,
     // Web research
     webResearch: u.webResearchInfoOpenAI || u.webResearchInfoGemini || null,
+    // Multi-year activity, trend, streaks and timing
+    contributionTimeline: user.contributionTimeline || null,
     // Graph discovery - who led us to this person
     discoveredVia: u.discoveredVia || null,
     topReferrer: null as { github: string; name: string | null; rating: number } | null,
     parentRatings: u.parentRatings || null,
+    // Seed repositories they starred/watched/forked/contributed to
+    repoInteractions: user.repoInteractions || null,
+    // Target organizations they were sourced from (see gh-scout org-members)
+    orgSources: user.orgSources || null,
+    // Best chain of referrals from a seed (see gh-scout chain)
+    seedPath: user.seedPath || null,
     depth: u.depth || null,
+    // Centrality in the follow graph (see gh-scout graph-scoring)
+    graphMetrics: user.graphMetrics || null,
     // Scoring
-    criteriaScores: user.criteriaScores || null,
-    criteriaReasonings: user.criteriaReasonings || null,
+    criteriaScores: profileRating.criteriaScores || null,
+    criteriaReasonings: profileRating.criteriaReasonings || null,
+    // Outreach pipeline stage, contacts so far and history
+    outreach: user.outreach || null,
+    // Ratings against every profile this user was scored for
+    otherRatings: Object.fromEntries(
+      Object.entries(user.ratings ?? {})
+        .filter(([id]) => id !== companyConfig.id)
+        .map(([id, r]) => [id, r.rating])
+    ),
   };
 
   // Resolve top referrer's full name
@@ -70,7 +75,7 @@ async function main() {
       (best: any, p: any) => (p.rating > best.rating ? p : best),
       u.parentRatings[0]
     );
-    const parentUser = await usersCol.findOne({ _id: topParent.parent });
+    const parentUser = await store.getUser(topParent.parent);
     output.topReferrer = {
       github: topParent.parent,
       name: parentUser?.name || null,
@@ -78,8 +83,21 @@ async function main() {
     };
   }
 
-  console.log(JSON.stringify(output, null, 2));
-  await client.close();
+  return output;
 }
 
-main().catch(console.error);
+/** Looks up a candidate by GitHub username or LinkedIn slug and prints outreach-ready JSON. */
+export async function lookupCandidate(query: string) {
+  const store = await openGraphStore();
+  try {
+    const output = await buildCandidateLookup(store, query);
+    if (!output) {
+      console.error(`No user found for "${query}"`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(JSON.stringify(output, null, 2));
+  } finally {
+    await store.close();
+  }
+}
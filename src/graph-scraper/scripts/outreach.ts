@@ -0,0 +1,150 @@
+import dotenv from "dotenv";
+import { companyConfig, getProfileRating } from "../../config/company.js";
+import { openGraphStore } from "../core/store/graph-store.js";
+import {
+  advanceOutreach,
+  OUTREACH_PIPELINE,
+  OutreachTransitionError,
+  OutreachUpdate,
+  reachedStage,
+} from "../outreach/outreach-pipeline.js";
+import { DbGraphUser, OutreachStage } from "../types.js";
+
+dotenv.config();
+
+/** Moves each user's outreach record to `update.stage`, skipping invalid moves. */
+export async function recordOutreach(
+  users: string[],
+  update: Omit<OutreachUpdate, "profile">
+) {
+  const store = await openGraphStore();
+  try {
+    for (const username of users) {
+      const user = await store.getUser(username);
+      if (!user) {
+        console.log(`[${username}] Not found in DB`);
+        process.exitCode = 1;
+        continue;
+      }
+      if (user.outreach && user.outreach.profile !== companyConfig.id) {
+        console.log(`[${username}] Already in outreach for profile "${user.outreach.profile}"`);
+        process.exitCode = 1;
+        continue;
+      }
+
+      // Without --message, log the stored draft for the channel (see draft-outreach)
+      const draft =
+        update.stage === "sent" && update.channel ? user.outreachDrafts?.[update.channel] : undefined;
+      const message =
+        update.message ?? (draft?.profile === companyConfig.id ? draft.text : undefined);
+
+      let outreach;
+      try {
+        outreach = advanceOutreach(user.outreach, {
+          ...update,
+          message,
+          profile: companyConfig.id,
+        });
+      } catch (error) {
+        if (!(error instanceof OutreachTransitionError)) throw error;
+        console.log(`[${username}] ${error.message}`);
+        process.exitCode = 1;
+        continue;
+      }
+
+      const fields: Record<string, any> = { outreach };
+      // Contacted candidates are outreach picks for fit-weights and the review queue
+      if (user.reviewStatus !== "outreach") {
+        fields.reviewStatus = "outreach";
+        fields.reviewedAt = user.reviewedAt ?? update.at ?? new Date();
+      }
+      await store.updateUser(username, fields);
+
+      const detail =
+        update.stage === "sent"
+          ? ` via ${update.channel}${outreach.contacts.length > 1 ? ` (contact #${outreach.contacts.length})` : ""}`
+          : update.stage === "declined"
+            ? ` (${update.reason})`
+            : "";
+      console.log(`[${username}] ${update.stage}${detail}`);
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+export type FunnelGrouping = "archetype" | "depth" | "discovery" | "channel";
+
+function groupKeys(user: DbGraphUser, by: FunnelGrouping): string[] {
+  switch (by) {
+    case "archetype": {
+      const archetypes = getProfileRating(user).engineerArchetype;
+      return archetypes?.length ? archetypes : ["unknown"];
+    }
+    case "depth":
+      return [`depth ${user.depth}`];
+    case "discovery":
+      return [user.depth === 0 ? "seed" : user.discoveredVia ?? "unknown"];
+    case "channel":
+      return [user.outreach?.contacts[0]?.channel ?? "unknown"];
+  }
+}
+
+const FUNNEL_COLUMNS: OutreachStage[] = [...OUTREACH_PIPELINE, "declined"];
+
+/**
+ * Prints how far contacted candidates got, per group: counts reaching each
+ * stage and the share of those contacted. Users with several archetypes count
+ * once under each.
+ */
+export async function outreachFunnel({ by }: { by: FunnelGrouping }) {
+  const store = await openGraphStore();
+  let users: DbGraphUser[];
+  try {
+    users = await store.findUsers({ "outreach.profile": companyConfig.id });
+  } finally {
+    await store.close();
+  }
+
+  console.log(
+    `Outreach funnel for profile ${companyConfig.id} by ${by} (${users.length} contacted)\n`
+  );
+  if (users.length === 0) return;
+
+  const groups = new Map<string, Record<OutreachStage, number>>();
+  const emptyRow = () =>
+    Object.fromEntries(FUNNEL_COLUMNS.map((s) => [s, 0])) as Record<OutreachStage, number>;
+  const count = (key: string, user: DbGraphUser) => {
+    const row = groups.get(key) ?? emptyRow();
+    for (const stage of FUNNEL_COLUMNS) {
+      if (reachedStage(user.outreach!, stage)) row[stage]++;
+    }
+    groups.set(key, row);
+  };
+  for (const user of users) {
+    for (const key of groupKeys(user, by)) count(key, user);
+  }
+
+  const cell = (n: number, total: number) =>
+    `${n} (${Math.round((n / total) * 100)}%)`.padStart(13);
+  console.log(`${by.padEnd(24)}${FUNNEL_COLUMNS.map((s) => s.padStart(13)).join("")}`);
+  const rows = [...groups].sort((a, b) => b[1].sent - a[1].sent);
+  for (const [key, row] of rows) {
+    console.log(
+      `${key.padEnd(24)}${String(row.sent).padStart(13)}${FUNNEL_COLUMNS.slice(1).map((s) => cell(row[s], row.sent)).join("")}`
+    );
+  }
+
+  const reasons = new Map<string, number>();
+  for (const user of users) {
+    if (user.outreach!.stage !== "declined") continue;
+    const reason = user.outreach!.declinedReason || "(none)";
+    reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+  }
+  if (reasons.size > 0) {
+    console.log(`\nDeclined reasons:`);
+    for (const [reason, n] of [...reasons].sort((a, b) => b[1] - a[1])) {
+      console.log(`  ${String(n).padStart(4)}  ${reason}`);
+    }
+  }
+}
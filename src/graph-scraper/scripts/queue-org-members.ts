@@ -0,0 +1,53 @@
+import dotenv from "dotenv";
+import { companyConfig } from "../../config/company.js";
+import { getProvider } from "../core/providers/providers.js";
+import {
+  DEFAULT_ORG_DISCOVERY,
+  discoverOrgMembers,
+  OrgDiscoveryOptions,
+  OrgDiscoveryStats,
+} from "../core/scraper-helpers/discover-org-members.js";
+import { openGraphStore } from "../core/store/graph-store.js";
+
+dotenv.config();
+
+/**
+ * Queues the public members and top repo contributors of `orgs` (default: the
+ * profile's targetOrgs) for the graph scraper.
+ */
+export async function queueOrgMembers({
+  orgs = [],
+  ...overrides
+}: { orgs?: string[] } & Partial<OrgDiscoveryOptions> = {}) {
+  const targets = orgs.length > 0 ? orgs : companyConfig.targetOrgs;
+  if (targets.length === 0) {
+    console.log(`No organizations given and profile ${companyConfig.id} has no targetOrgs.`);
+    return;
+  }
+  const options: OrgDiscoveryOptions = {
+    ...DEFAULT_ORG_DISCOVERY,
+    ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+  };
+
+  const store = await openGraphStore();
+  const octokit = getProvider("github").octokit;
+  const results: OrgDiscoveryStats[] = [];
+  try {
+    for (const org of targets) {
+      console.log(`\nQueueing members of ${org}...`);
+      try {
+        results.push(await discoverOrgMembers(org, octokit, store, options));
+      } catch (error) {
+        console.error(`Error processing organization ${org}:`, error);
+        console.log("Continuing with next organization...");
+      }
+    }
+  } finally {
+    await store.close();
+  }
+
+  const queued = results.reduce((sum, r) => sum + r.queued, 0);
+  console.log(
+    `\n${queued} new users queued at depth ${options.depth} from ${results.length} organizations. Run \`gh-scout scrape\` to scrape, filter and rate them.`
+  );
+}
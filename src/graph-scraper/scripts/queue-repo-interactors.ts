@@ -0,0 +1,69 @@
+import dotenv from "dotenv";
+import { companyConfig } from "../../config/company.js";
+import { getProvider } from "../core/providers/providers.js";
+import {
+  discoverRepoInteractors,
+  REPO_INTERACTION_TYPES,
+  RepoInteractorStats,
+} from "../core/scraper-helpers/discover-repo-interactors.js";
+import { openGraphStore } from "../core/store/graph-store.js";
+import { RepoInteractionType } from "../types.js";
+
+dotenv.config();
+
+/**
+ * Queues the stargazers, watchers, forkers and contributors of `repos`
+ * (default: the profile's seedRepos) for the graph scraper.
+ */
+export async function queueRepoInteractors({
+  repos = [],
+  types = REPO_INTERACTION_TYPES,
+  maxPerType,
+}: {
+  repos?: string[];
+  types?: RepoInteractionType[];
+  maxPerType?: number;
+} = {}) {
+  const repoUrls = (repos.length > 0 ? repos : companyConfig.seedRepos).map((r) =>
+    r.startsWith("https://") ? r : `https://github.com/${r}`
+  );
+  if (repoUrls.length === 0) {
+    console.log(
+      `No repositories given and profile ${companyConfig.id} has no seedRepos.`
+    );
+    return;
+  }
+
+  const store = await openGraphStore();
+  const octokit = getProvider("github").octokit;
+  const totals: Array<{ repo: string; stats: RepoInteractorStats[] }> = [];
+  try {
+    for (const repoUrl of repoUrls) {
+      console.log(`\nQueueing interactors of ${repoUrl}...`);
+      try {
+        const stats = await discoverRepoInteractors(repoUrl, types, octokit, store, {
+          maxPerType,
+        });
+        totals.push({ repo: repoUrl, stats });
+      } catch (error) {
+        console.error(`Error processing repository ${repoUrl}:`, error);
+        console.log("Continuing with next repository...");
+      }
+    }
+  } finally {
+    await store.close();
+  }
+
+  console.log("\n=== Repo Interactor Summary ===");
+  let queued = 0;
+  for (const { repo, stats } of totals) {
+    const repoQueued = stats.reduce((sum, s) => sum + s.queued, 0);
+    queued += repoQueued;
+    console.log(
+      `${repo}: ${repoQueued} queued (${stats.map((s) => `${s.type}s ${s.queued}/${s.scanned}`).join(", ")})`
+    );
+  }
+  console.log(
+    `\n${queued} new users queued. Run \`gh-scout scrape\` to scrape, filter and rate them.`
+  );
+}
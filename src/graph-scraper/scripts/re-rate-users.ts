@@ -1,63 +1,46 @@
-import { Octokit } from "@octokit/core";
 import dotenv from "dotenv";
-import { MongoClient } from "mongodb";
-import { computeTotalScore } from "../../config/company.js";
-import { UserData } from "../../types.js";
-import { fetchUserEmailFromEvents } from "../../utils/profile-data-fetchers.js";
+import {
+  computeCriteriaHash,
+  computeTotalScore,
+  getProfileRating,
+  ratingField,
+  toProfileRatingUpdate,
+} from "../../config/company.js";
+import {
+  fetchPublicEvents,
+  fetchUserEmailFromEvents,
+} from "../../utils/profile-data-fetchers.js";
 import { withRateLimitRetry } from "../../utils/prime-scraper-api-utils.js";
-import { rateUserV3 } from "../core/llm-rating.js";
+import { getFounderContext, WebResearchInfo } from "../core/llm-rating.js";
+import { getProvider } from "../core/providers/providers.js";
 import {
   fetchCurrentEmployerInsights,
-  fetchLinkedInExperienceViaRapidAPI,
   fetchLinkedInProfileUsingBrave,
   findLinkedInUrlInProfileData,
-  FOUNDER_TITLE_KEYWORDS,
   generateLinkedInExperienceSummary,
   generateOptimizedSearchQuery,
 } from "../core/scraper-helpers/linkedin-research.js";
+import {
+  rateStoredUser,
+  storedUserData,
+  storedWebResearchInfo,
+} from "../core/scraper-helpers/rate-stored-user.js";
+import { fetchContributionTimeline } from "../core/scraper-helpers/scrape-user.js";
 import {
   getWebResearchInfoGemini,
   getWebResearchInfoOpenAI,
 } from "../core/scraper-helpers/web-research.js";
-import { DbGraphUser } from "../types.js";
+import { openGraphStore } from "../core/store/graph-store.js";
 
 dotenv.config();
 
-const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
-const dbName = process.env.MONGODB_DB;
-
-const octokit = new Octokit({
-  auth: process.env.GITHUB_ACCESS_TOKEN,
-});
+const octokit = getProvider("github").octokit;
 
-// Parse CLI args
-function parseArgs() {
-  const args = process.argv.slice(2);
-  let topN: number | null = null;
-  let forceRefetchLinkedin = false;
-  let scoresOnly = false;
-
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === "--top" && args[i + 1]) {
-      topN = parseInt(args[i + 1], 10);
-      i++;
-    }
-    if (args[i] === "--force-refetch-linkedin") {
-      forceRefetchLinkedin = true;
-    }
-    if (args[i] === "--scores-only") {
-      scoresOnly = true;
-    }
-  }
-
-  let recomputeWeights = false;
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === "--recompute-weights") {
-      recomputeWeights = true;
-    }
-  }
-
-  return { topN, forceRefetchLinkedin, scoresOnly, recomputeWeights };
+export interface ReRateOptions {
+  topN: number | null;
+  forceRefetchLinkedin: boolean;
+  scoresOnly: boolean;
+  recomputeWeights: boolean;
 }
 
 /** Fetch LinkedIn URL from GitHub social accounts API (cheap, one call) */
@@ -83,30 +66,22 @@ async function fetchLinkedInUrlFromGitHub(
  * No LLM calls, no API calls. Instant.
  */
 async function recomputeWeightsOnly() {
-  const client = new MongoClient(mongoUri);
+  const store = await openGraphStore();
   try {
-    await client.connect();
-    const db = client.db(dbName);
-    const usersCol = db.collection<DbGraphUser>("users");
-
-    const users = await usersCol
-      .find({ criteriaScores: { $exists: true } })
-      .toArray();
+    const users = await store.findUsers({
+      [ratingField("criteriaScores")]: { $exists: true },
+    });
 
     console.log(`Recomputing weighted scores for ${users.length} users...`);
     let updated = 0;
+    const criteriaHash = computeCriteriaHash();
 
     for (const user of users) {
-      const currentExp = (user as any).linkedinExperience?.experiences?.find(
-        (e: any) => e.is_current
-      );
-      const founderStartYear = currentExp?.start_year || null;
-      const isFounder = currentExp
-        ? FOUNDER_TITLE_KEYWORDS.some((kw: string) => currentExp.title?.toLowerCase().includes(kw))
-        : false;
+      const { criteriaScores, rating, ratingProvenance } = getProfileRating(user);
+      const { founderStartYear, isFounder } = getFounderContext(user);
 
       const newRating = computeTotalScore(
-        user.criteriaScores as Record<string, number>,
+        criteriaScores!,
         {
           twitter_username: (user as any).twitter_username,
           followers: (user as any).followers,
@@ -116,47 +91,51 @@ async function recomputeWeightsOnly() {
         founderStartYear,
         isFounder,
       );
-      if (newRating !== user.rating) {
-        await usersCol.updateOne(
-          { _id: user._id },
-          { $set: { rating: newRating } }
-        );
-        console.log(`  ${user._id}: ${user.rating} -> ${newRating}`);
+      const fields: Record<string, any> = {};
+      if (newRating !== rating) fields.rating = newRating;
+      // The total now follows the current weights; the tier scores themselves
+      // still belong to the stored prompt version
+      if (ratingProvenance && ratingProvenance.criteriaHash !== criteriaHash) {
+        fields.ratingProvenance = { ...ratingProvenance, criteriaHash };
+      }
+      if (Object.keys(fields).length > 0) {
+        await store.updateUser(user._id, toProfileRatingUpdate(fields));
+      }
+      if (newRating !== rating) {
+        console.log(`  ${user._id}: ${rating} -> ${newRating}`);
         updated++;
       }
     }
 
     console.log(`\nDone. Updated ${updated}/${users.length} users.`);
   } finally {
-    await client.close();
+    await store.close();
   }
 }
 
-async function reRateUsers() {
-  const { topN, forceRefetchLinkedin, scoresOnly, recomputeWeights } = parseArgs();
-
+export async function reRateUsers({
+  topN,
+  forceRefetchLinkedin,
+  scoresOnly,
+  recomputeWeights,
+}: ReRateOptions) {
   if (recomputeWeights) {
     return recomputeWeightsOnly();
   }
-  const client = new MongoClient(mongoUri);
+  const store = await openGraphStore();
   try {
-    await client.connect();
-    const db = client.db(dbName);
-    const usersCol = db.collection<DbGraphUser>("users");
-
     // Find processed users, optionally limited to top N by rating
-    let query = usersCol.find({ status: "processed" });
-    if (topN) {
-      query = query.sort({ rating: -1 }).limit(topN);
-    }
-    const processedUsers = await query.toArray();
+    const processedUsers = await store.findUsers(
+      { status: "processed" },
+      topN ? { sort: { [ratingField("rating")]: -1 }, limit: topN } : {}
+    );
 
     console.log(
       `Found ${processedUsers.length} processed users to re-rate${topN ? ` (top ${topN})` : ""}`
     );
     if (scoresOnly) {
       console.log(
-        "Scores-only mode: using stored data + GitHub social accounts for LinkedIn URLs"
+        "Scores-only mode: using stored data + GitHub social accounts for LinkedIn URLs (and contribution timelines, if missing)"
       );
     }
     if (forceRefetchLinkedin) {
@@ -174,16 +153,11 @@ async function reRateUsers() {
 
       await Promise.all(batch.map(async (user) => {
         try {
-          const previousRating = user.rating;
+          const previousRating = getProfileRating(user).rating;
 
           console.log(`\n[${user._id}] Processing... (prev rating: ${previousRating})`);
 
-          const userData: UserData = {
-            ...user,
-            login: user._id,
-            repoInteractionScraped: [],
-            recentRepositories: user.recentRepositories || null,
-          };
+          const userData = storedUserData(user);
 
           if (scoresOnly) {
             // --scores-only: re-verify LinkedIn URLs using improved search logic
@@ -221,7 +195,7 @@ async function reRateUsers() {
 
               // Re-fetch LinkedIn experience since URL changed
               console.log(`[${userData.login}] Fetching LinkedIn experience for new URL...`);
-              const linkedinExperience = await fetchLinkedInExperienceViaRapidAPI(newLinkedinUrl);
+              const linkedinExperience = await getProvider("linkedin").fetchProfile(newLinkedinUrl);
               userData.linkedinExperience = linkedinExperience;
               if (linkedinExperience) {
                 const summary = await generateLinkedInExperienceSummary(linkedinExperience);
@@ -304,7 +278,7 @@ async function reRateUsers() {
                 `[${userData.login}] Fetching LinkedIn experience...`
               );
               const linkedinExperience =
-                await fetchLinkedInExperienceViaRapidAPI(userData.linkedinUrl);
+                await getProvider("linkedin").fetchProfile(userData.linkedinUrl);
               userData.linkedinExperience = linkedinExperience;
 
               // Regenerate summary when we refetch experience
@@ -341,14 +315,15 @@ async function reRateUsers() {
             }
           }
 
+          // Users scraped before the contribution timeline existed (both modes)
+          if (!userData.contributionTimeline && userData.contributions) {
+            console.log(`[${userData.login}] Fetching contribution timeline...`);
+            const events = await fetchPublicEvents(userData.login, octokit);
+            userData.contributionTimeline = await fetchContributionTimeline(userData, events);
+          }
+
           // Build web research info from stored data (both modes)
-          let webResearchInfo: {
-            openAI: { promptText: string; researchResult: string | null };
-            gemini: {
-              promptText: string;
-              researchResult: string | null;
-            } | null;
-          };
+          let webResearchInfo: WebResearchInfo;
 
           if (
             !scoresOnly &&
@@ -385,39 +360,21 @@ async function reRateUsers() {
               geminiResult?.researchResult || undefined;
             userData.webResearchPromptText = openAIResult.promptText;
           } else {
-            webResearchInfo = {
-              openAI: {
-                promptText: userData.webResearchPromptText || "",
-                researchResult: userData.webResearchInfoOpenAI || null,
-              },
-              gemini: userData.webResearchInfoGemini
-                ? {
-                    promptText: userData.webResearchPromptText || "",
-                    researchResult: userData.webResearchInfoGemini,
-                  }
-                : null,
-            };
+            webResearchInfo = storedWebResearchInfo(userData);
           }
 
-          const ratingResult = await rateUserV3(userData, webResearchInfo);
+          const { score, fields } = await rateStoredUser(userData, webResearchInfo);
 
-          console.log(
-            `[${userData.login}] ${previousRating} -> ${ratingResult.score}`
-          );
+          console.log(`[${userData.login}] ${previousRating} -> ${score}`);
 
           const updateData: any = {
             linkedinUrl: userData.linkedinUrl,
             linkedinExperience: userData.linkedinExperience,
             linkedinExperienceSummary: userData.linkedinExperienceSummary,
             currentCompanyInsights: userData.currentCompanyInsights ?? null,
-            rating: ratingResult.score,
-            ratingReasoning: ratingResult.reasoning,
-            criteriaScores: ratingResult.criteriaScores,
-            criteriaReasonings: ratingResult.criteriaReasonings,
-            engineerArchetype: ratingResult.engineerArchetype,
-            inferredLocation: ratingResult.inferredLocation,
+            contributionTimeline: userData.contributionTimeline ?? null,
+            ...fields,
             webResearchPromptText: userData.webResearchPromptText,
-            ratedAt: new Date(),
           };
 
           if (userData.email) {
@@ -431,9 +388,9 @@ async function reRateUsers() {
           }
 
           try {
-            await usersCol.updateOne(
-              { _id: userData.login },
-              { $set: updateData }
+            await store.updateUser(
+              userData.login,
+              toProfileRatingUpdate(updateData)
             );
           } catch (error) {
             console.error(`[${userData.login}] Error updating user:`, error);
@@ -452,10 +409,6 @@ async function reRateUsers() {
   } catch (error) {
     console.error("Error in re-rating job:", error);
   } finally {
-    await client.close();
+    await store.close();
   }
 }
-
-if (import.meta.url === `file://${process.argv[1]}`) {
-  reRateUsers().catch(console.error);
-}
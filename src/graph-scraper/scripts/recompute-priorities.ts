@@ -1,6 +1,9 @@
 import dotenv from "dotenv";
 import { MongoClient } from "mongodb";
-import { computePriority } from "../core/scraper-helpers/discover-connections.js";
+import {
+  computePriority,
+  ParentDirection,
+} from "../core/scraper-helpers/discover-connections.js";
 
 dotenv.config();
 
@@ -42,7 +45,11 @@ async function main() {
       const bestParentRating = Math.max(
         ...parentRatings.map((p: any) => p.rating)
       );
-      const direction = user.discoveredVia || "following";
+      // Repo interactors and org members with parents are re-prioritized like following
+      const direction: ParentDirection =
+        !user.discoveredVia || user.discoveredVia === "repo" || user.discoveredVia === "org"
+          ? "following"
+          : user.discoveredVia;
 
       const newPriority = computePriority(
         bestParentRating,
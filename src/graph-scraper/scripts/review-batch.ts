@@ -1,53 +1,60 @@
 import { execSync } from "child_process";
 import dotenv from "dotenv";
-import { MongoClient } from "mongodb";
-import { companyConfig } from "../../config/company.js";
+import {
+  companyConfig,
+  getProfileRating,
+  ratingField,
+} from "../../config/company.js";
+import {
+  FindOptions,
+  GraphStore,
+  openGraphStore,
+} from "../core/store/graph-store.js";
 
 dotenv.config();
 
-const mongoUri = process.env.MONGODB_URI || "mongodb://localhost:27017";
-const dbName = process.env.MONGODB_DB;
-
-const args = process.argv.slice(2).filter((a) => !a.startsWith("--"));
-const count = parseInt(args[0] || "10", 10);
-const nycOnly = process.argv.includes("--nyc");
-const noLinkedin = process.argv.includes("--no-linkedin");
-const requireTwitter = process.argv.includes("--require-twitter");
-const minHireabilityArg = process.argv.find((a) => a.startsWith("--min-hireability="));
-const minHireability = minHireabilityArg
-  ? parseInt(minHireabilityArg.split("=")[1], 10)
-  : 1;
-const minStartupExpArg = process.argv.find((a) => a.startsWith("--min-startup-exp="));
-const minStartupExp = minStartupExpArg
-  ? parseInt(minStartupExpArg.split("=")[1], 10)
-  : 1;
-const minAiExpArg = process.argv.find((a) => a.startsWith("--min-ai-exp="));
-const minAiExp = minAiExpArg
-  ? parseInt(minAiExpArg.split("=")[1], 10)
-  : 0;
+export interface ReviewFilters {
+  nycOnly: boolean;
+  noLinkedin: boolean;
+  requireTwitter: boolean;
+  minHireability: number;
+  minStartupExp: number;
+  minAiExp: number;
+}
 
-async function main() {
-  const client = new MongoClient(mongoUri);
-  await client.connect();
-  const db = client.db(dbName);
-  const usersCol = db.collection("users");
+export interface ReviewBatchOptions extends ReviewFilters {
+  count: number;
+}
 
+/** Unreviewed, rated candidates matching the filters, best first. Shared with the review UI. */
+export function findReviewCandidates(
+  store: GraphStore,
+  {
+    nycOnly,
+    noLinkedin,
+    requireTwitter,
+    minHireability,
+    minStartupExp,
+    minAiExp,
+  }: ReviewFilters,
+  options: FindOptions = {}
+) {
   const teamUsernames = companyConfig.teamMembers.map((url) =>
     url.replace("https://github.com/", "")
   );
 
   const query: any = {
     status: "processed",
-    rating: { $exists: true },
+    [ratingField("rating")]: { $exists: true },
     _id: { $nin: teamUsernames },
     reviewStatus: { $exists: false },
   };
 
   if (nycOnly) {
-    query["criteriaScores.location"] = 3;
+    query[ratingField("criteriaScores", "location")] = 3;
   }
   if (minHireability > 0) {
-    query["criteriaScores.hireability"] = { $gte: minHireability };
+    query[ratingField("criteriaScores", "hireability")] = { $gte: minHireability };
   }
   if (!noLinkedin) {
     query.linkedinUrl = { $exists: true, $ne: null };
@@ -56,40 +63,48 @@ async function main() {
     query.twitter_username = { $exists: true, $ne: null };
   }
   if (minStartupExp > 0) {
-    query["criteriaScores.startup_experience"] = { $gte: minStartupExp };
+    query[ratingField("criteriaScores", "startup_experience")] = { $gte: minStartupExp };
   }
   if (minAiExp > 0) {
-    query["criteriaScores.ai_agent_experience"] = { $gte: minAiExp };
+    query[ratingField("criteriaScores", "ai_agent_experience")] = { $gte: minAiExp };
   }
   // Always require builder_signal >= 2 (100% of outreach candidates have this)
-  query["criteriaScores.builder_signal"] = { $gte: 2 };
+  query[ratingField("criteriaScores", "builder_signal")] = { $gte: 2 };
 
-  const users = await usersCol
-    .find(query)
-    .sort({ rating: -1 })
-    .limit(count)
-    .project({ _id: 1, rating: 1, linkedinUrl: 1, name: 1, company: 1 })
-    .toArray();
+  return store.findUsers(query, { sort: { [ratingField("rating")]: -1 }, ...options });
+}
+
+export async function reviewBatch({ count, ...filters }: ReviewBatchOptions) {
+  const store = await openGraphStore();
+
+  const users = await findReviewCandidates(store, filters, {
+    limit: count,
+    projection: {
+      _id: 1,
+      [ratingField("rating")]: 1,
+      linkedinUrl: 1,
+      name: 1,
+      company: 1,
+    },
+  });
 
   if (users.length === 0) {
     console.log("No unreviewed profiles left!");
-    await client.close();
+    await store.close();
     return;
   }
 
   console.log(`Opening ${users.length} profiles:\n`);
   for (const u of users) {
     const url = u.linkedinUrl || `https://github.com/${u._id}`;
-    console.log(`  ${u.name || u._id} (${u.rating}) - ${url}`);
+    console.log(`  ${u.name || u._id} (${getProfileRating(u).rating}) - ${url}`);
     execSync(`open "${url}"`);
   }
 
   console.log(`\nUsernames: ${users.map((u) => u._id).join(" ")}`);
   console.log(`\nWhen done, run:`);
-  console.log(`  npm run mark <user1> [user2 ...] --status outreach`);
-  console.log(`  npm run mark <user1> [user2 ...] --status discarded`);
+  console.log(`  gh-scout mark <user1> [user2 ...] --status outreach`);
+  console.log(`  gh-scout mark <user1> [user2 ...] --status discarded`);
 
-  await client.close();
+  await store.close();
 }
-
-main().catch(console.error);
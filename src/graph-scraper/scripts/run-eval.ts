@@ -0,0 +1,301 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { companyConfig, computeTotalScore } from "../../config/company.js";
+import { UserData } from "../../types.js";
+import { currentRatingVersion, rateUserV3 } from "../core/llm-rating.js";
+import { openGraphStore } from "../core/store/graph-store.js";
+import { defaultGoldSetPath, GoldEntry, loadGoldSet } from "../eval/gold-set.js";
+import {
+  computeEvalMetrics,
+  EvalMetrics,
+  ScoredUser,
+  TIERS,
+  TOP_K,
+} from "../eval/metrics.js";
+import { EVAL_DIR, readSnapshot, takeSnapshot, UserSnapshot } from "../eval/snapshots.js";
+import { RatingProvenance } from "../types.js";
+
+dotenv.config();
+
+const BATCH_SIZE = 5;
+
+interface EvalUserResult extends ScoredUser {
+  login: string;
+  notes?: string;
+  snapshotAt: string;
+  reasonings: Record<string, string>;
+}
+
+export interface EvalRun {
+  profile: string;
+  goldSet: string;
+  startedAt: string;
+  version: Omit<RatingProvenance, "usage">;
+  costUsd: number;
+  tokens: number;
+  skipped: Array<{ login: string; reason: string }>;
+  users: EvalUserResult[];
+  metrics: EvalMetrics;
+}
+
+function runsDir() {
+  return path.join(EVAL_DIR, "runs", companyConfig.id);
+}
+
+function latestRun(): { file: string; run: EvalRun } | null {
+  const dir = runsDir();
+  if (!fs.existsSync(dir)) return null;
+  const files = fs.readdirSync(dir).filter((f) => f.endsWith(".json")).sort();
+  if (files.length === 0) return null;
+  const file = path.join(dir, files[files.length - 1]);
+  return { file, run: JSON.parse(fs.readFileSync(file, "utf-8")) };
+}
+
+async function rateSnapshot(entry: GoldEntry, snapshot: UserSnapshot) {
+  const user = snapshot.user;
+  const userData: UserData = {
+    ...user,
+    login: user._id,
+    repoInteractionScraped: [],
+    recentRepositories: user.recentRepositories || null,
+  };
+  const result = await rateUserV3(userData, {
+    openAI: {
+      promptText: user.webResearchPromptText || "",
+      researchResult: user.webResearchInfoOpenAI || null,
+    },
+    gemini: user.webResearchInfoGemini
+      ? {
+          promptText: user.webResearchPromptText || "",
+          researchResult: user.webResearchInfoGemini,
+        }
+      : null,
+  });
+
+  // Unlabeled criteria take the predicted tier, so only labeled ones move the
+  // expected total. Profile/stagnation bonuses are the same on both sides.
+  const bonus = result.score - computeTotalScore(result.criteriaScores);
+  const expectedTotal =
+    computeTotalScore({ ...result.criteriaScores, ...entry.tiers }) + bonus;
+
+  const scored: EvalUserResult = {
+    login: entry.login,
+    notes: entry.notes,
+    snapshotAt: snapshot.snapshotAt,
+    expected: entry.tiers,
+    predicted: result.criteriaScores,
+    expectedTotal,
+    predictedTotal: result.score,
+    reasonings: result.criteriaReasonings,
+  };
+  return { scored, usage: result.provenance.usage };
+}
+
+const pct = (v: number | null) => (v === null ? "   -" : `${Math.round(v * 100)}%`.padStart(4));
+const num = (v: number | null, digits = 2) => (v === null ? "-" : v.toFixed(digits));
+const signed = (v: number, digits = 2) => `${v >= 0 ? "+" : ""}${v.toFixed(digits)}`;
+
+function printMetrics(metrics: EvalMetrics) {
+  console.log(`\n${"criterion".padEnd(24)} labeled  acc   MAE`);
+  for (const [key, m] of Object.entries(metrics.criteria)) {
+    if (m.labeled === 0) continue;
+    console.log(
+      `${key.padEnd(24)} ${String(m.labeled).padStart(7)}  ${pct(m.accuracy)}  ${num(m.meanAbsError)}`
+    );
+  }
+  const { overall } = metrics;
+  console.log(
+    `${"overall".padEnd(24)} ${String(overall.labeled).padStart(7)}  ${pct(overall.accuracy)}  ${num(overall.meanAbsError)}`
+  );
+  console.log(`\nTotal-score rank correlation (Spearman): ${num(metrics.rankCorrelation, 3)}`);
+  console.log(`Precision@${TOP_K} (predicted top ${TOP_K} in the expected top ${TOP_K}): ${pct(metrics.precisionAtK).trim()}`);
+
+  console.log(`\nConfusion matrices (rows = expected tier, columns = predicted):`);
+  for (const [key, m] of Object.entries(metrics.criteria)) {
+    if (m.labeled === 0) continue;
+    console.log(`\n  ${key}`);
+    console.log(`       ${TIERS.map((t) => String(t).padStart(4)).join("")}`);
+    m.confusion.forEach((row, expected) => {
+      if (row.every((n) => n === 0)) return;
+      console.log(`    ${expected}  ${row.map((n) => String(n || ".").padStart(4)).join("")}`);
+    });
+  }
+}
+
+function printUserErrors(users: EvalUserResult[]) {
+  const misses = users
+    .map((u) => ({
+      user: u,
+      wrong: Object.entries(u.expected).filter(([k, v]) => (u.predicted[k] ?? 0) !== v),
+    }))
+    .filter((m) => m.wrong.length > 0);
+  if (misses.length === 0) return;
+
+  console.log(`\nMismatches (expected -> predicted):`);
+  for (const { user, wrong } of misses) {
+    console.log(
+      `  ${user.login.padEnd(24)} ${wrong.map(([k, v]) => `${k} ${v}->${user.predicted[k] ?? 0}`).join(", ")}`
+    );
+  }
+}
+
+function printDiff(previous: EvalRun, previousFile: string, current: EvalRun) {
+  console.log(`\n=== Diff against ${path.basename(previousFile)} ===`);
+  // Ratings without a provider predate provider selection and came from OpenAI
+  const field = (run: EvalRun, k: "promptHash" | "criteriaHash" | "provider" | "model") =>
+    k === "provider" ? run.version.provider ?? "openai" : run.version[k];
+  const changed = (["promptHash", "criteriaHash", "provider", "model"] as const).filter(
+    (k) => field(previous, k) !== field(current, k)
+  );
+  console.log(
+    changed.length
+      ? `Changed: ${changed.map((k) => `${k} ${field(previous, k)} -> ${field(current, k)}`).join(", ")}`
+      : "Same prompt, criteria and model (differences are model noise)"
+  );
+
+  const delta = (a: number | null, b: number | null, digits = 2, scale = 1) =>
+    a === null || b === null ? "n/a" : signed((b - a) * scale, digits);
+  console.log(
+    `Overall accuracy ${pct(previous.metrics.overall.accuracy).trim()} -> ${pct(current.metrics.overall.accuracy).trim()} (${delta(previous.metrics.overall.accuracy, current.metrics.overall.accuracy, 1, 100)} pts)`
+  );
+  console.log(
+    `Mean abs error   ${num(previous.metrics.overall.meanAbsError)} -> ${num(current.metrics.overall.meanAbsError)} (${delta(previous.metrics.overall.meanAbsError, current.metrics.overall.meanAbsError)})`
+  );
+  console.log(
+    `Rank correlation ${num(previous.metrics.rankCorrelation, 3)} -> ${num(current.metrics.rankCorrelation, 3)} (${delta(previous.metrics.rankCorrelation, current.metrics.rankCorrelation, 3)})`
+  );
+  // Runs saved before precision@k was added don't have it
+  const previousPrecision = previous.metrics.precisionAtK ?? null;
+  console.log(
+    `Precision@${TOP_K}     ${pct(previousPrecision).trim()} -> ${pct(current.metrics.precisionAtK).trim()} (${delta(previousPrecision, current.metrics.precisionAtK, 1, 100)} pts)`
+  );
+
+  for (const [key, m] of Object.entries(current.metrics.criteria)) {
+    const before = previous.metrics.criteria[key];
+    if (!before || before.accuracy === m.accuracy) continue;
+    console.log(
+      `  ${key.padEnd(24)} ${pct(before.accuracy)} -> ${pct(m.accuracy)}`
+    );
+  }
+
+  // Per-user tier changes on labeled criteria
+  const previousUsers = new Map(previous.users.map((u) => [u.login.toLowerCase(), u]));
+  const fixed: string[] = [];
+  const regressed: string[] = [];
+  for (const user of current.users) {
+    const before = previousUsers.get(user.login.toLowerCase());
+    if (!before) continue;
+    for (const [key, expected] of Object.entries(user.expected)) {
+      const was = before.predicted[key] ?? 0;
+      const now = user.predicted[key] ?? 0;
+      if (was === now) continue;
+      const line = `${user.login} ${key}: ${was} -> ${now} (expected ${expected})`;
+      if (now === expected) fixed.push(line);
+      else if (was === expected) regressed.push(line);
+    }
+  }
+  if (fixed.length) console.log(`\nFixed (${fixed.length}):\n  ${fixed.join("\n  ")}`);
+  if (regressed.length) {
+    console.log(`\nRegressed (${regressed.length}):\n  ${regressed.join("\n  ")}`);
+  }
+}
+
+/**
+ * Re-rates the gold-set users from frozen snapshots with the current prompt,
+ * criteria and model, reports agreement with the labels and diffs against the
+ * previous run. Missing snapshots are taken from the DB first.
+ */
+export async function runEval({
+  goldSetPath = defaultGoldSetPath(),
+  refreshSnapshots = false,
+  baseline,
+}: {
+  goldSetPath?: string;
+  refreshSnapshots?: boolean;
+  baseline?: string;
+}) {
+  const startedAt = new Date().toISOString();
+  const goldSet = loadGoldSet(goldSetPath);
+  const previous = baseline
+    ? { file: baseline, run: JSON.parse(fs.readFileSync(baseline, "utf-8")) as EvalRun }
+    : latestRun();
+
+  const snapshots = new Map<string, UserSnapshot>();
+  const skipped: EvalRun["skipped"] = [];
+  const store = await openGraphStore();
+  try {
+    for (const entry of goldSet.users) {
+      let snapshot = refreshSnapshots ? null : readSnapshot(entry.login);
+      if (!snapshot) {
+        console.log(`[${entry.login}] Taking snapshot from the DB...`);
+        snapshot = await takeSnapshot(store, entry.login);
+      }
+      if (snapshot) {
+        snapshots.set(entry.login, snapshot);
+      } else {
+        skipped.push({
+          login: entry.login,
+          reason: `not scraped yet (run "gh-scout scrape ${entry.login}")`,
+        });
+      }
+    }
+  } finally {
+    await store.close();
+  }
+
+  const version = currentRatingVersion();
+  console.log(
+    `\nEvaluating ${snapshots.size} users from ${goldSetPath} (profile ${companyConfig.id}, prompt ${version.promptHash}, ${version.provider}:${version.model})`
+  );
+
+  const users: EvalUserResult[] = [];
+  let costUsd = 0;
+  let tokens = 0;
+  const entries = goldSet.users.filter((e) => snapshots.has(e.login));
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    await Promise.all(
+      entries.slice(i, i + BATCH_SIZE).map(async (entry) => {
+        try {
+          const { scored, usage } = await rateSnapshot(entry, snapshots.get(entry.login)!);
+          users.push(scored);
+          costUsd += usage?.costUsd ?? 0;
+          tokens += usage?.totalTokens ?? 0;
+        } catch (error: any) {
+          console.error(`[${entry.login}] Rating failed:`, error);
+          skipped.push({ login: entry.login, reason: `rating failed: ${error?.message ?? error}` });
+        }
+      })
+    );
+  }
+  // Keep gold-set order regardless of which ratings finished first
+  const order = new Map(goldSet.users.map((e, i) => [e.login, i]));
+  users.sort((a, b) => order.get(a.login)! - order.get(b.login)!);
+
+  const run: EvalRun = {
+    profile: companyConfig.id,
+    goldSet: goldSetPath,
+    startedAt,
+    version,
+    costUsd,
+    tokens,
+    skipped,
+    users,
+    metrics: computeEvalMetrics(
+      companyConfig.criteria.map((c) => c.key),
+      users
+    ),
+  };
+
+  console.log(`\n=== Eval: ${users.length} users, ${tokens.toLocaleString()} tokens ($${costUsd.toFixed(2)}) ===`);
+  for (const s of skipped) console.log(`Skipped ${s.login}: ${s.reason}`);
+  printMetrics(run.metrics);
+  printUserErrors(users);
+  if (previous) printDiff(previous.run, previous.file, run);
+
+  const dir = runsDir();
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${startedAt.replace(/[:.]/g, "-")}.json`);
+  fs.writeFileSync(file, JSON.stringify(run, null, 2));
+  console.log(`\nSaved run to ${file}`);
+}
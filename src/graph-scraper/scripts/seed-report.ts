@@ -0,0 +1,164 @@
+import dotenv from "dotenv";
+import { companyConfig, getProfileRating, ratingField } from "../../config/company.js";
+import { computeSeedPaths } from "../core/seed-paths.js";
+import { GraphStore, openGraphStore } from "../core/store/graph-store.js";
+import { DbGraphUser } from "../types.js";
+
+dotenv.config();
+
+const seedLogin = (url: string) => url.replace("https://github.com/", "").replace(/\/$/, "");
+
+function describeUser(user: Pick<DbGraphUser, "_id"> & Partial<DbGraphUser>) {
+  const rating = getProfileRating(user).rating;
+  return `${user._id}${user.name ? ` (${user.name})` : ""} - rating ${rating ?? "n/a"}`;
+}
+
+/** Prints the recorded seed path for a user: seed, each referral and its direction. */
+export async function printReferralChain(username: string) {
+  const store = await openGraphStore();
+  try {
+    const user = await store.getUser(username);
+    if (!user) {
+      console.error(`No user found for "${username}"`);
+      process.exitCode = 1;
+      return;
+    }
+    if (user.depth === 0) {
+      console.log(`${describeUser(user)} is a seed.`);
+      return;
+    }
+    if (!user.seedPath) {
+      console.error(
+        `No seed path recorded for ${username} (discovered before paths were tracked - run \`gh-scout seed-yield --backfill\`).`
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const chain = [...user.seedPath.chain, user._id];
+    const [users, edges] = await Promise.all([
+      store.findUsers({ _id: { $in: chain } }),
+      store.findEdges({ from: chain, to: chain }),
+    ]);
+    const byId = new Map(users.map((u) => [u._id, u]));
+    const follows = new Set(edges.map((e) => `${e.from}->${e.to}`));
+
+    console.log(`Referral chain for ${username} (profile ${companyConfig.id}):\n`);
+    chain.forEach((id, i) => {
+      const line = describeUser(byId.get(id) ?? { _id: id });
+      if (i === 0) {
+        console.log(`  ${line}  [seed]`);
+        return;
+      }
+      const previous = chain[i - 1];
+      const sharedRepo = byId
+        .get(id)
+        ?.repoInteractions?.find((r) => r.repo.startsWith(`${previous}/`))?.repo;
+      const direction = follows.has(`${previous}->${id}`)
+        ? "follows"
+        : follows.has(`${id}->${previous}`)
+          ? "is followed by"
+          : sharedRepo
+            ? `works on ${sharedRepo} with`
+            : "->";
+      console.log(`  ${direction} ${line}`);
+    });
+    console.log(
+      `\n${chain.length - 1} hops, weakest referral rating ${user.seedPath.score}.`
+    );
+  } finally {
+    await store.close();
+  }
+}
+
+/** Recomputes seed paths from parentRatings for every user. Returns how many changed. */
+export async function backfillSeedPaths(store: GraphStore) {
+  const users = await store.findUsers(
+    {},
+    { projection: { _id: 1, depth: 1, parentRatings: 1, seedPath: 1 } }
+  );
+  const paths = computeSeedPaths(users);
+  const updates = users
+    .filter((u) => {
+      const path = paths.get(u._id);
+      return path && JSON.stringify(path) !== JSON.stringify(u.seedPath);
+    })
+    .map((u) => ({ _id: u._id, fields: { seedPath: paths.get(u._id) } }));
+  return updates.length > 0 ? store.updateUsersById(updates) : 0;
+}
+
+/**
+ * Per-seed yield: how many users each seed's paths led to, and how many of
+ * them were rated at least `minRating` or picked for outreach.
+ */
+export async function seedYieldReport({
+  minRating = 40,
+  backfill = false,
+}: { minRating?: number; backfill?: boolean } = {}) {
+  const store = await openGraphStore();
+  try {
+    if (backfill) {
+      const updated = await backfillSeedPaths(store);
+      console.log(`Backfilled seed paths for ${updated} users.\n`);
+    }
+
+    const countBySeed = async (filter: Record<string, any>) =>
+      new Map(
+        (await store.countUsersBy("seedPath.seed", { seedPath: { $exists: true }, ...filter })).map(
+          (r) => [r._id as string, r.count]
+        )
+      );
+    const [discovered, processed, candidates, outreach, unattributed] = await Promise.all([
+      countBySeed({}),
+      countBySeed({ status: "processed" }),
+      countBySeed({ [ratingField("rating")]: { $gte: minRating } }),
+      countBySeed({ reviewStatus: "outreach" }),
+      store.countUsers({ depth: { $gt: 0 }, seedPath: { $exists: false } }),
+    ]);
+
+    const configured = companyConfig.seedProfiles.map(seedLogin);
+    const seeds = [...new Set([...configured, ...discovered.keys()])];
+    const seedUsers = new Map(
+      (await store.findUsers({ _id: { $in: seeds } })).map((u) => [u._id, u])
+    );
+
+    const rows = seeds
+      .map((seed) => ({
+        seed,
+        own: seedUsers.has(seed) ? getProfileRating(seedUsers.get(seed)!).rating : undefined,
+        discovered: discovered.get(seed) ?? 0,
+        processed: processed.get(seed) ?? 0,
+        candidates: candidates.get(seed) ?? 0,
+        outreach: outreach.get(seed) ?? 0,
+        configured: configured.includes(seed),
+      }))
+      .sort((a, b) => b.candidates - a.candidates || b.discovered - a.discovered);
+
+    console.log(`Seed yield for profile ${companyConfig.id} (candidates = rated >= ${minRating}):\n`);
+    console.log(
+      `${"Seed".padEnd(24)} ${"Own".padStart(5)} ${"Found".padStart(8)} ${"Rated".padStart(8)} ${`${minRating}+`.padStart(6)} ${"Hit %".padStart(6)} ${"Outreach".padStart(8)}`
+    );
+    for (const row of rows) {
+      const hitRate = row.processed > 0 ? `${((100 * row.candidates) / row.processed).toFixed(1)}` : "-";
+      console.log(
+        `${(row.seed + (row.configured ? "" : " *")).padEnd(24)} ${String(row.own ?? "-").padStart(5)} ${String(row.discovered).padStart(8)} ${String(row.processed).padStart(8)} ${String(row.candidates).padStart(6)} ${hitRate.padStart(6)} ${String(row.outreach).padStart(8)}`
+      );
+    }
+    if (rows.some((r) => !r.configured)) {
+      console.log(`\n* not in the profile's seedProfiles (seeded by an earlier configuration)`);
+    }
+    const unproductive = rows.filter((r) => r.configured && r.processed > 0 && r.candidates === 0);
+    if (unproductive.length > 0) {
+      console.log(`\nSeeds with no candidates yet: ${unproductive.map((r) => r.seed).join(", ")}`);
+    }
+    if (unattributed > 0) {
+      console.log(
+        backfill
+          ? `\n${unattributed} users have no recorded parent chain back to a seed.`
+          : `\n${unattributed} users have no seed path (discovered before paths were tracked). Run with --backfill to attribute them.`
+      );
+    }
+  } finally {
+    await store.close();
+  }
+}
@@ -0,0 +1,104 @@
+import dotenv from "dotenv";
+import {
+  ACTIVE_PROFILE_ID,
+  getProfileRating,
+  ratingField,
+} from "../../config/company.js";
+import { currentRatingVersion } from "../core/llm-rating.js";
+import { openGraphStore } from "../core/store/graph-store.js";
+import { RatingProvenance } from "../types.js";
+
+dotenv.config();
+
+type Version = Omit<RatingProvenance, "usage">;
+
+function describeVersion(v: Version | undefined) {
+  if (!v) return "(no provenance)";
+  return `prompt ${v.promptHash}${v.promptVersion ? ` (${v.promptVersion})` : ""}  criteria ${v.criteriaHash}  ${v.provider ?? "openai"}:${v.model}`;
+}
+
+/** Why a rating isn't comparable with one made now, or null if it is. */
+export function staleReasons(
+  provenance: Version | undefined,
+  current: Version = currentRatingVersion()
+): string[] | null {
+  if (!provenance) return ["no provenance"];
+  const reasons = [
+    provenance.promptHash !== current.promptHash ? "prompt" : null,
+    provenance.criteriaHash !== current.criteriaHash ? "weights" : null,
+    provenance.model !== current.model ||
+    (provenance.provider ?? "openai") !== (current.provider ?? "openai")
+      ? "model"
+      : null,
+  ].filter((r): r is string => r !== null);
+  return reasons.length > 0 ? reasons : null;
+}
+
+/**
+ * Lists rated users whose rating was produced with a different prompt,
+ * criteria weights or model than the active profile uses now.
+ * `gh-scout rerate --recompute-weights` fixes weight-only staleness for free.
+ */
+export async function listStaleRatings({ limit }: { limit: number }) {
+  const store = await openGraphStore();
+  try {
+    const current = currentRatingVersion();
+    console.log(`Current rating version (profile ${ACTIVE_PROFILE_ID}):`);
+    console.log(`  ${describeVersion(current)}\n`);
+
+    const users = await store.findUsers(
+      { [ratingField("rating")]: { $exists: true } },
+      { sort: { [ratingField("rating")]: -1 } }
+    );
+
+    const byVersion = new Map<string, { version?: Version; count: number }>();
+    const stale: Array<{ username: string; rating: number; ratedAt?: Date; reasons: string[] }> = [];
+    let tokens = 0;
+    let costUsd = 0;
+
+    for (const user of users) {
+      const { rating, ratedAt, ratingProvenance } = getProfileRating(user);
+      const key = describeVersion(ratingProvenance);
+      const entry = byVersion.get(key) ?? { version: ratingProvenance, count: 0 };
+      entry.count++;
+      byVersion.set(key, entry);
+      tokens += ratingProvenance?.usage?.totalTokens ?? 0;
+      costUsd += ratingProvenance?.usage?.costUsd ?? 0;
+
+      const reasons = staleReasons(ratingProvenance, current);
+      if (reasons) stale.push({ username: user._id, rating: rating!, ratedAt, reasons });
+    }
+
+    console.log("Rated users by version:");
+    for (const [label, { version, count }] of [...byVersion].sort(
+      (a, b) => b[1].count - a[1].count
+    )) {
+      const reasons = staleReasons(version, current);
+      console.log(
+        `  ${label.padEnd(60)} ${String(count).padStart(6)}  ${reasons ? `stale: ${reasons.join(", ")}` : "current"}`
+      );
+    }
+    console.log(
+      `\nTokens recorded for these ratings: ${tokens.toLocaleString()} ($${costUsd.toFixed(2)})`
+    );
+
+    console.log(`\nStale ratings: ${stale.length} of ${users.length}`);
+    if (stale.length === 0) return;
+
+    console.log(`\nTop ${Math.min(limit, stale.length)} by rating:`);
+    for (const s of stale.slice(0, limit)) {
+      const ratedAt = s.ratedAt ? new Date(s.ratedAt).toISOString().slice(0, 10) : "?";
+      console.log(
+        `  ${s.username.padEnd(30)} ${String(s.rating).padStart(4)}  rated ${ratedAt}  (${s.reasons.join(", ")})`
+      );
+    }
+
+    if (stale.every((s) => s.reasons.length === 1 && s.reasons[0] === "weights")) {
+      console.log(`\nOnly weights changed: run "gh-scout rerate --recompute-weights".`);
+    } else {
+      console.log(`\nRe-rate with "gh-scout rerate" to make these comparable.`);
+    }
+  } finally {
+    await store.close();
+  }
+}
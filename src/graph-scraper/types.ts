@@ -1,4 +1,5 @@
 import { NormalizedLocation } from "../utils/location.js";
+import type { LlmProviderName } from "./core/llm/llm-provider.js";
 import {
   CompanyInsights,
   LinkedInProfile,
@@ -21,6 +22,157 @@ export interface ContributionData {
   calendar_total: number;
   calendar_weeks: CalendarWeek[];
   totalSum: number;
+  contribution_years?: number[]; // every year with contributions, newest first
+}
+
+export type ContributionTrend = "ramping" | "steady" | "fading" | "new";
+
+// Activity beyond the 1-year calendar, derived before rating (see contribution-patterns.ts)
+export interface ContributionTimeline {
+  years: Array<{ year: number; total: number }>; // oldest first, restricted contributions included
+  trend: ContributionTrend; // last 12 months against the two full years before them
+  trendRatio: number | null; // null when there is nothing to compare against
+  longestStreak: number; // days, within the last year
+  currentStreak: number;
+  weekendShare: number | null; // of public events on Saturday/Sunday local time
+  nightShare: number | null; // of public events between 22:00 and 06:00 local time
+  timezone: string | null; // from normalizedLocation; no night or weekend share without it
+  computedAt: Date;
+}
+
+// What a rating was produced with. Ratings with different prompt hashes came
+// from different LLM instructions; different criteria hashes mean the total
+// was summed with different weights.
+export interface RatingProvenance {
+  promptHash: string; // rating prompt + response schema, with criteria and archetypes filled in
+  promptVersion?: string; // the profile's ratingPromptVersion label, if set
+  criteriaHash: string; // criterion keys, weights and bonus caps
+  provider?: LlmProviderName; // absent on ratings made before providers were configurable (openai)
+  model: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd?: number | null;
+  } | null;
+}
+
+export type OutreachChannel = "linkedin" | "x" | "email" | "other";
+
+// Pipeline order; "declined" can end the pipeline from any open stage
+export const OUTREACH_STAGES = [
+  "sent",
+  "replied",
+  "interviewing",
+  "offer",
+  "hired",
+  "declined",
+] as const;
+export type OutreachStage = (typeof OUTREACH_STAGES)[number];
+
+export interface OutreachContact {
+  channel: OutreachChannel;
+  message?: string;
+  sentAt: Date;
+}
+
+export interface OutreachRecord {
+  profile: string; // company profile the candidate was contacted for
+  stage: OutreachStage;
+  contacts: OutreachContact[]; // first message plus follow-ups on other channels
+  repliedAt?: Date;
+  interviewedAt?: Date;
+  offerAt?: Date;
+  hiredAt?: Date;
+  declinedAt?: Date;
+  declinedReason?: string;
+  history: Array<{ stage: OutreachStage; at: Date; note?: string }>;
+}
+
+export interface OutreachDraft {
+  profile: string;
+  channel: OutreachChannel;
+  subject?: string; // email only
+  text: string;
+  chars: number;
+  provider: string;
+  model: string;
+  createdAt: Date;
+}
+
+// Best referral chain from a seed to a user, kept up to date as the user is
+// rediscovered through other parents (see core/seed-paths.ts)
+export interface SeedPath {
+  seed: string;
+  chain: string[]; // seed first, ending with the user's parent on this path
+  score: number; // weakest parent rating along the chain; higher is better
+}
+
+// How a user first entered the queue: through a parent's follow lists, as a
+// co-contributor on one of a parent's repos (scraper-helpers/discover-repo-contributors.ts),
+// as an interactor of a seed repository (scraper-helpers/discover-repo-interactors.ts),
+// or through a target organization (scraper-helpers/discover-org-members.ts)
+export type DiscoverySource = "following" | "followers" | "repo-contributor" | "repo" | "org";
+
+export type RepoInteractionType =
+  | "stargazer"
+  | "watcher"
+  | "forker"
+  | "contributor"
+  | "pr-author"
+  | "commenter"; // on issues or pull requests
+
+export interface RepoInteraction {
+  repo: string; // owner/name
+  type: RepoInteractionType;
+}
+
+export interface OrgSource {
+  org: string; // organization login
+  via: "member" | "contributor"; // public member, or top contributor to one of its repos
+}
+
+// Why the follower sampler skipped a follower before queueing it
+export type FollowerRejection =
+  | "ACCOUNT_TOO_NEW"
+  | "FOLLOWS_TOO_MANY"
+  | "LOW_FOLLOWER_RATIO"
+  | "SPARSE_PROFILE"
+  | "BANNED_COUNTRY"
+  | "LOW_SCORE"
+  | "OVER_CAP";
+
+// Outcome of sampling one user's followers (see follower-sampler.ts)
+export interface FollowerSampleStats {
+  scanned: number; // followers pre-screened: new ones and pending ones already queued
+  known: number; // already scraped: linked, not screened
+  queued: number;
+  rejected: Partial<Record<FollowerRejection, number>>;
+  sampledAt: Date;
+}
+
+// Centrality over the follow graph, refreshed by updateGraphMetrics()
+export interface GraphMetrics {
+  profile: string; // ratings inflow and density were computed from
+  inflow: number; // sum of the ratings of rated followers
+  inflowCount: number; // rated followers
+  eigenvector: number;
+  pageRank: number;
+  centrality: number; // pageRank scaled so the most central user is 100; blended into queue priority
+  ratedNeighbourDensity: number; // share of followers + followees rated >= DENSITY_MIN_RATING
+  updatedAt: Date;
+}
+
+// A user's rating against one company profile (see src/config/profiles/)
+export interface ProfileRating {
+  rating: number;
+  ratingReasoning?: string;
+  criteriaScores: Record<string, number>;
+  criteriaReasonings: Record<string, string>;
+  engineerArchetype: string[];
+  inferredLocation?: string;
+  ratedAt: Date;
+  ratingProvenance?: RatingProvenance;
 }
 
 export interface GraphUser {
@@ -44,6 +196,7 @@ export interface GraphUser {
   xLocation: string | null;
   public_repos: number;
   contributions: ContributionData | null;
+  contributionTimeline?: ContributionTimeline | null;
   profileReadme: string | null;
   websiteContent: string | null;
   recentRepositories: any[] | null;
@@ -53,7 +206,9 @@ export interface GraphUser {
   scrapedConnections?: {
     followers: boolean;
     following: boolean;
+    repoContributors?: boolean;
   };
+  followerSample?: FollowerSampleStats;
   rating?: number;
   ratingReasoning?: string;
   webResearchInfoOpenAI?: string;
@@ -64,6 +219,8 @@ export interface GraphUser {
   criteriaReasonings?: Record<string, string>;
   inferredLocation?: string;
   ratedAt?: Date;
+  ratingProvenance?: RatingProvenance;
+  ratings?: Record<string, ProfileRating>; // keyed by profile id
   repoInteractionScraped: any[];
   linkedinUrl?: string | null;
   linkedinExperience?: LinkedInProfile | null;
@@ -71,11 +228,19 @@ export interface GraphUser {
   currentCompanyInsights?: CompanyInsights | null;
   parentRatings?: Array<{ parent: string; rating: number }>;
   averageParentRating?: number;
+  seedPath?: SeedPath; // absent on seeds and on users discovered before paths were recorded
+  graphMetrics?: GraphMetrics;
   priority?: number;
-  discoveredVia?: "following" | "followers";
+  leaseOwner?: string | null; // worker currently processing this user
+  leaseExpiresAt?: Date | null; // reclaimed by any worker once passed
+  discoveredVia?: DiscoverySource;
+  repoInteractions?: RepoInteraction[]; // interactions with seed repos and rated users' repos, whatever the discovery source
+  orgSources?: OrgSource[]; // target organizations the user was found through
   reviewStatus?: "outreach" | "discarded";
   reviewNote?: string;
   reviewedAt?: Date;
+  outreach?: OutreachRecord;
+  outreachDrafts?: Partial<Record<OutreachChannel, OutreachDraft>>; // latest draft per channel
 }
 
 export interface DbGraphUser extends Omit<GraphUser, "login"> {
@@ -0,0 +1,49 @@
+// Response shapes of the graph explorer API (graph-explorer-server.ts), shared
+// with the browser code in visualize-network.ts
+
+export interface GraphNode {
+  id: string;
+  name: string | null;
+  status: "pending" | "processing" | "processed" | "ignored";
+  ignoredReason: string | null;
+  depth: number;
+  followers: number | null;
+  rating: number | null;
+  archetypes: string[];
+  reviewStatus: "outreach" | "discarded" | null;
+  discoveredVia: "following" | "followers" | "repo-contributor" | "repo" | "org" | null;
+  inflow: number; // sum of rated followers' ratings
+  eigenvector: number;
+}
+
+export interface GraphLink {
+  from: string; // follows `to`
+  to: string;
+}
+
+export interface GraphResponse {
+  nodes: GraphNode[];
+  edges: GraphLink[];
+}
+
+export interface ReferralStep {
+  node: GraphNode;
+  // How this user was reached from the previous step ("following": the
+  // previous user follows them; "followers": they follow the previous user;
+  // "repo-contributor": they work on the previous user's repos; "repo"/"org":
+  // queued as a repo interactor or org member, direction to the previous user unknown)
+  via: "following" | "followers" | "repo-contributor" | "repo" | "org" | null;
+  parentRating: number | null;
+}
+
+export interface ReferralPathResponse extends GraphResponse {
+  steps: ReferralStep[]; // seed first
+  complete: boolean; // false if the chain breaks before reaching a seed
+}
+
+export interface ExplorerConfig {
+  profile: string;
+  archetypes: string[];
+  maxRating: number;
+  metricsComputedAt: string;
+}
@@ -0,0 +1,290 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { fileURLToPath } from "url";
+import { companyConfig, getProfileRating, ratingField } from "../config/company.js";
+import { eigenvectorCentrality, weightedInflow } from "../graph-scraper/core/graph-centrality.js";
+import { GraphStore, openGraphStore } from "../graph-scraper/core/store/graph-store.js";
+import { DbGraphUser } from "../graph-scraper/types.js";
+import { HttpError, sendJson, serveLocally } from "../utils/local-server.js";
+import type {
+  ExplorerConfig,
+  GraphNode,
+  GraphResponse,
+  ReferralPathResponse,
+  ReferralStep,
+} from "./graph-api-types.js";
+
+dotenv.config();
+
+// Local API over the users/edges collections for the network explorer
+// (network.html + visualize-network.ts, built by `npm run build-vis`).
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.resolve(HERE, "../..");
+
+// The only files served; everything else is API or 404
+const STATIC_FILES: Record<string, { file: string; type: string }> = {
+  "/": { file: path.join(HERE, "network.html"), type: "text/html" },
+  "/dist/vis/visualize-network.js": {
+    file: path.join(ROOT, "dist/vis/visualize-network.js"),
+    type: "text/javascript",
+  },
+  "/node_modules/vis-network/standalone/esm/vis-network.js": {
+    file: path.join(ROOT, "node_modules/vis-network/standalone/esm/vis-network.js"),
+    type: "text/javascript",
+  },
+  "/node_modules/vis-network/styles/vis-network.min.css": {
+    file: path.join(ROOT, "node_modules/vis-network/styles/vis-network.min.css"),
+    type: "text/css",
+  },
+};
+
+const MAX_REFERRAL_STEPS = 50;
+
+const NODE_PROJECTION: Record<string, 1> = {
+  name: 1,
+  status: 1,
+  ignoredReason: 1,
+  depth: 1,
+  followers: 1,
+  reviewStatus: 1,
+  discoveredVia: 1,
+  parentRatings: 1,
+  rating: 1,
+  engineerArchetype: 1,
+  [`ratings.${companyConfig.id}.rating`]: 1,
+  [`ratings.${companyConfig.id}.engineerArchetype`]: 1,
+};
+
+interface Metrics {
+  inflow: Map<string, number>;
+  eigenvector: Map<string, number>;
+  computedAt: Date;
+}
+
+// Centrality over the whole graph, computed once per server start
+async function computeMetrics(store: GraphStore): Promise<Metrics> {
+  const started = Date.now();
+  const users = await store.findUsers({}, { projection: NODE_PROJECTION });
+  const edges = await store.findEdges({});
+
+  const ratings = new Map<string, number>();
+  for (const user of users) {
+    const rating = getProfileRating(user).rating;
+    if (typeof rating === "number") ratings.set(user._id, rating);
+  }
+  const inflow = weightedInflow(edges, ratings);
+  const eigenvector = eigenvectorCentrality(
+    users.map((u) => u._id),
+    edges
+  );
+  console.log(
+    `Computed graph metrics for ${users.length} users and ${edges.length} edges in ${Date.now() - started}ms`
+  );
+  return {
+    inflow: new Map([...inflow].map(([id, { score }]) => [id, score])),
+    eigenvector,
+    computedAt: new Date(),
+  };
+}
+
+function toNode(user: DbGraphUser, metrics: Metrics): GraphNode {
+  const rating = getProfileRating(user);
+  return {
+    id: user._id,
+    name: user.name ?? null,
+    status: user.status,
+    ignoredReason: user.ignoredReason ?? null,
+    depth: user.depth,
+    followers: user.followers ?? null,
+    rating: rating.rating ?? null,
+    archetypes: rating.engineerArchetype ?? [],
+    reviewStatus: user.reviewStatus ?? null,
+    discoveredVia: user.discoveredVia ?? null,
+    inflow: metrics.inflow.get(user._id) ?? 0,
+    eigenvector: metrics.eigenvector.get(user._id) ?? 0,
+  };
+}
+
+function intParam(url: URL, name: string, fallback: number, max: number) {
+  const value = Number(url.searchParams.get(name) ?? fallback);
+  return Number.isFinite(value) ? Math.max(0, Math.min(Math.floor(value), max)) : fallback;
+}
+
+/** Seeds plus the top-rated users, and the edges among them. */
+async function overview(store: GraphStore, metrics: Metrics, url: URL): Promise<GraphResponse> {
+  const limit = intParam(url, "limit", 300, 5000);
+  const minRating = intParam(url, "minRating", 0, 1000);
+  const filter: Record<string, any> = { status: "processed" };
+  if (minRating > 0) filter[ratingField("rating")] = { $gte: minRating };
+
+  const [seeds, top] = await Promise.all([
+    store.findUsers({ depth: 0 }, { projection: NODE_PROJECTION }),
+    store.findUsers(filter, {
+      sort: { [ratingField("rating")]: -1 },
+      limit,
+      projection: NODE_PROJECTION,
+    }),
+  ]);
+  const users = new Map([...seeds, ...top].map((u) => [u._id, u]));
+  const ids = [...users.keys()];
+  const edges = ids.length ? await store.findEdges({ from: ids, to: ids }) : [];
+  return { nodes: [...users.values()].map((u) => toNode(u, metrics)), edges };
+}
+
+/** A user, their highest-rated neighbours in both directions, and the edges to them. */
+async function egoNetwork(
+  store: GraphStore,
+  metrics: Metrics,
+  login: string,
+  url: URL
+): Promise<GraphResponse> {
+  const limit = intParam(url, "limit", 50, 1000);
+  const center = await store.findUsers({ _id: login }, { projection: NODE_PROJECTION });
+  if (!center.length) throw new HttpError(404, `No user ${login}`);
+
+  const [outgoing, incoming] = await Promise.all([
+    store.findEdges({ from: login }),
+    store.findEdges({ to: login }),
+  ]);
+  const neighbourIds = [...new Set([...outgoing.map((e) => e.to), ...incoming.map((e) => e.from)])];
+  const neighbours = neighbourIds.length
+    ? await store.findUsers(
+        { _id: { $in: neighbourIds } },
+        { sort: { [ratingField("rating")]: -1 }, limit, projection: NODE_PROJECTION }
+      )
+    : [];
+  const shown = new Set(neighbours.map((u) => u._id));
+  return {
+    nodes: [...center, ...neighbours].map((u) => toNode(u, metrics)),
+    edges: [...outgoing, ...incoming].filter((e) => shown.has(e.from) || shown.has(e.to)),
+  };
+}
+
+/**
+ * Walks back from a user through their highest-rated parent until reaching a
+ * seed (depth 0), the best referral chain that led the crawl to them.
+ */
+async function referralPath(
+  store: GraphStore,
+  metrics: Metrics,
+  login: string
+): Promise<ReferralPathResponse> {
+  const steps: ReferralStep[] = [];
+  const edges: GraphResponse["edges"] = [];
+  const visited = new Set<string>();
+  let current = (await store.findUsers({ _id: login }, { projection: NODE_PROJECTION }))[0];
+  if (!current) throw new HttpError(404, `No user ${login}`);
+
+  while (current && !visited.has(current._id) && steps.length < MAX_REFERRAL_STEPS) {
+    visited.add(current._id);
+    const parent = current.parentRatings?.length
+      ? current.parentRatings.reduce((best, p) => (p.rating > best.rating ? p : best))
+      : null;
+    steps.unshift({
+      node: toNode(current, metrics),
+      via: parent ? current.discoveredVia ?? null : null,
+      parentRating: parent?.rating ?? null,
+    });
+    if (current.depth === 0 || !parent) break;
+
+    // Co-contributors aren't connected by a follow edge
+    if (current.discoveredVia !== "repo-contributor") {
+      edges.push(
+        current.discoveredVia === "followers"
+          ? { from: current._id, to: parent.parent }
+          : { from: parent.parent, to: current._id }
+      );
+    }
+    current = (await store.findUsers({ _id: parent.parent }, { projection: NODE_PROJECTION }))[0];
+  }
+
+  return {
+    steps,
+    complete: steps[0]?.node.depth === 0,
+    nodes: steps.map((s) => s.node),
+    edges,
+  };
+}
+
+async function route(
+  store: GraphStore,
+  getMetrics: () => Promise<Metrics>,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL
+) {
+  if (req.method !== "GET") throw new HttpError(405, "Method not allowed");
+
+  const file = STATIC_FILES[url.pathname];
+  if (file) {
+    if (!fs.existsSync(file.file)) {
+      throw new HttpError(404, `${path.relative(ROOT, file.file)} missing - run npm run build-vis`);
+    }
+    res.writeHead(200, { "content-type": `${file.type}; charset=utf-8` });
+    res.end(fs.readFileSync(file.file));
+    return;
+  }
+
+  if (url.pathname === "/api/config") {
+    const metrics = await getMetrics();
+    const body: ExplorerConfig = {
+      profile: companyConfig.id,
+      archetypes: companyConfig.engineerArchetypes,
+      maxRating: companyConfig.maxTierSum,
+      metricsComputedAt: metrics.computedAt.toISOString(),
+    };
+    return sendJson(res, 200, body);
+  }
+  if (url.pathname === "/api/graph") {
+    return sendJson(res, 200, await overview(store, await getMetrics(), url));
+  }
+
+  const match = url.pathname.match(/^\/api\/(ego|path)\/([^/]+)$/);
+  if (match) {
+    const login = decodeURIComponent(match[2]);
+    const metrics = await getMetrics();
+    return sendJson(
+      res,
+      200,
+      match[1] === "ego"
+        ? await egoNetwork(store, metrics, login, url)
+        : await referralPath(store, metrics, login)
+    );
+  }
+
+  throw new HttpError(404, "Not found");
+}
+
+/** Serves the graph explorer until the process is interrupted. */
+export async function startGraphExplorer({ port }: { port: number }) {
+  if (!fs.existsSync(STATIC_FILES["/dist/vis/visualize-network.js"].file)) {
+    console.log("Browser bundle not built yet - run `npm run build-vis` first");
+    process.exitCode = 1;
+    return;
+  }
+
+  const store = await openGraphStore();
+  let metrics: Promise<Metrics> | undefined;
+  // `?refresh=1` on /api/config recomputes after the crawl has moved on
+  const getMetrics = () =>
+    (metrics ??= computeMetrics(store).catch((error) => {
+      metrics = undefined; // retry on the next request
+      throw error;
+    }));
+
+  const server = await serveLocally(port, (req, res, url) => {
+    if (url.pathname === "/api/config" && url.searchParams.get("refresh") === "1") {
+      metrics = undefined;
+    }
+    return route(store, getMetrics, req, res, url);
+  });
+  console.log(`Graph explorer for profile ${companyConfig.id}: ${server.url}`);
+  console.log("Press Ctrl+C to stop");
+  getMetrics().catch((error) => console.error("Error computing graph metrics:", error));
+
+  await server.closed;
+  await store.close();
+}
@@ -1,92 +1,241 @@
-import { DataSet } from "vis-data";
-import { Network } from "vis-network";
-import type { GraphUser } from "../graph-scraper/types.js";
+import { DataSet, Network } from "vis-network/standalone/esm/vis-network.js";
+import type {
+  ExplorerConfig,
+  GraphLink,
+  GraphNode,
+  GraphResponse,
+  ReferralPathResponse,
+} from "./graph-api-types.js";
 
-// Define the expected structure of the JSON data
-interface GithubGraphJson {
-  users: GraphUser[];
-  edges: Array<{ from: string; to: string }>;
-  processedUsernames: string[];
-  ignoredUsernames: string[];
-  maxDepth: number;
+// Browser side of the graph explorer (served by `gh-scout explore`). Built
+// with `npm run build-vis`.
+
+type ColorBy = "rating" | "status" | "archetype" | "review";
+type SizeBy = "eigenvector" | "inflow" | "rating" | "followers";
+
+interface VisNode {
+  id: string;
+  label: string;
+  value: number;
+  color: string;
+  title: string;
 }
 
-// --- Wrap the core logic in an async function ---
-async function initializeNetwork() {
-  console.log("Initializing network...");
-
-  try {
-    // Fetch the JSON data dynamically
-    const response = await fetch("/dataOutputs/github-graph.json");
-    if (!response.ok) {
-      throw new Error(
-        `HTTP error! status: ${response.status} - Could not fetch graph data.`
-      );
-    }
-    const graphData = (await response.json()) as GithubGraphJson;
+interface VisEdge {
+  id: string;
+  from: string;
+  to: string;
+  arrows: string;
+  color: { color: string; opacity: number };
+  width: number;
+}
 
-    console.log("Successfully loaded graph data:", graphData);
+const STATUS_COLORS: Record<GraphNode["status"], string> = {
+  pending: "#8fb8de",
+  processing: "#e09c41",
+  processed: "#2da44e",
+  ignored: "#d0d7de",
+};
 
-    // Color scale based on followers
-    function getNodeColor(followers: number): string {
-      if (followers > 10000) return "#e04141"; // Red
-      if (followers > 5000) return "#e09c41"; // Orange
-      if (followers > 1000) return "#e0df41"; // Yellow
-      if (followers > 100) return "#7be041"; // Light Green
-      return "#41e0c9"; // Cyan
-    }
+const REVIEW_COLORS = { outreach: "#2da44e", discarded: "#cf222e", none: "#d0d7de" };
 
-    // Node size based on followers
-    function getNodeSize(followers: number): number {
-      return 10 + Math.log1p(followers) * 5;
-    }
+const PALETTE = [
+  "#0969da", "#bf3989", "#1a7f37", "#9a6700", "#8250df",
+  "#cf222e", "#1b7c83", "#bc4c00", "#57606a", "#4d2d00",
+];
+
+const EDGE_COLOR = { color: "#cccccc", opacity: 0.5 };
+const PATH_EDGE_COLOR = { color: "#cf222e", opacity: 1 };
+
+const graphNodes = new Map<string, GraphNode>();
+const nodes = new DataSet<VisNode>();
+const edges = new DataSet<VisEdge>();
+let config: ExplorerConfig;
+let maxRating = 1;
+
+function element<T extends HTMLElement>(id: string): T {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Element #${id} not found`);
+  return el as T;
+}
+
+function setStatus(text: string) {
+  element("status").textContent = text;
+}
 
-    // Create nodes
-    const nodes = new DataSet(
-      graphData.users.map((user: GraphUser) => ({
-        id: user.login,
-        label: user.name || user.login,
-        value: getNodeSize(user.followers),
-        color: getNodeColor(user.followers),
-        title: `<b>${user.name || user.login}</b><br>Followers: ${
-          user.followers
-        }<br>Depth: ${user.depth}<br>${user.bio || ""}`,
-        url: user.profileUrl,
-        level: user.depth,
-      }))
-    );
-
-    // Create edges
-    const edges = new DataSet(
-      graphData.edges.map((edge, index) => ({
-        id: `edge-${index}`,
-        from: edge.from,
-        to: edge.to,
-        arrows: "to",
-        color: { color: "#cccccc", opacity: 0.5 },
-      }))
-    );
-
-    // Find the container element
-    const container = document.getElementById("network");
-    if (!container) {
-      throw new Error("Container element #network not found");
+async function api<T>(path: string): Promise<T> {
+  const res = await fetch(path);
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || res.statusText);
+  return body as T;
+}
+
+const edgeId = (edge: GraphLink) => `${edge.from}->${edge.to}`;
+
+// Red (low) -> yellow -> green (high); grey when unrated
+function ratingColor(rating: number | null) {
+  if (rating === null) return "#d0d7de";
+  const t = Math.max(0, Math.min(rating / maxRating, 1));
+  return `hsl(${Math.round(t * 120)}, 65%, 45%)`;
+}
+
+function nodeColor(node: GraphNode, colorBy: ColorBy) {
+  switch (colorBy) {
+    case "rating":
+      return ratingColor(node.rating);
+    case "status":
+      return STATUS_COLORS[node.status];
+    case "review":
+      return REVIEW_COLORS[node.reviewStatus ?? "none"];
+    case "archetype": {
+      const index = node.archetypes.length ? config.archetypes.indexOf(node.archetypes[0]) : -1;
+      return index < 0 ? "#d0d7de" : PALETTE[index % PALETTE.length];
     }
+  }
+}
+
+function nodeSize(node: GraphNode, sizeBy: SizeBy) {
+  const value = sizeBy === "followers" ? Math.log1p(node.followers ?? 0) : node[sizeBy] ?? 0;
+  return Math.max(value, 0);
+}
+
+function tooltip(node: GraphNode) {
+  // vis-network renders string titles as text, not HTML
+  return [
+    node.name ? `${node.name} (${node.id})` : node.id,
+    `Rating: ${node.rating ?? "unrated"} · depth ${node.depth} · ${node.status}`,
+    node.archetypes.length ? `Archetypes: ${node.archetypes.join(", ")}` : null,
+    `Inflow: ${node.inflow} · eigenvector: ${node.eigenvector.toFixed(4)}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function toVisNode(node: GraphNode): VisNode {
+  const colorBy = element<HTMLSelectElement>("colorBy").value as ColorBy;
+  const sizeBy = element<HTMLSelectElement>("sizeBy").value as SizeBy;
+  return {
+    id: node.id,
+    label: node.name || node.id,
+    value: nodeSize(node, sizeBy),
+    color: nodeColor(node, colorBy),
+    title: tooltip(node),
+  };
+}
 
-    // Configuration options (keep these as they were)
-    const options = {
+/** Adds nodes and edges not on the canvas yet; returns how many nodes were new. */
+function merge(graph: GraphResponse) {
+  const added = graph.nodes.filter((n) => !graphNodes.has(n.id));
+  for (const node of graph.nodes) graphNodes.set(node.id, node);
+  nodes.update(graph.nodes.map(toVisNode));
+  edges.update(
+    graph.edges
+      .filter((e) => graphNodes.has(e.from) && graphNodes.has(e.to) && !edges.get(edgeId(e)))
+      .map((e) => ({ id: edgeId(e), from: e.from, to: e.to, arrows: "to", color: EDGE_COLOR, width: 0.5 }))
+  );
+  return added.length;
+}
+
+function restyle() {
+  nodes.update([...graphNodes.values()].map(toVisNode));
+}
+
+function clearPath() {
+  edges.update(
+    edges.get({ filter: (e) => e.width > 0.5 }).map((e) => ({ ...e, color: EDGE_COLOR, width: 0.5 }))
+  );
+}
+
+function showDetails(node: GraphNode, network: Network) {
+  const panel = element("details");
+  const line = (text: string) => {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div;
+  };
+  const button = (text: string, onClick: () => void) => {
+    const b = document.createElement("button");
+    b.textContent = text;
+    b.onclick = onClick;
+    return b;
+  };
+  const github = document.createElement("a");
+  github.href = `https://github.com/${encodeURIComponent(node.id)}`;
+  github.target = "_blank";
+  github.rel = "noopener";
+  github.textContent = "GitHub";
+
+  const title = document.createElement("strong");
+  title.textContent = node.name ? `${node.name} (${node.id})` : node.id;
+  panel.replaceChildren(
+    title,
+    line(`Rating ${node.rating ?? "-"} · depth ${node.depth} · ${node.status}${node.ignoredReason ? ` (${node.ignoredReason})` : ""}`),
+    line(node.archetypes.join(", ") || "No archetype"),
+    line(`Review: ${node.reviewStatus ?? "not reviewed"}`),
+    line(`Inflow ${node.inflow} · eigenvector ${node.eigenvector.toFixed(4)} · ${node.followers ?? "?"} followers`),
+    github,
+    button("Expand neighbours", () => expand(node.id, network)),
+    button("Path from seed", () => showPath(node.id, network)),
+    element("path")
+  );
+}
+
+async function expand(login: string, network: Network) {
+  const limit = element<HTMLInputElement>("egoLimit").value;
+  setStatus(`Expanding ${login}…`);
+  const added = merge(await api<GraphResponse>(`/api/ego/${encodeURIComponent(login)}?limit=${limit}`));
+  setStatus(`${login}: ${added} new neighbours · ${nodes.length} nodes`);
+  network.focus(login, { animation: true });
+}
+
+async function showPath(login: string, network: Network) {
+  const path = await api<ReferralPathResponse>(`/api/path/${encodeURIComponent(login)}`);
+  merge(path);
+  clearPath();
+  edges.update(path.edges.map((e) => ({ ...edges.get(edgeId(e))!, color: PATH_EDGE_COLOR, width: 3 })));
+  network.selectNodes(path.nodes.map((n) => n.id));
+  network.fit({ nodes: path.nodes.map((n) => n.id), animation: true });
+
+  const chain = path.steps
+    .map((s, i) =>
+      i === 0
+        ? s.node.id
+        : `${s.via === "followers" ? "← followed by" : s.via === "repo-contributor" ? "⇄ works with" : "→ follows"} ${s.node.id} (${s.node.rating ?? "-"})`
+    )
+    .join("\n");
+  element("path").textContent = `${path.complete ? "Seed" : "Chain breaks at"} ${chain}`;
+}
+
+async function loadOverview() {
+  const limit = element<HTMLInputElement>("limit").value;
+  const minRating = element<HTMLInputElement>("minRating").value;
+  setStatus("Loading…");
+  graphNodes.clear();
+  nodes.clear();
+  edges.clear();
+  merge(await api<GraphResponse>(`/api/graph?limit=${limit}&minRating=${minRating}`));
+  setStatus(`${nodes.length} nodes, ${edges.length} edges · metrics from ${new Date(config.metricsComputedAt).toLocaleTimeString()}`);
+}
+
+async function initializeNetwork() {
+  config = await api<ExplorerConfig>("/api/config");
+  maxRating = config.maxRating;
+  element("title").textContent = `Graph · ${config.profile}`;
+
+  const network = new Network(
+    element("network"),
+    { nodes, edges },
+    {
       nodes: {
         shape: "dot",
-        borderWidth: 2,
+        borderWidth: 1,
         font: { size: 12, face: "sans", color: "#333" },
-        scaling: {},
+        scaling: { min: 6, max: 40 },
       },
       edges: {
-        width: 0.5,
         smooth: { enabled: true, type: "continuous", roundness: 0.5 },
       },
       physics: {
-        enabled: true,
         solver: "forceAtlas2Based",
         forceAtlas2Based: {
           gravitationalConstant: -50,
@@ -96,51 +245,41 @@ async function initializeNetwork() {
           damping: 0.4,
           avoidOverlap: 0.5,
         },
-        stabilization: { iterations: 1000, fit: true },
-      },
-      interaction: {
-        hover: true,
-        tooltipDelay: 200,
-        navigationButtons: true,
-        keyboard: true,
+        stabilization: { iterations: 300, fit: true },
       },
-    };
-
-    // Create the network
-    const network = new Network(container, { nodes, edges }, options);
-
-    // Handle clicks on nodes
-    network.on("click", function (params) {
-      if (params.nodes.length > 0) {
-        const nodeId = params.nodes[0];
-        const node = nodes.get(nodeId) as {
-          url?: string;
-          [key: string]: any;
-        } | null;
-        if (node && node.url) {
-          window.open(node.url, "_blank");
-        }
-      }
-    });
+      interaction: { hover: true, tooltipDelay: 200, navigationButtons: true, keyboard: true },
+    }
+  );
+
+  const run = (task: () => Promise<unknown>) => task().catch((error) => setStatus(String(error.message ?? error)));
 
-    // Optional: Log when stabilization is done
-    network.on("stabilizationIterationsDone", function () {
-      console.log("Network stabilization finished.");
-      network.fit();
+  network.on("click", (params) => {
+    const node = params.nodes.length ? graphNodes.get(params.nodes[0]) : undefined;
+    if (node) showDetails(node, network);
+  });
+  network.on("doubleClick", (params) => {
+    if (params.nodes.length) run(() => expand(params.nodes[0], network));
+  });
+
+  element("colorBy").addEventListener("change", restyle);
+  element("sizeBy").addEventListener("change", restyle);
+  element("reload").addEventListener("click", () => run(loadOverview));
+  element("search").addEventListener("submit", (event) => {
+    event.preventDefault();
+    const login = element<HTMLInputElement>("login").value.trim();
+    if (!login) return;
+    run(async () => {
+      await expand(login, network);
+      const node = graphNodes.get(login);
+      if (node) showDetails(node, network);
+      await showPath(login, network);
     });
+  });
 
-    console.log(
-      `Network initialized with ${nodes.length} nodes and ${edges.length} edges.`
-    );
-  } catch (error) {
-    console.error("Failed to initialize network:", error);
-    // Optional: Display error to the user in the HTML
-    const container = document.getElementById("network");
-    if (container) {
-      container.innerHTML = `<p style="color: red; padding: 20px;">Error loading network graph: ${error}</p>`;
-    }
-  }
+  await loadOverview();
 }
 
-// --- Call the async function to start everything ---
-initializeNetwork();
+initializeNetwork().catch((error) => {
+  console.error("Failed to initialize network:", error);
+  setStatus(`Error loading network graph: ${error.message ?? error}`);
+});
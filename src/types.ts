@@ -1,28 +1,5 @@
 import { DbGraphUser } from "./graph-scraper/types.js";
 
-export interface ScrapedRepo {
-  repoUrl: string;
-  scrapedTypes: string[];
-  lastProcessedPage?: {
-    [interactionType: string]: number;
-  };
-}
-
-export enum interactionTypes {
-  contributor = "contributor",
-  forker = "forker",
-  stargazer = "stargazer",
-  watcher = "watcher",
-}
-
-export interface RepoSummary {
-  repoUrl: string;
-  totalProcessed: number;
-  qualifiedUsers: number;
-  usersWithContributions: number;
-  qualifiedUserLogins: string[];
-}
-
 export interface GitHubRepo {
   id: number;
   name: string;
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv.js";
+
+describe("csv", () => {
+  it.each([
+    { name: "plain cells", rows: [["login", "rating"], ["octocat", "42"]] },
+    { name: "commas", rows: [["San Francisco, CA", "x"]] },
+    { name: "quotes", rows: [['says "hi"', '""']] },
+    { name: "line breaks in a cell", rows: [["first\nsecond", "a\r\nb"]] },
+    { name: "empty cells", rows: [["", "b", ""], [""]] },
+    { name: "unicode", rows: [["Zoë", "東京", "🚀"]] },
+  ])("round-trips $name", ({ rows }) => {
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("quotes only the cells that need it", () => {
+    expect(toCsv([["a", "b,c", 'd"e']])).toBe('a,"b,c","d""e"\r\n');
+  });
+
+  it.each([
+    { name: "LF line endings", text: "a,b\nc,d\n", rows: [["a", "b"], ["c", "d"]] },
+    { name: "no trailing newline", text: "a,b\r\nc,d", rows: [["a", "b"], ["c", "d"]] },
+    { name: "a byte order mark", text: "﻿login\r\noctocat\r\n", rows: [["login"], ["octocat"]] },
+    { name: "a blank line", text: "a\n\nb\n", rows: [["a"], [""], ["b"]] },
+    { name: "empty input", text: "", rows: [] },
+  ])("parses $name", ({ text, rows }) => {
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
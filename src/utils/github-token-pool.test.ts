@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { GitHubTokenPool } from "./github-token-pool.js";
+
+type Reply = { status?: number; headers?: Record<string, string> };
+
+const inAnHour = () => String(Math.floor(Date.now() / 1000) + 3600);
+
+const budget = (resource: string, remaining: number, reset = inAnHour()) => ({
+  "x-ratelimit-resource": resource,
+  "x-ratelimit-limit": "5000",
+  "x-ratelimit-remaining": String(remaining),
+  "x-ratelimit-reset": reset,
+});
+
+/**
+ * Sends requests through the pool to a fake fetch. `reply` decides the
+ * response from the token used; `used` records which token each attempt got.
+ */
+function fakeGitHub(pool: GitHubTokenPool, reply: (token: string, url: string) => Reply) {
+  const used: string[] = [];
+  const fetch = async (url: string, init: { headers: Record<string, string> }) => {
+    const token = (init.headers.authorization ?? "").replace("token ", "");
+    used.push(token);
+    const { status = 200, headers = {} } = reply(token, url);
+    const body =
+      status === 200 ? { ok: true } : { message: status === 404 ? "Not Found" : "API rate limit exceeded" };
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json", ...headers },
+    });
+  };
+  const send = (resource: "core" | "graphql") =>
+    resource === "graphql"
+      ? pool.octokit.request("POST /graphql", { query: "{ viewer { login } }", request: { fetch } })
+      : pool.octokit.request("GET /users/{username}", { username: "octocat", request: { fetch } });
+  return { used, send };
+}
+
+describe("GitHubTokenPool", () => {
+  it("routes each resource by its own remaining budget", async () => {
+    const pool = new GitHubTokenPool(["token-a", "token-b"]);
+    const { used, send } = fakeGitHub(pool, (token, url) => {
+      const resource = url.endsWith("/graphql") ? "graphql" : "core";
+      if (token === "token-a") return { headers: budget(resource, resource === "core" ? 10 : 4000) };
+      return { headers: budget(resource, 3000) };
+    });
+
+    await send("core"); // both unused: first token
+    await send("graphql"); // a's low REST budget doesn't count for GraphQL
+    await send("core"); // b has more REST budget left
+    await send("graphql"); // b is unused, so a full bucket is assumed
+    await send("graphql"); // a's 4000 beats b's 3000
+
+    expect(used).toEqual(["token-a", "token-a", "token-b", "token-b", "token-a"]);
+  });
+
+  it("switches tokens when one runs out", async () => {
+    const pool = new GitHubTokenPool(["token-a", "token-b"]);
+    const { used, send } = fakeGitHub(pool, (token) =>
+      token === "token-a"
+        ? { status: 403, headers: budget("core", 0) }
+        : { headers: budget("core", 4000) }
+    );
+
+    await send("core");
+    await send("core");
+
+    // The exhausted token is skipped until its reset
+    expect(used).toEqual(["token-a", "token-b", "token-b"]);
+    expect(pool.describe()[0]).toMatch(/REST 0\/5000 \(reset 60m\)/);
+  });
+
+  it("benches a token on a secondary rate limit for every resource", async () => {
+    const pool = new GitHubTokenPool(["token-a", "token-b"]);
+    const { used, send } = fakeGitHub(pool, (token) =>
+      token === "token-a" ? { status: 429, headers: { "retry-after": "60" } } : {}
+    );
+
+    await send("core");
+    await send("graphql");
+
+    expect(used).toEqual(["token-a", "token-b", "token-b"]);
+    expect(pool.describe()[0]).toContain("[cooling down]");
+  });
+
+  it("treats a budget past its reset as full again", async () => {
+    const pool = new GitHubTokenPool(["token-a"]);
+    const past = String(Math.floor(Date.now() / 1000) - 1);
+    let calls = 0;
+    const { used, send } = fakeGitHub(pool, () =>
+      ++calls === 1 ? { status: 403, headers: budget("core", 0, past) } : {}
+    );
+
+    await send("core");
+
+    expect(used).toEqual(["token-a", "token-a"]);
+  });
+
+  it("gives up after every token was rate limited", async () => {
+    const pool = new GitHubTokenPool(["token-a", "token-b"]);
+    const past = String(Math.floor(Date.now() / 1000) - 1);
+    const { used, send } = fakeGitHub(pool, () => ({
+      status: 403,
+      headers: budget("core", 0, past),
+    }));
+
+    await expect(send("core")).rejects.toMatchObject({ status: 403 });
+    expect(used).toHaveLength(3); // one more attempt than there are tokens
+  });
+
+  it("doesn't retry other errors", async () => {
+    const pool = new GitHubTokenPool(["token-a", "token-b"]);
+    const { used, send } = fakeGitHub(pool, () => ({ status: 404 }));
+
+    await expect(send("core")).rejects.toMatchObject({ status: 404 });
+    expect(used).toEqual(["token-a"]);
+  });
+});
@@ -0,0 +1,232 @@
+import { Octokit } from "@octokit/core";
+import dotenv from "dotenv";
+import { createCachedFetch } from "./http-cache.js";
+
+dotenv.config();
+
+// REST ("core") and GraphQL have separate hourly budgets per token
+export type GitHubResource = "core" | "graphql";
+
+interface Budget {
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms
+}
+
+interface PoolToken {
+  label: string; // safe to log: last 4 chars only
+  value: string;
+  budgets: Partial<Record<GitHubResource, Budget>>;
+  cooldownUntil: number; // secondary rate limit (retry-after)
+  inFlight: number;
+}
+
+const DEFAULT_LIMIT = 5000;
+const MAX_WAIT_LOG_INTERVAL_MS = 60 * 1000;
+
+function header(headers: Record<string, unknown> | undefined, name: string) {
+  const value = headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+function isRateLimited(error: any): boolean {
+  const status = error?.status;
+  if (status !== 403 && status !== 429) return false;
+  const headers = error.response?.headers;
+  return (
+    header(headers, "x-ratelimit-remaining") === "0" ||
+    header(headers, "retry-after") !== undefined ||
+    /rate limit/i.test(error.message ?? "")
+  );
+}
+
+/**
+ * Spreads GitHub requests over several tokens. Each request is routed to the
+ * token with the most remaining budget for its resource; a token that runs dry
+ * is skipped until its reset instead of stalling the whole crawl.
+ *
+ * Tokens come from GITHUB_ACCESS_TOKENS (comma-separated), falling back to
+ * GITHUB_ACCESS_TOKEN.
+ */
+export class GitHubTokenPool {
+  private tokens: PoolToken[];
+  readonly octokit: Octokit;
+
+  constructor(tokens: string[]) {
+    if (tokens.length === 0) {
+      console.warn(
+        "No GitHub token configured (GITHUB_ACCESS_TOKENS / GITHUB_ACCESS_TOKEN). Using unauthenticated requests."
+      );
+      tokens = [""];
+    }
+    this.tokens = tokens.map((value) => ({
+      label: value ? `…${value.slice(-4)}` : "anonymous",
+      value,
+      budgets: {},
+      cooldownUntil: 0,
+      inFlight: 0,
+    }));
+    this.octokit = this.createOctokit();
+  }
+
+  static fromEnv(): GitHubTokenPool {
+    const raw =
+      process.env.GITHUB_ACCESS_TOKENS || process.env.GITHUB_ACCESS_TOKEN || "";
+    const tokens = [
+      ...new Set(
+        raw
+          .split(",")
+          .map((t) => t.trim())
+          .filter(Boolean)
+      ),
+    ];
+    return new GitHubTokenPool(tokens);
+  }
+
+  get size() {
+    return this.tokens.length;
+  }
+
+  /** Remaining budget we can count on for a token right now. */
+  private available(token: PoolToken, resource: GitHubResource, now: number) {
+    if (token.cooldownUntil > now) return 0;
+    const budget = token.budgets[resource];
+    // Unknown budget (token not used yet) or past reset: assume a full bucket
+    if (!budget || budget.resetAt <= now) return DEFAULT_LIMIT - token.inFlight;
+    return budget.remaining - token.inFlight;
+  }
+
+  private pick(resource: GitHubResource): PoolToken | null {
+    const now = Date.now();
+    let best: PoolToken | null = null;
+    let bestAvailable = 0;
+    for (const token of this.tokens) {
+      const available = this.available(token, resource, now);
+      if (available > bestAvailable) {
+        best = token;
+        bestAvailable = available;
+      }
+    }
+    return best;
+  }
+
+  /** When the first exhausted token becomes usable again. */
+  private nextRecovery(resource: GitHubResource): number {
+    return Math.min(
+      ...this.tokens.map((t) =>
+        Math.max(t.cooldownUntil, t.budgets[resource]?.resetAt ?? 0)
+      )
+    );
+  }
+
+  private async acquire(resource: GitHubResource): Promise<PoolToken> {
+    let lastLog = 0;
+    while (true) {
+      const token = this.pick(resource);
+      if (token) {
+        token.inFlight++;
+        return token;
+      }
+      const waitMs = Math.max(this.nextRecovery(resource) - Date.now(), 0) + 1000;
+      if (Date.now() - lastLog > MAX_WAIT_LOG_INTERVAL_MS) {
+        console.log(
+          `All ${this.tokens.length} GitHub tokens exhausted for ${resource}. ` +
+            `Next reset in ${(waitMs / 60000).toFixed(1)} minutes`
+        );
+        lastLog = Date.now();
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(waitMs, MAX_WAIT_LOG_INTERVAL_MS))
+      );
+    }
+  }
+
+  private record(
+    token: PoolToken,
+    fallbackResource: GitHubResource,
+    headers: Record<string, unknown> | undefined
+  ) {
+    const remaining = header(headers, "x-ratelimit-remaining");
+    const reset = header(headers, "x-ratelimit-reset");
+    if (remaining === undefined || reset === undefined) return;
+    const resource = (header(headers, "x-ratelimit-resource") ??
+      fallbackResource) as GitHubResource;
+    // Search etc. have their own small buckets we don't route on
+    if (resource !== "core" && resource !== "graphql") return;
+    token.budgets[resource] = {
+      limit: Number(header(headers, "x-ratelimit-limit") ?? DEFAULT_LIMIT),
+      remaining: Number(remaining),
+      resetAt: Number(reset) * 1000,
+    };
+  }
+
+  private createOctokit(): Octokit {
+    const octokit = new Octokit({
+      request: { fetch: createCachedFetch("github") },
+    });
+    octokit.hook.wrap("request", async (request, options) => {
+      const resource: GitHubResource =
+        options.url === "/graphql" ? "graphql" : "core";
+      // Every token gets a chance before we give up on rate limits
+      const maxAttempts = this.tokens.length + 1;
+
+      for (let attempt = 1; ; attempt++) {
+        const token = await this.acquire(resource);
+        if (token.value) options.headers.authorization = `token ${token.value}`;
+        try {
+          const response = await request(options);
+          this.record(token, resource, response.headers);
+          return response;
+        } catch (error: any) {
+          this.record(token, resource, error.response?.headers);
+          if (!isRateLimited(error) || attempt >= maxAttempts) throw error;
+
+          // Bench the token so the next attempt goes elsewhere, even if the
+          // response headers didn't tell us which bucket ran out
+          const retryAfter = header(error.response?.headers, "retry-after");
+          const reset = header(error.response?.headers, "x-ratelimit-reset");
+          if (retryAfter) {
+            // Secondary (abuse) limits apply to the whole token
+            token.cooldownUntil = Date.now() + Number(retryAfter) * 1000;
+          } else {
+            token.budgets[resource] = {
+              limit: token.budgets[resource]?.limit ?? DEFAULT_LIMIT,
+              remaining: 0,
+              resetAt: reset ? Number(reset) * 1000 : Date.now() + 60 * 1000,
+            };
+          }
+          console.log(
+            `GitHub token ${token.label} rate limited on ${resource}, switching token`
+          );
+        } finally {
+          token.inFlight--;
+        }
+      }
+    });
+    return octokit;
+  }
+
+  /** One line per token with its live REST/GraphQL budget, for stats output. */
+  describe(): string[] {
+    const now = Date.now();
+    const fmt = (budget?: Budget) => {
+      if (!budget) return "unused";
+      if (budget.resetAt <= now) return `${budget.limit}/${budget.limit}`;
+      const resetMin = Math.ceil((budget.resetAt - now) / 60000);
+      return `${budget.remaining}/${budget.limit} (reset ${resetMin}m)`;
+    };
+    return this.tokens.map(
+      (t) =>
+        `${t.label}  REST ${fmt(t.budgets.core)}  GraphQL ${fmt(t.budgets.graphql)}` +
+        (t.cooldownUntil > now ? "  [cooling down]" : "")
+    );
+  }
+}
+
+let sharedPool: GitHubTokenPool | null = null;
+
+/** Process-wide pool, created from the environment on first use. */
+export function getGitHubPool(): GitHubTokenPool {
+  if (!sharedPool) sharedPool = GitHubTokenPool.fromEnv();
+  return sharedPool;
+}
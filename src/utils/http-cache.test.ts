@@ -0,0 +1,149 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CacheMissError, CacheMode, createCachedFetch } from "./http-cache.js";
+
+const USER_URL = "https://api.github.com/users/octocat";
+const HOUR_MS = 60 * 60 * 1000;
+
+/** A base fetch that counts calls and answers with `status` and the call number. */
+function fakeNetwork(status = 200) {
+  const network = {
+    calls: 0,
+    fetch: (async () => {
+      network.calls++;
+      return new Response(JSON.stringify({ call: network.calls }), {
+        status,
+        headers: { "content-type": "application/json", "x-ratelimit-remaining": "42" },
+      });
+    }) as typeof fetch,
+  };
+  return network;
+}
+
+describe("createCachedFetch", () => {
+  let dir: string;
+
+  const useMode = (mode: CacheMode) => vi.stubEnv("HTTP_CACHE", mode);
+  const storedFiles = () =>
+    fs
+      .readdirSync(dir, { recursive: true })
+      .map(String)
+      .filter((f) => f.endsWith(".json"));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "http-cache-"));
+    vi.stubEnv("HTTP_CACHE_DIR", dir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("passes through and stores nothing when off", async () => {
+    useMode("off");
+    const network = fakeNetwork();
+    const cachedFetch = createCachedFetch("github", network.fetch);
+
+    await cachedFetch(USER_URL);
+    const response = await cachedFetch(USER_URL);
+
+    expect(network.calls).toBe(2);
+    expect(await response.json()).toEqual({ call: 2 });
+    expect(storedFiles()).toHaveLength(0);
+  });
+
+  it("serves fresh entries from disk in cache mode", async () => {
+    useMode("cache");
+    const network = fakeNetwork();
+    const cachedFetch = createCachedFetch("github", network.fetch);
+
+    const first = await cachedFetch(USER_URL);
+    const second = await cachedFetch(USER_URL);
+
+    expect(network.calls).toBe(1);
+    expect(first.headers.get("x-http-cache")).toBeNull();
+    expect(second.headers.get("x-http-cache")).toBe("hit");
+    expect(await second.json()).toEqual({ call: 1 });
+    // A stored budget says nothing about the current one
+    expect(second.headers.get("x-ratelimit-remaining")).toBeNull();
+  });
+
+  it.each([
+    { name: "within the default TTL", ttlHours: undefined, ageHours: 23, calls: 1 },
+    { name: "past the default TTL", ttlHours: undefined, ageHours: 25, calls: 2 },
+    { name: "past an overridden TTL", ttlHours: "1", ageHours: 2, calls: 2 },
+  ])("refetches entries $name", async ({ ttlHours, ageHours, calls }) => {
+    useMode("cache");
+    if (ttlHours) vi.stubEnv("HTTP_CACHE_TTL_HOURS_GITHUB", ttlHours);
+    const network = fakeNetwork();
+    const cachedFetch = createCachedFetch("github", network.fetch);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await cachedFetch(USER_URL);
+    vi.setSystemTime(Date.now() + ageHours * HOUR_MS);
+    await cachedFetch(USER_URL);
+
+    expect(network.calls).toBe(calls);
+  });
+
+  it("doesn't store server errors in cache mode", async () => {
+    useMode("cache");
+    const network = fakeNetwork(500);
+    const cachedFetch = createCachedFetch("github", network.fetch);
+
+    await cachedFetch(USER_URL);
+    await cachedFetch(USER_URL);
+
+    expect(network.calls).toBe(2);
+    expect(storedFiles()).toHaveLength(0);
+  });
+
+  it("records every response, errors included, for replay", async () => {
+    useMode("record");
+    const network = fakeNetwork(500);
+    const recordFetch = createCachedFetch("github", network.fetch);
+    await recordFetch(USER_URL);
+    await recordFetch(USER_URL);
+    expect(network.calls).toBe(2);
+
+    useMode("replay");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 365 * 24 * HOUR_MS); // replay ignores the TTL
+    const replayed = await createCachedFetch("github", network.fetch)(USER_URL);
+
+    expect(network.calls).toBe(2);
+    expect(replayed.status).toBe(500);
+    expect(await replayed.json()).toEqual({ call: 2 });
+  });
+
+  it("never calls out in replay mode", async () => {
+    useMode("replay");
+    const network = fakeNetwork();
+    const cachedFetch = createCachedFetch("github", network.fetch);
+
+    await expect(cachedFetch(USER_URL)).rejects.toThrow(CacheMissError);
+    expect(network.calls).toBe(0);
+  });
+
+  it("keys on method and body, but not on credentials in the URL", async () => {
+    useMode("cache");
+    const network = fakeNetwork();
+    const cachedFetch = createCachedFetch("brave", network.fetch);
+    const search = "https://api.search.example/search?q=octocat";
+
+    await cachedFetch(`${search}&key=one`);
+    await cachedFetch(`${search}&key=two`);
+    expect(network.calls).toBe(1);
+
+    await cachedFetch(search, { method: "POST", body: "a" });
+    await cachedFetch(search, { method: "POST", body: "b" });
+    expect(network.calls).toBe(3);
+
+    const stored = storedFiles().map((f) => fs.readFileSync(path.join(dir, f), "utf-8"));
+    expect(stored.some((entry) => entry.includes("key=one"))).toBe(false);
+  });
+});
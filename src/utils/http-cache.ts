@@ -0,0 +1,214 @@
+// Content-addressed cache for outgoing HTTP calls (GitHub, Brave, RapidAPI,
+// OpenAI, Gemini, Perplexity). Every client goes through a fetch-compatible
+// function from createCachedFetch(), so one layer covers REST, GraphQL and the
+// LLM SDKs alike.
+//
+// Modes (HTTP_CACHE or `gh-scout --cache`):
+//   off     - no caching (default)
+//   cache   - serve fresh entries from disk, otherwise call out and store
+//   record  - always call out, store every response
+//   replay  - only serve from disk, never touch the network
+
+import crypto from "crypto";
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+
+dotenv.config();
+
+export type CacheMode = "off" | "cache" | "record" | "replay";
+export type CacheSource =
+  | "github"
+  | "brave"
+  | "rapidapi"
+  | "openai"
+  | "gemini"
+  | "anthropic"
+  | "perplexity";
+
+export const CACHE_MODES: CacheMode[] = ["off", "cache", "record", "replay"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long an entry is served in "cache" mode. Override per source with
+// HTTP_CACHE_TTL_HOURS_<SOURCE>, e.g. HTTP_CACHE_TTL_HOURS_GITHUB=1
+const DEFAULT_TTL_HOURS: Record<CacheSource, number> = {
+  github: 24,
+  brave: 7 * 24,
+  rapidapi: 30 * 24, // paid per call, LinkedIn profiles change slowly
+  openai: 30 * 24,
+  gemini: 30 * 24,
+  anthropic: 30 * 24,
+  perplexity: 30 * 24,
+};
+
+// Query params that carry credentials - never part of the key or the stored URL
+const SECRET_PARAMS = ["key", "api_key", "access_token"];
+
+// Rate-limit headers of a stored response say nothing about the current budget,
+// and the stored body is already decoded
+const STRIPPED_HEADERS =
+  /^(x-ratelimit-|retry-after$|set-cookie$|content-encoding$|content-length$|transfer-encoding$)/i;
+
+interface CacheEntry {
+  source: CacheSource;
+  method: string;
+  url: string;
+  requestBody: string | null;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  storedAt: string;
+}
+
+export class CacheMissError extends Error {
+  constructor(source: CacheSource, method: string, url: string) {
+    super(`No recorded ${source} response for ${method} ${url} (HTTP_CACHE=replay)`);
+    this.name = "CacheMissError";
+  }
+}
+
+export function getCacheMode(): CacheMode {
+  const mode = (process.env.HTTP_CACHE || "off") as CacheMode;
+  if (!CACHE_MODES.includes(mode)) {
+    throw new Error(
+      `Invalid HTTP_CACHE "${mode}". Use one of: ${CACHE_MODES.join(", ")}`
+    );
+  }
+  return mode;
+}
+
+function cacheDir() {
+  return process.env.HTTP_CACHE_DIR || path.join("dataOutputs", "http-cache");
+}
+
+function ttlMs(source: CacheSource) {
+  const override = process.env[`HTTP_CACHE_TTL_HOURS_${source.toUpperCase()}`];
+  const hours = override ? Number(override) : DEFAULT_TTL_HOURS[source];
+  return hours * HOUR_MS;
+}
+
+function redactUrl(url: string) {
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) parsed.searchParams.delete(param);
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+function bodyText(body: unknown): string | null {
+  if (body === undefined || body === null) return null;
+  if (typeof body === "string") return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return Buffer.from(body as ArrayBuffer).toString("base64");
+  }
+  // Streams / FormData can't be keyed reliably
+  return null;
+}
+
+function entryPath(source: CacheSource, key: string) {
+  return path.join(cacheDir(), source, key.slice(0, 2), `${key}.json`);
+}
+
+function readEntry(file: string): CacheEntry | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry(file: string, entry: CacheEntry) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(entry));
+  fs.renameSync(tmp, file);
+}
+
+function toResponse(entry: CacheEntry): Response {
+  // 204/304 responses can't carry a body
+  const body = entry.status === 204 || entry.status === 304 ? null : entry.body;
+  return new Response(body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: { ...entry.headers, "x-http-cache": "hit" },
+  });
+}
+
+// Only keep what is safe to serve again: successes and definite "not found"s.
+// Record mode keeps everything so replays see the same failures.
+function isCacheable(status: number, mode: CacheMode) {
+  if (mode === "record") return true;
+  return (status >= 200 && status < 300) || status === 404;
+}
+
+/**
+ * Returns a fetch-compatible function that reads and writes the response
+ * cache for `source` according to the current HTTP_CACHE mode.
+ */
+export function createCachedFetch(
+  source: CacheSource,
+  baseFetch: typeof fetch = (...args) => fetch(...args)
+): typeof fetch {
+  return async (input, init) => {
+    const mode = getCacheMode();
+    const request = input instanceof Request ? input : null;
+    const method = (init?.method || request?.method || "GET").toUpperCase();
+    const rawUrl = request ? request.url : input.toString();
+    const requestBody = bodyText(init?.body);
+
+    // Bodies we can't key (streams, uploads) always go to the network
+    if (mode === "off" || (init?.body && requestBody === null)) {
+      return baseFetch(input, init);
+    }
+
+    const url = redactUrl(rawUrl);
+    const key = crypto
+      .createHash("sha256")
+      .update(JSON.stringify([method, url, requestBody]))
+      .digest("hex");
+    const file = entryPath(source, key);
+
+    if (mode === "cache" || mode === "replay") {
+      const entry = readEntry(file);
+      const fresh =
+        entry &&
+        (mode === "replay" ||
+          Date.now() - new Date(entry.storedAt).getTime() < ttlMs(source));
+      if (entry && fresh) return toResponse(entry);
+      if (mode === "replay") throw new CacheMissError(source, method, url);
+    }
+
+    const response = await baseFetch(input, init);
+    if (!isCacheable(response.status, mode)) return response;
+
+    const body = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!STRIPPED_HEADERS.test(name)) headers[name] = value;
+    });
+    const entry: CacheEntry = {
+      source,
+      method,
+      url,
+      requestBody,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body,
+      storedAt: new Date().toISOString(),
+    };
+    writeEntry(file, entry);
+
+    // The original body is consumed - hand back a copy with the live headers
+    return new Response(
+      response.status === 204 || response.status === 304 ? null : body,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      }
+    );
+  };
+}
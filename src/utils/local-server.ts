@@ -0,0 +1,78 @@
+import http from "http";
+
+// Plumbing for the localhost-only web tools (review-ui, explore): JSON
+// helpers, a DNS-rebinding guard and run-until-Ctrl+C.
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "content-type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+export async function readJson(req: http.IncomingMessage) {
+  // JSON only: browsers can't send it cross-site without a CORS preflight,
+  // which these servers never answer
+  if (!req.headers["content-type"]?.startsWith("application/json")) {
+    throw new HttpError(415, "Expected application/json");
+  }
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) throw new HttpError(413, "Body too large");
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, "Invalid JSON");
+  }
+}
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => Promise<void>;
+
+/**
+ * Serves `handler` on 127.0.0.1 until SIGINT/SIGTERM. HttpErrors become JSON
+ * error responses; anything else is logged and answered with a 500.
+ */
+export async function serveLocally(port: number, handler: Handler) {
+  const server = http.createServer((req, res) => {
+    // Reject other hostnames pointing at 127.0.0.1 (DNS rebinding)
+    const host = (req.headers.host ?? "").replace(/:\d+$/, "");
+    if (host !== "localhost" && host !== "127.0.0.1") {
+      return sendJson(res, 403, { error: "Forbidden host" });
+    }
+    const url = new URL(req.url ?? "/", "http://localhost");
+    handler(req, res, url).catch((error) => {
+      if (error instanceof HttpError) {
+        return sendJson(res, error.status, { error: error.message });
+      }
+      console.error(`Error handling ${req.method} ${req.url}:`, error);
+      sendJson(res, 500, { error: "Internal error" });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+
+  return {
+    url: `http://localhost:${port}`,
+    /** Resolves once the server has shut down after Ctrl+C. */
+    closed: new Promise<void>((resolve) => {
+      const shutdown = () => server.close(() => resolve());
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+    }),
+  };
+}
@@ -1,4 +1,5 @@
 import { ContributionData } from "../graph-scraper/types.js";
+import { getProvider } from "../graph-scraper/core/providers/providers.js";
 
 export function isLinkedInDomain(url: string): boolean {
   try {
@@ -9,48 +10,72 @@ export function isLinkedInDomain(url: string): boolean {
   }
 }
 
+// contributionsCollection selection shared with the batched user fetcher
+export const CONTRIBUTIONS_SELECTION = `
+  contributionCalendar {
+    totalContributions
+    weeks {
+      contributionDays {
+        date
+        contributionCount
+      }
+    }
+  }
+  totalCommitContributions
+  totalIssueContributions
+  totalPullRequestContributions
+  restrictedContributionsCount
+  contributionYears
+`;
+
+export function toContributionData(contributions: any): ContributionData {
+  return {
+    total_commits: contributions.totalCommitContributions,
+    total_issues: contributions.totalIssueContributions,
+    total_prs: contributions.totalPullRequestContributions,
+    restricted_contributions: contributions.restrictedContributionsCount,
+    calendar_total: contributions.contributionCalendar.totalContributions,
+    totalSum:
+      contributions.contributionCalendar.totalContributions +
+      contributions.restrictedContributionsCount,
+    calendar_weeks: contributions.contributionCalendar.weeks,
+    contribution_years: contributions.contributionYears,
+  };
+}
+
+/**
+ * Contribution window used for filtering and rating: the last 12 months.
+ * Truncated to the UTC day so repeated queries hit the response cache.
+ */
+export function contributionWindow() {
+  const to = new Date();
+  to.setUTCHours(0, 0, 0, 0);
+  const from = new Date(to);
+  from.setFullYear(to.getFullYear() - 1);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
 export async function fetchContributions(
   username: string
 ): Promise<ContributionData | null> {
   try {
-    const toDate = new Date();
-    const fromDate = new Date(toDate);
-    fromDate.setFullYear(toDate.getFullYear() - 1);
-
     const query = `
-      query {
-        user(login: "${username}") {
+      query($login: String!, $from: DateTime!, $to: DateTime!) {
+        user(login: $login) {
           name
-          contributionsCollection(from: "${fromDate.toISOString()}", to: "${toDate.toISOString()}") {
-            contributionCalendar {
-              totalContributions
-              weeks {
-                contributionDays {
-                  date
-                  contributionCount
-                }
-              }
-            }
-            totalCommitContributions
-            totalIssueContributions
-            totalPullRequestContributions
-            restrictedContributionsCount
+          contributionsCollection(from: $from, to: $to) {
+            ${CONTRIBUTIONS_SELECTION}
           }
         }
       }
     `;
 
-    const response = await fetch("https://api.github.com/graphql", {
-      method: "POST",
-      headers: {
-        Authorization: `bearer ${process.env.GITHUB_ACCESS_TOKEN}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ query }),
+    // Routed through the token pool so GraphQL budget is tracked per token
+    const { data } = await getProvider("github").octokit.request("POST /graphql", {
+      query,
+      variables: { login: username, ...contributionWindow() },
     });
 
-    const data = await response.json();
-
     if (data.errors) {
       console.error(`GraphQL errors for ${username}:`, data.errors);
       return null;
@@ -62,32 +87,69 @@ export async function fetchContributions(
       return null;
     }
 
-    const contributions = data.data.user.contributionsCollection;
-    const calendarWeeks = contributions.contributionCalendar.weeks;
-    const totalContributions = {
-      total_commits: contributions.totalCommitContributions,
-      total_issues: contributions.totalIssueContributions,
-      total_prs: contributions.totalPullRequestContributions,
-      restricted_contributions: contributions.restrictedContributionsCount,
-      calendar_total: contributions.contributionCalendar.totalContributions,
-      totalSum:
-        contributions.contributionCalendar.totalContributions +
-        contributions.restrictedContributionsCount,
-      calendar_weeks: calendarWeeks,
-    };
-
-    // Single concise log line for contributions
-    // console.log(
-    //   `${username}: ${totalContributions.calendar_total} public + ${totalContributions.restricted_contributions} restricted = ${totalContributions.totalSum} total contributions`
-    // );
-
-    return totalContributions;
+    return toContributionData(data.data.user.contributionsCollection);
   } catch (error) {
     console.error(`Error fetching contributions for ${username}:`, error);
     return null;
   }
 }
 
+// Oldest years past this many are left out of the timeline
+const MAX_TIMELINE_YEARS = 10;
+
+/**
+ * Total contributions (restricted included) per calendar year, oldest first.
+ * `years` comes from contributionYears; one aliased query covers them all.
+ */
+export async function fetchYearlyContributions(
+  username: string,
+  years: number[]
+): Promise<Array<{ year: number; total: number }> | null> {
+  const recent = [...years].sort((a, b) => b - a).slice(0, MAX_TIMELINE_YEARS);
+  if (recent.length === 0) return [];
+
+  const fields = recent
+    .map(
+      (year) => `
+          y${year}: contributionsCollection(from: "${year}-01-01T00:00:00Z", to: "${year}-12-31T23:59:59Z") {
+            contributionCalendar { totalContributions }
+            restrictedContributionsCount
+          }`
+    )
+    .join("");
+  const query = `
+    query($login: String!) {
+      user(login: $login) {${fields}
+      }
+    }
+  `;
+
+  try {
+    const { data } = await getProvider("github").octokit.request("POST /graphql", {
+      query,
+      variables: { login: username },
+    });
+    if (data.errors || !data.data?.user) {
+      console.error(`Could not fetch yearly contributions for ${username}:`, data.errors);
+      return null;
+    }
+    return recent
+      .map((year) => {
+        const collection = data.data.user[`y${year}`];
+        return {
+          year,
+          total:
+            collection.contributionCalendar.totalContributions +
+            collection.restrictedContributionsCount,
+        };
+      })
+      .sort((a, b) => a.year - b.year);
+  } catch (error) {
+    console.error(`Error fetching yearly contributions for ${username}:`, error);
+    return null;
+  }
+}
+
 export function countProfileFields(userData: any): number {
   // Only count optional/meaningful fields
   const fields = {
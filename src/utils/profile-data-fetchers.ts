@@ -4,10 +4,13 @@ import puppeteer, { Browser } from "puppeteer";
 import treeKill from "tree-kill";
 import { GitHubUser } from "../graph-scraper/types.js";
 import { GitHubRepo } from "../types.js";
+import { createCachedFetch } from "./http-cache.js";
 import { withRateLimitRetry } from "./prime-scraper-api-utils.js";
 
 const MAX_CONTENT_LENGTH = 7500;
 
+const githubFetch = createCachedFetch("github");
+
 // --- Singleton browser management ---
 let _browser: Browser | null = null;
 let _browserUseCount = 0;
@@ -167,7 +170,7 @@ export async function fetchProfileReadme(
   username: string
 ): Promise<string | null> {
   try {
-    const response = await fetch(
+    const response = await githubFetch(
       `https://raw.githubusercontent.com/${username}/${username}/main/README.md`
     );
     if (response.ok) {
@@ -197,6 +200,13 @@ function calculateRepoScore(repo: GitHubRepo): number {
   return starScore + activityScore * 0.5 + forkScore * 0.3;
 }
 
+/** Top 10 repos by combined stars/recency/forks score. */
+export function rankRepositories(repos: GitHubRepo[]): GitHubRepo[] {
+  return [...repos]
+    .sort((a, b) => calculateRepoScore(b) - calculateRepoScore(a))
+    .slice(0, 10);
+}
+
 export async function fetchRecentRepositories(
   username: string,
   octokit: Octokit
@@ -225,77 +235,80 @@ export async function fetchRecentRepositories(
       is_fork: repo.fork, // Include fork information
     }));
 
-    // Always use combined sorting
-    mappedRepos.sort((a, b) => calculateRepoScore(b) - calculateRepoScore(a));
-
-    // Return top 10 after sorting
-    return mappedRepos.slice(0, 10);
+    return rankRepositories(mappedRepos);
   } catch (error) {
     console.error(`Error fetching repositories for ${username}:`, error);
     return null;
   }
 }
 
-export async function fetchUserEmailFromEvents(
+/**
+ * Up to `maxPages` pages of a user's public events, newest first. GitHub only
+ * keeps the last 90 days (at most 300 events).
+ */
+export async function fetchPublicEvents(
   username: string,
-  octokit: Octokit
-): Promise<string | null> {
-  let mostRecentNoreplyEmail: string | null = null;
-  const MAX_PAGES_TO_CHECK = 3;
+  octokit: Octokit,
+  maxPages: number = 3
+): Promise<any[]> {
+  const PER_PAGE = 100;
+  const events: any[] = [];
 
   try {
-    for (let page = 1; page <= MAX_PAGES_TO_CHECK; page++) {
-      const events = await withRateLimitRetry(() =>
+    for (let page = 1; page <= maxPages; page++) {
+      const response = await withRateLimitRetry(() =>
         octokit.request("GET /users/{username}/events/public", {
           username,
-          per_page: 30, // Fetch 30 events per page
+          per_page: PER_PAGE,
           page: page,
         })
       );
+      events.push(...(response.data ?? []));
+      // A short page means there are no more events for this user
+      if (!response.data || response.data.length < PER_PAGE) break;
+    }
+  } catch (error) {
+    console.error(`Error fetching public events for ${username}:`, error);
+  }
+  return events;
+}
 
-      if (events.data && events.data.length > 0) {
-        for (const event of events.data) {
-          if (event.type === "PushEvent" && event.payload) {
-            const payload = event.payload as any;
-            if (payload.commits && payload.commits.length > 0) {
-              for (const commit of payload.commits) {
-                if (commit.author && commit.author.email) {
-                  const email = commit.author.email as string;
-                  // Skip bot emails and GitHub Actions emails
-                  if (
-                    email.includes("[bot]") ||
-                    email.includes("github-actions")
-                  ) {
-                    continue;
-                  }
-                  // Prefer non-noreply emails
-                  if (!email.endsWith("@users.noreply.github.com")) {
-                    return email; // Found a non-noreply email, return immediately
-                  }
-                  // Keep track of the first noreply email encountered (which will be the most recent)
-                  if (!mostRecentNoreplyEmail) {
-                    mostRecentNoreplyEmail = email;
-                  }
-                }
-              }
+export function findEmailInEvents(events: any[]): string | null {
+  let mostRecentNoreplyEmail: string | null = null;
+
+  for (const event of events) {
+    if (event.type === "PushEvent" && event.payload) {
+      const payload = event.payload as any;
+      if (payload.commits && payload.commits.length > 0) {
+        for (const commit of payload.commits) {
+          if (commit.author && commit.author.email) {
+            const email = commit.author.email as string;
+            // Skip bot emails and GitHub Actions emails
+            if (email.includes("[bot]") || email.includes("github-actions")) {
+              continue;
+            }
+            // Prefer non-noreply emails
+            if (!email.endsWith("@users.noreply.github.com")) {
+              return email;
+            }
+            // Keep track of the first noreply email encountered (which will be the most recent)
+            if (!mostRecentNoreplyEmail) {
+              mostRecentNoreplyEmail = email;
             }
           }
         }
-      } else {
-        // No more events to fetch for this user
-        break;
       }
     }
-    // If loop finishes, it means no non-noreply email was found.
-    // Return the most recent noreply email found, or null if none.
-    return mostRecentNoreplyEmail;
-  } catch (error) {
-    console.error(
-      `Error fetching user email from events for ${username}:`,
-      error
-    );
-    return null;
   }
+  // No non-noreply email found: the most recent noreply email, or null if none
+  return mostRecentNoreplyEmail;
+}
+
+export async function fetchUserEmailFromEvents(
+  username: string,
+  octokit: Octokit
+): Promise<string | null> {
+  return findEmailInEvents(await fetchPublicEvents(username, octokit));
 }
 
 export async function fetchXProfileMetadata(username: string): Promise<{
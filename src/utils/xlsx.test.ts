@@ -0,0 +1,64 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import { fromExcelSerial, parseXlsx, toXlsx, XlsxError } from "./xlsx.js";
+
+describe("xlsx", () => {
+  it.each([
+    { name: "plain cells", rows: [["login", "rating"], ["octocat", "42"]] },
+    { name: "XML special characters", rows: [['<b>"Tom & Jerry"</b>', "a > b"]] },
+    { name: "line breaks in a cell", rows: [["first\nsecond", " padded "]] },
+    { name: "unicode", rows: [["Zoë", "東京", "🚀"]] },
+    { name: "empty cells between values", rows: [["", "b", "", "d"], ["a"]] },
+  ])("round-trips $name", ({ rows }) => {
+    expect(parseXlsx(toXlsx(rows))).toEqual(rows);
+  });
+
+  it("drops trailing empty cells", () => {
+    expect(parseXlsx(toXlsx([["a", "", ""], [""]]))).toEqual([["a"], []]);
+  });
+
+  it("stores repeated strings once in the shared string table", () => {
+    const rows = [["status", "status"], ["outreach", "status"]];
+    const xlsx = toXlsx(rows);
+    expect(parseXlsx(xlsx)).toEqual(rows);
+    const sharedStrings = readEntry(xlsx, "xl/sharedStrings.xml");
+    expect(sharedStrings.match(/<si>/g)).toHaveLength(2);
+    expect(sharedStrings).toContain('count="4" uniqueCount="2"');
+  });
+
+  it("returns numbers as their raw text", () => {
+    expect(parseXlsx(toXlsx([["rating", 42], [0.25, -3]]))).toEqual([["rating", "42"], ["0.25", "-3"]]);
+  });
+
+  it.each([
+    { name: "a day", serial: 45000, want: new Date(Date.UTC(2023, 2, 15)) },
+    { name: "a day and time", serial: 45000.5, want: new Date(Date.UTC(2023, 2, 15, 12)) },
+    { name: "the Unix epoch", serial: 25569, want: new Date(0) },
+  ])("round-trips $name as a date serial", ({ serial, want }) => {
+    const [[cell]] = parseXlsx(toXlsx([[serial]]));
+    expect(fromExcelSerial(Number(cell))).toEqual(want);
+  });
+
+  it("keeps blank rows in place", () => {
+    expect(parseXlsx(toXlsx([["a"], [], ["c"]]))).toEqual([["a"], [], ["c"]]);
+  });
+
+  it("rejects files that aren't a workbook", () => {
+    expect(() => parseXlsx(Buffer.from("login,rating\n"))).toThrow(XlsxError);
+  });
+});
+
+// One entry of the zip toXlsx writes (deflated, local headers only)
+function readEntry(zip: Buffer, name: string): string {
+  for (let pos = 0; zip.readUInt32LE(pos) === 0x04034b50; ) {
+    const size = zip.readUInt32LE(pos + 18);
+    const nameLength = zip.readUInt16LE(pos + 26);
+    const extraLength = zip.readUInt16LE(pos + 28);
+    const start = pos + 30 + nameLength + extraLength;
+    if (zip.toString("utf-8", pos + 30, pos + 30 + nameLength) === name) {
+      return zlib.inflateRawSync(zip.subarray(start, start + size)).toString("utf-8");
+    }
+    pos = start + size;
+  }
+  throw new Error(`${name} not found`);
+}
@@ -0,0 +1,259 @@
+import zlib from "zlib";
+
+// Single-sheet .xlsx read/write: enough for tables that go to and come back
+// from Excel or Google Sheets. Strings and numbers only, no styles or formulas.
+
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XlsxError";
+  }
+}
+
+// --- Zip container ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zip(files: Array<{ name: string; content: string }>) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf-8");
+    const data = Buffer.from(file.content, "utf-8");
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+function unzip(buffer: Buffer): Map<string, Buffer> {
+  // End of central directory record, possibly followed by a comment
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new XlsxError("Not an .xlsx file (no zip directory found)");
+
+  const files = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let pos = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    const method = buffer.readUInt16LE(pos + 10);
+    const compressedSize = buffer.readUInt32LE(pos + 20);
+    const nameLength = buffer.readUInt16LE(pos + 28);
+    const extraLength = buffer.readUInt16LE(pos + 30);
+    const commentLength = buffer.readUInt16LE(pos + 32);
+    const localOffset = buffer.readUInt32LE(pos + 42);
+    const name = buffer.toString("utf-8", pos + 46, pos + 46 + nameLength);
+
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, zlib.inflateRawSync(data));
+    else throw new XlsxError(`Unsupported zip compression method ${method} for ${name}`);
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+// --- SpreadsheetML ---
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline aren't allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+function unescapeXml(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+}
+
+function columnName(index: number) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function columnIndex(ref: string) {
+  const letters = ref.match(/^[A-Z]+/)![0];
+  return [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+export function toXlsx(rows: Array<Array<string | number>>, sheetName = "Sheet1") {
+  // Strings go to the shared string table, as Excel and Sheets write them
+  const strings = new Map<string, number>();
+  let stringCount = 0;
+  const stringIndex = (value: string) => {
+    stringCount++;
+    let index = strings.get(value);
+    if (index === undefined) strings.set(value, (index = strings.size));
+    return index;
+  };
+
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (typeof value === "number") return `<c r="${ref}"><v>${value}</v></c>`;
+          if (value === "") return "";
+          return `<c r="${ref}" t="s"><v>${stringIndex(value)}</v></c>`;
+        })
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+  const sharedStrings = [...strings.keys()]
+    .map((value) => `<si><t xml:space="preserve">${escapeXml(value)}</t></si>`)
+    .join("");
+
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return zip([
+    {
+      name: "[Content_Types].xml",
+      content: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/sharedStrings.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml"/></Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" Target="sharedStrings.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content: `${xml}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+    {
+      name: "xl/sharedStrings.xml",
+      content: `${xml}<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="${stringCount}" uniqueCount="${strings.size}">${sharedStrings}</sst>`,
+    },
+  ]);
+}
+
+// Text of a shared string or inline string, joining rich-text runs
+function cellText(xml: string) {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((m) => unescapeXml(m[1])).join("");
+}
+
+/**
+ * Cell values of the first worksheet as strings. Numbers (including dates,
+ * which Excel stores as day serials) come back as their raw number text.
+ */
+export function parseXlsx(buffer: Buffer): string[][] {
+  const files = unzip(buffer);
+  const read = (name: string) => files.get(name)?.toString("utf-8");
+
+  const workbook = read("xl/workbook.xml");
+  if (!workbook) throw new XlsxError("Not an .xlsx file (no xl/workbook.xml)");
+  const firstSheetId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const rels = read("xl/_rels/workbook.xml.rels") ?? "";
+  const target = [...rels.matchAll(/<Relationship\s[^>]*>/g)]
+    .map((m) => m[0])
+    .find((rel) => rel.includes(`Id="${firstSheetId}"`))
+    ?.match(/Target="([^"]+)"/)?.[1];
+  const sheetPath = target
+    ? target.startsWith("/") ? target.slice(1) : `xl/${target}`
+    : "xl/worksheets/sheet1.xml";
+  const sheet = read(sheetPath);
+  if (!sheet) throw new XlsxError(`Worksheet ${sheetPath} missing from workbook`);
+
+  const sharedStrings = [...(read("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map(
+    (m) => cellText(m[1])
+  );
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(rowMatch[1].match(/\sr="(\d+)"/)?.[1] ?? rows.length + 1);
+    const row: string[] = [];
+    for (const cell of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const body = cell[2] ?? "";
+      const ref = attrs.match(/\sr="([A-Z]+)\d+"/)?.[1];
+      const type = attrs.match(/\st="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = "";
+      if (type === "s") value = sharedStrings[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = cellText(body);
+      else if (raw !== undefined) value = unescapeXml(raw);
+      row[ref ? columnIndex(ref) : row.length] = value;
+    }
+    rows[rowNumber - 1] = Array.from(row, (v) => v ?? "");
+  }
+  return Array.from(rows, (r) => r ?? []);
+}
+
+/** Excel day serial (days since 1899-12-30) to a Date. */
+export function fromExcelSerial(serial: number) {
+  return new Date(Math.round((serial - 25569) * 86400 * 1000));
+}
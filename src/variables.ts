@@ -101,863 +101,6 @@ export const organisationsToScrape = [
   "https://github.com/renegade-fi",
 ];
 
-export const reposToScrape = [
-  // "https://github.com/PrimeIntellect-ai/protocol",
-  // "https://github.com/PrimeIntellect-ai/toploc",
-  // "https://github.com/PrimeIntellect-ai/prime-cli",
-  // "https://github.com/PrimeIntellect-ai/INTELLECT-MATH",
-  // "https://github.com/PrimeIntellect-ai/prime",
-  // "https://github.com/tzarc/keyboards",
-  // "https://github.com/farcasterxyz/protocol",
-  // "https://github.com/fal-ai/dbt-fal",
-  // "https://github.com/sentient-agi/OML-1.0-Fingerprinting",
-  // "https://github.com/SalesforceAIResearch/LaTRO",
-  // "https://github.com/leptonai/gpud",
-  // "https://github.com/PrimeIntellect-ai/genesys",
-  // "https://github.com/sentient-agi/OML-1.0-Fingerprinting",
-  // "https://github.com/PrimeIntellect-ai/smart-contracts",
-  // "https://github.com/deepseek-ai/open-infra-index",
-  // "https://github.com/willccbb/verifiers",
-  // "https://github.com/SynthLabsAI/big-math",
-  // "https://github.com/PrimeIntellect-ai/OpenDiloco",
-  // "https://github.com/NousResearch/DisTrO",
-  // "https://github.com/NousResearch/finetuning-subnet",
-  // "https://github.com/BlinkDL/fast.c",
-  // "https://github.com/deepseek-ai/DeepEP",
-  // "https://github.com/open-thought/tiny-grpo",
-  // "https://github.com/openreasoner/openr",
-  // "https://github.com/PrimeIntellect-ai/gpu-challenge",
-  // "https://github.com/SamuelSchmidgall/AgentLaboratory",
-  // "https://github.com/arcprize/ARC-AGI-2",
-  // "https://github.com/sail-sg/understand-r1-zero",
-  // "https://github.com/r3yc0n1c/tappin-core",
-  // "https://github.com/jzhang38/EasyContext",
-  // "https://github.com/mosaicml/llm-foundry",
-  // "https://github.com/tensorchord/Awesome-LLMOps",
-  // "https://github.com/chaoyanghe/Awesome-Federated-Learning",
-  // "https://github.com/SymbioticLab/FedScale",
-  // "https://github.com/fuzzylabs/awesome-open-mlops",
-  // "https://github.com/kubeflow/katib",
-  // "https://github.com/kubeflow/trainer",
-  // these 3 were full of empty accounts
-  // "https://github.com/kubeflow/kubeflow",
-  // "https://github.com/kubeflow/pipelines",
-  // "https://github.com/Netflix/metaflow",
-  // scraped on 3-4 th of april
-  // "https://github.com/fetchai/uAgents",
-  // "https://github.com/OpenMined/PySyft",
-  // "https://github.com/opentensor/validators",
-  // "https://github.com/opentensor/bittensor-delegates",
-  // "https://github.com/opentensor/validators",
-  // "https://github.com/opentensor/btcli",
-  // "https://github.com/opentensor/text-prompting",
-  // "https://github.com/opentensor/bittensor-subnet-template",
-  // "https://github.com/opentensor/subtensor",
-  // "https://github.com/opentensor/bittensor",
-  // "https://github.com/Phala-Network/khala-parachain",
-  // "https://github.com/Phala-Network/solo-mining-scripts",
-  // "https://github.com/Phala-Network/phala-blockchain",
-  // "https://github.com/numerai/numerai-tools",
-  // "https://github.com/numerai/numerai-cli",
-  // "https://github.com/numerai/example-scripts",
-  // "https://github.com/BitMind-AI/game-python",
-  // "https://github.com/BitMind-AI/bitmind-subnet",
-  // "https://github.com/learning-at-home/hivemind",
-  // "https://github.com/mosecorg/mosec",
-  // "https://github.com/bentoml/BentoML",
-  // "https://github.com/ray-project/ray-llm",
-  // "https://github.com/triton-inference-server/server",
-  // "https://github.com/tensorflow/serving",
-  // "https://github.com/safellama/plexiglass",
-  // "https://github.com/kaito-project/kaito",
-  // "https://github.com/substratusai/kubeai",
-  // we are here fri 4th 6:45pm
-  // "https://github.com/FMInference/FlexLLMGen", - was getting stuck
-  // "https://github.com/safellama/plexiglass",
-  // "https://github.com/michaelfeil/infinity",
-  // "https://github.com/vllm-project/vllm",
-  // "https://github.com/adap/flower",
-  // "https://github.com/FederatedAI/FATE",
-  // "https://github.com/EasyFL-AI/EasyFL",
-  // "https://github.com/FedML-AI/FedML",
-  // "https://github.com/openlit/openlit",
-  // we are here 5th april
-  // "https://github.com/great-expectations/great_expectations",
-  // "https://github.com/MorpheusAIs/Morpheus",
-  // "https://github.com/deepspeedai/DeepSpeed",
-  // "https://github.com/gensyn-ai/rl-swarm",
-  // "https://github.com/MorpheusAIs/Docs",
-  // "https://github.com/morph-labs/gpt-engineer",
-  // "https://github.com/morph-labs/llm-verified-with-monte-carlo-tree-search",
-  // "https://github.com/sfcompute/cluster-health",
-  // "https://github.com/MorpheusAIs/MySuperAgent",
-  // "https://github.com/MorpheusAIs/SmartContracts",
-  // "https://github.com/MorpheusAIs/Morpheus-Lumerin-Node",
-  // "https://github.com/MorpheusAIs/Lite-Client",
-  // "https://github.com/NousResearch/Hermes-Function-Calling",
-  // "https://github.com/NousResearch/Open-Reasoning-Tasks",
-  // "https://github.com/NousResearch/Obsidian",
-  // "https://github.com/NousResearch/finetuning-subnet",
-  // "https://github.com/NousResearch/nousflash-agents",
-  // "https://github.com/NousResearch/StripedHyenaTrainer",
-  // "https://github.com/NousResearch/local_generative_agents",
-  // "https://github.com/NousResearch/llm-chain",
-  // "https://github.com/NousResearch/nanotron",
-  // "https://github.com/NousResearch/datatrove",
-  // "https://github.com/NousResearch/torchtitan",
-  // "https://github.com/NousResearch/hf-hub",
-  // "https://github.com/NousResearch/iroh",
-  // "https://github.com/CarperAI/trlx",
-  // "https://github.com/jquesnelle/yarn",
-  // "https://github.com/PsycheFoundation/psyche",
-  // "https://github.com/dagger/dagger",
-  // "https://github.com/oceanprotocol/ocean.py",
-  // "https://github.com/DeepBrainChain/DeepBrainChain-MainChain",
-  // "https://github.com/Phala-Network/phala-blockchain",
-  // "https://github.com/learning-at-home/hivemind",
-  // "https://github.com/singnet/snet-daemon",
-  // "https://github.com/fetchai/agents-aea",
-  // "https://github.com/CortexFoundation/CortexTheseus",
-  // "https://github.com/nunet-io/nunet-core",
-  // "https://github.com/TrueBitFoundation/truebit-os",
-  // "https://github.com/secretflow/secretflow",
-  // "https://github.com/ScopeLift/umbra-protocol",
-  // "https://github.com/0xbow-io/privacy-pools-core",
-  // "https://github.com/ldsec/unlynx",
-  // "https://github.com/CyberDataLab/nebula",
-  // "https://github.com/APPFL/APPFL",
-  // "https://github.com/LayerXcom/zero-chain",
-  // "https://github.com/HewlettPackard/swarm-learning",
-  // "https://github.com/DP-3T/documents",
-  // "https://github.com/primihub/primihub",
-  // "https://github.com/modular/max",
-  // "https://github.com/atoma-network/atoma-agents",
-  // "https://github.com/atoma-network/atoma-contracts",
-  // "https://github.com/atoma-network/open-webui",
-  // "https://github.com/atoma-network/atoma-docs",
-  // "https://github.com/atoma-network/atoma-node",
-  // "https://github.com/atoma-network/atoma-infer",
-  // we are here 6th april 2pm
-  // "https://github.com/google-parfait/tensorflow-federated",
-  // "https://github.com/KOSASIH/eulers-shield",
-  // "https://github.com/openmined/PipelineDP",
-  // "https://github.com/microsoft/PersonalizedFL",
-  // "https://github.com/FedML-AI/FedGraphNN",
-  // "https://github.com/bit-current/DistributedTraining",
-  // "https://github.com/DeepBrainChain/DeepBrainChain-MainChain",
-  // "https://github.com/singnet/snet-daemon",
-  // "https://github.com/horovod/horovod", - skipped after 4k or so, very long list
-  // 6th 4pm
-  // "https://github.com/dstackai/dstack",
-  // "https://github.com/dstackai/gpuhunt",
-  // "https://github.com/dstackai/dstack-enterprise",
-  // "https://github.com/dstackai/llm-weaver",
-  // "https://github.com/dstackai/benchmarks",
-  // "https://github.com/dstackai/LLM-As-Chatbot",
-  // "https://github.com/dstackai/dstack-examples",
-  // "https://github.com/dstackai/gpuhunt-demo",
-  // "https://github.com/lambdal/deeplearning-benchmark",
-  // "https://github.com/lambdal/lambda-stack-dockerfiles",
-  // "https://github.com/lambdal/bert",
-  // "https://github.com/lambdal/imagenet18",
-  // "https://github.com/brevdev/notebooks",
-  // "https://github.com/brevdev/brev-cli",
-  // "https://github.com/brevdev/assets",
-  // "https://github.com/brevdev/brev-mcp",
-  // "https://github.com/brevdev/nvcf",
-  // "https://github.com/brevdev/Stable-Diffusion-Fast-Api",
-  // "https://github.com/brevdev/seed",
-  // "https://github.com/brevdev/AUTOMATIC1111-civitai-notebook",
-  // "https://github.com/brevdev/react-starter-app",
-  // "https://github.com/brevdev/simple-dreambooth-api",
-  // "https://github.com/brevdev/stable-diffusion-v2",
-  // "https://github.com/runpod/go-sdk",
-  // "https://github.com/runpod/runpod-python",
-  // "https://github.com/runpod/runpodctl",
-  // "https://github.com/runpod/docs",
-  // "https://github.com/runpod/serverless-workers",
-  // "https://github.com/runpod/serverless-ckpt-template",
-  // "https://github.com/runpod/containers",
-  // "https://github.com/runpod/js-sdk",
-  // "https://github.com/runpod/vllm",
-  // "https://github.com/runpod/openv",
-  // "https://github.com/runpod/notebooks",
-  // "https://github.com/runpod/discoart-ui",
-  // "https://github.com/runpod/skypilot",
-  // "https://github.com/runpod/test-runner",
-  // "https://github.com/runpod/pulumi-runpod-native",
-  // "https://github.com/runpod/vllm-fork-for-sls-worker",
-  // competitor repos
-  // "https://github.com/Cerebras/cerebras-cloud-sdk-node",
-  // "https://github.com/Cerebras/cerebras-cloud-sdk-python",
-  // "https://github.com/Cerebras/modelzoo",
-  // "https://github.com/Cerebras/csl-examples",
-  // "https://github.com/Cerebras/gigaGPT",
-  // "https://github.com/Cerebras/inference-examples",
-  // "https://github.com/Cerebras/online-normalization",
-  // "https://github.com/Cerebras/DocChat",
-  // "https://github.com/Cerebras/libtins",
-  // "https://github.com/Cerebras/ispd2021",
-  // "https://github.com/cartesia-ai/cartesia-js",
-  // "https://github.com/cartesia-ai/edge",
-  // "https://github.com/cartesia-ai/cartesia-python",
-  // "https://github.com/cartesia-ai/cartesia-livekit-voice-agent",
-  // "https://github.com/cartesia-ai/dev-showcase",
-  // "https://github.com/cartesia-ai/calhacks2024",
-  // "https://github.com/basetenlabs/truss-examples",
-  // "https://github.com/basetenlabs/truss",
-  // "https://github.com/basetenlabs/Workshop-TRT-LLM",
-  // "https://github.com/basetenlabs/infrastructure-take-home",
-  // "https://github.com/basetenlabs/wizardlm-truss",
-  // "https://github.com/basetenlabs/stablelm-truss",
-  // "https://github.com/basetenlabs/starcoder-truss",
-  // "https://github.com/basetenlabs/falcon-7b-truss",
-  // "https://github.com/basetenlabs/frontend-take-home",
-  // "https://github.com/basetenlabs/avatar-generation-app-tutorial",
-  // "https://github.com/basetenlabs/demos",
-  // "https://github.com/superfly/fly",
-  // "https://github.com/superfly/flyctl",
-  // "https://github.com/superfly/corrosion",
-  // 7th april 11:15
-  // "https://github.com/superfly/litefs",
-  // "https://github.com/superfly/fly-go",
-  // "https://github.com/superfly/ssokenizer",
-  // "https://github.com/superfly/tokenizer",
-  // "https://github.com/superfly/docs",
-  // "https://github.com/superfly/macaroon",
-  // "https://github.com/superfly/litevfs",
-  // "https://github.com/superfly/fly-pr-review-apps",
-  // "https://github.com/superfly/fly-openapi-sdk",
-  // "https://github.com/superfly/flyctl-actions",
-  // "https://github.com/superfly/fly-autoscaler",
-  // "https://github.com/superfly/init-snapshot",
-  // "https://github.com/superfly/dashboards",
-  // "https://github.com/superfly/flyssh",
-  // "https://github.com/superfly/fly-checks",
-  // "https://github.com/superfly/fly-log-shipper",
-  // "https://github.com/superfly/rust-templates",
-  // "https://github.com/superfly/rchab",
-  // "https://github.com/superfly/wormhole",
-  // "https://github.com/superfly/macaroon-elixir",
-  // "https://github.com/superfly/llm-describer",
-  // "https://github.com/superfly/fly_rpc_elixir",
-  // 5:30
-  // "https://github.com/superfly/ltx",
-  // "https://github.com/superfly/litefs-example",
-  // "https://github.com/superfly/tokenizer-elixir",
-  // "https://github.com/superfly/fly_postgres_elixir",
-  // "https://github.com/superfly/bfaas",
-  // "https://github.com/superfly/anti-roadmap",
-  // "https://github.com/superfly/rant2outline",
-  // "https://github.com/superfly/dropspy",
-  // "https://github.com/superfly/elixir-hiring-project",
-  // "https://github.com/superfly/litefs-go",
-  // "https://github.com/superfly/fly.cr",
-  // "https://github.com/superfly/tired-proxy",
-  // "https://github.com/superfly/firecracker",
-  // "https://github.com/superfly/fly-ruby",
-  // "https://github.com/superfly/edge",
-  // "https://github.com/superfly/burn",
-  // "https://github.com/superfly/multi-cloud-haproxy",
-  // "https://github.com/superfly/fly-heroku-buildpack",
-  // "https://github.com/superfly/shout",
-  // "https://github.com/superfly/flyjs",
-  // "https://github.com/superfly/homebrew-tap",
-  // "https://github.com/superfly/machine-proxy",
-  // "https://github.com/superfly/sqlite3-restore",
-  // "https://github.com/superfly/isolated-vm",
-  // "https://github.com/superfly/recco",
-  // "https://github.com/superfly/stimulus-live-elements",
-  // "https://github.com/superfly/dns-help",
-  // "https://github.com/superfly/anycable-rails",
-  // "https://github.com/superfly/flygit",
-  // "https://github.com/superfly/gravitas",
-  // "https://github.com/superfly/wordpress-image-optimizer",
-  // "https://github.com/superfly/ghost-accelerator",
-  // "https://github.com/superfly/fly.rs",
-  // "https://github.com/superfly/glitch-domains",
-  // "https://github.com/superfly/doh-proxy",
-  // "https://github.com/superfly/fly-node",
-  // "https://github.com/superfly/dis",
-  // "https://github.com/superfly/ltx-rs",
-  // "https://github.com/superfly/litefs-ruby",
-  // "https://github.com/superfly/litefs-node",
-  // "https://github.com/superfly/pixelfly",
-  // "https://github.com/superfly/onehostname",
-  // "https://github.com/superfly/nats-pure.rb",
-  // "https://github.com/superfly/fly-builders",
-  // "https://github.com/superfly/image-processing",
-  // "https://github.com/superfly/autowire",
-  // "https://github.com/superfly/fly-rails",
-  // "https://github.com/superfly/imaginary",
-  // "https://github.com/superfly/load-balancer",
-  // "https://github.com/superfly/accept-encoding",
-  // 7th 20pm
-  // "https://github.com/superfly/nomad",
-  // "https://github.com/superfly/lvmd",
-  // "https://github.com/superfly/ppp",
-  // "https://github.com/superfly/embedding-v8-talk",
-  // "https://github.com/superfly/cee-dee-en",
-  // "https://github.com/fw-ai/cookbook",
-  // "https://github.com/fw-ai/forge",
-  // "https://github.com/fw-ai/benchmark",
-  // "https://github.com/fw-ai/llama-cuda-graph-example",
-  // "https://github.com/fw-ai/ai-starter-kits",
-  // "https://github.com/fw-ai/fireworks_poe_bot",
-  // "https://github.com/fw-ai/langchain",
-  // "https://github.com/exa-labs/company-researcher",
-  // "https://github.com/exa-labs/exa-deepseek-chat",
-  // "https://github.com/exa-labs/exa-mcp-server",
-  // "https://github.com/exa-labs/exa-py",
-  // "https://github.com/exa-labs/exa-js",
-  // "https://github.com/exa-labs/jfk-files-app",
-  // "https://github.com/exa-labs/answer-chat-app",
-  // "https://github.com/exa-labs/exa-hallucination-detector",
-  // "https://github.com/exa-labs/exa-writing-assist",
-  // "https://github.com/exa-labs/exa-o3mini-chat",
-  // "https://github.com/exa-labs/BetterChatGPT",
-  // "https://github.com/crusoecloud/crusoe-cookbook",
-  // "https://github.com/crusoecloud/slurm",
-  // "https://github.com/crusoecloud/client-go",
-  // "https://github.com/crusoecloud/cli",
-  // "https://github.com/crusoecloud/terraform-provider-crusoe",
-  // "https://github.com/crusoecloud/crusoe-hpc-slurm",
-  // "https://github.com/coreweave/nccl-tests",
-  // "https://github.com/coreweave/tensorizer",
-  // "https://github.com/coreweave/terraform-provider-coreweave",
-  // "https://github.com/coreweave/kubernetes-cloud",
-  // "https://github.com/coreweave/ml-containers",
-  // "https://github.com/coreweave/docker-registry-proxy",
-  // "https://github.com/coreweave/blender-source",
-  // "https://github.com/coreweave/doc-examples",
-  // "https://github.com/coreweave/fah-docker",
-  // "https://github.com/coreweave/gutenberg-epub",
-  // "https://github.com/coreweave/kubeapps",
-  // "https://github.com/coiled/benchmarks",
-  // "https://github.com/coiled/dask-bigquery",
-  // "https://github.com/coiled/etl-tpch",
-  // "https://github.com/coiled/dask-snowflake",
-  // "https://github.com/coiled/dask-xgboost-nyctaxi",
-  // "https://github.com/coiled/feedback",
-  // "https://github.com/coiled/data-science-at-scale",
-  // 7th 22:57
-  // "https://github.com/coiled/coiled-resources",
-  // "https://github.com/coiled/examples",
-  // "https://github.com/coiled/dask-tutorial",
-  // "https://github.com/coiled/1trc",
-  // "https://github.com/coiled/dask-elearning",
-  // "https://github.com/coiled/dask-mongo",
-  // "https://github.com/coiled/tpch",
-  // "https://github.com/coiled/coiled-terraform-template",
-  // "https://github.com/coiled/dask-mini-tutorial",
-  // "https://github.com/coiled/talkpython-getting-started-with-dask",
-  // "https://github.com/coiled/dask-tutorial-pyconDE22",
-  // "https://github.com/coiled/talkpython-fundamentals-of-dask",
-  // "https://github.com/coiled/coiled-datasets",
-  // "https://github.com/coiled/coiled-examples",
-  // "https://github.com/coiled/notebooks",
-  // "https://github.com/coiled/github-actions-with-coiled",
-  // "https://github.com/coiled/notebooks-blog",
-  // "https://github.com/coiled/live-coding",
-  // "https://github.com/coiled/blog-notebooks",
-  // 8th April 8:30am
-  // "https://github.com/modal-labs/quillman",
-  // "https://github.com/modal-labs/llm-finetuning",
-  // "https://github.com/modal-labs/music-video-gen",
-  // "https://github.com/modal-labs/synchronicity",
-  // "https://github.com/modal-labs/pytest-markdown-docs",
-  // "https://github.com/modal-labs/gpu-glossary",
-  // "https://github.com/modal-labs/dockerfile-parser-rs",
-  // "https://github.com/modal-labs/cuda_ioctl_sniffer",
-  // "https://github.com/modal-labs/cadre",
-  // "https://github.com/modal-labs/vprox",
-  // "https://github.com/modal-labs/modal-client",
-  // "https://github.com/modal-labs/modal-examples",
-  // "https://github.com/modal-labs/devlooper",
-  // "https://github.com/modal-labs/tracing-perfetto-sdk",
-  // "https://github.com/modal-labs/awesome-modal",
-  // "https://github.com/modal-labs/ci-on-modal",
-  // "https://github.com/modal-labs/turbo-art",
-  // "https://github.com/modal-labs/doppel-bot",
-  // "https://github.com/modal-labs/mistral-finetuning",
-  // "https://github.com/modal-labs/named-retry",
-  // "https://github.com/modal-labs/seamless-chat",
-  // "https://github.com/modal-labs/search-california",
-  // "https://github.com/modal-labs/boombot",
-  // "https://github.com/modal-labs/vector-analogies-wikipedia",
-  // "https://github.com/modal-labs/biomodals",
-  // "https://github.com/modal-labs/serverless-queuing-theory-model",
-  // "https://github.com/modal-labs/vercel-integration-example",
-  // "https://github.com/modal-labs/llama-recipes",
-  // "https://github.com/latitudesh/terraform-provider-latitudesh",
-  // "https://github.com/latitudesh/latitudesh-go",
-  // "https://github.com/latitudesh/latitudesh-nodejs",
-  // "https://github.com/latitudesh/lsh",
-  // "https://github.com/latitudesh/examples",
-  // "https://github.com/latitudesh/metal-ui",
-  // "https://github.com/leptonai/search_with_lepton",
-  // "https://github.com/leptonai/gpud",
-  // "https://github.com/leptonai/leptonai",
-  // "https://github.com/leptonai/imgpilot",
-  // "https://github.com/leptonai/tryemoji",
-  // "https://github.com/leptonai/nextjs-with-lepton",
-  // "https://github.com/leptonai/examples",
-  // 8th 2:30pm
-  // "https://github.com/Lightning-AI/pytorch-lightning",
-  // "https://github.com/Lightning-AI/LitServe",
-  // "https://github.com/Lightning-AI/litData",
-  // "https://github.com/Lightning-AI/litgpt",
-  // "https://github.com/Lightning-AI/torchmetrics",
-  // "https://github.com/Lightning-AI/tutorials",
-  // "https://github.com/Lightning-AI/LitModels",
-  // "https://github.com/Lightning-AI/lightning-thunder",
-  // "https://github.com/Lightning-AI/lightning-Habana",
-  // "https://github.com/Lightning-AI/utilities",
-  // "https://github.com/Lightning-AI/ecosystem-ci",
-  // "https://github.com/Lightning-AI/deep-learning-project-template",
-  // "https://github.com/Lightning-AI/dl-fundamentals",
-  // 9th 12:25
-  // "https://github.com/Lightning-AI/lit-llama",
-  // "https://github.com/Lightning-AI/forked-pdb",
-  // "https://github.com/Lightning-AI/engineering-class",
-  // "https://github.com/Lightning-AI/lm-evaluation-harness",
-  // "https://github.com/Lightning-AI/Lightning-multinode-templates",
-  // "https://github.com/Lightning-AI/lightning-Graphcore",
-  // "https://github.com/Lightning-AI/probot",
-  // "https://github.com/replicate/getting-started-nextjs",
-  // "https://github.com/replicate/cog-comfyui-wan-with-lora",
-  // "https://github.com/replicate/cog",
-  // "https://github.com/replicate/replicate-go",
-  // "https://github.com/replicate/replicate-python",
-  // "https://github.com/replicate/cog-comfyui",
-  // "https://github.com/replicate/all-the-public-replicate-models",
-  // "https://github.com/replicate/flux-fine-tuner",
-  // "https://github.com/replicate/cog-flux",
-  // "https://github.com/replicate/replicate-javascript",
-  // "https://github.com/replicate/paint-by-text",
-  // "https://github.com/replicate/reflux",
-  // "https://github.com/replicate/llama-chat",
-  // "https://github.com/replicate/setup-cog",
-  // "https://github.com/replicate/pget",
-  // "https://github.com/replicate/replicate-swift",
-  // "https://github.com/replicate/keepsake",
-  // "https://github.com/replicate/fast-flux-demo",
-  // "https://github.com/replicate/green-screen-creator",
-  // "https://github.com/replicate/comfyui-replicate",
-  // "https://github.com/replicate/create-replicate",
-  // "https://github.com/replicate/hype",
-  // "https://github.com/replicate/inpainter",
-  // "https://github.com/replicate/cog-safe-push",
-  // "https://github.com/replicate/cog-flux-schnell",
-  // "https://github.com/replicate/cog-stable-diffusion-3",
-  // "https://github.com/replicate/cog-triton",
-  // "https://github.com/replicate/cog-sdxl",
-  // "https://github.com/replicate/cog-vllm",
-  // "https://github.com/replicate/cog-whisper",
-  // "https://github.com/replicate/cli",
-  // "https://github.com/replicate/cog-examples",
-  // "https://github.com/replicate/scribble-diffusion",
-  // "https://github.com/replicate/monobase",
-  // "https://github.com/replicate/latent-consistency-model",
-  // "https://github.com/replicate/endless-zoom",
-  // "https://github.com/replicate/cog-stable-diffusion",
-  // "https://github.com/replicate/huggingface-model-mappings",
-  // "https://github.com/replicate/quirky",
-  // "https://github.com/replicate/dreambooth",
-  // "https://github.com/replicate/replicate-support-bot",
-  // "https://github.com/replicate/cog-yue",
-  // "https://github.com/replicate/go",
-  // "https://github.com/replicate/cog-t2i-adapter-sdxl",
-  // "https://github.com/replicate/zoo",
-  // "https://github.com/replicate/getting-started-nextjs-typescript",
-  // "https://github.com/replicate/cog-musicgen",
-  // "https://github.com/replicate/controlnet",
-  // "https://github.com/replicate/getting-started-cloudflare-workers",
-  // "https://github.com/replicate/lora-training",
-  // "https://github.com/replicate/tilemaker",
-  // "https://github.com/replicate/img-quality-eval",
-  // "https://github.com/replicate/cog-svd",
-  // "https://github.com/replicate/cog-wan-2.1",
-  // "https://github.com/replicate/cloudflare-image-cache",
-  // "https://github.com/replicate/dreambooth-action",
-  // "https://github.com/replicate/GFPGAN",
-  // "https://github.com/replicate/cog_stanford_alpaca",
-  // "https://github.com/replicate/ideogram-inpainting-example-js",
-  // "https://github.com/replicate/outpainter",
-  // "https://github.com/replicate/discord-bot-tutorial-code",
-  // "https://github.com/replicate/cog-mvdream-multiview",
-  // "https://github.com/replicate/cog-dolly-v2-12b",
-  // "https://github.com/replicate/fastapi",
-  // "https://github.com/replicate/cog-grounding-dino",
-  // "https://github.com/replicate/stable-diffusion-depth2img",
-  // "https://github.com/replicate/autocompile",
-  // "https://github.com/replicate/cog-mpt-7b-storywriter-65k",
-  // "https://github.com/replicate/cog-llama-template",
-  // "https://github.com/replicate/replicate-models-chatgpt-plugin",
-  // "https://github.com/replicate/cog-seamlessexpressive",
-  // "https://github.com/replicate/yolo",
-  // "https://github.com/replicate/codespaces",
-  // "https://github.com/replicate/cog-llama",
-  // "https://github.com/replicate/replicate-sam-2-clicker",
-  // "https://github.com/replicate/cog-redis-example",
-  // "https://github.com/replicate/musicgen-chord",
-  // "https://github.com/replicate/Real-ESRGAN",
-  // "https://github.com/replicate/getting-started-swiftui",
-  // "https://github.com/replicate/cog-imagedream",
-  // "https://github.com/replicate/cog-dwpose",
-  // "https://github.com/replicate/all-mpnet-base-v2",
-  // "https://github.com/replicate/lora-inference",
-  // "https://github.com/replicate/terraform-provider-replicate",
-  // "https://github.com/replicate/cog-replit-code-v1-3b",
-  // "https://github.com/replicate/rtv",
-  // "https://github.com/replicate/getting-started-nextjs-language",
-  // "https://github.com/replicate/vllm-with-loras",
-  // "https://github.com/replicate/cog-sdxl-lora",
-  // "https://github.com/replicate/cog-stable-diffusion-inpainting",
-  // "https://github.com/replicate/cog-vicuna-13b",
-  // "https://github.com/replicate/cog-udop",
-  // "https://github.com/replicate/cog-stable-diffusion-img2img",
-  // "https://github.com/replicate/replicate-raycast",
-  // "https://github.com/replicate/python-starter",
-  // "https://github.com/replicate/cog-stablelm",
-  // "https://github.com/replicate/point-e",
-  // "https://github.com/replicate/cog-lightweight-openpose",
-  // "https://github.com/replicate/zeroscope-compare",
-  // "https://github.com/replicate/blog-example-rag-chromadb-mistral7b",
-  // "https://github.com/replicate/cog-marigold",
-  // "https://github.com/replicate/dreambooth-template",
-  // "https://github.com/replicate/cog-mplug-owl",
-  // "https://github.com/replicate/cog-flan-models",
-  // "https://github.com/replicate/AudioLDM",
-  // "https://github.com/replicate/r8im",
-  // "https://github.com/replicate/cog-lavis",
-  // "https://github.com/replicate/cog-flan-t5",
-  // "https://github.com/replicate/clipdraw-interactive",
-  // "https://github.com/replicate/cog-fast-dreambooth",
-  // "https://github.com/replicate/avatar-remix-bot",
-  // "https://github.com/replicate/StyleGAN-Human",
-  // "https://github.com/togethercomputer/Dragonfly",
-  // "https://github.com/togethercomputer/RedPajama-Data",
-  // "https://github.com/togethercomputer/together-cookbook",
-  // 10th 2:20
-  // "https://github.com/togethercomputer/MoA",
-  // "https://github.com/togethercomputer/OpenChatKit",
-  // "https://github.com/togethercomputer/together-python",
-  // "https://github.com/togethercomputer/openapi",
-  // "https://github.com/togethercomputer/together-typescript",
-  // "https://github.com/togethercomputer/flash-attention-3",
-  // "https://github.com/togethercomputer/stripedhyena",
-  // "https://github.com/togethercomputer/OpenDataHub",
-  // "https://github.com/togethercomputer/llamaindex-chatbot",
-  // "https://github.com/togethercomputer/finetuning",
-  // "https://github.com/togethercomputer/SMiR",
-  // "https://github.com/togethercomputer/redpajama.cpp",
-  // "https://github.com/togethercomputer/together-worker",
-  // "https://github.com/togethercomputer/Llama-2-7B-32K-Instruct",
-  // "https://github.com/togethercomputer/diffusers",
-  // "https://github.com/togethercomputer/transformers_port",
-  // "https://github.com/togethercomputer/whisper",
-  // "https://github.com/togethercomputer/Quick_Deployment_HELM",
-  // "https://github.com/togethercomputer/open-models-api",
-  // "https://github.com/togethercomputer/Decentralized_Training",
-  // "https://github.com/togethercomputer/UniversalSD",
-  // "https://github.com/togethercomputer/GPT-JT-Int8",
-  // "https://github.com/togethercomputer/together-cli",
-  // "https://github.com/togethercomputer/FT_Llama2",
-  // "https://github.com/togethercomputer/glm_fastertransformer",
-  // "https://github.com/togethercomputer/single_GPU_nlp_models",
-  // "https://github.com/vast-ai/pyworker",
-  // "https://github.com/vast-ai/vast-cli",
-  // "https://github.com/vast-ai/base-image",
-  // "https://github.com/vast-ai/vast-pyworker",
-  // "https://github.com/vast-ai/vast-sdk",
-  // "https://github.com/vast-ai/vast-tools",
-  // "https://github.com/snorkel-ai/long-context-eval",
-  // "https://github.com/replicate/getting-started-nextjs",
-  // "https://github.com/replicate/cog-comfyui-wan-with-lora",
-  // "https://github.com/replicate/cog",
-  // "https://github.com/replicate/replicate-go",
-  // "https://github.com/replicate/replicate-python",
-  // "https://github.com/replicate/cog-comfyui",
-  // "https://github.com/replicate/all-the-public-replicate-models",
-  // "https://github.com/replicate/flux-fine-tuner",
-  // "https://github.com/replicate/cog-flux",
-  // "https://github.com/replicate/replicate-javascript",
-  // "https://github.com/replicate/paint-by-text",
-  // "https://github.com/replicate/reflux",
-  // "https://github.com/replicate/llama-chat",
-  // "https://github.com/replicate/setup-cog",
-  // "https://github.com/replicate/pget",
-  // "https://github.com/replicate/replicate-swift",
-  // "https://github.com/replicate/keepsake",
-  // "https://github.com/replicate/fast-flux-demo",
-  // "https://github.com/replicate/green-screen-creator",
-  // "https://github.com/replicate/comfyui-replicate",
-  // "https://github.com/replicate/create-replicate",
-  // "https://github.com/replicate/hype",
-  // "https://github.com/replicate/inpainter",
-  // "https://github.com/replicate/cog-safe-push",
-  // "https://github.com/replicate/cog-flux-schnell",
-  // "https://github.com/replicate/cog-stable-diffusion-3",
-  // "https://github.com/replicate/cog-triton",
-  // "https://github.com/replicate/cog-sdxl",
-  // "https://github.com/replicate/cog-vllm",
-  // "https://github.com/replicate/cog-whisper",
-  // "https://github.com/replicate/cli",
-  // "https://github.com/replicate/cog-examples",
-  // "https://github.com/replicate/scribble-diffusion",
-  // "https://github.com/replicate/monobase",
-  // "https://github.com/replicate/latent-consistency-model",
-  // "https://github.com/replicate/endless-zoom",
-  // "https://github.com/replicate/cog-stable-diffusion",
-  // "https://github.com/replicate/huggingface-model-mappings",
-  // "https://github.com/replicate/quirky",
-  // "https://github.com/replicate/dreambooth",
-  // "https://github.com/replicate/replicate-support-bot",
-  // "https://github.com/replicate/cog-yue",
-  // "https://github.com/replicate/go",
-  // "https://github.com/replicate/cog-t2i-adapter-sdxl",
-  // "https://github.com/replicate/zoo",
-  // "https://github.com/replicate/getting-started-nextjs-typescript",
-  // "https://github.com/replicate/cog-musicgen",
-  // "https://github.com/replicate/controlnet",
-  // "https://github.com/replicate/getting-started-cloudflare-workers",
-  // "https://github.com/replicate/lora-training",
-  // "https://github.com/replicate/tilemaker",
-  // "https://github.com/replicate/img-quality-eval",
-  // "https://github.com/replicate/cog-svd",
-  // "https://github.com/replicate/cog-wan-2.1",
-  // "https://github.com/replicate/cloudflare-image-cache",
-  // "https://github.com/replicate/dreambooth-action",
-  // "https://github.com/replicate/GFPGAN",
-  // "https://github.com/replicate/cog_stanford_alpaca",
-  // "https://github.com/replicate/ideogram-inpainting-example-js",
-  // "https://github.com/replicate/outpainter",
-  // "https://github.com/replicate/discord-bot-tutorial-code",
-  // "https://github.com/replicate/cog-mvdream-multiview",
-  // "https://github.com/replicate/cog-dolly-v2-12b",
-  // "https://github.com/replicate/fastapi",
-  // "https://github.com/replicate/cog-grounding-dino",
-  // "https://github.com/replicate/stable-diffusion-depth2img",
-  // "https://github.com/replicate/autocompile",
-  // "https://github.com/replicate/cog-mpt-7b-storywriter-65k",
-  // "https://github.com/replicate/cog-llama-template",
-  // "https://github.com/replicate/replicate-models-chatgpt-plugin",
-  // "https://github.com/replicate/cog-seamlessexpressive",
-  // "https://github.com/replicate/yolo",
-  // "https://github.com/replicate/codespaces",
-  // "https://github.com/replicate/cog-llama",
-  // "https://github.com/replicate/replicate-sam-2-clicker",
-  // "https://github.com/replicate/cog-redis-example",
-  // "https://github.com/replicate/musicgen-chord",
-  // "https://github.com/replicate/Real-ESRGAN",
-  // "https://github.com/replicate/getting-started-swiftui",
-  // "https://github.com/replicate/cog-imagedream",
-  // "https://github.com/replicate/cog-dwpose",
-  // "https://github.com/replicate/all-mpnet-base-v2",
-  // "https://github.com/replicate/lora-inference",
-  // "https://github.com/replicate/terraform-provider-replicate",
-  // "https://github.com/replicate/cog-replit-code-v1-3b",
-  // "https://github.com/replicate/rtv",
-  // "https://github.com/replicate/getting-started-nextjs-language",
-  // "https://github.com/replicate/vllm-with-loras",
-  // "https://github.com/replicate/cog-sdxl-lora",
-  // "https://github.com/replicate/cog-stable-diffusion-inpainting",
-  // "https://github.com/replicate/cog-vicuna-13b",
-  // "https://github.com/replicate/cog-udop",
-  // "https://github.com/replicate/cog-stable-diffusion-img2img",
-  // "https://github.com/replicate/replicate-raycast",
-  // "https://github.com/replicate/python-starter",
-  // "https://github.com/replicate/cog-stablelm",
-  // "https://github.com/replicate/point-e",
-  // "https://github.com/replicate/cog-lightweight-openpose",
-  // "https://github.com/replicate/zeroscope-compare",
-  // "https://github.com/replicate/blog-example-rag-chromadb-mistral7b",
-  // "https://github.com/replicate/cog-marigold",
-  // "https://github.com/replicate/dreambooth-template",
-  // "https://github.com/replicate/cog-mplug-owl",
-  // "https://github.com/replicate/cog-flan-models",
-  // "https://github.com/replicate/AudioLDM",
-  // "https://github.com/replicate/r8im",
-  // "https://github.com/replicate/cog-lavis",
-  // "https://github.com/replicate/cog-flan-t5",
-  // "https://github.com/replicate/clipdraw-interactive",
-  // "https://github.com/replicate/cog-fast-dreambooth",
-  // "https://github.com/replicate/avatar-remix-bot",
-  // "https://github.com/replicate/StyleGAN-Human",
-
-  // 11th
-  // "https://github.com/sfcompute/cli",
-  // "https://github.com/sfcompute/hardware_report",
-  // "https://github.com/sfcompute/rust-maelstrom-boilerplate",
-  // "https://github.com/sfcompute/tinynarrations",
-  // "https://github.com/sfcompute/cluster_run",
-  // "https://github.com/kudobuilder/kudo",
-  // "https://github.com/kudobuilder/kuttl",
-  // "https://github.com/kudobuilder/homebrew-tap",
-  // "https://github.com/kudobuilder/operators",
-  // "https://github.com/kudobuilder/kuttl.dev",
-  // "https://github.com/kudobuilder/kudo.dev",
-  // "https://github.com/kudobuilder/terraform-provider-kudo",
-  // "https://github.com/genesiscloud/genesis-cloud-inference-articles",
-  // "https://github.com/genesiscloud/terraform-provider-genesiscloud",
-  // "https://github.com/genesiscloud/py-genesiscloud",
-  // "https://github.com/Paperspace/PyTorch-101-Tutorial-Series",
-  // "https://github.com/Paperspace/cli",
-  // "https://github.com/Paperspace/DataAugmentationForObjectDetection",
-  // "https://github.com/Paperspace/DinoRunTutorial",
-  // "https://github.com/Paperspace/gradient-cli",
-  // "https://github.com/Paperspace/terraform-provider-paperspace",
-  // "https://github.com/Paperspace/FastAPI-Hugging-Face-Template-App",
-  // "https://github.com/Paperspace/jupyter-docker-stacks",
-  // "https://github.com/Paperspace/paperspace-python",
-  // "https://github.com/Paperspace/FaceApp-with-Deep-Learning",
-  // "https://github.com/Paperspace/PyTorch-Lightning",
-  // "https://github.com/Paperspace/ml-in-a-box",
-  // "https://github.com/Paperspace/GPU-Kubernetes-Guide",
-  // "https://github.com/Paperspace/Docs",
-  // "https://github.com/Paperspace/object-detection-segmentation",
-  // "https://github.com/Paperspace/gradient-ssh-test",
-  // "https://github.com/Paperspace/deploy-action",
-  // "https://github.com/Paperspace/training_styletransfer",
-  // "https://github.com/Paperspace/fastai-docker",
-  // "https://github.com/Paperspace/paperspace-go",
-  // "https://github.com/Paperspace/GradientDeepFakes",
-  // "https://github.com/Paperspace/training-pix2pix",
-  // "https://github.com/Paperspace/gradient-utils",
-  // "https://github.com/Paperspace/paperspace-node",
-  // "https://github.com/Paperspace/client-sdk",
-  // "https://github.com/Paperspace/gradient-hyperparameter-example",
-  // "https://github.com/Paperspace/fastai-docker-deprecated",
-  // "https://github.com/Paperspace/dl-docker",
-  // "https://github.com/Paperspace/tensorflow-python",
-  // "https://github.com/Paperspace/mnist-sample",
-  // "https://github.com/Paperspace/hyperopt-keras-sample",
-  // "https://github.com/Paperspace/gradient-coder",
-  // "https://github.com/Paperspace/tpu-resnet",
-  // "https://github.com/Paperspace/training-lstm",
-  // "https://github.com/Paperspace/fast-style-transfer",
-  // "https://github.com/bananaml/potassium",
-  // "https://github.com/bananaml/serverless-template-stable-diffusion",
-  // "https://github.com/bananaml/fructose",
-  // "https://github.com/bananaml/demo-sd-hf-safetensors",
-  // "https://github.com/bananaml/demo-mistral-7b-instruct-v0.1",
-  // "https://github.com/bananaml/banana-cli",
-  // "https://github.com/bananaml/serverless-template-gptj",
-  // "https://github.com/bananaml/serverless-template",
-  // "https://github.com/bananaml/demo-whisper",
-  // "https://github.com/bananaml/serverless-template-dreambooth-inference",
-  // "https://github.com/bananaml/demo-gfpgan",
-  // "https://github.com/bananaml/demo-stable-diffusion-xl-base-1.0",
-  // "https://github.com/bananaml/demo-automatic1111-sd-webui",
-  // "https://github.com/bananaml/demo-lang-segment-anything",
-  // "https://github.com/bananaml/demo-vit-base-patch16-224",
-  // "https://github.com/bananaml/demo-wizardlm-1.0-uncensored-llama2-13b-gptq",
-  // "https://github.com/bananaml/demo-bert",
-  // "https://github.com/bananaml/banana-node-sdk",
-  // "https://github.com/bananaml/banana-python-sdk",
-  // "https://github.com/bananaml/t5-serverless",
-  // "https://github.com/bananaml/clip-serverless-template",
-  // "https://github.com/bananaml/serverless-template-stable-diffusion-v2",
-  // "https://github.com/deepinfra/deepctl",
-  // "https://github.com/deepinfra/deepinfra-node",
-  // "https://github.com/deepinfra/text-generation-inference",
-  // "https://github.com/genesiscloud/genesis-cloud-inference-articles",
-  // "https://github.com/genesiscloud/terraform-provider-genesiscloud",
-  // "https://github.com/genesiscloud/py-genesiscloud",
-  // "https://github.com/SaladTechnologies/comfyui-api",
-  // "https://github.com/SaladTechnologies/salad-cloud-docs",
-  // "https://github.com/SaladTechnologies/salad-recipes",
-  // "https://github.com/SaladTechnologies/virtual-kubelet-saladcloud",
-  // "https://github.com/SaladTechnologies/salad-applications",
-  // "https://github.com/SaladTechnologies/kelpie",
-  // "https://github.com/SaladTechnologies/sce-deploy",
-  // "https://github.com/SaladTechnologies/sdnext-dynamic",
-  // "https://github.com/SaladTechnologies/comfyui-dynamic",
-  // "https://github.com/SaladTechnologies/sdnext",
-  // "https://github.com/SaladTechnologies/bark",
-  // "https://github.com/SaladTechnologies/styletts2-api",
-  // "https://github.com/SaladTechnologies/asr-api",
-  // "https://github.com/SaladTechnologies/stable-audio-open",
-  // "https://github.com/SaladTechnologies/supertokens-dotnet",
-  // "https://github.com/SaladTechnologies/plugin-downloads",
-  // "https://github.com/SaladTechnologies/sdnext-benchmark",
-  // "https://github.com/vultr/terraform-provider-vultr",
-  // "https://github.com/vultr/vultr-mdtk",
-  // "https://github.com/vultr/docker-machine-driver-vultr",
-  // "https://github.com/vultr/vultr-csi",
-  // "https://github.com/vultr/govultr",
-  // "https://github.com/vultr/slik",
-  // "https://github.com/vultr/ansible-collection-vultr",
-  // "https://github.com/vultr/vultr-cli",
-  // "https://github.com/vultr/vultr-node",
-  // "https://github.com/vultr/vultr-docs",
-  // "https://github.com/vultr/whmcs-vultr",
-  // "https://github.com/vultr/vultr-cloud-controller-manager",
-  // "https://github.com/vultr/crossplane-provider-vultr",
-  // "https://github.com/vultr/cluster-api-provider-vultr",
-  // "https://github.com/vultr/packer-plugin-vultr",
-  // "https://github.com/vultr/cert-manager-webhook-vultr",
-  // "https://github.com/vultr/vultr-marketplace",
-  // "https://github.com/vultr/archian",
-  // "https://github.com/vultr/vultr-php",
-  // "https://github.com/vultr/homebrew-vultr-cli",
-  // "https://github.com/vultr/rancher-ui-driver-vultr",
-  // "https://github.com/vultr/.github",
-  // "https://github.com/vultr/vultr-python-client",
-  // "https://github.com/vultr/solution-vpc-peering",
-  // "https://github.com/vultr/terraform-provider-vultr-community",
-  // "https://github.com/vultr/metadata",
-  // "https://github.com/vultr/terraform-vultr-condor",
-  // "https://github.com/vultr/cloud-init",
-  // "https://github.com/vultr/api-postman-collection",
-  // "https://github.com/vultr/terraform-datalib-vultr",
-  // "https://github.com/vultr/helm-charts",
-  // "https://github.com/run-ai/docs",
-  // "https://github.com/run-ai/runai-model-streamer",
-  // "https://github.com/run-ai/genv",
-  // "https://github.com/run-ai/rntop",
-  // "https://github.com/run-ai/scale-test-tool",
-  // "https://github.com/run-ai/fake-gpu-operator",
-  // "https://github.com/run-ai/llmperf",
-  // "https://github.com/run-ai/runai-samples",
-  // "https://github.com/run-ai/k8s-launcher",
-  // "https://github.com/run-ai/jupyterlab_genv",
-  // "https://github.com/run-ai/chatbot-ui",
-  // "https://github.com/run-ai/kwok-operator",
-  // "https://github.com/run-ai/vscode-genv",
-  // "https://github.com/run-ai/models",
-  // "https://github.com/run-ai/rntop-board",
-  // "https://github.com/octoml/octoml-profile",
-  // "https://github.com/octoml/macho-dyld",
-  // "https://github.com/octoml/public-tvm-docker",
-  // "https://github.com/octoml/synr",
-  // "https://github.com/octoml/octoai-textgen-cookbook",
-  // "https://github.com/octoml/Apple-M1-BERT",
-  // "https://github.com/octoml/relax",
-  // "https://github.com/octoml/triton-client-rs",
-  // "https://github.com/octoml/deformable-attention-kernel",
-  // "https://github.com/octoml/mlcommons-inference",
-  // "https://github.com/octoml/tvm2onnx",
-  // "https://github.com/octoml/fern-config",
-  // "https://github.com/octoml/octoml-llm-qa",
-  // "https://github.com/octoml/dockercon23-octoai",
-  // "https://github.com/octoml/mlc-llm",
-  // "https://github.com/octoml/octoai-apps",
-  // "https://github.com/octoml/qualcomm",
-  // "https://github.com/octoml/LLM-RAG-Examples",
-  // "https://github.com/octoml/tvm-build",
-  // "https://github.com/octoml/ck",
-  // "https://github.com/octoml/cm-mlops",
-  // "https://github.com/octoml/octoai-template-apps",
-  // "https://github.com/octoml/mlperf-loadgen-harness",
-  // "https://github.com/octoml/models",
-  // "https://github.com/octoml/mlops",
-  // "https://github.com/octoml/octoml-examples",
-
-  "https://github.com/rust-nvml/nvml-wrapper",
-];
-
 export const johannesRecUserNames: string[] = [
   "https://github.com/jon-chuang",
   "https://github.com/srevinsaju",
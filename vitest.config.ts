@@ -0,0 +1,24 @@
+import os from "os";
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Tests run against the in-memory fakes in src/graph-scraper/core/providers/fakes.
+// Replay mode turns any request that slips past them into a CacheMissError
+// instead of a real API call.
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    env: {
+      COMPANY_PROFILE: "rogo",
+      HTTP_CACHE: "replay",
+      HTTP_CACHE_DIR: path.join(os.tmpdir(), "gh-scout-test-http-cache"),
+      GITHUB_ACCESS_TOKENS: "",
+      GITHUB_ACCESS_TOKEN: "",
+      OPENAI_API_KEY: "test",
+      RAPIDAPI_KEY: "test",
+      BRAVE_API_KEY: "test",
+      GOOGLE_API_KEY: "test",
+    },
+    testTimeout: 30000,
+  },
+});